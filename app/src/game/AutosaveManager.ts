@@ -0,0 +1,235 @@
+/**
+ * AutosaveManager keeps rolling scene snapshots in IndexedDB so a crash or reload does not lose work.
+ * - Scene changes (objects, layers, favorites, bookmarks, tiles) schedule a save a few seconds later, run when the
+ *   browser is idle so serialization stays off the render path
+ * - A periodic save catches anything the change subscriptions miss; unchanged scenes are skipped
+ * - Only the newest MAX_SNAPSHOTS snapshots are kept
+ * - Explicit saves (scene file downloads) and answered recovery prompts are recorded, so startup
+ *   only offers recovery when an autosave is newer than both
+ */
+
+import { subscribe } from 'valtio'
+import type { AutosaveSnapshot } from '../types'
+import { gameStore } from '../store/gameStore'
+import { SceneSerializer } from './SceneSerializer'
+
+const DB_NAME = 'pixy-autosave'
+const DB_VERSION = 1
+const SNAPSHOT_STORE = 'snapshots'
+const META_STORE = 'meta'
+
+const MAX_SNAPSHOTS = 5
+const CHANGE_DELAY_MS = 3000      // Save this long after the first change of a burst
+const INTERVAL_MS = 60000         // Periodic save
+const IDLE_TIMEOUT_MS = 2000      // Longest wait for an idle period before saving anyway
+
+export class AutosaveManager {
+  private db: Promise<IDBDatabase | null>
+  private unsubscribers: Array<() => void> = []
+  private changeTimer: number | null = null
+  private intervalTimer: number | null = null
+  private lastSignature: string | null = null
+  private isSaving = false
+  private visibilityHandler = () => {
+    if (document.visibilityState === 'hidden') {
+      void this.save()
+    }
+  }
+
+  public onSnapshotsChanged: (() => void) | null = null
+
+  constructor() {
+    this.db = AutosaveManager.openDatabase()
+  }
+
+  /**
+   * Start watching the scene. The current scene counts as saved, so an untouched
+   * (e.g. empty startup) scene never pushes out an older snapshot.
+   */
+  public start(): void {
+    if (this.intervalTimer !== null) return
+    this.lastSignature = AutosaveManager.getSignature(SceneSerializer.serialize())
+
+    const onChange = () => this.scheduleSave()
+    this.unsubscribers = [
+      subscribe(gameStore.geometry.objects, onChange),
+      subscribe(gameStore.geometry.groups, onChange),
+      subscribe(gameStore.geometry.favorites, onChange),
+      subscribe(gameStore.camera.bookmarks, onChange),
+      subscribe(gameStore.tileMap.chunks, onChange),
+      subscribe(gameStore.tileMap.palette, onChange)
+    ]
+    this.intervalTimer = window.setInterval(() => this.saveWhenIdle(), INTERVAL_MS)
+    document.addEventListener('visibilitychange', this.visibilityHandler)
+    console.log('AutosaveManager: Started')
+  }
+
+  public stop(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+    if (this.changeTimer !== null) window.clearTimeout(this.changeTimer)
+    if (this.intervalTimer !== null) window.clearInterval(this.intervalTimer)
+    this.changeTimer = null
+    this.intervalTimer = null
+    document.removeEventListener('visibilitychange', this.visibilityHandler)
+  }
+
+  /**
+   * Write a snapshot now if the scene changed since the last one. Returns true when one was written.
+   */
+  public async save(): Promise<boolean> {
+    const db = await this.db
+    if (!db || this.isSaving) return false
+
+    const doc = SceneSerializer.serialize()
+    const signature = AutosaveManager.getSignature(doc)
+    if (signature === this.lastSignature) return false
+
+    this.isSaving = true
+    try {
+      const snapshot: AutosaveSnapshot = {
+        id: doc.savedAt,
+        savedAt: doc.savedAt,
+        objectCount: doc.objects.length,
+        json: JSON.stringify(doc)
+      }
+      await AutosaveManager.request(db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE).put(snapshot))
+      this.lastSignature = signature
+      await this.pruneSnapshots(db)
+      console.log(`AutosaveManager: Saved snapshot with ${snapshot.objectCount} objects`)
+      this.onSnapshotsChanged?.()
+      return true
+    } catch (error) {
+      console.warn('AutosaveManager: Autosave failed', error)
+      return false
+    } finally {
+      this.isSaving = false
+    }
+  }
+
+  /**
+   * Stored snapshots, newest first
+   */
+  public async getSnapshots(): Promise<AutosaveSnapshot[]> {
+    const db = await this.db
+    if (!db) return []
+    const snapshots = await AutosaveManager.request<AutosaveSnapshot[]>(
+      db.transaction(SNAPSHOT_STORE, 'readonly').objectStore(SNAPSHOT_STORE).getAll()
+    )
+    return snapshots.sort((a, b) => b.savedAt - a.savedAt)
+  }
+
+  /**
+   * Replace the current scene with a snapshot.
+   * Throws a descriptive Error if the snapshot is missing or cannot be loaded.
+   */
+  public async restore(snapshotId: number): Promise<void> {
+    const snapshot = (await this.getSnapshots()).find(candidate => candidate.id === snapshotId)
+    if (!snapshot) {
+      throw new Error('Autosave restore failed: snapshot not found')
+    }
+    SceneSerializer.load(snapshot.json)
+    // The restored scene is what the snapshot holds - no need to save it again
+    this.lastSignature = AutosaveManager.getSignature(SceneSerializer.serialize())
+    console.log(`AutosaveManager: Restored snapshot from ${new Date(snapshot.savedAt).toLocaleString()}`)
+  }
+
+  /**
+   * Newest snapshot made after the last explicit save and the last recovery prompt (null if none)
+   */
+  public async getRecoveryCandidate(): Promise<AutosaveSnapshot | null> {
+    const [newest] = await this.getSnapshots()
+    if (!newest || newest.objectCount === 0) return null
+
+    const lastExplicitSave = await this.getMeta('lastExplicitSave')
+    const lastAcknowledged = await this.getMeta('lastAcknowledged')
+    return newest.savedAt > Math.max(lastExplicitSave, lastAcknowledged) ? newest : null
+  }
+
+  /**
+   * Record that the scene was saved to a file. The saved scene also counts as the last autosave,
+   * so a pending save of the same content does not write a snapshot newer than the file.
+   */
+  public async markExplicitSave(): Promise<void> {
+    this.lastSignature = AutosaveManager.getSignature(SceneSerializer.serialize())
+    await this.setMeta('lastExplicitSave', Date.now())
+  }
+
+  /**
+   * Record that the user answered the recovery prompt, so the same snapshots are not offered again
+   */
+  public async acknowledgeRecovery(): Promise<void> {
+    await this.setMeta('lastAcknowledged', Date.now())
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  private scheduleSave(): void {
+    if (this.changeTimer !== null) return
+    this.changeTimer = window.setTimeout(() => {
+      this.changeTimer = null
+      this.saveWhenIdle()
+    }, CHANGE_DELAY_MS)
+  }
+
+  private saveWhenIdle(): void {
+    requestIdleCallback(() => void this.save(), { timeout: IDLE_TIMEOUT_MS })
+  }
+
+  private async pruneSnapshots(db: IDBDatabase): Promise<void> {
+    const expired = (await this.getSnapshots()).slice(MAX_SNAPSHOTS)
+    if (expired.length === 0) return
+    const store = db.transaction(SNAPSHOT_STORE, 'readwrite').objectStore(SNAPSHOT_STORE)
+    await Promise.all(expired.map(snapshot => AutosaveManager.request(store.delete(snapshot.id))))
+  }
+
+  private async getMeta(key: string): Promise<number> {
+    const db = await this.db
+    if (!db) return 0
+    const value = await AutosaveManager.request<number | undefined>(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).get(key))
+    return value ?? 0
+  }
+
+  private async setMeta(key: string, value: number): Promise<void> {
+    const db = await this.db
+    if (!db) return
+    await AutosaveManager.request(db.transaction(META_STORE, 'readwrite').objectStore(META_STORE).put(value, key))
+  }
+
+  /**
+   * Scene content without the parts that change on their own (save time, camera)
+   */
+  private static getSignature(doc: ReturnType<typeof SceneSerializer.serialize>): string {
+    return JSON.stringify({ ...doc, savedAt: 0, camera: null })
+  }
+
+  private static openDatabase(): Promise<IDBDatabase | null> {
+    return new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        console.warn('AutosaveManager: IndexedDB is not available - autosave disabled')
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const db = request.result
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'id' })
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE)
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.warn('AutosaveManager: Could not open IndexedDB - autosave disabled', request.error)
+        resolve(null)
+      }
+    })
+  }
+
+  private static request<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    })
+  }
+}
@@ -1,7 +1,7 @@
 import { MeshSimple, Shader, Texture } from 'pixi.js'
 import type { ViewportCorners } from '../types'
 import { CoordinateHelper } from './CoordinateHelper'
-import { gameStore, updateGameStore, createVertexCoordinate } from '../store/gameStore'
+import { gameStore, updateGameStore, createVertexCoordinate, createScreenCoordinate } from '../store/gameStore'
 
 /**
  * Mesh-based background grid renderer
@@ -47,11 +47,17 @@ export class BackgroundGridRenderer {
           varying vec2 vGridPos;
           
           uniform float uPixeloidScale;
+          uniform float uIsometric;
           
           void main() {
+            // Mesh positions are screen-aligned (screen / scale); in isometric mode
+            // un-project them so each grid square becomes a 2:1 diamond tile
+            vec2 isoPos = vec2(vGridPos.y + vGridPos.x * 0.5, vGridPos.y - vGridPos.x * 0.5);
+            vec2 vertexPos = mix(vGridPos, isoPos, uIsometric);
+            
             // Calculate checkerboard pattern based on grid position
             // Each quad represents a 1x1 grid square
-            vec2 gridCoord = floor(vGridPos);
+            vec2 gridCoord = floor(vertexPos);
             float checker = mod(gridCoord.x + gridCoord.y, 2.0);
             
             // Light and dark colors for checkerboard (matching original BackgroundGridRenderer)
@@ -67,7 +73,8 @@ export class BackgroundGridRenderer {
       },
       resources: {
         uTexture: Texture.WHITE.source,
-        uPixeloidScale: 1.0
+        uPixeloidScale: 1.0,
+        uIsometric: 0.0
       }
     })
   }
@@ -98,6 +105,7 @@ export class BackgroundGridRenderer {
     // Update shader uniforms
     if (this.shader) {
       this.shader.resources.uPixeloidScale = pixeloidScale
+      this.shader.resources.uIsometric = gameStore.camera.projection === 'isometric' ? 1.0 : 0.0
     }
   }
   
@@ -330,10 +338,9 @@ export class BackgroundGridRenderer {
     // Get local coordinates relative to the mesh
     const localPos = event.getLocalPosition(this.mesh)
     
-    // Since the mesh is constructed with vertex coordinates,
-    // the local position IS the vertex coordinate
-    const vertexX = Math.floor(localPos.x)
-    const vertexY = Math.floor(localPos.y)
+    // The mesh is built in screen-aligned units (screen / scale), so un-project
+    // through the active camera projection to get the vertex under the pointer
+    const { x: vertexX, y: vertexY } = this.localToVertex(localPos)
     
     // Update store with vertex position (no conversion needed!)
     gameStore.mouse.vertex_position.x = vertexX
@@ -363,8 +370,7 @@ export class BackgroundGridRenderer {
     
     // Get local coordinates for wheel event
     const localPos = event.getLocalPosition(this.mesh)
-    const vertexX = Math.floor(localPos.x)
-    const vertexY = Math.floor(localPos.y)
+    const { x: vertexX, y: vertexY } = this.localToVertex(localPos)
     
     // Delegate to InputManager for zoom handling
     if ((globalThis as any).inputManager) {
@@ -372,6 +378,19 @@ export class BackgroundGridRenderer {
     }
   }
 
+  /**
+   * Convert a mesh-local position to the integer vertex it falls in
+   * Local units are screen pixels divided by pixeloid scale (unit scale here)
+   */
+  private localToVertex(localPos: { x: number, y: number }): { x: number, y: number } {
+    const vertex = CoordinateHelper.screenToVertex(
+      createScreenCoordinate(localPos.x, localPos.y),
+      1,
+      CoordinateHelper.getCurrentProjection()
+    )
+    return { x: Math.floor(vertex.x), y: Math.floor(vertex.y) }
+  }
+
   /**
    * Get the mesh for adding to render layer
    */
@@ -1,6 +1,7 @@
 import { Graphics } from 'pixi.js'
 import { gameStore } from '../store/gameStore'
 import { CoordinateCalculations } from './CoordinateCalculations'
+import { GeometryHelper } from './GeometryHelper'
 import type { ViewportCorners, GeometricObject } from '../types'
 
 /**
@@ -54,47 +55,8 @@ export class BoundingBoxRenderer {
   private convertObjectToVertexCoordinates(obj: GeometricObject): GeometricObject {
     const offset = gameStore.mesh.vertex_to_pixeloid_offset
     
-    // Convert object coordinates to vertex space using EXACT conversion (no rounding)
-    if ('centerX' in obj && 'centerY' in obj) {
-      // Circle
-      return {
-        ...obj,
-        centerX: obj.centerX - offset.x,  // EXACT conversion, no rounding
-        centerY: obj.centerY - offset.y
-      } as GeometricObject
-    } else if ('x' in obj && 'width' in obj) {
-      // Rectangle
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      } as GeometricObject
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line
-      return {
-        ...obj,
-        startX: obj.startX - offset.x,  // EXACT conversion, no rounding
-        startY: obj.startY - offset.y,
-        endX: obj.endX - offset.x,
-        endY: obj.endY - offset.y
-      } as GeometricObject
-    } else if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond
-      return {
-        ...obj,
-        anchorX: obj.anchorX - offset.x,  // EXACT conversion, no rounding
-        anchorY: obj.anchorY - offset.y
-      } as GeometricObject
-    } else if ('x' in obj && 'y' in obj) {
-      // Point
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      } as GeometricObject
-    }
-    
-    return obj
+    // Convert object vertices to vertex space using EXACT conversion (no rounding)
+    return { ...obj, ...GeometryHelper.translateObject(obj, -offset.x, -offset.y) }
   }
 
   /**
@@ -165,8 +127,20 @@ export class BoundingBoxRenderer {
     const strokeAlpha = isPartiallyVisible ? 1.0 : 0.8
     const strokeColor = isPartiallyVisible ? 0xff8800 : 0xff0000 // Orange for partial, red for full
 
+    if (gameStore.camera.projection === 'isometric') {
+      // Bounds are a pixeloid-space box, which projects to a diamond-shaped quad
+      const corners = [
+        [vertexX, vertexY], [vertexX + width, vertexY], [vertexX + width, vertexY + height], [vertexX, vertexY + height]
+      ].flatMap(([x, y]) => {
+        const screen = CoordinateCalculations.vertexToScreen({ __brand: 'vertex', x, y }, pixeloidScale, 'isometric')
+        return [screen.x, screen.y]
+      })
+      this.graphics.poly(corners)
+    } else {
+      this.graphics.rect(screenPos.x, screenPos.y, screenWidth, screenHeight)
+    }
+
     this.graphics
-      .rect(screenPos.x, screenPos.y, screenWidth, screenHeight)
       .fill({
         color: 0xff0000,  // Red fill for easy distinction
         alpha: fillAlpha
@@ -0,0 +1,154 @@
+/**
+ * CameraAnimator flies the camera to a view instead of jumping there.
+ * - Tweens the pixeloid at the screen centre and the zoom with ease-in-out timing, so the view
+ *   glides towards the target while zooming; scale steps stay integers like wheel zoom
+ * - A target scale refused by canZoomToScale is dropped - the camera only pans to the view's centre
+ * - WASD / Space movement and wheel zoom cancel a running flight
+ * - Ticked from the game loop (Game.update)
+ */
+
+import type { CameraBookmark } from '../types'
+import { gameStore, updateGameStore, createPixeloidCoordinate, createScreenCoordinate } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+
+export interface CameraView {
+  offset: { x: number, y: number }   // vertex_to_pixeloid_offset
+  pixeloidScale: number
+}
+
+interface CameraFlight {
+  fromCenter: { x: number, y: number }
+  toCenter: { x: number, y: number }
+  fromScale: number
+  toScale: number
+  elapsed: number
+  duration: number
+}
+
+const DEFAULT_DURATION = 0.6  // seconds
+
+export class CameraAnimator {
+  private static flight: CameraFlight | null = null
+
+  /**
+   * Start flying to a view (replaces any running flight). A duration of 0 jumps immediately.
+   */
+  static flyTo(view: CameraView, duration = DEFAULT_DURATION): void {
+    const fromScale = gameStore.camera.pixeloid_scale
+    const requestedScale = Math.max(1, Math.min(100, Math.round(view.pixeloidScale)))
+    const zoomCheck = updateGameStore.canZoomToScale(requestedScale)
+    if (!zoomCheck.allowed) {
+      console.warn(`CameraAnimator: Keeping scale ${fromScale} - ${zoomCheck.reason}`)
+    }
+
+    CameraAnimator.flight = {
+      fromCenter: CameraAnimator.getViewCenter(gameStore.mesh.vertex_to_pixeloid_offset, fromScale),
+      toCenter: CameraAnimator.getViewCenter(view.offset, requestedScale),
+      fromScale,
+      toScale: zoomCheck.allowed ? requestedScale : fromScale,
+      elapsed: 0,
+      duration: Math.max(0, duration)
+    }
+    CameraAnimator.update(0)
+  }
+
+  static flyToBookmark(bookmarkId: string, duration = DEFAULT_DURATION): boolean {
+    const bookmark: CameraBookmark | undefined = gameStore.camera.bookmarks.find(candidate => candidate.id === bookmarkId)
+    if (!bookmark) {
+      console.warn(`CameraAnimator: Bookmark ${bookmarkId} not found`)
+      return false
+    }
+    CameraAnimator.flyTo(bookmark, duration)
+    return true
+  }
+
+  /**
+   * Fly to centre an object on screen at the current zoom
+   */
+  static flyToObject(objectId: string, duration = DEFAULT_DURATION): boolean {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    if (!object?.metadata) {
+      console.warn(`CameraAnimator: Cannot fly to object ${objectId} - object not found or missing metadata`)
+      return false
+    }
+    const scale = gameStore.camera.pixeloid_scale
+    const screenCenterVertex = CameraAnimator.getScreenCenterVertex(scale)
+    CameraAnimator.flyTo({
+      offset: {
+        x: object.metadata.center.x - screenCenterVertex.x,
+        y: object.metadata.center.y - screenCenterVertex.y
+      },
+      pixeloidScale: scale
+    }, duration)
+    return true
+  }
+
+  static cancel(): void {
+    CameraAnimator.flight = null
+  }
+
+  static isAnimating(): boolean {
+    return CameraAnimator.flight !== null
+  }
+
+  /**
+   * Advance the running flight - deltaTime in seconds
+   */
+  static update(deltaTime: number): void {
+    const flight = CameraAnimator.flight
+    if (!flight) return
+
+    // Manual camera movement takes over
+    const keys = gameStore.input.keys
+    if (keys.w || keys.a || keys.s || keys.d || keys.space) {
+      CameraAnimator.cancel()
+      return
+    }
+
+    flight.elapsed += deltaTime
+    const progress = flight.duration > 0 ? Math.min(1, flight.elapsed / flight.duration) : 1
+    const eased = CameraAnimator.easeInOutCubic(progress)
+
+    // Zoom is interpolated geometrically so each step feels the same at any scale
+    const scale = Math.round(flight.fromScale * Math.pow(flight.toScale / flight.fromScale, eased))
+    if (scale !== gameStore.camera.pixeloid_scale) {
+      updateGameStore.setPixeloidScale(scale)
+    }
+
+    const actualScale = gameStore.camera.pixeloid_scale
+    const screenCenterVertex = CameraAnimator.getScreenCenterVertex(actualScale)
+    updateGameStore.setVertexToPixeloidOffset(createPixeloidCoordinate(
+      flight.fromCenter.x + (flight.toCenter.x - flight.fromCenter.x) * eased - screenCenterVertex.x,
+      flight.fromCenter.y + (flight.toCenter.y - flight.fromCenter.y) * eased - screenCenterVertex.y
+    ))
+
+    if (progress >= 1) {
+      CameraAnimator.flight = null
+      console.log(`CameraAnimator: Arrived at scale ${actualScale}`)
+    }
+  }
+
+  static easeInOutCubic(t: number): number {
+    return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Pixeloid shown at the screen centre for an offset and scale
+   */
+  private static getViewCenter(offset: { x: number, y: number }, scale: number): { x: number, y: number } {
+    const screenCenterVertex = CameraAnimator.getScreenCenterVertex(scale)
+    return { x: offset.x + screenCenterVertex.x, y: offset.y + screenCenterVertex.y }
+  }
+
+  private static getScreenCenterVertex(scale: number): { x: number, y: number } {
+    return CoordinateCalculations.screenToVertex(
+      createScreenCoordinate(gameStore.windowWidth / 2, gameStore.windowHeight / 2),
+      scale,
+      gameStore.camera.projection
+    )
+  }
+}
@@ -3,7 +3,8 @@ import type {
   PixeloidCoordinate, 
   VertexCoordinate, 
   ScreenCoordinate, 
-  ViewportBounds 
+  ViewportBounds,
+  CameraProjection
 } from '../types'
 
 /**
@@ -19,11 +20,26 @@ export class CoordinateCalculations {
   
   /**
    * Screen ↔ Vertex (vertex (0,0) always at screen (0,0))
+   *
+   * Orthographic: one vertex unit is pixeloidScale pixels on both axes.
+   * Isometric (2:1 dimetric): the vertex X axis runs down-right and the Y axis
+   * down-left, so each pixeloid becomes a diamond 2*scale wide and 1*scale tall.
    */
   static screenToVertex(
     screen: ScreenCoordinate, 
-    pixeloidScale: number
+    pixeloidScale: number,
+    projection: CameraProjection = 'orthographic'
   ): VertexCoordinate {
+    if (projection === 'isometric') {
+      const u = screen.x / pixeloidScale
+      const v = screen.y / pixeloidScale
+      return {
+        __brand: 'vertex',
+        x: v + u / 2,
+        y: v - u / 2
+      }
+    }
+    
     return {
       __brand: 'vertex',
       x: screen.x / pixeloidScale,
@@ -33,8 +49,17 @@ export class CoordinateCalculations {
   
   static vertexToScreen(
     vertex: VertexCoordinate,
-    pixeloidScale: number
+    pixeloidScale: number,
+    projection: CameraProjection = 'orthographic'
   ): ScreenCoordinate {
+    if (projection === 'isometric') {
+      return {
+        __brand: 'screen',
+        x: (vertex.x - vertex.y) * pixeloidScale,
+        y: (vertex.x + vertex.y) * pixeloidScale / 2
+      }
+    }
+    
     return {
       __brand: 'screen', 
       x: vertex.x * pixeloidScale,
@@ -73,19 +98,21 @@ export class CoordinateCalculations {
   static screenToPixeloid(
     screen: ScreenCoordinate,
     pixeloidScale: number,
-    offset: PixeloidCoordinate
+    offset: PixeloidCoordinate,
+    projection: CameraProjection = 'orthographic'
   ): PixeloidCoordinate {
-    const vertex = this.screenToVertex(screen, pixeloidScale)
+    const vertex = this.screenToVertex(screen, pixeloidScale, projection)
     return this.vertexToPixeloid(vertex, offset)
   }
   
   static pixeloidToScreen(
     pixeloid: PixeloidCoordinate,
     pixeloidScale: number, 
-    offset: PixeloidCoordinate
+    offset: PixeloidCoordinate,
+    projection: CameraProjection = 'orthographic'
   ): ScreenCoordinate {
     const vertex = this.pixeloidToVertex(pixeloid, offset)
-    return this.vertexToScreen(vertex, pixeloidScale)
+    return this.vertexToScreen(vertex, pixeloidScale, projection)
   }
   
   // ================================
@@ -99,7 +126,8 @@ export class CoordinateCalculations {
     screenSize: { width: number, height: number },
     pixeloidScale: number,
     worldPosition: PixeloidCoordinate,
-    offset: PixeloidCoordinate
+    offset: PixeloidCoordinate,
+    projection: CameraProjection = 'orthographic'
   ): ViewportBounds {
     // Screen bounds
     const screenCenter: ScreenCoordinate = {
@@ -116,12 +144,32 @@ export class CoordinateCalculations {
       y: screenSize.height 
     }
     
-    const topLeftWorld = this.screenToPixeloid(topLeftScreen, pixeloidScale, offset)
-    const bottomRightWorld = this.screenToPixeloid(bottomRightScreen, pixeloidScale, offset)
+    // Calculate vertex bounds (isometric: axis-aligned box around all four projected corners)
+    let topLeftVertex = this.screenToVertex(topLeftScreen, pixeloidScale, projection)
+    let bottomRightVertex = this.screenToVertex(bottomRightScreen, pixeloidScale, projection)
+    
+    if (projection === 'isometric') {
+      const topRightVertex = this.screenToVertex(
+        { __brand: 'screen', x: screenSize.width, y: 0 }, pixeloidScale, projection
+      )
+      const bottomLeftVertex = this.screenToVertex(
+        { __brand: 'screen', x: 0, y: screenSize.height }, pixeloidScale, projection
+      )
+      const vertexCorners = [topLeftVertex, topRightVertex, bottomRightVertex, bottomLeftVertex]
+      topLeftVertex = {
+        __brand: 'vertex',
+        x: Math.min(...vertexCorners.map(v => v.x)),
+        y: Math.min(...vertexCorners.map(v => v.y))
+      }
+      bottomRightVertex = {
+        __brand: 'vertex',
+        x: Math.max(...vertexCorners.map(v => v.x)),
+        y: Math.max(...vertexCorners.map(v => v.y))
+      }
+    }
     
-    // Calculate vertex bounds
-    const topLeftVertex = this.screenToVertex(topLeftScreen, pixeloidScale)
-    const bottomRightVertex = this.screenToVertex(bottomRightScreen, pixeloidScale)
+    const topLeftWorld = this.vertexToPixeloid(topLeftVertex, offset)
+    const bottomRightWorld = this.vertexToPixeloid(bottomRightVertex, offset)
     
     return {
       screen: {
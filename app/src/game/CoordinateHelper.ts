@@ -1,6 +1,7 @@
 import type {
   PixeloidCoordinate,
-  ViewportBounds
+  ViewportBounds,
+  CameraProjection
 } from '../types'
 import { CoordinateCalculations } from './CoordinateCalculations'
 import { gameStore } from '../store/gameStore'
@@ -43,6 +44,10 @@ export class CoordinateHelper {
     return gameStore.camera.pixeloid_scale
   }
   
+  static getCurrentProjection(): CameraProjection {
+    return gameStore.camera.projection
+  }
+  
   static getCurrentViewportBounds(): ViewportBounds {
     return gameStore.camera.viewport_bounds
   }
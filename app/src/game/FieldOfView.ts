@@ -0,0 +1,171 @@
+/**
+ * FieldOfView computes which pixeloid cells can be seen from an origin cell.
+ * - Recursive shadowcasting (Bergström) over the eight octants; cells count as visible when any part
+ *   of them is inside an unobstructed light cone and their center is within the sight radius
+ * - Obstacles are the collision cells used by pathfinding (Pathfinder.getObstacles); blocking cells
+ *   are visible themselves but hide everything behind them
+ * - update() drives the FOV tool: while it is active the FOV follows gameStore.mouse.pixeloid_position
+ */
+
+import type { PixeloidCoordinate } from '../types'
+import { subscribe } from 'valtio'
+import { gameStore, updateGameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { Pathfinder, type PathObstacles } from './Pathfinder'
+
+// Octant transforms: (column, row) in octant space -> (x, y) offset from the origin
+const OCTANTS: Array<[number, number, number, number]> = [
+  [1, 0, 0, 1], [0, 1, 1, 0], [0, -1, 1, 0], [-1, 0, 0, 1],
+  [-1, 0, 0, -1], [0, -1, -1, 0], [0, 1, -1, 0], [1, 0, 0, -1]
+]
+
+// Derived from the scene and kept outside the proxy (see update)
+let visibleCells = new Set<string>()
+let cachedObstacles: PathObstacles | null = null
+let obstacleSettingsKey = ''
+let fovKey = ''
+let isSceneStale = true
+
+export class FieldOfView {
+  /**
+   * Recompute the tool's FOV when the mouse cell, the radius or the scene changed - called every frame
+   */
+  static update(): void {
+    const fov = gameStore.geometry.fieldOfView
+    if (gameStore.geometry.drawing.mode !== 'fov') {
+      if (fov.origin) {
+        visibleCells = new Set()
+        fovKey = ''
+        updateGameStore.setFieldOfViewResult(null, 0)
+      }
+      return
+    }
+
+    const mouse = gameStore.mouse.pixeloid_position
+    const origin = createPixeloidCoordinate(Math.floor(mouse.x), Math.floor(mouse.y))
+    const { samplingMode, maxPixeloidsPerObject } = gameStore.meshRegistry.meshSettings
+    const settingsKey = `${samplingMode}:${maxPixeloidsPerObject}`
+    const currentKey = `${origin.x},${origin.y}:${fov.settings.radius}:${settingsKey}`
+    if (currentKey === fovKey && !isSceneStale) return
+
+    // Obstacle cells depend on the settings of the occupancy meshes
+    if (isSceneStale || !cachedObstacles || obstacleSettingsKey !== settingsKey) {
+      cachedObstacles = Pathfinder.getObstacles()
+      obstacleSettingsKey = settingsKey
+      isSceneStale = false
+    }
+    fovKey = currentKey
+    visibleCells = FieldOfView.compute(origin, fov.settings.radius, cachedObstacles)
+    updateGameStore.setFieldOfViewResult(origin, visibleCells.size)
+  }
+
+  /**
+   * Cells of the tool's current FOV ("x,y" keys, empty outside the FOV tool)
+   */
+  static getVisibleCells(): ReadonlySet<string> {
+    return visibleCells
+  }
+
+  /**
+   * Visible cells ("x,y" keys) from the origin cell within radius pixeloids (positions are floored to cells)
+   */
+  static compute(
+    origin: PixeloidCoordinate,
+    radius: number,
+    obstacles: PathObstacles = Pathfinder.getObstacles()
+  ): Set<string> {
+    const originX = Math.floor(origin.x)
+    const originY = Math.floor(origin.y)
+    const visible = new Set<string>([`${originX},${originY}`])
+    const range = Math.max(0, Math.floor(radius))
+
+    for (const octant of OCTANTS) {
+      FieldOfView.castLight(originX, originY, 1, 1, 0, range, radius * radius, octant, obstacles.cells, visible)
+    }
+    return visible
+  }
+
+  /**
+   * Whether the target cell is visible from the origin cell (nothing blocks the sight line)
+   */
+  static hasLineOfSight(
+    origin: PixeloidCoordinate,
+    target: PixeloidCoordinate,
+    obstacles: PathObstacles = Pathfinder.getObstacles()
+  ): boolean {
+    const dx = Math.floor(target.x) - Math.floor(origin.x)
+    const dy = Math.floor(target.y) - Math.floor(origin.y)
+    const visible = FieldOfView.compute(origin, Math.sqrt(dx * dx + dy * dy), obstacles)
+    return visible.has(`${Math.floor(target.x)},${Math.floor(target.y)}`)
+  }
+
+  /**
+   * Scan one octant row by row, narrowing the lit slope range [endSlope, startSlope] at every obstacle
+   * and recursing into the part of the cone left of each blocking run
+   */
+  private static castLight(
+    originX: number,
+    originY: number,
+    row: number,
+    startSlope: number,
+    endSlope: number,
+    range: number,
+    radiusSquared: number,
+    [xx, xy, yx, yy]: [number, number, number, number],
+    blocked: Set<string>,
+    visible: Set<string>
+  ): void {
+    if (startSlope < endSlope) return
+
+    let nextStartSlope = startSlope
+    for (let distance = row; distance <= range; distance++) {
+      let isInBlockingRun = false
+      const dy = -distance
+
+      for (let dx = -distance; dx <= 0; dx++) {
+        // Slopes through the cell's left and right corners
+        const leftSlope = (dx - 0.5) / (dy + 0.5)
+        const rightSlope = (dx + 0.5) / (dy - 0.5)
+        if (startSlope < rightSlope) continue
+        if (endSlope > leftSlope) break
+
+        const x = originX + dx * xx + dy * xy
+        const y = originY + dx * yx + dy * yy
+        const key = `${x},${y}`
+        if (dx * dx + dy * dy <= radiusSquared) {
+          visible.add(key)
+        }
+
+        const isBlocked = blocked.has(key)
+        if (isInBlockingRun) {
+          if (isBlocked) {
+            nextStartSlope = rightSlope
+            continue
+          }
+          isInBlockingRun = false
+          startSlope = nextStartSlope
+        } else if (isBlocked && distance < range) {
+          isInBlockingRun = true
+          FieldOfView.castLight(originX, originY, distance + 1, startSlope, leftSlope, range, radiusSquared, [xx, xy, yx, yy], blocked, visible)
+          nextStartSlope = rightSlope
+        }
+      }
+      // The row ended behind an obstacle - the rest of the cone is in its shadow
+      if (isInBlockingRun) break
+    }
+  }
+}
+
+// Object changes that may move, add or remove obstacles - recompute on the next update
+function handleObjectOps(ops: [string, (string | symbol)[], ...unknown[]][]): void {
+  if (Pathfinder.affectsObstacles(ops)) {
+    isSceneStale = true
+  }
+}
+
+// Group visibility may hide or show obstacles - recompute on the next update
+function markSceneStale(): void {
+  isSceneStale = true
+}
+
+subscribe(gameStore.geometry.objects, handleObjectOps, true)
+subscribe(gameStore.geometry.groups, markSceneStale, true)
@@ -0,0 +1,81 @@
+import { Graphics } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { FieldOfView } from './FieldOfView'
+
+/**
+ * FieldOfViewRenderer is the debug overlay of the FOV tool:
+ * - Every visible cell as a translucent cell in settings.color
+ * - The origin cell outlined
+ * Draws at screen coordinates using the same pixeloid → vertex → screen conversion as GeometryRenderer.
+ */
+export class FieldOfViewRenderer {
+  private graphics: Graphics
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Redraw the visible cells of the current FOV
+   */
+  public render(pixeloidScale: number): void {
+    this.graphics.clear()
+
+    const { origin, settings } = gameStore.geometry.fieldOfView
+    if (!origin) return
+
+    const visibleCells = FieldOfView.getVisibleCells()
+    for (const cell of visibleCells) {
+      const [x, y] = cell.split(',').map(Number)
+      this.graphics.poly(this.projectPixeloidCell(x, y, pixeloidScale))
+    }
+    this.graphics.fill({ color: settings.color, alpha: 0.3 })
+
+    this.graphics
+      .poly(this.projectPixeloidCell(origin.x, origin.y, pixeloidScale))
+      .stroke({ width: 2, color: settings.color, alpha: 1 })
+  }
+
+  /**
+   * Screen-space polygon for a single pixeloid cell (diamond in isometric projection)
+   */
+  private projectPixeloidCell(pixeloidX: number, pixeloidY: number, pixeloidScale: number): number[] {
+    const corners = [
+      { x: pixeloidX, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY + 1 },
+      { x: pixeloidX, y: pixeloidY + 1 }
+    ]
+    return corners.flatMap(corner => {
+      const screen = this.pixeloidToScreen(corner.x, corner.y, pixeloidScale)
+      return [screen.x, screen.y]
+    })
+  }
+
+  /**
+   * Convert a pixeloid position to screen coordinates for the current camera
+   */
+  private pixeloidToScreen(pixeloidX: number, pixeloidY: number, pixeloidScale: number): { x: number, y: number } {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    return CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: pixeloidX - offset.x, y: pixeloidY - offset.y },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+  }
+}
@@ -2,6 +2,9 @@ import { Application, Container, extensions, CullerPlugin } from 'pixi.js';
 import { updateGameStore } from '../store/gameStore';
 import { LayeredInfiniteCanvas } from './LayeredInfiniteCanvas';
 import { InputManager } from './InputManager';
+import { CameraAnimator } from './CameraAnimator';
+import { Pathfinder } from './Pathfinder';
+import { FieldOfView } from './FieldOfView';
 import { StorePanel } from '../ui/StorePanel';
 import { StoreExplorer } from '../ui/StoreExplorer';
 
@@ -90,6 +93,15 @@ export class Game {
     // ✅ FIXED: Update movement through InputManager (proper separation of concerns)
     this.inputManager.updateMovement(deltaTime);
 
+    // Advance any running camera fly-to (bookmarks, explorer navigation)
+    CameraAnimator.update(deltaTime);
+
+    // Search again when the path endpoints, settings or obstacles changed
+    Pathfinder.update();
+
+    // Follow the mouse with the field of view while the FOV tool is active
+    FieldOfView.update();
+
     // Render the infinite canvas
     this.infiniteCanvas.render();
   }
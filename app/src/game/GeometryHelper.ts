@@ -4,17 +4,17 @@
  */
 
 import type {
-  GeometricDiamond,
-  GeometricCircle,
-  GeometricRectangle,
-  GeometricLine,
-  GeometricPoint,
+  DiamondShape,
+  LineShape,
   GeometricObject,
   PixeloidCoordinate,
+  PixeloidVertex,
   GeometricMetadata,
   AnchorSnapPoint,
 } from '../types'
 import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
 
 export class GeometryHelper {
 
@@ -46,7 +46,7 @@ export class GeometryHelper {
    * Calculate diamond vertices from diamond properties
    * anchorX = west vertex X position, anchorY = center Y position (east/west level)
    */
-  static calculateDiamondVertices(diamond: GeometricDiamond): {
+  static calculateDiamondVertices(diamond: DiamondShape): {
     west: PixeloidCoordinate
     north: PixeloidCoordinate
     east: PixeloidCoordinate
@@ -136,23 +136,7 @@ export class GeometryHelper {
     }
   } {
     const properties = this.calculateDiamondProperties(startPoint, currentPoint)
-    
-    // Create temporary diamond object for vertex calculation
-    const tempDiamond: GeometricDiamond = {
-      id: 'preview',
-      anchorX: properties.anchorX,
-      anchorY: properties.anchorY,
-      width: properties.width,
-      height: properties.height,
-      color: 0x0066cc,
-      strokeWidth: 2,
-      strokeAlpha: 1.0,
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: this.calculateDiamondMetadata(properties)
-    }
-
-    const vertices = this.calculateDiamondVertices(tempDiamond)
+    const vertices = this.calculateDiamondVertices(properties)
 
     return {
       ...properties,
@@ -227,23 +211,17 @@ export class GeometryHelper {
   }
 
   /**
-   * Check if a point is inside a diamond (for selection)
+   * Check if a point is inside a diamond (for selection) - vertices are [west, north, east, south]
    */
   static isPointInsideDiamond(
     point: PixeloidCoordinate, 
-    diamond: GeometricDiamond
+    vertices: PixeloidVertex[]
   ): boolean {
-    const vertices = this.calculateDiamondVertices(diamond)
+    const [west, north, east, south] = vertices
     
     // Use point-in-polygon algorithm for diamond shape
     // Since diamond is convex, we can use a simpler approach
-    return this.isPointInConvexQuadrilateral(
-      point,
-      vertices.west,
-      vertices.north,
-      vertices.east,
-      vertices.south
-    )
+    return this.isPointInConvexQuadrilateral(point, west, north, east, south)
   }
 
   /**
@@ -375,6 +353,84 @@ export class GeometryHelper {
     }
   }
 
+  /**
+   * Calculate metadata for a polygon or polyline from its vertices
+   * Center is the vertex average, bounds are the exact vertex extents
+   */
+  static calculatePolygonMetadata(shape: { vertices: { x: number; y: number }[] }, createdAtScale: number): GeometricMetadata {
+    const xs = shape.vertices.map(vertex => vertex.x)
+    const ys = shape.vertices.map(vertex => vertex.y)
+    const count = Math.max(1, shape.vertices.length)
+    
+    return {
+      center: {
+        __brand: 'pixeloid',
+        x: xs.reduce((sum, x) => sum + x, 0) / count,
+        y: ys.reduce((sum, y) => sum + y, 0) / count
+      },
+      bounds: {
+        minX: Math.min(...xs),
+        maxX: Math.max(...xs),
+        minY: Math.min(...ys),
+        maxY: Math.max(...ys)
+      },
+      createdAtScale,
+      visibilityCache: new Map()
+    }
+  }
+
+  /**
+   * Calculate metadata for any geometric object, keeping the given creation scale
+   */
+  static calculateObjectMetadata(obj: Pick<GeometricObject, 'type' | 'pixeloidVertices'>, createdAtScale: number): GeometricMetadata {
+    const vertices = obj.pixeloidVertices
+    let metadata: GeometricMetadata
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+        metadata = this.calculatePolygonMetadata({ vertices }, createdAtScale)
+        break
+      case 'diamond':
+        metadata = this.calculateDiamondMetadata(GeometryVertexCalculator.getDiamondShape(vertices))
+        break
+      case 'circle':
+        metadata = this.calculateCircleMetadata(GeometryVertexCalculator.getCircleShape(vertices))
+        break
+      case 'rectangle':
+        metadata = this.calculateRectangleMetadata(GeometryVertexCalculator.getRectangleShape(vertices))
+        break
+      case 'line':
+        metadata = this.calculateLineMetadata(GeometryVertexCalculator.getLineShape(vertices))
+        break
+      default:
+        metadata = this.calculatePointMetadata(GeometryVertexCalculator.getPointShape(vertices))
+    }
+    metadata.createdAtScale = createdAtScale
+    return metadata
+  }
+
+  /**
+   * Get the reference position used when moving an object
+   * (circle center, otherwise the first vertex: path start, diamond west corner, rectangle top-left, line start, point)
+   */
+  static getObjectPosition(obj: GeometricObject): { x: number, y: number } {
+    const vertex = obj.type === 'circle' ? obj.pixeloidVertices[2] : obj.pixeloidVertices[0]
+    return { x: vertex.x, y: vertex.y }
+  }
+
+  /**
+   * Calculate the vertex update that moves an object by (deltaX, deltaY)
+   */
+  static translateObject(obj: GeometricObject, deltaX: number, deltaY: number): Pick<GeometricObject, 'pixeloidVertices'> {
+    return {
+      pixeloidVertices: obj.pixeloidVertices.map(vertex => ({
+        __brand: 'pixeloid' as const,
+        x: vertex.x + deltaX,
+        y: vertex.y + deltaY
+      }))
+    }
+  }
+
   /**
    * Mesh-related helper methods for pixeloid intersection testing
    */
@@ -420,28 +476,33 @@ export class GeometryHelper {
     point: PixeloidCoordinate, 
     obj: GeometricObject
   ): boolean {
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond
-      return this.isPointInsideDiamond(point, obj as GeometricDiamond)
-    } else if ('centerX' in obj && 'centerY' in obj && 'radius' in obj) {
-      // Circle
-      const circle = obj as GeometricCircle
-      const dx = point.x - circle.centerX
-      const dy = point.y - circle.centerY
-      return (dx * dx + dy * dy) <= (circle.radius * circle.radius)
-    } else if ('x' in obj && 'y' in obj && 'width' in obj && 'height' in obj) {
-      // Rectangle
-      const rect = obj as GeometricRectangle
-      return point.x >= rect.x && point.x <= rect.x + rect.width &&
-             point.y >= rect.y && point.y <= rect.y + rect.height
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line - check with tolerance
-      return this.isPointNearLine(point, obj as GeometricLine, 0.5)
-    } else if ('x' in obj && 'y' in obj) {
-      // Point
-      const pointObj = obj as GeometricPoint
-      return Math.floor(pointObj.x) === Math.floor(point.x) && 
-             Math.floor(pointObj.y) === Math.floor(point.y)
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+        // Inside or on an edge
+        return this.isPointInsidePolygon(point, vertices) || this.isPointNearPolyline(point, vertices, true, 0.5)
+      case 'polyline':
+        // On a segment
+        return this.isPointNearPolyline(point, vertices, false, 0.5)
+      case 'diamond':
+        return this.isPointInsideDiamond(point, vertices)
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        const dx = point.x - circle.centerX
+        const dy = point.y - circle.centerY
+        return (dx * dx + dy * dy) <= (circle.radius * circle.radius)
+      }
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return point.x >= rect.x && point.x <= rect.x + rect.width &&
+               point.y >= rect.y && point.y <= rect.y + rect.height
+      }
+      case 'line':
+        // Line - check with tolerance
+        return this.isPointNearLine(point, GeometryVertexCalculator.getLineShape(vertices), 0.5)
+      case 'point':
+        return Math.floor(vertices[0].x) === Math.floor(point.x) && 
+               Math.floor(vertices[0].y) === Math.floor(point.y)
     }
     
     return false
@@ -451,8 +512,8 @@ export class GeometryHelper {
    * Check if a point is near a line within tolerance
    */
   static isPointNearLine(
-    point: PixeloidCoordinate, 
-    line: GeometricLine, 
+    point: { x: number, y: number }, 
+    line: LineShape, 
     tolerance: number
   ): boolean {
     const { startX, startY, endX, endY } = line
@@ -492,6 +553,54 @@ export class GeometryHelper {
     return Math.sqrt(dx * dx + dy * dy) <= tolerance
   }
 
+  /**
+   * Even-odd point-in-polygon test
+   */
+  static isPointInsidePolygon(point: { x: number, y: number }, vertices: PixeloidVertex[]): boolean {
+    let inside = false
+    
+    for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+      const a = vertices[i]
+      const b = vertices[j]
+      if ((a.y > point.y) !== (b.y > point.y) &&
+          point.x < (b.x - a.x) * (point.y - a.y) / (b.y - a.y) + a.x) {
+        inside = !inside
+      }
+    }
+    
+    return inside
+  }
+
+  /**
+   * Check if a point is within tolerance of any segment of a vertex path
+   */
+  static isPointNearPolyline(
+    point: { x: number, y: number },
+    vertices: PixeloidVertex[],
+    closed: boolean,
+    tolerance: number
+  ): boolean {
+    const segmentCount = closed ? vertices.length : vertices.length - 1
+    
+    for (let i = 0; i < segmentCount; i++) {
+      const start = vertices[i]
+      const end = vertices[(i + 1) % vertices.length]
+      const segment: LineShape = { startX: start.x, startY: start.y, endX: end.x, endY: end.y }
+      if (this.isPointNearLine(point, segment, tolerance)) {
+        return true
+      }
+    }
+    
+    // Single-vertex paths degrade to a point check
+    if (vertices.length === 1) {
+      const dx = point.x - vertices[0].x
+      const dy = point.y - vertices[0].y
+      return Math.sqrt(dx * dx + dy * dy) <= tolerance
+    }
+    
+    return false
+  }
+
   /**
    * Calculate pixeloid-aligned bounds for an object
    */
@@ -529,6 +638,10 @@ export class GeometryHelper {
     const bounds = obj.metadata.bounds
     const offset = gameStore.mesh.vertex_to_pixeloid_offset
     
+    if (gameStore.camera.projection === 'isometric') {
+      return this.calculateIsometricVisibilityState(bounds, offset, pixeloidScale)
+    }
+    
     // Convert pixeloid bounds to screen coordinates
     const screenBounds = {
       left: (bounds.minX - offset.x) * pixeloidScale,
@@ -577,18 +690,76 @@ export class GeometryHelper {
     }
   }
 
+  /**
+   * Isometric visibility: project the bounds corners and test their screen AABB.
+   * Partial clipping is not computed because the clipped region is not an
+   * axis-aligned pixeloid rectangle under this projection.
+   */
+  private static calculateIsometricVisibilityState(
+    bounds: { minX: number, maxX: number, minY: number, maxY: number },
+    offset: PixeloidCoordinate,
+    pixeloidScale: number
+  ): {
+    visibility: 'fully-onscreen' | 'partially-onscreen' | 'offscreen'
+    onScreenBounds?: any
+  } {
+    const corners = [
+      [bounds.minX, bounds.minY],
+      [bounds.maxX, bounds.minY],
+      [bounds.maxX, bounds.maxY],
+      [bounds.minX, bounds.maxY]
+    ].map(([x, y]) => CoordinateCalculations.pixeloidToScreen(
+      { __brand: 'pixeloid', x, y },
+      pixeloidScale,
+      offset,
+      'isometric'
+    ))
+    
+    const left = Math.min(...corners.map(c => c.x))
+    const right = Math.max(...corners.map(c => c.x))
+    const top = Math.min(...corners.map(c => c.y))
+    const bottom = Math.max(...corners.map(c => c.y))
+    
+    if (right < 0 || left > gameStore.windowWidth || bottom < 0 || top > gameStore.windowHeight) {
+      return { visibility: 'offscreen' }
+    }
+    
+    return { visibility: 'fully-onscreen' }
+  }
+
   /**
    * Get all pixeloids that intersect with an object
+   * Lines and polylines only test the cells along their segments; other shapes scan their bounding box.
+   * Stops (with a warning) once maxPixeloids cells were found
    */
   static getObjectPixeloids(
     obj: GeometricObject,
-    samplingMode: 'fast' | 'precise' = 'precise'
+    samplingMode: 'fast' | 'precise' = 'precise',
+    maxPixeloids = Infinity
   ): Set<string> {
     const occupiedPixeloids = new Set<string>()
+    // Returns false once the limit is reached
+    const addIfCovered = (worldX: number, worldY: number): boolean => {
+      if (!this.pixeloidIntersectsObject(worldX, worldY, obj, samplingMode)) return true
+      occupiedPixeloids.add(`${worldX},${worldY}`)
+      if (occupiedPixeloids.size < maxPixeloids) return true
+      console.warn(`GeometryHelper: Object ${obj.id} reached the limit of ${maxPixeloids} pixeloids, rest is skipped`)
+      return false
+    }
+
+    if (obj.type === 'line' || obj.type === 'polyline') {
+      const vertices = obj.pixeloidVertices
+      for (let i = 0; i < vertices.length - 1; i++) {
+        if (!this.forEachSegmentCell(vertices[i], vertices[i + 1], addIfCovered)) break
+      }
+      return occupiedPixeloids
+    }
+
     const bounds = this.calculatePixeloidBounds(obj)
     
-    const width = bounds.maxX - bounds.minX
-    const height = bounds.maxY - bounds.minY
+    // At least one row / column so axis-aligned shapes are still scanned
+    const width = Math.max(1, bounds.maxX - bounds.minX)
+    const height = Math.max(1, bounds.maxY - bounds.minY)
     
     // Safety check for extremely large objects
     if (width * height > 50000) {
@@ -599,18 +770,47 @@ export class GeometryHelper {
     // Test each pixeloid in the bounding box
     for (let py = 0; py < height; py++) {
       for (let px = 0; px < width; px++) {
-        const worldX = bounds.minX + px
-        const worldY = bounds.minY + py
-        
-        if (this.pixeloidIntersectsObject(worldX, worldY, obj, samplingMode)) {
-          occupiedPixeloids.add(`${worldX},${worldY}`)
-        }
+        if (!addIfCovered(bounds.minX + px, bounds.minY + py)) return occupiedPixeloids
       }
     }
     
     return occupiedPixeloids
   }
 
+  /**
+   * Visit the cells a segment's 0.5 pixeloid stroke can touch: walk the longer axis cell by cell and
+   * visit the segment's span on the other axis plus one cell on each side.
+   * Stops and returns false as soon as visit returns false.
+   */
+  private static forEachSegmentCell(
+    start: { x: number, y: number },
+    end: { x: number, y: number },
+    visit: (x: number, y: number) => boolean
+  ): boolean {
+    const isSteep = Math.abs(end.y - start.y) > Math.abs(end.x - start.x)
+    // Work in (major, minor) axes so steep segments reuse the same walk
+    const a = isSteep ? { major: start.y, minor: start.x } : { major: start.x, minor: start.y }
+    const b = isSteep ? { major: end.y, minor: end.x } : { major: end.x, minor: end.y }
+    const minMajor = Math.min(a.major, b.major)
+    const maxMajor = Math.max(a.major, b.major)
+    const minorAt = (major: number): number => {
+      if (maxMajor === minMajor) return a.minor
+      const clamped = Math.min(maxMajor, Math.max(minMajor, major))
+      return a.minor + (b.minor - a.minor) * (clamped - a.major) / (b.major - a.major)
+    }
+
+    for (let major = Math.floor(minMajor) - 1; major <= Math.floor(maxMajor) + 1; major++) {
+      const minorA = minorAt(major)
+      const minorB = minorAt(major + 1)
+      const lastMinor = Math.floor(Math.max(minorA, minorB)) + 1
+      for (let minor = Math.floor(Math.min(minorA, minorB)) - 1; minor <= lastMinor; minor++) {
+        const isContinuing = isSteep ? visit(minor, major) : visit(major, minor)
+        if (!isContinuing) return false
+      }
+    }
+    return true
+  }
+
   /**
    * Calculate mesh statistics for an object
    */
@@ -628,32 +828,56 @@ export class GeometryHelper {
     let estimatedPixeloids: number
     let complexity: 'low' | 'medium' | 'high'
     
-    if ('radius' in obj) {
-      // Circle - approximately π * r²
-      const circle = obj as GeometricCircle
-      estimatedPixeloids = Math.floor(Math.PI * circle.radius * circle.radius)
-      complexity = 'medium'
-    } else if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond - approximately 50% of bounding box
-      estimatedPixeloids = Math.floor(boundingBoxPixeloids * 0.5)
-      complexity = 'medium'
-    } else if ('width' in obj && 'height' in obj) {
-      // Rectangle - full bounding box
-      estimatedPixeloids = boundingBoxPixeloids
-      complexity = 'low'
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line - approximate based on length
-      const line = obj as GeometricLine
-      const length = Math.sqrt(
-        Math.pow(line.endX - line.startX, 2) + 
-        Math.pow(line.endY - line.startY, 2)
-      )
-      estimatedPixeloids = Math.ceil(length)
-      complexity = 'low'
-    } else {
-      // Point - always 1
-      estimatedPixeloids = 1
-      complexity = 'low'
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon': {
+        // Shoelace area
+        let area = 0
+        for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+          area += (vertices[j].x + vertices[i].x) * (vertices[j].y - vertices[i].y)
+        }
+        estimatedPixeloids = Math.ceil(Math.abs(area) / 2)
+        complexity = 'medium'
+        break
+      }
+      case 'polyline': {
+        // Approximate based on total segment length
+        let length = 0
+        for (let i = 1; i < vertices.length; i++) {
+          length += Math.hypot(vertices[i].x - vertices[i - 1].x, vertices[i].y - vertices[i - 1].y)
+        }
+        estimatedPixeloids = Math.max(1, Math.ceil(length))
+        complexity = 'low'
+        break
+      }
+      case 'circle': {
+        // Approximately π * r²
+        const { radius } = GeometryVertexCalculator.getCircleShape(vertices)
+        estimatedPixeloids = Math.floor(Math.PI * radius * radius)
+        complexity = 'medium'
+        break
+      }
+      case 'diamond':
+        // Approximately 50% of bounding box
+        estimatedPixeloids = Math.floor(boundingBoxPixeloids * 0.5)
+        complexity = 'medium'
+        break
+      case 'rectangle':
+        // Full bounding box
+        estimatedPixeloids = boundingBoxPixeloids
+        complexity = 'low'
+        break
+      case 'line': {
+        // Approximate based on length
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        estimatedPixeloids = Math.ceil(Math.hypot(line.endX - line.startX, line.endY - line.startY))
+        complexity = 'low'
+        break
+      }
+      default:
+        // Point - always 1
+        estimatedPixeloids = 1
+        complexity = 'low'
     }
     
     // Adjust complexity based on size
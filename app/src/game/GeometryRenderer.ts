@@ -1,20 +1,26 @@
 import { Graphics, Container } from 'pixi.js'
-import { gameStore } from '../store/gameStore'
+import { gameStore, updateGameStore } from '../store/gameStore'
 import { GeometryHelper } from './GeometryHelper'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
 import { CoordinateCalculations } from './CoordinateCalculations'
+import { PixelArtRenderer } from './PixelArtRenderer'
 import { subscribe } from 'valtio'
 import type {
   GeometricObject,
-  GeometricRectangle,
-  GeometricCircle,
-  GeometricLine,
-  GeometricPoint,
-  GeometricDiamond
+  GeometryStyle,
+  PixeloidVertex,
+  PointShape,
+  LineShape,
+  CircleShape,
+  RectangleShape,
+  CameraProjection
 } from '../types'
 
 /**
  * GeometryRenderer handles rendering of user-drawn geometric shapes
  * Uses individual containers for each object for better performance and batching
+ * In pixel render mode the object containers hold PixelArtRenderer cell meshes instead of vector graphics
+ * (the drawing preview and offscreen drawObject() stay vector)
  */
 export class GeometryRenderer {
   private mainContainer: Container = new Container()
@@ -27,7 +33,10 @@ export class GeometryRenderer {
   private objectContainers: Map<string, Container> = new Map()
   private objectGraphics: Map<string, Graphics> = new Map()
   private previewGraphics: Graphics = new Graphics()
+  private pixelArtRenderer: PixelArtRenderer = new PixelArtRenderer()
   
+  // Projection forced by drawObject() for offscreen rendering, null follows the camera
+  private projectionOverride: CameraProjection | null = null
   
   constructor() {
     // Setup container hierarchy
@@ -35,6 +44,10 @@ export class GeometryRenderer {
     this.mainContainer.addChild(this.selectedContainer)
     this.mainContainer.addChild(this.previewGraphics)
     
+    // Object containers are ordered by their zIndex (group z-order, then position within the group)
+    this.normalContainer.sortableChildren = true
+    this.selectedContainer.sortableChildren = true
+    
     // Keep containers clean - no filters in GeometryRenderer (handled by dedicated filter renderers)
     this.selectedContainer.filters = null
     this.normalContainer.filters = null
@@ -56,8 +69,8 @@ export class GeometryRenderer {
       timestamp: Date.now()
     })
 
-    // Get all objects from store
-    const objects = gameStore.geometry.objects
+    // Get objects overlapping the viewport from the spatial index
+    const objects = updateGameStore.queryObjectsInViewport()
     
     // Filter objects using pre-computed visibility state
     const visibleObjects = objects.filter(obj => {
@@ -86,10 +99,16 @@ export class GeometryRenderer {
     
     const currentObjectIds = new Set(visibleObjects.map(obj => obj.id))
 
+    // Drop cached cell meshes when leaving pixel mode
+    if (gameStore.geometry.renderMode !== 'pixel') {
+      this.pixelArtRenderer.clear()
+    }
+
     // Remove objects that are no longer visible or deleted
     for (const [objectId, container] of this.objectContainers) {
       if (!currentObjectIds.has(objectId)) {
         // Clean up container and graphics
+        this.pixelArtRenderer.removeObject(objectId)
         container.removeFromParent()
         container.destroy()
         this.objectContainers.delete(objectId)
@@ -129,12 +148,24 @@ export class GeometryRenderer {
     // Clear and re-render the graphics
     graphics!.clear()
     
-    // ✅ COORDINATE CONVERSION: Convert object from pixeloid to vertex coordinates
-    const convertedObject = this.convertObjectToVertexCoordinates(obj)
+    if (gameStore.geometry.renderMode === 'pixel') {
+      // Cell meshes are cached per object and only re-positioned for the camera
+      const pixelView = this.pixelArtRenderer.getObjectView(obj, pixeloidScale, this.projection)
+      if (pixelView.parent !== objectContainer) {
+        objectContainer.addChild(pixelView)
+      }
+    } else {
+      // ✅ COORDINATE CONVERSION: Convert object from pixeloid to vertex coordinates
+      const convertedObject = this.convertObjectToVertexCoordinates(obj)
+      
+      // Position graphics at (0,0) and draw object at vertex coordinates
+      graphics!.position.set(0, 0)
+      this.renderGeometricObjectToGraphics(convertedObject, pixeloidScale, graphics!)
+    }
     
-    // Position graphics at (0,0) and draw object at vertex coordinates
-    graphics!.position.set(0, 0)
-    this.renderGeometricObjectToGraphics(convertedObject, pixeloidScale, graphics!)
+    // Layer/group ordering and opacity
+    objectContainer.zIndex = updateGameStore.getObjectDrawOrder(obj.id)
+    objectContainer.alpha = updateGameStore.getObjectGroup(obj).opacity
     
     // Assign to appropriate filter container based on selection
     this.assignObjectToFilterContainer(obj.id, objectContainer)
@@ -144,7 +175,7 @@ export class GeometryRenderer {
    * Assign object container to appropriate filter group based on selection state
    */
   private assignObjectToFilterContainer(objectId: string, objectContainer: Container): void {
-    const isSelected = gameStore.geometry.selection.selectedObjectId === objectId
+    const isSelected = gameStore.geometry.selection.selectedObjectIds.includes(objectId)
     
     // Remove from current parent
     objectContainer.removeFromParent()
@@ -182,50 +213,12 @@ export class GeometryRenderer {
    * Convert object from pixeloid coordinates to vertex coordinates using EXACT conversion (no rounding)
    * This prevents geometry anchoring drift during zoom operations
    */
-  private convertObjectToVertexCoordinates(obj: GeometricObject): GeometricObject {
-    const offset = gameStore.mesh.vertex_to_pixeloid_offset
-    
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond object - use exact coordinate conversion
-      return {
-        ...obj,
-        anchorX: obj.anchorX - offset.x,  // EXACT conversion, no rounding
-        anchorY: obj.anchorY - offset.y
-      }
-    } else if ('x' in obj && 'width' in obj && 'height' in obj) {
-      // Rectangle object - use exact coordinate conversion
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      }
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle object - use exact coordinate conversion
-      return {
-        ...obj,
-        centerX: obj.centerX - offset.x,  // EXACT conversion, no rounding
-        centerY: obj.centerY - offset.y
-      }
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line object - convert both points using exact conversion
-      return {
-        ...obj,
-        startX: obj.startX - offset.x,  // EXACT conversion, no rounding
-        startY: obj.startY - offset.y,
-        endX: obj.endX - offset.x,
-        endY: obj.endY - offset.y
-      }
-    } else if ('x' in obj && 'y' in obj) {
-      // Point object - use exact coordinate conversion
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      }
-    }
-    
-    // Fallback - return original object
-    return obj
+  private convertObjectToVertexCoordinates(
+    obj: GeometricObject,
+    offset: { x: number, y: number } = gameStore.mesh.vertex_to_pixeloid_offset
+  ): GeometricObject {
+    // EXACT conversion of every vertex, no rounding
+    return { ...obj, ...GeometryHelper.translateObject(obj, -offset.x, -offset.y) }
   }
 
   /**
@@ -236,97 +229,119 @@ export class GeometryRenderer {
    * Render a single geometric object to specific graphics context
    */
   private renderGeometricObjectToGraphics(obj: GeometricObject, pixeloidScale: number, graphics: Graphics): void {
-    // Type narrowing based on object properties
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      this.renderDiamondToGraphics(obj as GeometricDiamond, pixeloidScale, graphics)
-    } else if ('width' in obj && 'height' in obj) {
-      this.renderRectangleToGraphics(obj as GeometricRectangle, pixeloidScale, graphics)
-    } else if ('radius' in obj) {
-      this.renderCircleToGraphics(obj as GeometricCircle, pixeloidScale, graphics)
-    } else if ('startX' in obj && 'endX' in obj) {
-      this.renderLineToGraphics(obj as GeometricLine, pixeloidScale, graphics)
-    } else if ('x' in obj && 'y' in obj && !('width' in obj)) {
-      this.renderPointToGraphics(obj as GeometricPoint, pixeloidScale, graphics)
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+        this.renderPolygonToGraphics(vertices, obj.type === 'polygon', obj.style, pixeloidScale, graphics)
+        break
+      case 'diamond':
+        this.renderDiamondToGraphics(vertices, obj.style, pixeloidScale, graphics)
+        break
+      case 'rectangle':
+        this.renderRectangleToGraphics(GeometryVertexCalculator.getRectangleShape(vertices), obj.style, pixeloidScale, graphics)
+        break
+      case 'circle':
+        this.renderCircleToGraphics(GeometryVertexCalculator.getCircleShape(vertices), obj.style, pixeloidScale, graphics)
+        break
+      case 'line':
+        this.renderLineToGraphics(GeometryVertexCalculator.getLineShape(vertices), obj.style, pixeloidScale, graphics)
+        break
+      case 'point':
+        this.renderPointToGraphics(GeometryVertexCalculator.getPointShape(vertices), obj.style, pixeloidScale, graphics)
+        break
     }
   }
 
   /**
    * Render a rectangle shape to specific graphics
    */
-  private renderRectangleToGraphics(rect: GeometricRectangle, pixeloidScale: number, graphics: Graphics): void {
+  private renderRectangleToGraphics(rect: RectangleShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert vertex coordinates to screen coordinates
     const topLeft = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: rect.x, y: rect.y },
-      pixeloidScale
+      pixeloidScale,
+      this.projection
     )
     const x = topLeft.x
     const y = topLeft.y
     const width = rect.width * pixeloidScale
     const height = rect.height * pixeloidScale
 
-    // Draw rectangle at screen coordinates
-    graphics.rect(x, y, width, height)
+    // Draw rectangle at screen coordinates (a projected quad in isometric mode)
+    if (this.projection === 'isometric') {
+      graphics.poly(this.projectRectangleCorners(rect.x, rect.y, rect.width, rect.height, pixeloidScale))
+    } else {
+      graphics.rect(x, y, width, height)
+    }
 
     // Apply fill if specified
-    if (rect.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
       graphics.fill({
-        color: rect.fillColor,
-        alpha: rect.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     // Apply stroke (strokeWidth is in pixeloids, multiply by scale)
     graphics.stroke({
-      width: (rect.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: rect.color,
-      alpha: rect.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render a circle shape to specific graphics
    */
-  private renderCircleToGraphics(circle: GeometricCircle, pixeloidScale: number, graphics: Graphics): void {
+  private renderCircleToGraphics(circle: CircleShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert center vertex to screen coordinates
     const center = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: circle.centerX, y: circle.centerY },
-      pixeloidScale
+      pixeloidScale,
+      this.projection
     )
     const centerX = center.x
     const centerY = center.y
     const radius = circle.radius * pixeloidScale
 
-    // Draw circle at screen coordinates
-    graphics.circle(centerX, centerY, radius)
+    // Draw circle at screen coordinates (a 2:1 ellipse in isometric mode)
+    if (this.projection === 'isometric') {
+      graphics.ellipse(centerX, centerY, radius * Math.SQRT2, radius * Math.SQRT2 / 2)
+    } else {
+      graphics.circle(centerX, centerY, radius)
+    }
 
     // Apply fill if specified
-    if (circle.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
       graphics.fill({
-        color: circle.fillColor,
-        alpha: circle.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     // Apply stroke (strokeWidth is in pixeloids, multiply by scale)
     graphics.stroke({
-      width: (circle.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: circle.color,
-      alpha: circle.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render a line shape to specific graphics
    */
-  private renderLineToGraphics(line: GeometricLine, pixeloidScale: number, graphics: Graphics): void {
+  private renderLineToGraphics(line: LineShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert both endpoints to screen coordinates
     const start = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: line.startX, y: line.startY },
-      pixeloidScale
+      pixeloidScale,
+      this.projection
     )
     const end = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: line.endX, y: line.endY },
-      pixeloidScale
+      pixeloidScale,
+      this.projection
     )
 
     // Draw line at screen coordinates
@@ -335,54 +350,59 @@ export class GeometryRenderer {
 
     // Apply stroke (strokeWidth is in pixeloids, multiply by scale)
     graphics.stroke({
-      width: (line.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: line.color,
-      alpha: line.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render a point shape to specific graphics
    */
-  private renderPointToGraphics(point: GeometricPoint, pixeloidScale: number, graphics: Graphics): void {
+  private renderPointToGraphics(point: PointShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert vertex position to screen coordinates
     const pos = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: point.x, y: point.y },
-      pixeloidScale
+      pixeloidScale,
+      this.projection
     )
     
     // Draw point as small circle with fixed pixel size
     const pointRadius = 2  // Fixed pixel size, no scaling needed
     graphics.circle(pos.x, pos.y, pointRadius)
     graphics.fill({
-      color: point.color,
-      alpha: point.strokeAlpha
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render an isometric diamond shape to specific graphics
    */
-  private renderDiamondToGraphics(diamond: GeometricDiamond, pixeloidScale: number, graphics: Graphics): void {
-    // Use centralized geometry calculations (already in vertex coordinates)
-    const vertices = GeometryHelper.calculateDiamondVertices(diamond)
+  private renderDiamondToGraphics(diamondVertices: PixeloidVertex[], style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
+    // Stored vertices (already in vertex coordinates)
+    const [westVertex, northVertex, eastVertex, southVertex] = diamondVertices
     
     // Convert each vertex to screen coordinates
     const west = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.west.x, y: vertices.west.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: westVertex.x, y: westVertex.y },
+      pixeloidScale,
+      this.projection
     )
     const north = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.north.x, y: vertices.north.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: northVertex.x, y: northVertex.y },
+      pixeloidScale,
+      this.projection
     )
     const east = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.east.x, y: vertices.east.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: eastVertex.x, y: eastVertex.y },
+      pixeloidScale,
+      this.projection
     )
     const south = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.south.x, y: vertices.south.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: southVertex.x, y: southVertex.y },
+      pixeloidScale,
+      this.projection
     )
     
     // Draw diamond shape using screen coordinates
@@ -393,21 +413,91 @@ export class GeometryRenderer {
     graphics.lineTo(west.x, west.y)    // Back to West (close)
 
     // Apply fill if specified
-    if (diamond.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
+      graphics.fill({
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
+      })
+    }
+
+    // Apply stroke (strokeWidth is in pixeloids, multiply by scale)
+    graphics.stroke({
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
+    })
+  }
+
+  /**
+   * Render a polygon (closed, optionally filled) or polyline (open) to specific graphics
+   */
+  private renderPolygonToGraphics(vertices: PixeloidVertex[], closed: boolean, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
+    // Convert each vertex to screen coordinates
+    const points = vertices.flatMap(vertex => {
+      const screen = CoordinateCalculations.vertexToScreen(
+        { __brand: 'vertex' as const, x: vertex.x, y: vertex.y },
+        pixeloidScale,
+        this.projection
+      )
+      return [screen.x, screen.y]
+    })
+    if (points.length < 4) return
+
+    graphics.poly(points, closed)
+
+    // Apply fill if specified (polygons only)
+    if (closed && style.fillColor !== undefined) {
       graphics.fill({
-        color: diamond.fillColor,
-        alpha: diamond.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     // Apply stroke (strokeWidth is in pixeloids, multiply by scale)
     graphics.stroke({
-      width: (diamond.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: diamond.color,
-      alpha: diamond.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
+  /**
+   * Project the four corners of a vertex-space rectangle to screen coordinates
+   */
+  private projectRectangleCorners(x: number, y: number, width: number, height: number, pixeloidScale: number): number[] {
+    const corners = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ]
+    return corners.flatMap(corner => {
+      const screen = CoordinateCalculations.vertexToScreen(
+        { __brand: 'vertex' as const, x: corner.x, y: corner.y },
+        pixeloidScale,
+        this.projection
+      )
+      return [screen.x, screen.y]
+    })
+  }
+
+  /**
+   * Draw an object top-down into external graphics, with the pixeloid `origin` at (0,0).
+   * Used for offscreen rendering (PngExporter) so exports match the canvas drawing.
+   */
+  public drawObject(obj: GeometricObject, origin: { x: number, y: number }, pixeloidScale: number, graphics: Graphics): void {
+    this.projectionOverride = 'orthographic'
+    try {
+      this.renderGeometricObjectToGraphics(this.convertObjectToVertexCoordinates(obj, origin), pixeloidScale, graphics)
+    } finally {
+      this.projectionOverride = null
+    }
+  }
+
+  private get projection(): CameraProjection {
+    return this.projectionOverride ?? gameStore.camera.projection
+  }
+
   /**
    * Get the main container for adding to layer
    */
@@ -463,7 +553,8 @@ export class GeometryRenderer {
     const renderVertices = vertexVertices.map(vertex =>
       CoordinateCalculations.vertexToScreen(
         { __brand: 'vertex' as const, x: vertex.x, y: vertex.y },
-        pixeloidScale
+        pixeloidScale,
+        this.projection
       )
     )
 
@@ -495,10 +586,14 @@ export class GeometryRenderer {
         
       case 'circle':
         if (renderVertices.length >= 3) {
-          const [west, east, center] = renderVertices
-          const radius = Math.abs(east.x - west.x) / 2
+          const [, , center] = renderVertices
+          const radius = Math.abs(preview.vertices[1].x - preview.vertices[0].x) / 2 * pixeloidScale
           if (radius > 0) {
-            this.previewGraphics.circle(center.x, center.y, radius)
+            if (this.projection === 'isometric') {
+              this.previewGraphics.ellipse(center.x, center.y, radius * Math.SQRT2, radius * Math.SQRT2 / 2)
+            } else {
+              this.previewGraphics.circle(center.x, center.y, radius)
+            }
             
             // Apply fill if enabled
             if (preview.style.fillColor !== undefined) {
@@ -519,12 +614,12 @@ export class GeometryRenderer {
         
       case 'rectangle':
         if (renderVertices.length >= 4) {
-          const [topLeft, topRight, , bottomLeft] = renderVertices
+          const [topLeft, topRight, , bottomLeft] = vertexVertices
           const width = topRight.x - topLeft.x
           const height = bottomLeft.y - topLeft.y
           
-          if (width >= 1 && height >= 1) {
-            this.previewGraphics.rect(topLeft.x, topLeft.y, width, height)
+          if (width * pixeloidScale >= 1 && height * pixeloidScale >= 1) {
+            this.previewGraphics.poly(this.projectRectangleCorners(topLeft.x, topLeft.y, width, height, pixeloidScale))
             
             // Apply fill if enabled
             if (preview.style.fillColor !== undefined) {
@@ -567,6 +662,38 @@ export class GeometryRenderer {
           })
         }
         break
+        
+      case 'polygon':
+      case 'polyline':
+        if (renderVertices.length >= 2) {
+          // Close the preview once the polygon has an area (placed vertices + cursor)
+          const closed = preview.type === 'polygon' && renderVertices.length >= 3
+          this.previewGraphics.poly(renderVertices.flatMap(vertex => [vertex.x, vertex.y]), closed)
+          
+          // Apply fill if enabled
+          if (closed && preview.style.fillColor !== undefined) {
+            this.previewGraphics.fill({
+              color: preview.style.fillColor,
+              alpha: previewAlpha * (preview.style.fillAlpha ?? 0.5)
+            })
+          }
+          
+          this.previewGraphics.stroke({
+            width: preview.style.strokeWidth * pixeloidScale,
+            color: preview.style.color,
+            alpha: previewAlpha * preview.style.strokeAlpha
+          })
+        }
+        
+        // Mark placed vertices so the path is readable while drawing
+        for (const vertex of renderVertices.slice(0, -1)) {
+          this.previewGraphics.circle(vertex.x, vertex.y, 2)
+        }
+        this.previewGraphics.fill({
+          color: preview.style.color,
+          alpha: previewAlpha * preview.style.strokeAlpha
+        })
+        break
     }
   }
 
@@ -575,6 +702,9 @@ export class GeometryRenderer {
    * Clean up resources
    */
   public destroy(): void {
+    // Destroy cached pixel-art meshes
+    this.pixelArtRenderer.destroy()
+    
     // Destroy all object graphics
     for (const graphics of this.objectContainers.values()) {
       graphics.destroy()
@@ -13,7 +13,13 @@ import type {
   PixeloidCoordinate,
   PixeloidVertex,
   PixeloidAnchorPoint,
-  AnchorConfig
+  AnchorConfig,
+  GeometricObjectType,
+  PointShape,
+  LineShape,
+  CircleShape,
+  RectangleShape,
+  DiamondShape
 } from '../types'
 import { gameStore } from '../store/gameStore'
 
@@ -43,6 +49,20 @@ export class GeometryVertexCalculator {
     }
   }
 
+  /**
+   * Anchor a vertex, unless object snapping already placed it exactly (or there is no anchor)
+   */
+  static anchorVertex(
+    pixeloidPos: PixeloidCoordinate,
+    anchorPoint: PixeloidAnchorPoint | undefined,
+    exact: boolean = false
+  ): PixeloidVertex {
+    if (exact || !anchorPoint) {
+      return { __brand: 'pixeloid', x: pixeloidPos.x, y: pixeloidPos.y }
+    }
+    return this.snapToPixeloidAnchor(pixeloidPos, anchorPoint)
+  }
+
   /**
    * Calculate vertices for a point (single vertex)
    */
@@ -50,7 +70,7 @@ export class GeometryVertexCalculator {
     clickPos: PixeloidCoordinate,
     anchorConfig: AnchorConfig
   ): PixeloidVertex[] {
-    const anchoredVertex = this.snapToPixeloidAnchor(clickPos, anchorConfig.firstPointAnchor)
+    const anchoredVertex = this.anchorVertex(clickPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)
     return [anchoredVertex]
   }
 
@@ -62,7 +82,7 @@ export class GeometryVertexCalculator {
     secondPos: PixeloidCoordinate,
     anchorConfig: AnchorConfig
   ): PixeloidVertex[] {
-    const startVertex = this.snapToPixeloidAnchor(firstPos, anchorConfig.firstPointAnchor)
+    const startVertex = this.anchorVertex(firstPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)
     // For lines, second point can be anywhere (no anchoring constraint)
     const endVertex: PixeloidVertex = { __brand: 'pixeloid', x: secondPos.x, y: secondPos.y }
     
@@ -79,12 +99,10 @@ export class GeometryVertexCalculator {
     anchorConfig: AnchorConfig
   ): PixeloidVertex[] {
     // First click determines west vertex
-    const westVertex = this.snapToPixeloidAnchor(firstPos, anchorConfig.firstPointAnchor)
+    const westVertex = this.anchorVertex(firstPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)
     
     // Second position determines east vertex (can use anchor or be exact)
-    const eastVertex = anchorConfig.secondPointAnchor 
-      ? this.snapToPixeloidAnchor(secondPos, anchorConfig.secondPointAnchor)
-      : { __brand: 'pixeloid', x: secondPos.x, y: secondPos.y } as PixeloidVertex
+    const eastVertex = this.anchorVertex(secondPos, anchorConfig.secondPointAnchor, anchorConfig.secondPointExact)
     
     // Calculate center as midpoint of west/east vertices
     const center: PixeloidVertex = {
@@ -106,12 +124,10 @@ export class GeometryVertexCalculator {
     anchorConfig: AnchorConfig
   ): PixeloidVertex[] {
     // First click determines one corner
-    const firstCorner = this.snapToPixeloidAnchor(firstPos, anchorConfig.firstPointAnchor)
+    const firstCorner = this.anchorVertex(firstPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)
     
     // Second position determines opposite corner
-    const oppositeCorner = anchorConfig.secondPointAnchor
-      ? this.snapToPixeloidAnchor(secondPos, anchorConfig.secondPointAnchor)
-      : { __brand: 'pixeloid', x: secondPos.x, y: secondPos.y } as PixeloidVertex
+    const oppositeCorner = this.anchorVertex(secondPos, anchorConfig.secondPointAnchor, anchorConfig.secondPointExact)
     
     // Calculate all 4 corners
     const minX = Math.min(firstCorner.x, oppositeCorner.x)
@@ -138,12 +154,10 @@ export class GeometryVertexCalculator {
     anchorConfig: AnchorConfig
   ): PixeloidVertex[] {
     // Anchor the west vertex using top-left anchoring
-    const westVertex = this.snapToPixeloidAnchor(firstPos, anchorConfig.firstPointAnchor)
+    const westVertex = this.anchorVertex(firstPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)
     
     // East vertex: X from mouse drag, Y LOCKED to same as west vertex
-    const eastX = anchorConfig.secondPointAnchor
-      ? this.snapToPixeloidAnchor(secondPos, anchorConfig.secondPointAnchor).x
-      : secondPos.x
+    const eastX = this.anchorVertex(secondPos, anchorConfig.secondPointAnchor, anchorConfig.secondPointExact).x
     const eastVertex: PixeloidVertex = {
       __brand: 'pixeloid',
       x: eastX,
@@ -171,15 +185,27 @@ export class GeometryVertexCalculator {
   }
 
   /**
-   * Get anchor configuration for geometry type with optional per-object override
+   * Calculate vertices for a polygon / polyline being drawn:
+   * the vertices placed so far plus the snapped cursor position as the trailing vertex
+   */
+  static calculatePathVertices(
+    placedVertices: PixeloidVertex[],
+    currentPos: PixeloidCoordinate,
+    anchorConfig: AnchorConfig
+  ): PixeloidVertex[] {
+    return [...placedVertices, this.anchorVertex(currentPos, anchorConfig.firstPointAnchor, anchorConfig.firstPointExact)]
+  }
+
+  /**
+   * Get anchor configuration for geometry type, or the object's own anchorConfig when objectId is given
    * STORE-DRIVEN: Reads from store instead of hardcoded values
    */
   static getAnchorConfig(geometryType: string, objectId?: string): AnchorConfig {
-    // Check for per-object override first
+    // An existing object keeps the anchors it was created or re-anchored with
     if (objectId) {
-      const objectOverride = gameStore.geometry.anchoring.objectOverrides.get(objectId)
-      if (objectOverride) {
-        return objectOverride
+      const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+      if (object) {
+        return object.anchorConfig
       }
     }
     
@@ -189,6 +215,9 @@ export class GeometryVertexCalculator {
     // Build AnchorConfig based on geometry type
     switch (geometryType) {
       case 'point':
+      case 'polygon':
+      case 'polyline':
+        // Every path vertex is snapped with the same anchor
         return { firstPointAnchor: defaultAnchor }
       case 'line':
       case 'circle':
@@ -237,54 +266,114 @@ export class GeometryVertexCalculator {
     }
   }
 
+  // ================================
+  // SHAPE PARAMETERS <-> VERTICES
+  // ================================
+
   /**
-   * Extract useful properties from calculated vertices for legacy compatibility
+   * Number of vertices a type needs (exact for fixed shapes, minimum for paths)
    */
-  static extractGeometryProperties(
-    vertices: PixeloidVertex[],
-    geometryType: string
-  ): any {
-    switch (geometryType) {
-      case 'point':
-        return { x: vertices[0].x, y: vertices[0].y }
-      
-      case 'line':
-        return {
-          startX: vertices[0].x,
-          startY: vertices[0].y,
-          endX: vertices[1].x,
-          endY: vertices[1].y
-        }
-      
-      case 'circle':
-        const [west, east, center] = vertices
-        const radius = Math.abs(east.x - west.x) / 2
-        return {
-          centerX: center.x,
-          centerY: center.y,
-          radius
-        }
-      
+  static getMinVertexCount(type: GeometricObjectType): number {
+    switch (type) {
+      case 'point': return 1
+      case 'line': return 2
+      case 'circle': return 3
       case 'rectangle':
-        const [topLeft, topRight, , bottomLeft] = vertices
-        return {
-          x: topLeft.x,
-          y: topLeft.y,
-          width: topRight.x - topLeft.x,
-          height: bottomLeft.y - topLeft.y
-        }
-      
-      case 'diamond':
-        const [westV, northV, eastV, southV] = vertices
-        return {
-          anchorX: westV.x,  // West vertex as anchor
-          anchorY: westV.y,
-          width: eastV.x - westV.x,
-          height: (southV.y - northV.y) / 2
-        }
-      
-      default:
-        return {}
+      case 'diamond': return 4
+      case 'polygon': return 3
+      case 'polyline': return 2
+    }
+  }
+
+  /**
+   * Whether a type is a closed shape that can carry a fill
+   */
+  static isFillable(type: GeometricObjectType): boolean {
+    return type === 'circle' || type === 'rectangle' || type === 'diamond' || type === 'polygon'
+  }
+
+  /**
+   * Vertices of a point at a position
+   */
+  static toPointVertices(point: PointShape): PixeloidVertex[] {
+    return [{ __brand: 'pixeloid', x: point.x, y: point.y }]
+  }
+
+  static toLineVertices(line: LineShape): PixeloidVertex[] {
+    return [
+      { __brand: 'pixeloid', x: line.startX, y: line.startY },
+      { __brand: 'pixeloid', x: line.endX, y: line.endY }
+    ]
+  }
+
+  /**
+   * Circle vertices in drawing layout: [west, east, center]
+   */
+  static toCircleVertices(circle: CircleShape): PixeloidVertex[] {
+    const { centerX, centerY, radius } = circle
+    return [
+      { __brand: 'pixeloid', x: centerX - radius, y: centerY },
+      { __brand: 'pixeloid', x: centerX + radius, y: centerY },
+      { __brand: 'pixeloid', x: centerX, y: centerY }
+    ]
+  }
+
+  /**
+   * Rectangle corners: [top-left, top-right, bottom-right, bottom-left]
+   */
+  static toRectangleVertices(rectangle: RectangleShape): PixeloidVertex[] {
+    const { x, y, width, height } = rectangle
+    return [
+      { __brand: 'pixeloid', x, y },
+      { __brand: 'pixeloid', x: x + width, y },
+      { __brand: 'pixeloid', x: x + width, y: y + height },
+      { __brand: 'pixeloid', x, y: y + height }
+    ]
+  }
+
+  /**
+   * Diamond corners: [west, north, east, south]
+   */
+  static toDiamondVertices(diamond: DiamondShape): PixeloidVertex[] {
+    const { anchorX, anchorY, width, height } = diamond
+    const centerX = anchorX + width / 2
+    return [
+      { __brand: 'pixeloid', x: anchorX, y: anchorY },
+      { __brand: 'pixeloid', x: centerX, y: anchorY - height },
+      { __brand: 'pixeloid', x: anchorX + width, y: anchorY },
+      { __brand: 'pixeloid', x: centerX, y: anchorY + height }
+    ]
+  }
+
+  static getPointShape(vertices: PixeloidVertex[]): PointShape {
+    return { x: vertices[0].x, y: vertices[0].y }
+  }
+
+  static getLineShape(vertices: PixeloidVertex[]): LineShape {
+    const [start, end] = vertices
+    return { startX: start.x, startY: start.y, endX: end.x, endY: end.y }
+  }
+
+  static getCircleShape(vertices: PixeloidVertex[]): CircleShape {
+    const [west, east, center] = vertices
+    return { centerX: center.x, centerY: center.y, radius: Math.abs(east.x - west.x) / 2 }
+  }
+
+  static getRectangleShape(vertices: PixeloidVertex[]): RectangleShape {
+    const xs = vertices.map(vertex => vertex.x)
+    const ys = vertices.map(vertex => vertex.y)
+    const x = Math.min(...xs)
+    const y = Math.min(...ys)
+    return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+  }
+
+  static getDiamondShape(vertices: PixeloidVertex[]): DiamondShape {
+    const [west, north, east, south] = vertices
+    return {
+      anchorX: west.x,
+      anchorY: west.y,
+      width: east.x - west.x,
+      height: (south.y - north.y) / 2
     }
   }
-}
\ No newline at end of file
+}
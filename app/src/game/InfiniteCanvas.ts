@@ -2,6 +2,7 @@ import { Container, Graphics } from 'pixi.js'
 import { gameStore, updateGameStore, createPixeloidCoordinate } from '../store/gameStore'
 import type { PixeloidCoordinate } from '../types'
 import { CoordinateHelper } from './CoordinateHelper'
+import { CameraAnimator } from './CameraAnimator'
 
 export class InfiniteCanvas {
   private container: Container
@@ -105,6 +106,9 @@ export class InfiniteCanvas {
    * Handle zoom input (mouse wheel) with batching and mouse-centered zooming
    */
   public handleZoom(deltaY: number, mouseScreenX?: number, mouseScreenY?: number): void {
+    // Wheel zoom takes over from a running fly-to
+    CameraAnimator.cancel()
+    
     // Capture and lock pixeloid position on first event
     if (!this.lockedZoomPixeloid && mouseScreenX !== undefined && mouseScreenY !== undefined) {
       // Use the store's mouse pixeloid position - it's already correctly maintained by BackgroundGridRenderer!
@@ -203,9 +207,12 @@ export class InfiniteCanvas {
     const mouseScreenX = this.zoomTargetScreen.x
     const mouseScreenY = this.zoomTargetScreen.y
     
-    // Convert mouse screen position to vertex coordinates at NEW scale
-    const mouseVertexX = mouseScreenX / newScale
-    const mouseVertexY = mouseScreenY / newScale
+    // Convert mouse screen position to vertex coordinates at NEW scale (projection-aware)
+    const { x: mouseVertexX, y: mouseVertexY } = CoordinateHelper.screenToVertex(
+      { __brand: 'screen', x: mouseScreenX, y: mouseScreenY },
+      newScale,
+      CoordinateHelper.getCurrentProjection()
+    )
     
     // Calculate the offset that keeps the locked pixeloid at the mouse position
     // offset = pixeloid - vertex (at mouse position)
@@ -256,7 +263,12 @@ export class InfiniteCanvas {
       // Recalculate viewport corners when size changes
       this.syncToStore()
     }
-    
+
+    // Adopt scale changes made directly through the store (e.g. scene load)
+    if (this.localPixeloidScale !== gameStore.camera.pixeloid_scale && this.zoomBatchTimeout === null) {
+      this.localPixeloidScale = gameStore.camera.pixeloid_scale
+    }
+
     // Update camera transform
     this.cameraTransform.scale.set(this.localPixeloidScale)
     const transformPosition = CoordinateHelper.calculateCameraTransformPosition(
@@ -1,8 +1,13 @@
 import { updateGameStore, gameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
 import { GeometryHelper } from './GeometryHelper'
 import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import { ObjectHandleHelper } from './ObjectHandleHelper'
+import { KeybindingRegistry, type KeyAction } from './KeybindingRegistry'
+import { ObjectSnapper } from './ObjectSnapper'
+import { TileMapHelper } from './TileMapHelper'
 import type { InfiniteCanvas } from './InfiniteCanvas'
-import type { GeometricRectangle, GeometricPoint, GeometricLine, GeometricCircle, GeometricDiamond, PixeloidCoordinate } from '../types'
+import type { AnchorConfig, GeometricObject, LineShape, PixeloidCoordinate } from '../types'
 
 export class InputManager {
   private canvas: HTMLCanvasElement | null = null
@@ -17,12 +22,31 @@ export class InputManager {
   private dragStartPosition: { x: number, y: number } | null = null
   private dragObjectId: string | null = null
   private dragObjectOriginalPosition: { x: number, y: number } | null = null
-  private dragObjectOriginalEnd: { x: number, y: number } | null = null
+  private dragOriginalObjects: Map<string, GeometricObject> = new Map()
+
+  // Handle dragging state (reshaping the primary selected object)
+  private isDraggingHandle: boolean = false
+  private dragHandleId: string | null = null
+  private dragHandleOriginalObject: GeometricObject | null = null
+
+  // Raycast tool state (ray being dragged out in raycast mode)
+  private activeRaycastId: string | null = null
+
+  // Pathfinding tool state (goal being dragged in pathfinding mode)
+  private isDraggingPathGoal: boolean = false
+
+  // Tile brush state (stroke being painted in tiles mode)
+  private isPaintingTiles: boolean = false
+  private lastPaintedCell: { x: number, y: number } | null = null
   
   // Store bound handlers for cleanup
   private keydownHandler: (event: KeyboardEvent) => void = () => {}
   private keyupHandler: (event: KeyboardEvent) => void = () => {}
+  private blurHandler: () => void = () => {}
+  private keyActionIds: string[] = []
   private contextMenuHandler: (event: Event) => void = () => {}
+  private windowPointerUpHandler: (event: PointerEvent) => void = () => {}
+  private windowPointerCancelHandler: () => void = () => {}
   
   // Track last key states for pixeloid-perfect movement
   private lastKeys = {
@@ -54,14 +78,32 @@ export class InputManager {
   private setupEventListeners(): void {
     if (!this.canvas) return
 
-    // Bind handlers - NO MOUSE EVENTS
-    this.keydownHandler = this.handleKeyDown.bind(this)
-    this.keyupHandler = this.handleKeyUp.bind(this)
+    // Bind handlers - NO MOUSE EVENTS (keys are dispatched through the KeybindingRegistry)
+    this.registerKeyActions()
+    this.keydownHandler = (event) => KeybindingRegistry.handleKeyDown(event)
+    this.keyupHandler = (event) => KeybindingRegistry.handleKeyUp(event)
+    this.blurHandler = () => KeybindingRegistry.releaseAll()
     this.contextMenuHandler = (e) => e.preventDefault()
+    // The mesh only sees releases over the canvas - end drags and box selections released anywhere else
+    this.windowPointerUpHandler = (event) => {
+      if (event.button === 0) {
+        this.endPointerInteraction(gameStore.mouse.pixeloid_position)
+      }
+    }
+    this.windowPointerCancelHandler = () => {
+      if (gameStore.geometry.selection.marquee) {
+        updateGameStore.cancelSelectionMarquee()
+      } else {
+        this.endPointerInteraction(gameStore.mouse.pixeloid_position)
+      }
+    }
 
-    // Add ONLY keyboard and context menu listeners
+    // Add ONLY keyboard, context menu and pointer release listeners
     document.addEventListener('keydown', this.keydownHandler)
     document.addEventListener('keyup', this.keyupHandler)
+    window.addEventListener('blur', this.blurHandler)
+    window.addEventListener('pointerup', this.windowPointerUpHandler)
+    window.addEventListener('pointercancel', this.windowPointerCancelHandler)
     this.canvas.addEventListener('contextmenu', this.contextMenuHandler)
     
     // Focus canvas to receive keyboard events
@@ -72,89 +114,117 @@ export class InputManager {
   }
 
   /**
-   * Handle keyboard key press
-   * ✅ CLEANED: WASD movement now handled by InfiniteCanvas offset system
+   * Register the canvas shortcuts with the KeybindingRegistry (which handles rebinding and
+   * keeps them from firing while typing in panel inputs)
    */
-  private handleKeyDown(event: KeyboardEvent): void {
-    const key = event.key.toLowerCase()
-    
-    switch (key) {
-      case 'w':
-        updateGameStore.setKeyState('w', true)
-        event.preventDefault()
-        break
-      case 'a':
-        updateGameStore.setKeyState('a', true)
-        event.preventDefault()
-        break
-      case 's':
-        updateGameStore.setKeyState('s', true)
-        event.preventDefault()
-        break
-      case 'd':
-        updateGameStore.setKeyState('d', true)
-        event.preventDefault()
-        break
-      case ' ':
-        updateGameStore.setKeyState('space', true)
-        event.preventDefault()
-        break
-      case 'delete':
-        // Delete selected object
-        if (gameStore.geometry.selection.selectedObjectId) {
-          updateGameStore.removeGeometricObject(gameStore.geometry.selection.selectedObjectId)
-          updateGameStore.clearSelection()
-          event.preventDefault()
+  private registerKeyActions(): void {
+    const register = (action: KeyAction) => {
+      KeybindingRegistry.register(action)
+      this.keyActionIds.push(action.id)
+    }
+    const holdKey = (id: string, label: string, key: keyof typeof gameStore.input.keys, binding: string) => {
+      register({
+        id,
+        label,
+        category: 'Camera',
+        context: 'canvas',
+        defaultBindings: [binding],
+        onPress: () => updateGameStore.setKeyState(key, true),
+        onRelease: () => updateGameStore.setKeyState(key, false)
+      })
+    }
+    holdKey('camera.up', 'Move camera up', 'w', 'W')
+    holdKey('camera.left', 'Move camera left', 'a', 'A')
+    holdKey('camera.down', 'Move camera down', 's', 'S')
+    holdKey('camera.right', 'Move camera right', 'd', 'D')
+    holdKey('camera.recenter', 'Recenter camera', 'space', 'Space')
+
+    register({
+      id: 'edit.undo',
+      label: 'Undo',
+      category: 'Edit',
+      context: 'canvas',
+      defaultBindings: ['Ctrl+Z'],
+      onPress: () => {
+        if (!this.isDragging && !this.isDraggingHandle) {
+          updateGameStore.undo()
         }
-        break
-      case 'c':
-        // Copy selected object
-        if (gameStore.geometry.selection.selectedObjectId) {
-          const success = updateGameStore.copySelectedObject()
-          if (success) {
-            console.log('InputManager: Copied selected object')
-          }
-          event.preventDefault()
+      }
+    })
+    register({
+      id: 'edit.redo',
+      label: 'Redo',
+      category: 'Edit',
+      context: 'canvas',
+      defaultBindings: ['Ctrl+Shift+Z', 'Ctrl+Y'],
+      onPress: () => {
+        if (!this.isDragging && !this.isDraggingHandle) {
+          updateGameStore.redo()
         }
-        break
-      case 'v':
-        // Paste object at mouse position
-        if (gameStore.geometry.clipboard.copiedObject) {
-          const mousePos = gameStore.mouse.pixeloid_position
-          const newObject = updateGameStore.pasteObjectAtPosition(mousePos.x, mousePos.y)
-          if (newObject) {
-            console.log(`InputManager: Pasted object at (${mousePos.x.toFixed(1)}, ${mousePos.y.toFixed(1)})`)
-          }
-          event.preventDefault()
+      }
+    })
+    register({
+      id: 'edit.delete',
+      label: 'Delete selected objects',
+      category: 'Edit',
+      context: 'canvas',
+      defaultBindings: ['Delete'],
+      onPress: () => {
+        if (gameStore.geometry.selection.selectedObjectIds.length === 0) return false
+        updateGameStore.deleteSelectedObjects()
+      }
+    })
+    register({
+      id: 'edit.copy',
+      label: 'Copy selected objects',
+      category: 'Edit',
+      context: 'canvas',
+      defaultBindings: ['C'],
+      onPress: () => {
+        if (gameStore.geometry.selection.selectedObjectIds.length === 0) return false
+        if (updateGameStore.copySelectedObject()) {
+          console.log('InputManager: Copied selected objects')
         }
-        break
-    }
-  }
-
-  /**
-   * Handle keyboard key release
-   * ✅ CLEANED: WASD movement now handled by InfiniteCanvas offset system
-   */
-  private handleKeyUp(event: KeyboardEvent): void {
-    const key = event.key.toLowerCase()
-    
-    switch (key) {
-      case 'w':
-        updateGameStore.setKeyState('w', false)
-        break
-      case 'a':
-        updateGameStore.setKeyState('a', false)
-        break
-      case 's':
-        updateGameStore.setKeyState('s', false)
-        break
-      case 'd':
-        updateGameStore.setKeyState('d', false)
-        break
-      case ' ':
-        updateGameStore.setKeyState('space', false)
-        break
-    }
+      }
+    })
+    register({
+      id: 'edit.paste',
+      label: 'Paste at mouse position',
+      category: 'Edit',
+      context: 'canvas',
+      defaultBindings: ['V'],
+      onPress: () => {
+        if (gameStore.geometry.clipboard.copiedObjects.length === 0) return false
+        const mousePos = gameStore.mouse.pixeloid_position
+        const pastedObjects = updateGameStore.pasteObjectAtPosition(mousePos.x, mousePos.y)
+        if (pastedObjects) {
+          console.log(`InputManager: Pasted ${pastedObjects.length} objects at (${mousePos.x.toFixed(1)}, ${mousePos.y.toFixed(1)})`)
+        }
+      }
+    })
+    register({
+      id: 'draw.finishPath',
+      label: 'Finish polygon / polyline',
+      category: 'Drawing',
+      context: 'canvas',
+      defaultBindings: ['Enter'],
+      onPress: () => {
+        const drawingType = gameStore.geometry.drawing.activeDrawing.type
+        if (drawingType !== 'polygon' && drawingType !== 'polyline') return false
+        this.finishPathDrawing()
+      }
+    })
+    register({
+      id: 'ui.leaveInput',
+      label: 'Leave text field (back to canvas)',
+      category: 'Interface',
+      context: 'text-input',
+      defaultBindings: ['Escape'],
+      onPress: (event) => {
+        ;(event.target as HTMLElement).blur()
+        this.canvas?.focus()
+      }
+    })
   }
 
   /**
@@ -170,31 +240,58 @@ export class InputManager {
     console.log(`InputManager: Mesh event ${eventType} at Vertex(${vertexX}, ${vertexY}) → Pixeloid(${pixeloidPos.x.toFixed(2)}, ${pixeloidPos.y.toFixed(2)})`)
     
     if (eventType === 'move') {
-      // Handle preview during drawing or object dragging
-      if (this.isDragging) {
+      // Handle preview during drawing, object dragging or box selection
+      if (this.isDraggingHandle) {
+        this.handleHandleDragging(pixeloidPos)
+      } else if (this.isDragging) {
         this.handleObjectDragging(pixeloidPos)
+      } else if (this.isPaintingTiles) {
+        this.continueTileStroke(pixeloidPos)
+      } else if (gameStore.geometry.selection.marquee) {
+        updateGameStore.updateSelectionMarquee(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
       } else {
         this.handleGeometryMouseMove(pixeloidPos)
       }
     } else if (eventType === 'down') {
       // Only handle left mouse button
       if (originalEvent.button !== 0) return
-      this.handleGeometryMouseDown(pixeloidPos)
+      this.handleGeometryMouseDown(pixeloidPos, originalEvent.shiftKey === true)
     } else if (eventType === 'up') {
       // Only handle left mouse button
       if (originalEvent.button !== 0) return
       
-      // Stop object dragging if active
-      if (this.isDragging) {
-        this.stopObjectDragging()
-        return
-      }
+      // Finish a drag or box selection if active
+      if (this.endPointerInteraction(pixeloidPos)) return
       
       // Handle geometry drawing
       this.handleGeometryMouseUp(pixeloidPos)
     }
   }
 
+  /**
+   * End the press-and-drag interaction in progress (tile stroke, handle or object drag, box selection,
+   * raycast or path goal drag). Returns false when none was active.
+   */
+  private endPointerInteraction(pixeloidPos: { x: number, y: number }): boolean {
+    if (this.isPaintingTiles) {
+      this.stopTileStroke()
+    } else if (this.isDraggingHandle) {
+      this.stopHandleDragging()
+    } else if (this.isDragging) {
+      this.stopObjectDragging()
+    } else if (gameStore.geometry.selection.marquee) {
+      updateGameStore.finishSelectionMarquee()
+    } else if (this.activeRaycastId) {
+      updateGameStore.updateRaycastEnd(this.activeRaycastId, createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
+      this.activeRaycastId = null
+    } else if (this.isDraggingPathGoal) {
+      this.isDraggingPathGoal = false
+    } else {
+      return false
+    }
+    return true
+  }
+
   /**
    * Handle mesh wheel events from BackgroundGridRenderer
    */
@@ -206,8 +303,11 @@ export class InputManager {
     // Use the current pixeloid scale for correct vertex-to-screen conversion
     // The mesh resolution level is for internal optimization, not coordinate conversion
     const pixeloidScale = gameStore.camera.pixeloid_scale
-    const screenX = vertexX * pixeloidScale
-    const screenY = vertexY * pixeloidScale
+    const { x: screenX, y: screenY } = CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex', x: vertexX, y: vertexY },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
     
     // Handle zoom with correctly converted screen position
     this.infiniteCanvas.handleZoom(wheelEvent.deltaY, screenX, screenY)
@@ -218,29 +318,71 @@ export class InputManager {
   /**
    * Handle geometry drawing on mouse down - NEW: preserve exact user input
    */
-  private handleGeometryMouseDown(pixeloidPos: { x: number, y: number }): void {
+  private handleGeometryMouseDown(pixeloidPos: { x: number, y: number }, shiftKey: boolean = false): void {
     const mode = gameStore.geometry.drawing.mode
     
     // If not in drawing mode, check for object selection
     if (mode === 'none') {
-      this.handleObjectSelection(pixeloidPos)
+      // Handles of the selected object take priority over selecting bodies underneath them
+      if (!shiftKey && this.startHandleDragging(pixeloidPos)) {
+        return
+      }
+      this.handleObjectSelection(pixeloidPos, shiftKey)
       return
     }
     
     // EXACT user input preservation - NO MODIFICATION
     const firstPixeloidPos = createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y)
     
+    // Tiles mode: apply the active tile brush to the cell under the cursor
+    if (mode === 'tiles') {
+      this.startTileStroke(firstPixeloidPos)
+      return
+    }
+    
+    // Raycast mode: cast from the press position and follow the mouse until release
+    if (mode === 'raycast') {
+      this.activeRaycastId = updateGameStore.castRay(firstPixeloidPos, firstPixeloidPos)
+      return
+    }
+    
+    // FOV mode: the field of view follows the mouse, clicks do nothing
+    if (mode === 'fov') return
+    
+    // Pathfinding mode: shift-click (or the first click) places the start, clicks and drags move the goal
+    if (mode === 'pathfinding') {
+      if (shiftKey || !gameStore.geometry.pathfinding.start) {
+        updateGameStore.setPathStart(firstPixeloidPos)
+      } else {
+        updateGameStore.setPathGoal(firstPixeloidPos)
+        this.isDraggingPathGoal = true
+      }
+      return
+    }
+    
     // Get anchor configuration from store (supports per-object overrides)
     const anchorConfig = GeometryVertexCalculator.getAnchorConfig(mode)
+    const snap = this.snapToObjects(firstPixeloidPos)
     
-    if (mode === 'point') {
+    if (mode === 'polygon' || mode === 'polyline') {
+      // Paths: each click adds a snapped vertex, double-click finishes
+      const currentTime = Date.now()
+      const isDoubleClick = currentTime - this.lastClickTime < this.doubleClickThreshold
+      this.lastClickTime = currentTime
+      
+      if (isDoubleClick && gameStore.geometry.drawing.activeDrawing.isDrawing) {
+        this.finishPathDrawing()
+        return
+      }
+      this.addPathVertex(mode, snap.position, anchorConfig, snap.exact)
+    } else if (mode === 'point') {
       // Points: create immediately using new vertex calculation
-      this.createPointWithVertices(firstPixeloidPos, anchorConfig)
+      this.createPointWithVertices(snap.position, { ...anchorConfig, firstPointExact: snap.exact })
     } else {
       // Multi-step shapes: store exact input for drag completion
       gameStore.geometry.drawing.activeDrawing.type = mode
-      gameStore.geometry.drawing.activeDrawing.firstPixeloidPos = firstPixeloidPos
-      gameStore.geometry.drawing.activeDrawing.anchorConfig = anchorConfig
+      gameStore.geometry.drawing.activeDrawing.firstPixeloidPos = snap.position
+      gameStore.geometry.drawing.activeDrawing.anchorConfig = { ...anchorConfig, firstPointExact: snap.exact }
       gameStore.geometry.drawing.activeDrawing.isDrawing = true
     }
   }
@@ -251,16 +393,19 @@ export class InputManager {
   private handleGeometryMouseUp(pixeloidPos: { x: number, y: number }): void {
     const activeDrawing = gameStore.geometry.drawing.activeDrawing
     
+    // Paths are built click by click - releasing the mouse does not finish them
+    if (activeDrawing.type === 'polygon' || activeDrawing.type === 'polyline') return
+    
     if (activeDrawing.isDrawing && activeDrawing.firstPixeloidPos && activeDrawing.anchorConfig && activeDrawing.type) {
-      // EXACT user input preservation - NO MODIFICATION
-      const secondPixeloidPos = createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y)
+      // EXACT user input preservation - NO MODIFICATION (unless snapped onto another object)
+      const snap = this.snapToObjects(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
       
       // Use vertex calculation for all geometry types
       this.createGeometryWithVertices(
         activeDrawing.firstPixeloidPos,
-        secondPixeloidPos,
+        snap.position,
         activeDrawing.type,
-        activeDrawing.anchorConfig
+        { ...activeDrawing.anchorConfig, secondPointExact: snap.exact }
       )
       
       // Clear active drawing
@@ -271,7 +416,7 @@ export class InputManager {
   /**
    * Create a point immediately using new vertex calculation
    */
-  private createPointWithVertices(pixeloidPos: PixeloidCoordinate, anchorConfig: any): void {
+  private createPointWithVertices(pixeloidPos: PixeloidCoordinate, anchorConfig: AnchorConfig): void {
     // Calculate vertices and create through store
     const vertices = GeometryVertexCalculator.calculateGeometryVertices(
       pixeloidPos,
@@ -279,10 +424,7 @@ export class InputManager {
       'point',
       anchorConfig
     )
-    
-    // Extract legacy properties for compatibility
-    const properties = GeometryVertexCalculator.extractGeometryProperties(vertices, 'point')
-    updateGameStore.createPoint(properties.x, properties.y)
+    updateGameStore.createGeometricObject('point', vertices, anchorConfig)
   }
 
   /**
@@ -292,7 +434,7 @@ export class InputManager {
     firstPos: PixeloidCoordinate,
     secondPos: PixeloidCoordinate,
     geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond',
-    anchorConfig: any
+    anchorConfig: AnchorConfig
   ): void {
     // Calculate vertices using new system
     const vertices = GeometryVertexCalculator.calculateGeometryVertices(
@@ -302,23 +444,79 @@ export class InputManager {
       anchorConfig
     )
     
-    // Extract legacy properties for compatibility with existing store methods
-    const properties = GeometryVertexCalculator.extractGeometryProperties(vertices, geometryType)
+    // The store keeps the calculated vertices as they are
+    updateGameStore.createGeometricObject(geometryType, vertices, anchorConfig)
+  }
+
+  /**
+   * Add a snapped vertex to the polygon / polyline being drawn (starts the drawing on first click)
+   */
+  private addPathVertex(
+    pathType: 'polygon' | 'polyline',
+    clickPos: PixeloidCoordinate,
+    anchorConfig: AnchorConfig,
+    exact: boolean = false
+  ): void {
+    const activeDrawing = gameStore.geometry.drawing.activeDrawing
+    const vertex = GeometryVertexCalculator.anchorVertex(clickPos, anchorConfig.firstPointAnchor, exact)
+    
+    if (!activeDrawing.isDrawing) {
+      activeDrawing.type = pathType
+      activeDrawing.firstPixeloidPos = clickPos
+      activeDrawing.anchorConfig = anchorConfig
+      activeDrawing.vertices = []
+      activeDrawing.isDrawing = true
+    }
+    
+    // Ignore repeated clicks on the same anchor
+    const last = activeDrawing.vertices[activeDrawing.vertices.length - 1]
+    if (last && last.x === vertex.x && last.y === vertex.y) return
+    
+    activeDrawing.vertices.push(vertex)
+    this.updatePathPreview(clickPos, exact)
+  }
+
+  /**
+   * Finish the polygon / polyline being drawn (double-click or Enter)
+   * Drawings with too few vertices are discarded
+   */
+  private finishPathDrawing(): void {
+    const activeDrawing = gameStore.geometry.drawing.activeDrawing
+    if (!activeDrawing.isDrawing) return
     
-    // Create using existing store methods (will be updated later)
-    switch (geometryType) {
-      case 'line':
-        updateGameStore.createLine(properties.startX, properties.startY, properties.endX, properties.endY)
-        break
-      case 'circle':
-        updateGameStore.createCircle(properties.centerX, properties.centerY, properties.radius)
-        break
-      case 'rectangle':
-        updateGameStore.createRectangle(properties.x, properties.y, properties.width, properties.height)
-        break
-      case 'diamond':
-        updateGameStore.createDiamond(properties.anchorX, properties.anchorY, properties.width, properties.height)
-        break
+    const vertices = [...activeDrawing.vertices]
+    if (activeDrawing.type === 'polygon' || activeDrawing.type === 'polyline') {
+      updateGameStore.createGeometricObject(activeDrawing.type, vertices, activeDrawing.anchorConfig ?? undefined)
+    }
+    
+    this.clearActiveDrawing()
+  }
+
+  /**
+   * Update the path preview: placed vertices plus a rubber-band vertex at the cursor
+   */
+  private updatePathPreview(currentPos: PixeloidCoordinate, exact: boolean = false): void {
+    const activeDrawing = gameStore.geometry.drawing.activeDrawing
+    if (!activeDrawing.anchorConfig || (activeDrawing.type !== 'polygon' && activeDrawing.type !== 'polyline')) return
+    
+    activeDrawing.currentPixeloidPos = currentPos
+    gameStore.geometry.drawing.preview = {
+      vertices: GeometryVertexCalculator.calculatePathVertices(
+        activeDrawing.vertices,
+        currentPos,
+        { ...activeDrawing.anchorConfig, firstPointExact: exact }
+      ),
+      type: activeDrawing.type,
+      style: {
+        color: gameStore.geometry.drawing.settings.defaultColor,
+        strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
+        strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
+        ...(activeDrawing.type === 'polygon' && gameStore.geometry.drawing.settings.fillEnabled && {
+          fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
+          fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
+        })
+      },
+      isPreview: true
     }
   }
 
@@ -329,20 +527,42 @@ export class InputManager {
     gameStore.geometry.drawing.activeDrawing.type = null
     gameStore.geometry.drawing.activeDrawing.firstPixeloidPos = null
     gameStore.geometry.drawing.activeDrawing.currentPixeloidPos = null
+    gameStore.geometry.drawing.activeDrawing.vertices = []
     gameStore.geometry.drawing.activeDrawing.anchorConfig = null
     gameStore.geometry.drawing.activeDrawing.isDrawing = false
     gameStore.geometry.drawing.preview = null
+    updateGameStore.clearSnapFeedback()
   }
 
   /**
    * Handle geometry drawing during mouse move - NEW: unified preview/creation logic
    */
   private handleGeometryMouseMove(pixeloidPos: { x: number, y: number }): void {
+    if (this.activeRaycastId) {
+      updateGameStore.updateRaycastEnd(this.activeRaycastId, createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
+      return
+    }
+    
+    if (this.isDraggingPathGoal) {
+      updateGameStore.setPathGoal(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
+      return
+    }
+    
     const activeDrawing = gameStore.geometry.drawing.activeDrawing
+    const mode = gameStore.geometry.drawing.mode
+    if (mode === 'none' || mode === 'tiles' || mode === 'raycast' || mode === 'pathfinding' || mode === 'fov') return
+    
+    // Snap feedback follows the cursor in drawing modes, even before the first click
+    const snap = this.snapToObjects(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
+    
+    if (activeDrawing.type === 'polygon' || activeDrawing.type === 'polyline') {
+      this.updatePathPreview(snap.position, snap.exact)
+      return
+    }
     
     if (activeDrawing.isDrawing && activeDrawing.firstPixeloidPos && activeDrawing.anchorConfig && activeDrawing.type) {
-      // EXACT user input preservation - NO MODIFICATION
-      const currentPixeloidPos = createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y)
+      // EXACT user input preservation - NO MODIFICATION (unless snapped onto another object)
+      const currentPixeloidPos = snap.position
       
       // Update current position for tracking
       gameStore.geometry.drawing.activeDrawing.currentPixeloidPos = currentPixeloidPos
@@ -352,7 +572,7 @@ export class InputManager {
         activeDrawing.firstPixeloidPos,
         currentPixeloidPos,
         activeDrawing.type,
-        activeDrawing.anchorConfig
+        { ...activeDrawing.anchorConfig, secondPointExact: snap.exact }
       )
       
       // Create preview state using new architecture
@@ -377,41 +597,48 @@ export class InputManager {
   /**
    * Handle object selection when clicking in none mode
    */
-  private handleObjectSelection(pixeloidPos: { x: number, y: number }): void {
+  private handleObjectSelection(pixeloidPos: { x: number, y: number }, shiftKey: boolean = false): void {
     const currentTime = Date.now()
     const isDoubleClick = currentTime - this.lastClickTime < this.doubleClickThreshold
     this.lastClickTime = currentTime
 
-    // Find the topmost object at the click position
-    const clickedObjects = gameStore.geometry.objects.filter(obj => {
-      if (!obj.isVisible) return false
+    // Find the topmost object at the click position (spatial index narrows the candidates)
+    const clickedObjects = updateGameStore.queryObjectsAtPoint(pixeloidPos).filter(obj => {
+      if (!obj.isVisible || updateGameStore.getObjectGroup(obj).isLocked) return false
       
       // Check based on object type
-      if ('anchorX' in obj && 'anchorY' in obj) {
-        // Diamond
-        return GeometryHelper.isPointInsideDiamond(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y), obj as any)
-      } else if ('width' in obj && 'height' in obj) {
-        // Rectangle
-        const rect = obj as GeometricRectangle
-        return pixeloidPos.x >= rect.x && pixeloidPos.x <= rect.x + rect.width &&
-               pixeloidPos.y >= rect.y && pixeloidPos.y <= rect.y + rect.height
-      } else if ('centerX' in obj && 'centerY' in obj && 'radius' in obj) {
-        // Circle
-        const circle = obj as GeometricCircle
-        const dx = pixeloidPos.x - circle.centerX
-        const dy = pixeloidPos.y - circle.centerY
-        return (dx * dx + dy * dy) <= (circle.radius * circle.radius)
-      } else if ('startX' in obj && 'startY' in obj && 'endX' in obj && 'endY' in obj) {
-        // Line - check if point is near the line (within stroke width tolerance)
-        const line = obj as GeometricLine
-        const tolerance = Math.max(line.strokeWidth * 0.5, 2) // Minimum 2 pixeloid tolerance
-        return this.isPointNearLine(pixeloidPos, line, tolerance)
-      } else if ('x' in obj && 'y' in obj && !('width' in obj)) {
-        // Point
-        const point = obj as GeometricPoint
-        const dx = Math.abs(pixeloidPos.x - point.x)
-        const dy = Math.abs(pixeloidPos.y - point.y)
-        return dx <= 2 && dy <= 2 // 4x4 pixeloid selection area
+      const clickPos = createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y)
+      const vertices = obj.pixeloidVertices
+      const tolerance = Math.max(obj.style.strokeWidth * 0.5, 2) // Minimum 2 pixeloid tolerance
+      switch (obj.type) {
+        case 'polygon':
+          // Inside or near an edge
+          return GeometryHelper.isPointInsidePolygon(clickPos, vertices) ||
+                 GeometryHelper.isPointNearPolyline(clickPos, vertices, true, tolerance)
+        case 'polyline':
+          // Near a segment
+          return GeometryHelper.isPointNearPolyline(clickPos, vertices, false, tolerance)
+        case 'diamond':
+          return GeometryHelper.isPointInsideDiamond(clickPos, vertices)
+        case 'rectangle': {
+          const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+          return pixeloidPos.x >= rect.x && pixeloidPos.x <= rect.x + rect.width &&
+                 pixeloidPos.y >= rect.y && pixeloidPos.y <= rect.y + rect.height
+        }
+        case 'circle': {
+          const circle = GeometryVertexCalculator.getCircleShape(vertices)
+          const dx = pixeloidPos.x - circle.centerX
+          const dy = pixeloidPos.y - circle.centerY
+          return (dx * dx + dy * dy) <= (circle.radius * circle.radius)
+        }
+        case 'line':
+          // Near the line (within stroke width tolerance)
+          return this.isPointNearLine(pixeloidPos, GeometryVertexCalculator.getLineShape(vertices), tolerance)
+        case 'point': {
+          const dx = Math.abs(pixeloidPos.x - vertices[0].x)
+          const dy = Math.abs(pixeloidPos.y - vertices[0].y)
+          return dx <= 2 && dy <= 2 // 4x4 pixeloid selection area
+        }
       }
       
       return false
@@ -420,25 +647,39 @@ export class InputManager {
     if (clickedObjects.length > 0) {
       // Select the last (topmost) object
       const selectedObject = clickedObjects[clickedObjects.length - 1]
-      const wasAlreadySelected = gameStore.geometry.selection.selectedObjectId === selectedObject.id
+      const wasAlreadySelected = updateGameStore.isObjectSelected(selectedObject.id)
       
-      updateGameStore.setSelectedObject(selectedObject.id)
+      // Shift-click adds/removes the object from the selection set
+      if (shiftKey) {
+        updateGameStore.toggleObjectSelection(selectedObject.id)
+        return
+      }
+      
+      if (wasAlreadySelected) {
+        // Keep the rest of the set, just make this the primary object
+        updateGameStore.setPrimarySelection(selectedObject.id)
+      } else {
+        updateGameStore.setSelectedObject(selectedObject.id)
+      }
       
       // If double-clicking on already selected object, open edit panel
       if (isDoubleClick && wasAlreadySelected) {
         updateGameStore.setEditPanelOpen(true)
       } else if (wasAlreadySelected) {
-        // Start dragging if clicking on already selected object
+        // Start dragging the whole selection if clicking on an already selected object
         this.startObjectDragging(selectedObject.id, pixeloidPos)
       }
     } else {
-      // Clear selection if clicking on empty space
-      updateGameStore.clearSelection()
+      // Clear selection if clicking on empty space (unless extending it), then start box selection
+      if (!shiftKey) {
+        updateGameStore.clearSelection()
+      }
+      updateGameStore.startSelectionMarquee(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y), shiftKey)
     }
   }
 
   /**
-   * Start dragging an object
+   * Start dragging the selection, using the clicked object as the snapping reference
    */
   private startObjectDragging(objectId: string, startPos: { x: number, y: number }): void {
     const obj = gameStore.geometry.objects.find(o => o.id === objectId)
@@ -447,27 +688,19 @@ export class InputManager {
     this.isDragging = true
     this.dragObjectId = objectId
     this.dragStartPosition = { ...startPos }
-
-    // Store original position based on object type
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      const diamond = obj as GeometricDiamond
-      this.dragObjectOriginalPosition = { x: diamond.anchorX, y: diamond.anchorY }
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      const circle = obj as GeometricCircle
-      this.dragObjectOriginalPosition = { x: circle.centerX, y: circle.centerY }
-    } else if ('x' in obj && 'y' in obj && 'width' in obj && 'height' in obj) {
-      const rect = obj as GeometricRectangle
-      this.dragObjectOriginalPosition = { x: rect.x, y: rect.y }
-    } else if ('startX' in obj && 'startY' in obj && 'endX' in obj && 'endY' in obj) {
-      const line = obj as GeometricLine
-      this.dragObjectOriginalPosition = { x: line.startX, y: line.startY }
-      this.dragObjectOriginalEnd = { x: line.endX, y: line.endY }
-    } else if ('x' in obj && 'y' in obj) {
-      const point = obj as GeometricPoint
-      this.dragObjectOriginalPosition = { x: point.x, y: point.y }
+    this.dragObjectOriginalPosition = GeometryHelper.getObjectPosition(obj)
+    
+    // Remember where every selected object started (objects of locked groups stay put)
+    this.dragOriginalObjects.clear()
+    for (const selected of updateGameStore.getSelectedObjects()) {
+      if (updateGameStore.getObjectGroup(selected).isLocked) continue
+      this.dragOriginalObjects.set(selected.id, { ...selected })
     }
+    
+    // Record the whole drag as a single undo step
+    updateGameStore.beginHistoryBatch(this.dragOriginalObjects.size > 1 ? `Move ${this.dragOriginalObjects.size} objects` : 'Move object')
 
-    console.log(`Started dragging object ${objectId}`)
+    console.log(`Started dragging ${this.dragOriginalObjects.size} objects (reference ${objectId})`)
   }
 
   /**
@@ -478,8 +711,7 @@ export class InputManager {
       return
     }
 
-    const obj = gameStore.geometry.objects.find(o => o.id === this.dragObjectId)
-    if (!obj) {
+    if (!gameStore.geometry.objects.some(o => o.id === this.dragObjectId)) {
       this.stopObjectDragging()
       return
     }
@@ -495,47 +727,29 @@ export class InputManager {
     // Snap to pixeloid anchor points (top-left)
     const anchorPoints = GeometryHelper.calculatePixeloidAnchorPoints(rawNewX, rawNewY)
     const snappedPos = anchorPoints.topLeft
+    
+    // Move every selected object by the reference object's snapped delta
+    let deltaSnappedX = snappedPos.x - this.dragObjectOriginalPosition.x
+    let deltaSnappedY = snappedPos.y - this.dragObjectOriginalPosition.y
+    
+    // Object snapping: aligning with another object's key point wins over the pixeloid grid, per axis
+    if (gameStore.geometry.snapping.enabled) {
+      const movingIds = [...this.dragOriginalObjects.keys()]
+      const moved = [...this.dragOriginalObjects.values()].map(original => this.translateForSnapping(original, deltaX, deltaY))
+      const alignment = ObjectSnapper.findAlignment(moved, movingIds)
+      if (alignment.dx !== null) deltaSnappedX = deltaX + alignment.dx
+      if (alignment.dy !== null) deltaSnappedY = deltaY + alignment.dy
+      
+      const placed = [...this.dragOriginalObjects.values()].map(original => this.translateForSnapping(original, deltaSnappedX, deltaSnappedY))
+      updateGameStore.setSnapFeedback(null, ObjectSnapper.findGuides(placed, movingIds))
+    }
 
     // ✅ FIXED: Use store updates instead of direct modification to trigger bbox mesh reactivity
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond object
-      updateGameStore.updateGeometricObject(this.dragObjectId, {
-        anchorX: snappedPos.x,
-        anchorY: snappedPos.y
-      })
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle object
-      updateGameStore.updateGeometricObject(this.dragObjectId, {
-        centerX: snappedPos.x,
-        centerY: snappedPos.y
-      })
-    } else if ('x' in obj && 'y' in obj && 'width' in obj && 'height' in obj) {
-      // Rectangle object
-      updateGameStore.updateGeometricObject(this.dragObjectId, {
-        x: snappedPos.x,
-        y: snappedPos.y
-      })
-    } else if ('startX' in obj && 'startY' in obj && 'endX' in obj && 'endY' in obj) {
-      // Line object - move both endpoints
-      if (this.dragObjectOriginalEnd) {
-        const deltaSnappedX = snappedPos.x - this.dragObjectOriginalPosition.x
-        const deltaSnappedY = snappedPos.y - this.dragObjectOriginalPosition.y
-        updateGameStore.updateGeometricObject(this.dragObjectId, {
-          startX: this.dragObjectOriginalPosition.x + deltaSnappedX,
-          startY: this.dragObjectOriginalPosition.y + deltaSnappedY,
-          endX: this.dragObjectOriginalEnd.x + deltaSnappedX,
-          endY: this.dragObjectOriginalEnd.y + deltaSnappedY
-        })
-      }
-    } else if ('x' in obj && 'y' in obj) {
-      // Point object
-      updateGameStore.updateGeometricObject(this.dragObjectId, {
-        x: snappedPos.x,
-        y: snappedPos.y
-      })
+    for (const [id, original] of this.dragOriginalObjects) {
+      updateGameStore.updateGeometricObject(id, GeometryHelper.translateObject(original, deltaSnappedX, deltaSnappedY))
     }
     
-    console.log(`🎯 InputManager: Updated object ${this.dragObjectId} via store, triggering bbox mesh reactivity`)
+    console.log(`🎯 InputManager: Moved ${this.dragOriginalObjects.size} objects via store, triggering bbox mesh reactivity`)
   }
 
   /**
@@ -545,18 +759,162 @@ export class InputManager {
     if (this.isDragging && this.dragObjectId) {
       console.log(`Stopped dragging object ${this.dragObjectId}`)
     }
+    if (this.isDragging) {
+      updateGameStore.endHistoryBatch()
+    }
 
     this.isDragging = false
     this.dragObjectId = null
     this.dragStartPosition = null
     this.dragObjectOriginalPosition = null
-    this.dragObjectOriginalEnd = null
+    this.dragOriginalObjects.clear()
+    updateGameStore.clearSnapFeedback()
+  }
+
+  /**
+   * Start reshaping the primary selected object if a handle is under the cursor
+   */
+  private startHandleDragging(pixeloidPos: { x: number, y: number }): boolean {
+    const selectedObjectId = gameStore.geometry.selection.selectedObjectId
+    if (!selectedObjectId) return false
+
+    const obj = gameStore.geometry.objects.find(o => o.id === selectedObjectId)
+    if (!obj || !obj.isVisible || updateGameStore.getObjectGroup(obj).isLocked) return false
+
+    const handle = ObjectHandleHelper.findHandleAt(obj, createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y))
+    if (!handle) return false
+
+    this.isDraggingHandle = true
+    this.dragHandleId = handle.id
+    this.dragHandleOriginalObject = { ...obj }
+
+    // Record the whole reshape as a single undo step
+    updateGameStore.beginHistoryBatch('Reshape object')
+
+    console.log(`Started dragging handle ${handle.id} of object ${obj.id}`)
+    return true
+  }
+
+  /**
+   * Handle reshape dragging during mouse move - handles always move relative to the original shape
+   */
+  private handleHandleDragging(pixeloidPos: { x: number, y: number }): void {
+    const original = this.dragHandleOriginalObject
+    if (!this.isDraggingHandle || !this.dragHandleId || !original) {
+      return
+    }
+
+    if (!gameStore.geometry.objects.some(o => o.id === original.id)) {
+      this.stopHandleDragging()
+      return
+    }
+
+    // The reshaped object itself is not a snap target
+    const snap = this.snapToObjects(createPixeloidCoordinate(pixeloidPos.x, pixeloidPos.y), [original.id])
+    const updates = ObjectHandleHelper.calculateHandleDrag(original, this.dragHandleId, snap.position, snap.exact)
+    // Skip positions that would collapse the shape - it keeps its last valid form
+    if (updates) {
+      updateGameStore.updateGeometricObject(original.id, updates)
+    }
+  }
+
+  /**
+   * Stop handle dragging
+   */
+  private stopHandleDragging(): void {
+    if (this.isDraggingHandle) {
+      console.log(`Stopped dragging handle ${this.dragHandleId} of object ${this.dragHandleOriginalObject?.id}`)
+      updateGameStore.endHistoryBatch()
+    }
+
+    this.isDraggingHandle = false
+    this.dragHandleId = null
+    this.dragHandleOriginalObject = null
+    updateGameStore.clearSnapFeedback()
+  }
+
+  /**
+   * Snap a cursor position onto another object when object snapping is on.
+   * `exact` tells the vertex calculation to keep the position instead of anchoring it to the pixeloid grid.
+   */
+  private snapToObjects(pixeloidPos: PixeloidCoordinate, excludeIds: string[] = []): { position: PixeloidCoordinate, exact: boolean } {
+    if (!gameStore.geometry.snapping.enabled) {
+      return { position: pixeloidPos, exact: false }
+    }
+    
+    const target = ObjectSnapper.snapPoint(pixeloidPos, excludeIds)
+    updateGameStore.setSnapFeedback(target, [])
+    return target
+      ? { position: createPixeloidCoordinate(target.x, target.y), exact: true }
+      : { position: pixeloidPos, exact: false }
+  }
+
+  /**
+   * Dragged copy of an object with fresh metadata, so its snap points follow the drag
+   */
+  private translateForSnapping(original: GeometricObject, deltaX: number, deltaY: number): GeometricObject {
+    const moved = { ...original, ...GeometryHelper.translateObject(original, deltaX, deltaY) } as GeometricObject
+    moved.metadata = GeometryHelper.calculateObjectMetadata(moved, gameStore.camera.pixeloid_scale)
+    return moved
+  }
+
+  /**
+   * Start a tile brush stroke - flood fill applies once, paint/erase continue while dragging
+   */
+  private startTileStroke(pixeloidPos: PixeloidCoordinate): void {
+    const cell = { x: Math.floor(pixeloidPos.x), y: Math.floor(pixeloidPos.y) }
+    const { brush, activeTileTypeId } = gameStore.tileMap
+
+    if (brush === 'fill') {
+      updateGameStore.floodFillTiles(cell.x, cell.y, activeTileTypeId)
+      return
+    }
+
+    this.isPaintingTiles = true
+    this.lastPaintedCell = cell
+    this.applyTileBrush(cell.x, cell.y)
+  }
+
+  /**
+   * Continue the brush stroke, covering every cell between the last and current mouse position
+   */
+  private continueTileStroke(pixeloidPos: { x: number, y: number }): void {
+    const cell = { x: Math.floor(pixeloidPos.x), y: Math.floor(pixeloidPos.y) }
+    if (!this.lastPaintedCell) {
+      this.lastPaintedCell = cell
+    }
+    if (cell.x === this.lastPaintedCell.x && cell.y === this.lastPaintedCell.y) return
+
+    for (const traced of TileMapHelper.traceCells(this.lastPaintedCell, cell).slice(1)) {
+      this.applyTileBrush(traced.x, traced.y)
+    }
+    this.lastPaintedCell = cell
+  }
+
+  /**
+   * Stop the brush stroke
+   */
+  private stopTileStroke(): void {
+    this.isPaintingTiles = false
+    this.lastPaintedCell = null
+  }
+
+  /**
+   * Paint or erase a single cell with the active brush
+   */
+  private applyTileBrush(cellX: number, cellY: number): void {
+    const { brush, activeTileTypeId } = gameStore.tileMap
+    if (brush === 'erase') {
+      updateGameStore.eraseTile(cellX, cellY)
+    } else if (activeTileTypeId) {
+      updateGameStore.setTile(cellX, cellY, activeTileTypeId)
+    }
   }
 
   /**
    * Check if a point is near a line within tolerance
    */
-  private isPointNearLine(point: { x: number, y: number }, line: GeometricLine, tolerance: number): boolean {
+  private isPointNearLine(point: { x: number, y: number }, line: LineShape, tolerance: number): boolean {
     const { startX, startY, endX, endY } = line
     
     // Calculate the distance from point to line segment
@@ -601,6 +959,12 @@ export class InputManager {
     // Remove keyboard and context menu event listeners only
     document.removeEventListener('keydown', this.keydownHandler)
     document.removeEventListener('keyup', this.keyupHandler)
+    window.removeEventListener('blur', this.blurHandler)
+    window.removeEventListener('pointerup', this.windowPointerUpHandler)
+    window.removeEventListener('pointercancel', this.windowPointerCancelHandler)
+    KeybindingRegistry.releaseAll()
+    this.keyActionIds.forEach(id => KeybindingRegistry.unregister(id))
+    this.keyActionIds = []
     
     if (this.canvas) {
       this.canvas.removeEventListener('contextmenu', this.contextMenuHandler)
@@ -684,18 +1048,8 @@ export class InputManager {
       const selectedObjectId = gameStore.geometry.selection.selectedObjectId
       
       if (selectedObjectId) {
-        // Center selected object at screen center
-        const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
-        if (selectedObject && selectedObject.metadata) {
-          const screenCenterX = gameStore.windowWidth / 2 / gameStore.camera.pixeloid_scale
-          const screenCenterY = gameStore.windowHeight / 2 / gameStore.camera.pixeloid_scale
-          const targetOffset = createPixeloidCoordinate(
-            selectedObject.metadata.center.x - screenCenterX,
-            selectedObject.metadata.center.y - screenCenterY
-          )
-          updateGameStore.setVertexToPixeloidOffset(targetOffset)
-          console.log(`InputManager: Centered object ${selectedObjectId} at screen center, offset: (${targetOffset.x.toFixed(1)}, ${targetOffset.y.toFixed(1)})`)
-        }
+        // Center selected object at screen center (projection-aware)
+        updateGameStore.centerViewportOnObject(selectedObjectId)
       } else {
         // Reset offset to (0,0) - pixeloid (0,0) appears at screen (0,0)
         updateGameStore.setVertexToPixeloidOffset(createPixeloidCoordinate(0, 0))
@@ -0,0 +1,284 @@
+/**
+ * KeybindingRegistry maps keyboard chords to named actions.
+ * - Chords are written as modifiers + key: 'Ctrl+Shift+Z', 'Delete', 'Space', '?'
+ *   (Ctrl also matches Cmd; Shift is implied by symbol keys such as '?')
+ * - Each action runs in a context: 'canvas' while no text field has focus, 'text-input' while
+ *   typing in one, or 'any'. Canvas shortcuts therefore never fire while typing in a panel.
+ * - Hold actions get onRelease when their key goes up (or the window loses focus)
+ * - User rebindings are stored in localStorage as overrides of the default bindings
+ */
+
+export type KeyContext = 'canvas' | 'text-input' | 'any'
+
+export interface KeyAction {
+  id: string
+  label: string
+  category: string
+  context: KeyContext
+  defaultBindings: string[]
+  onPress: (event: KeyboardEvent) => boolean | void   // Return false to let the event pass through
+  onRelease?: (event: KeyboardEvent) => void          // Hold actions (e.g. camera movement)
+}
+
+export interface KeyConflict {
+  chord: string
+  actionIds: string[]
+}
+
+const STORAGE_KEY = 'pixeloid-keybindings'
+
+const MODIFIER_KEYS = ['Control', 'Shift', 'Alt', 'Meta']
+
+// Named keys as written in chords (matched case-insensitively when parsing)
+const NAMED_KEYS = [
+  'Space', 'Escape', 'Enter', 'Tab', 'Backspace', 'Delete', 'Insert', 'Home', 'End', 'PageUp', 'PageDown',
+  'ArrowUp', 'ArrowDown', 'ArrowLeft', 'ArrowRight',
+  'F1', 'F2', 'F3', 'F4', 'F5', 'F6', 'F7', 'F8', 'F9', 'F10', 'F11', 'F12'
+]
+
+export class KeybindingRegistry {
+  private static actions: Map<string, KeyAction> = new Map()
+  private static overrides: Record<string, string[]> = KeybindingRegistry.loadOverrides()
+  private static heldActions: Map<string, { action: KeyAction, event: KeyboardEvent }> = new Map() // event.code -> hold
+  private static chordCapture: ((chord: string | null) => void) | null = null
+  private static listeners: Set<() => void> = new Set()
+
+  static register(action: KeyAction): void {
+    KeybindingRegistry.actions.set(action.id, action)
+    for (const chord of KeybindingRegistry.getBindings(action.id)) {
+      const conflicts = KeybindingRegistry.findConflicts(chord, action.context, action.id)
+      if (conflicts.length > 0) {
+        console.warn(`KeybindingRegistry: '${chord}' of ${action.id} conflicts with ${conflicts.map(other => other.id).join(', ')}`)
+      }
+    }
+    KeybindingRegistry.notify()
+  }
+
+  static unregister(actionId: string): void {
+    if (KeybindingRegistry.actions.delete(actionId)) {
+      KeybindingRegistry.notify()
+    }
+  }
+
+  static getActions(): KeyAction[] {
+    return [...KeybindingRegistry.actions.values()]
+  }
+
+  static getBindings(actionId: string): string[] {
+    return KeybindingRegistry.overrides[actionId] ?? KeybindingRegistry.actions.get(actionId)?.defaultBindings ?? []
+  }
+
+  static isCustomized(actionId: string): boolean {
+    return actionId in KeybindingRegistry.overrides
+  }
+
+  /**
+   * Rebind an action (an empty list leaves it unbound) and persist the change
+   */
+  static setBindings(actionId: string, chords: string[]): void {
+    if (!KeybindingRegistry.actions.has(actionId)) return
+    KeybindingRegistry.overrides[actionId] = [...new Set(chords.map(chord => KeybindingRegistry.normalizeChord(chord)))]
+    KeybindingRegistry.saveOverrides()
+    console.log(`KeybindingRegistry: Bound ${actionId} to ${KeybindingRegistry.overrides[actionId].join(', ') || 'nothing'}`)
+    KeybindingRegistry.notify()
+  }
+
+  /**
+   * Restore the default bindings of one action, or of every action
+   */
+  static resetBindings(actionId?: string): void {
+    if (actionId) {
+      delete KeybindingRegistry.overrides[actionId]
+    } else {
+      KeybindingRegistry.overrides = {}
+    }
+    KeybindingRegistry.saveOverrides()
+    KeybindingRegistry.notify()
+  }
+
+  /**
+   * Actions that would also fire for a chord in the given context
+   */
+  static findConflicts(chord: string, context: KeyContext, excludeActionId?: string): KeyAction[] {
+    const normalized = KeybindingRegistry.normalizeChord(chord)
+    return KeybindingRegistry.getActions().filter(action =>
+      action.id !== excludeActionId &&
+      KeybindingRegistry.contextsOverlap(action.context, context) &&
+      KeybindingRegistry.getBindings(action.id).includes(normalized)
+    )
+  }
+
+  /**
+   * Every chord bound to more than one action in overlapping contexts
+   */
+  static getConflicts(): KeyConflict[] {
+    const conflicts = new Map<string, Set<string>>()
+    for (const action of KeybindingRegistry.getActions()) {
+      for (const chord of KeybindingRegistry.getBindings(action.id)) {
+        const others = KeybindingRegistry.findConflicts(chord, action.context, action.id)
+        if (others.length === 0) continue
+        const ids = conflicts.get(chord) ?? new Set()
+        ids.add(action.id)
+        others.forEach(other => ids.add(other.id))
+        conflicts.set(chord, ids)
+      }
+    }
+    return [...conflicts].map(([chord, ids]) => ({ chord, actionIds: [...ids] }))
+  }
+
+  /**
+   * Canonical chord text: modifiers in Ctrl, Alt, Shift order, letters upper-case
+   */
+  static normalizeChord(text: string): string {
+    const trimmed = text.trim()
+    // A trailing '+' is the plus key itself ('Ctrl++')
+    const parts = trimmed.endsWith('+')
+      ? [...trimmed.slice(0, -1).split('+').filter(part => part !== ''), '+']
+      : trimmed.split('+').map(part => part.trim())
+    const key = parts.pop() ?? ''
+    const modifiers = new Set(parts.map(part => part.toLowerCase()))
+    return KeybindingRegistry.formatChord(
+      KeybindingRegistry.formatKey(key),
+      modifiers.has('ctrl') || modifiers.has('control') || modifiers.has('cmd') || modifiers.has('meta'),
+      modifiers.has('alt') || modifiers.has('option'),
+      modifiers.has('shift')
+    )
+  }
+
+  /**
+   * Chord of a key event - null for a lone modifier key
+   */
+  static chordFromEvent(event: KeyboardEvent): string | null {
+    if (MODIFIER_KEYS.includes(event.key)) return null
+    return KeybindingRegistry.formatChord(
+      KeybindingRegistry.formatKey(event.key),
+      event.ctrlKey || event.metaKey,
+      event.altKey,
+      event.shiftKey
+    )
+  }
+
+  /**
+   * Deliver the next key chord to the callback instead of dispatching it (used for rebinding).
+   * Escape cancels with null.
+   */
+  static captureNextChord(callback: (chord: string | null) => void): void {
+    KeybindingRegistry.chordCapture = callback
+  }
+
+  static cancelCapture(): void {
+    KeybindingRegistry.chordCapture = null
+  }
+
+  /**
+   * Listen for action or binding changes - returns an unsubscribe function
+   */
+  static subscribe(listener: () => void): () => void {
+    KeybindingRegistry.listeners.add(listener)
+    return () => KeybindingRegistry.listeners.delete(listener)
+  }
+
+  static isTextInput(target: EventTarget | null): boolean {
+    if (!(target instanceof HTMLElement)) return false
+    if (target.isContentEditable || target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return true
+    if (!(target instanceof HTMLInputElement)) return false
+    // Buttons, checkboxes, sliders etc. do not take typed text
+    return !['button', 'checkbox', 'radio', 'range', 'color', 'file', 'submit', 'reset'].includes(target.type)
+  }
+
+  // ================================
+  // DISPATCH
+  // ================================
+
+  static handleKeyDown(event: KeyboardEvent): void {
+    const chord = KeybindingRegistry.chordFromEvent(event)
+    if (!chord) return
+
+    if (KeybindingRegistry.chordCapture) {
+      const capture = KeybindingRegistry.chordCapture
+      KeybindingRegistry.chordCapture = null
+      event.preventDefault()
+      capture(chord === 'Escape' ? null : chord)
+      return
+    }
+
+    const context: KeyContext = KeybindingRegistry.isTextInput(event.target) ? 'text-input' : 'canvas'
+    for (const action of KeybindingRegistry.actions.values()) {
+      if (!KeybindingRegistry.contextsOverlap(action.context, context)) continue
+      if (!KeybindingRegistry.getBindings(action.id).includes(chord)) continue
+      if (action.onPress(event) === false) continue
+
+      event.preventDefault()
+      if (action.onRelease) {
+        KeybindingRegistry.heldActions.set(event.code, { action, event })
+      }
+      return
+    }
+  }
+
+  static handleKeyUp(event: KeyboardEvent): void {
+    const hold = KeybindingRegistry.heldActions.get(event.code)
+    if (hold) {
+      KeybindingRegistry.heldActions.delete(event.code)
+      hold.action.onRelease!(event)
+    }
+  }
+
+  /**
+   * Release every held action (e.g. when the window loses focus and key-up events are lost)
+   */
+  static releaseAll(): void {
+    const holds = [...KeybindingRegistry.heldActions.values()]
+    KeybindingRegistry.heldActions.clear()
+    holds.forEach(({ action, event }) => action.onRelease!(event))
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  private static contextsOverlap(a: KeyContext, b: KeyContext): boolean {
+    return a === 'any' || b === 'any' || a === b
+  }
+
+  private static formatKey(key: string): string {
+    if (key === ' ') return 'Space'
+    if (key.length === 1) return key.toUpperCase()
+    return NAMED_KEYS.find(named => named.toLowerCase() === key.toLowerCase()) ?? key
+  }
+
+  private static formatChord(key: string, ctrl: boolean, alt: boolean, shift: boolean): string {
+    // Symbols already include Shift ('?' is Shift+/ on most layouts)
+    const shiftImplied = key.length === 1 && !/[A-Z0-9]/.test(key)
+    return [ctrl && 'Ctrl', alt && 'Alt', shift && !shiftImplied && 'Shift', key].filter(Boolean).join('+')
+  }
+
+  private static notify(): void {
+    KeybindingRegistry.listeners.forEach(listener => listener())
+  }
+
+  private static loadOverrides(): Record<string, string[]> {
+    try {
+      const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}')
+      if (!stored || typeof stored !== 'object' || Array.isArray(stored)) return {}
+      const overrides: Record<string, string[]> = {}
+      for (const [actionId, chords] of Object.entries(stored)) {
+        if (Array.isArray(chords) && chords.every(chord => typeof chord === 'string')) {
+          overrides[actionId] = chords
+        }
+      }
+      return overrides
+    } catch {
+      // No storage (private mode / non-browser) or corrupt data - use the defaults
+      return {}
+    }
+  }
+
+  private static saveOverrides(): void {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(KeybindingRegistry.overrides))
+    } catch (error) {
+      console.warn('KeybindingRegistry: Could not save key bindings', error)
+    }
+  }
+}
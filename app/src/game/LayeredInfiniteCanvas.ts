@@ -6,36 +6,52 @@ import { SelectionFilterRenderer } from './SelectionFilterRenderer'
 import { PixelateFilterRenderer } from './PixelateFilterRenderer'
 import { MouseHighlightShader } from './MouseHighlightShader'
 import { BoundingBoxRenderer } from './BoundingBoxRenderer'
+import { RaycastRenderer } from './RaycastRenderer'
+import { PathfindingRenderer } from './PathfindingRenderer'
+import { SnapGuideRenderer } from './SnapGuideRenderer'
+import { OccupancyRenderer } from './OccupancyRenderer'
+import { FieldOfViewRenderer } from './FieldOfViewRenderer'
+import { TileMapRenderer } from './TileMapRenderer'
 import { MirrorLayerRenderer } from './MirrorLayerRenderer'
 import { TextureRegistry } from './TextureRegistry'
 import { StaticMeshManager } from './StaticMeshManager'
 import { gameStore, createPixeloidCoordinate } from '../store/gameStore'
 import { CoordinateHelper } from './CoordinateHelper'
 import { subscribe } from 'valtio'
-import type { ViewportCorners } from '../types'
+import type { ViewportCorners, CameraProjection } from '../types'
 
 /**
  * LayeredInfiniteCanvas extends the existing InfiniteCanvas with a multi-layer architecture.
  * Uses PixiJS Container objects to implement proper layer separation for:
  * - Background grid layer
+ * - Tile map layer
  * - Geometry drawing layer  
- * - Raycast visualization layer
+ * - Raycast visualization layer (also the pathfinding search and path)
+ * - Pixeloid occupancy debug layer
+ * - Field-of-view debug layer
  * - UI overlay elements
  */
 export class LayeredInfiniteCanvas extends InfiniteCanvas {
   // Layer containers for multi-layer rendering (now using Render Groups)
   private backgroundLayer: Container
+  private tileLayer: Container       // Painted tile map between the grid and geometry
   private geometryLayer: Container
   private selectionLayer: Container  // NEW: Separate layer for selection highlighting
   private pixelateLayer: Container   // NEW: Separate layer for pixelate effects
   private mirrorLayer: Container     // Mirror layer for cached texture sprites
   private raycastLayer: Container
+  private occupancyLayer: Container // Mesh registry debug overlay
+  private fovLayer: Container       // Field-of-view tool overlay
   private bboxLayer: Container      // NEW: Separate layer for bbox overlay
+  private guideLayer: Container     // Snap markers and alignment guides
   private mouseLayer: Container     // NEW: Separate layer for mouse visualization
 
   // Background grid renderer using extracted logic
   private backgroundGridRenderer: BackgroundGridRenderer
   
+  // Tile map renderer for painted pixeloid tiles
+  private tileMapRenderer: TileMapRenderer
+  
   // Graphics-based geometry renderer for user-drawn shapes (simple and reliable)
   private geometryRenderer: GeometryRenderer
   
@@ -52,6 +68,21 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
   // Simple bounding box renderer for comparison
   private boundingBoxRenderer: BoundingBoxRenderer
   
+  // Raycast renderer for traversed pixeloids and hits
+  private raycastRenderer: RaycastRenderer
+
+  // Pathfinding renderer for the A* search, path, start and goal
+  private pathfindingRenderer: PathfindingRenderer
+  
+  // Object snapping feedback (snap marker and alignment guides)
+  private snapGuideRenderer: SnapGuideRenderer
+
+  // Occupancy renderer for the mesh registry debug overlay
+  private occupancyRenderer: OccupancyRenderer
+
+  // Field-of-view renderer for the FOV tool's visible cells
+  private fieldOfViewRenderer: FieldOfViewRenderer
+  
   // Mirror layer renderer for cached texture sprites
   private mirrorLayerRenderer: MirrorLayerRenderer
   
@@ -66,6 +97,7 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
   
   // Dirty tracking with smarter camera handling (background only)
   private backgroundDirty = true
+  private lastProjection: CameraProjection = gameStore.camera.projection
   private lastPixeloidScale = 0
   private renderBufferPadding = 200 // Large buffer to avoid re-renders on movement
   private isBackgroundRendering = false
@@ -78,17 +110,24 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
 
     // Create layer containers as Render Groups for better performance
     this.backgroundLayer = new Container({ isRenderGroup: true })
+    this.tileLayer = new Container({ isRenderGroup: true })      // Tile layer between background and geometry
     this.geometryLayer = new Container({ isRenderGroup: true })
     this.selectionLayer = new Container({ isRenderGroup: true }) // Selection layer on top of geometry
     this.pixelateLayer = new Container({ isRenderGroup: true })  // Pixelate layer for GPU-accelerated effects
     this.mirrorLayer = new Container({ isRenderGroup: true })    // Mirror layer for cached texture sprites
     this.raycastLayer = new Container({ isRenderGroup: true })
+    this.occupancyLayer = new Container({ isRenderGroup: true }) // Occupied pixeloids (debug)
+    this.fovLayer = new Container({ isRenderGroup: true })       // Visible cells of the FOV tool
     this.bboxLayer = new Container({ isRenderGroup: true })     // Bbox layer for comparison overlay
+    this.guideLayer = new Container({ isRenderGroup: true })    // Snap feedback above the overlays
     this.mouseLayer = new Container({ isRenderGroup: true })    // Mouse layer on top
 
     // Initialize background grid renderer
     this.backgroundGridRenderer = new BackgroundGridRenderer()
 
+    // Initialize tile map renderer
+    this.tileMapRenderer = new TileMapRenderer()
+
     // Initialize graphics-based geometry renderer
     this.geometryRenderer = new GeometryRenderer()
     
@@ -104,6 +143,21 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     // Initialize simple bounding box renderer for comparison
     this.boundingBoxRenderer = new BoundingBoxRenderer()
 
+    // Initialize raycast renderer
+    this.raycastRenderer = new RaycastRenderer()
+
+    // Initialize pathfinding renderer
+    this.pathfindingRenderer = new PathfindingRenderer()
+
+    // Initialize snap guide renderer
+    this.snapGuideRenderer = new SnapGuideRenderer()
+
+    // Initialize occupancy debug renderer
+    this.occupancyRenderer = new OccupancyRenderer()
+
+    // Initialize field-of-view renderer
+    this.fieldOfViewRenderer = new FieldOfViewRenderer()
+
     // Initialize mirror layer renderer
     this.mirrorLayerRenderer = new MirrorLayerRenderer()
 
@@ -135,12 +189,19 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     
     // All other layers go directly to container (no scaling - they draw at screen coordinates)
     const mainContainer = this.getContainer()
+    mainContainer.addChild(this.tileLayer)                // Painted tiles at screen coords
     mainContainer.addChild(this.geometryLayer)            // Geometric shapes at screen coords
     mainContainer.addChild(this.selectionLayer)           // Selection highlights at screen coords
     mainContainer.addChild(this.pixelateLayer)            // Pixelate effects at screen coords
     mainContainer.addChild(this.mirrorLayer)              // Mirror layer at screen coords
+    mainContainer.addChild(this.occupancyLayer)           // Occupancy cells at screen coords
+    mainContainer.addChild(this.fovLayer)                 // Visible FOV cells at screen coords
     mainContainer.addChild(this.raycastLayer)             // Raycast lines at screen coords
     mainContainer.addChild(this.bboxLayer)                // Bbox layer at screen coords
+    mainContainer.addChild(this.guideLayer)               // Snap guides at screen coords
+    
+    // Tile layer gets the tile map renderer
+    this.tileLayer.addChild(this.tileMapRenderer.getGraphics())
     
     // Selection layer gets the selection filter renderer container
     this.selectionLayer.addChild(this.selectionFilterRenderer.getContainer())
@@ -149,9 +210,22 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     this.pixelateLayer.addChild(this.pixelateFilterRenderer.getContainer())
     
     
+    // Occupancy layer gets the occupancy renderer
+    this.occupancyLayer.addChild(this.occupancyRenderer.getGraphics())
+
+    // FOV layer gets the field-of-view renderer
+    this.fovLayer.addChild(this.fieldOfViewRenderer.getGraphics())
+
+    // Raycast layer gets the pathfinding and raycast renderers (rays drawn on top)
+    this.raycastLayer.addChild(this.pathfindingRenderer.getGraphics())
+    this.raycastLayer.addChild(this.raycastRenderer.getGraphics())
+    
     // Bbox layer gets the simple bounding box renderer
     this.bboxLayer.addChild(this.boundingBoxRenderer.getGraphics())
     
+    // Guide layer gets the snap guide renderer
+    this.guideLayer.addChild(this.snapGuideRenderer.getGraphics())
+    
     // Mouse layer goes into camera transform so it scales and positions with the grid
     // This ensures perfect alignment with pixeloids
     this.mouseLayer.addChild(this.mouseHighlightShader.getGraphics())
@@ -209,6 +283,9 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
       this.isBackgroundRendering = false
     }
 
+    // Render painted tiles (redraws only when tiles or camera changed)
+    this.renderTileLayer(paddedCorners, pixeloidScale)
+
     // Always render geometry every frame at 60fps (full redraw ensures old positions cleared)
     this.renderGeometryLayer(pixeloidScale)
     
@@ -221,9 +298,21 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     // Render mirror layer (cached texture sprites)
     this.renderMirrorLayer(paddedCorners, pixeloidScale)
     
+    // Render occupancy debug layer (occupied pixeloids from the mesh registry)
+    this.renderOccupancyLayer(pixeloidScale)
+
+    // Render field-of-view layer (visible cells around the mouse in FOV mode)
+    this.renderFieldOfViewLayer(pixeloidScale)
+
+    // Render raycast layer (rays, traversed pixeloids, hits and pathfinding)
+    this.renderRaycastLayer(pixeloidScale)
+    
     // Render bbox layer (comparison overlay)
     this.renderBboxLayer(paddedCorners, pixeloidScale)
     
+    // Render snap marker and alignment guides (only while object snapping is on)
+    this.snapGuideRenderer.render(pixeloidScale)
+    
     // Render UI overlay layer
     this.renderUIOverlayLayer(paddedCorners, pixeloidScale)
     
@@ -239,9 +328,6 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     if (!this.isBackgroundRendering) {
       this.renderMouseLayer()
     }
-
-    // TODO: Render raycast layer
-    // This will be implemented in subsequent steps
   }
   
   /**
@@ -261,6 +347,18 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     }
   }
   
+  /**
+   * Render tile layer - painted tile map below the geometry
+   */
+  private renderTileLayer(corners: ViewportCorners, pixeloidScale: number): void {
+    if (gameStore.geometry.layerVisibility.tiles) {
+      this.tileMapRenderer.render(corners, pixeloidScale)
+      this.tileLayer.visible = true
+    } else {
+      this.tileLayer.visible = false
+    }
+  }
+  
   /**
    * Render geometry layer with store-driven offset positioning
    * ALWAYS renders to maintain object containers for mirror layer
@@ -337,6 +435,43 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     }
   }
   
+  /**
+   * Render occupancy layer - only while mesh debug visualization is enabled
+   */
+  private renderOccupancyLayer(pixeloidScale: number): void {
+    if (gameStore.meshRegistry.meshSettings.enableDebugVisualization) {
+      this.occupancyRenderer.render(pixeloidScale)
+      this.occupancyLayer.visible = true
+    } else {
+      this.occupancyLayer.visible = false
+    }
+  }
+  
+  /**
+   * Render field-of-view layer - only while the FOV tool has a result
+   */
+  private renderFieldOfViewLayer(pixeloidScale: number): void {
+    if (gameStore.geometry.fieldOfView.origin) {
+      this.fieldOfViewRenderer.render(pixeloidScale)
+      this.fovLayer.visible = true
+    } else {
+      this.fovLayer.visible = false
+    }
+  }
+  
+  /**
+   * Render raycast layer - active raycasts and the pathfinding tool state from the store
+   */
+  private renderRaycastLayer(pixeloidScale: number): void {
+    if (gameStore.geometry.layerVisibility.raycast) {
+      this.pathfindingRenderer.render(pixeloidScale)
+      this.raycastRenderer.render(pixeloidScale)
+      this.raycastLayer.visible = true
+    } else {
+      this.raycastLayer.visible = false
+    }
+  }
+  
   /**
    * Render bbox layer - separate from mask layer for independent control with proper coordinate system
    */
@@ -382,6 +517,11 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
       this.markNewObjectsForTextureCapture()
     })
 
+    // Subscribe to tile map changes so the tile layer redraws
+    subscribe(gameStore.tileMap, () => {
+      this.tileMapRenderer.markDirty()
+    })
+
     // Subscribe to layer visibility changes for background re-rendering
     subscribe(gameStore.geometry.layerVisibility, () => {
       this.backgroundDirty = true
@@ -394,6 +534,11 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
         this.backgroundDirty = true
         this.lastPixeloidScale = gameStore.camera.pixeloid_scale
       }
+      // Projection switches the grid shader between square and diamond tiles
+      if (gameStore.camera.projection !== this.lastProjection) {
+        this.backgroundDirty = true
+        this.lastProjection = gameStore.camera.projection
+      }
     })
 
     // No offset subscription needed - geometry renders every frame and reads current offset
@@ -505,6 +650,13 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     return this.backgroundLayer
   }
 
+  /**
+   * Get the tile layer container for adding tile map elements
+   */
+  public getTileLayer(): Container {
+    return this.tileLayer
+  }
+
   /**
    * Get the geometry layer container for adding geometric shapes
    */
@@ -533,6 +685,13 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     return this.bboxLayer
   }
 
+  /**
+   * Get the geometry renderer (offscreen exports reuse its drawing)
+   */
+  public getGeometryRenderer(): GeometryRenderer {
+    return this.geometryRenderer
+  }
+
   /**
    * Override destroy to clean up layer resources
    */
@@ -542,20 +701,30 @@ export class LayeredInfiniteCanvas extends InfiniteCanvas {
     
     // Destroy renderers
     this.backgroundGridRenderer.destroy()
+    this.tileMapRenderer.destroy()
     this.geometryRenderer.destroy()
     this.selectionFilterRenderer.destroy()
     this.pixelateFilterRenderer.destroy()
     this.mirrorLayerRenderer.destroy()
     this.boundingBoxRenderer.destroy()
+    this.raycastRenderer.destroy()
+    this.pathfindingRenderer.destroy()
+    this.snapGuideRenderer.destroy()
+    this.occupancyRenderer.destroy()
+    this.fieldOfViewRenderer.destroy()
 
     // Destroy layer containers
     this.backgroundLayer.destroy()
+    this.tileLayer.destroy()
     this.geometryLayer.destroy()
     this.selectionLayer.destroy()
     this.pixelateLayer.destroy()
     this.mirrorLayer.destroy()
+    this.occupancyLayer.destroy()
+    this.fovLayer.destroy()
     this.raycastLayer.destroy()
     this.bboxLayer.destroy()
+    this.guideLayer.destroy()
 
     // Call parent destroy
     super.destroy()
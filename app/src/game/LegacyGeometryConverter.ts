@@ -0,0 +1,76 @@
+/**
+ * LegacyGeometryConverter turns version 1 objects (per-shape coordinate fields, flat style
+ * fields, told apart by which fields exist) into the stable vertex model.
+ * The conversion is one-way: nothing writes the legacy format any more.
+ */
+
+import type {
+  AnchorConfig,
+  GeometricObjectType,
+  GeometryStyle,
+  LegacyGeometricObject,
+  SerializedGeometricObject
+} from '../types'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+
+// Converted vertices are the stored coordinates, so no anchor is applied to them again
+const EXACT_ANCHOR: AnchorConfig = {
+  firstPointAnchor: 'top-left',
+  firstPointExact: true,
+  secondPointExact: true
+}
+
+export class LegacyGeometryConverter {
+  /**
+   * Shape of a legacy object, by the fields it has (checked in the order the old code used)
+   */
+  static getLegacyType(legacy: LegacyGeometricObject): GeometricObjectType {
+    if ('vertices' in legacy) return legacy.closed ? 'polygon' : 'polyline'
+    if ('anchorX' in legacy) return 'diamond'
+    if ('centerX' in legacy) return 'circle'
+    if ('width' in legacy) return 'rectangle'
+    if ('startX' in legacy) return 'line'
+    return 'point'
+  }
+
+  /**
+   * Convert a legacy object. The anchor config defaults to "vertices are exact".
+   */
+  static toStable(legacy: LegacyGeometricObject, anchorConfig: AnchorConfig = EXACT_ANCHOR): SerializedGeometricObject {
+    const type = LegacyGeometryConverter.getLegacyType(legacy)
+
+    const style: GeometryStyle = {
+      color: legacy.color,
+      strokeWidth: 'strokeWidth' in legacy ? legacy.strokeWidth : 1, // Legacy points had no stroke width
+      strokeAlpha: legacy.strokeAlpha
+    }
+    if ('fillColor' in legacy && legacy.fillColor !== undefined) {
+      style.fillColor = legacy.fillColor
+      style.fillAlpha = legacy.fillAlpha
+    }
+
+    const converted: SerializedGeometricObject = {
+      id: legacy.id,
+      type,
+      isVisible: legacy.isVisible,
+      createdAt: legacy.createdAt,
+      pixeloidVertices: LegacyGeometryConverter.getVertices(legacy),
+      anchorConfig: { ...anchorConfig },
+      style
+    }
+    if (legacy.groupId !== undefined) converted.groupId = legacy.groupId
+    if (legacy.properties !== undefined) converted.properties = { ...legacy.properties }
+    return converted
+  }
+
+  private static getVertices(legacy: LegacyGeometricObject) {
+    if ('vertices' in legacy) {
+      return legacy.vertices.map(vertex => ({ __brand: 'pixeloid' as const, x: vertex.x, y: vertex.y }))
+    }
+    if ('anchorX' in legacy) return GeometryVertexCalculator.toDiamondVertices(legacy)
+    if ('centerX' in legacy) return GeometryVertexCalculator.toCircleVertices(legacy)
+    if ('width' in legacy) return GeometryVertexCalculator.toRectangleVertices(legacy)
+    if ('startX' in legacy) return GeometryVertexCalculator.toLineVertices(legacy)
+    return GeometryVertexCalculator.toPointVertices(legacy)
+  }
+}
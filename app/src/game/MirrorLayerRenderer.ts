@@ -1,5 +1,5 @@
 import { Container, Sprite, RenderTexture, Matrix, Renderer, Texture, Rectangle } from 'pixi.js'
-import { gameStore } from '../store/gameStore'
+import { gameStore, updateGameStore } from '../store/gameStore'
 import { CoordinateCalculations } from './CoordinateCalculations'
 import { GeometryHelper } from './GeometryHelper'
 import type { ViewportCorners, GeometricObject } from '../types'
@@ -77,8 +77,8 @@ export class MirrorLayerRenderer {
       return
     }
 
-    // Get visible objects from store, excluding offscreen objects
-    const visibleObjects = gameStore.geometry.objects.filter(obj => {
+    // Get visible objects from the spatial index, excluding offscreen objects
+    const visibleObjects = updateGameStore.queryObjectsInViewport().filter(obj => {
       if (!obj.isVisible || !obj.metadata) return false
       
       // Get visibility from scale-indexed cache
@@ -399,14 +399,16 @@ export class MirrorLayerRenderer {
     let version = obj.createdAt
     
     // Visual properties only
-    if ('color' in obj) version += obj.color
-    if ('strokeWidth' in obj) version += (obj as any).strokeWidth * 1000
-    if ('fillColor' in obj) version += (obj as any).fillColor || 0
+    version += obj.style.color
+    version += obj.style.strokeWidth * 1000
+    version += obj.style.fillColor || 0
     
     // Size properties (not position)
-    if ('width' in obj) version += (obj as any).width * 100
-    if ('height' in obj) version += (obj as any).height * 100
-    if ('radius' in obj) version += (obj as any).radius * 100
+    const bounds = obj.metadata?.bounds
+    if (bounds) version += ((bounds.maxX - bounds.minX) + (bounds.maxY - bounds.minY)) * 100
+    
+    // Pixel-art cells look different from the vector shape
+    if (gameStore.geometry.renderMode === 'pixel') version += 0.5
     
     return version
   }
@@ -1,5 +1,6 @@
 import { Graphics } from 'pixi.js'
 import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
 import { subscribe } from 'valtio'
 
 /**
@@ -104,7 +105,21 @@ export class MouseHighlightShader {
     
     console.log(`MouseHighlightShader: Mouse at (${mouseX}, ${mouseY}), highlighting grid square at (${gridX}, ${gridY})`)
     
-    // Draw 1x1 grid square at mouse position
+    // Draw 1x1 grid square at mouse position (a diamond tile in isometric mode)
+    // Graphics live under the camera transform, so project at unit scale
+    if (gameStore.camera.projection === 'isometric') {
+      const corners = [
+        [gridX, gridY], [gridX + 1, gridY], [gridX + 1, gridY + 1], [gridX, gridY + 1]
+      ].flatMap(([x, y]) => {
+        const screen = CoordinateCalculations.vertexToScreen({ __brand: 'vertex', x, y }, 1, 'isometric')
+        return [screen.x, screen.y]
+      })
+      this.graphics
+        .poly(corners)
+        .fill({ color: this.highlightColor, alpha: alpha })
+      return
+    }
+    
     this.graphics
       .rect(gridX, gridY, 1, 1)
       .fill({ color: this.highlightColor, alpha: alpha })
@@ -0,0 +1,189 @@
+import { gameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import type { GeometricObject, PixeloidCoordinate, PixeloidVertex } from '../types'
+
+export interface ObjectHandle {
+  id: string
+  kind: 'vertex' | 'edge' | 'radius'
+  position: PixeloidCoordinate
+}
+
+/**
+ * ObjectHandleHelper defines the on-canvas reshape handles of each shape type
+ * and turns a handle drag into a pixeloidVertices update for updateGameStore.updateGeometricObject.
+ * - Line: start / end
+ * - Rectangle: four corners and four edge midpoints
+ * - Circle: radius handle on the east side
+ * - Diamond: west / east vertices
+ * - Polygon / polyline: every vertex
+ * Points have no handles (they are moved as a whole).
+ */
+export class ObjectHandleHelper {
+  // Screen-space pick radius for handles (pixels)
+  static readonly HIT_RADIUS = 8
+
+  /**
+   * Get the reshape handles of an object in pixeloid space
+   */
+  static getHandles(obj: GeometricObject): ObjectHandle[] {
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+        return vertices.map((vertex, index) => ({
+          id: `vertex-${index}`,
+          kind: 'vertex' as const,
+          position: createPixeloidCoordinate(vertex.x, vertex.y)
+        }))
+      case 'diamond': {
+        const [west, , east] = vertices
+        return [
+          { id: 'west', kind: 'vertex', position: createPixeloidCoordinate(west.x, west.y) },
+          { id: 'east', kind: 'vertex', position: createPixeloidCoordinate(east.x, east.y) }
+        ]
+      }
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        return [
+          { id: 'radius', kind: 'radius', position: createPixeloidCoordinate(circle.centerX + circle.radius, circle.centerY) }
+        ]
+      }
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        const left = rect.x
+        const right = rect.x + rect.width
+        const top = rect.y
+        const bottom = rect.y + rect.height
+        const midX = rect.x + rect.width / 2
+        const midY = rect.y + rect.height / 2
+        return [
+          { id: 'nw', kind: 'vertex', position: createPixeloidCoordinate(left, top) },
+          { id: 'ne', kind: 'vertex', position: createPixeloidCoordinate(right, top) },
+          { id: 'se', kind: 'vertex', position: createPixeloidCoordinate(right, bottom) },
+          { id: 'sw', kind: 'vertex', position: createPixeloidCoordinate(left, bottom) },
+          { id: 'n', kind: 'edge', position: createPixeloidCoordinate(midX, top) },
+          { id: 'e', kind: 'edge', position: createPixeloidCoordinate(right, midY) },
+          { id: 's', kind: 'edge', position: createPixeloidCoordinate(midX, bottom) },
+          { id: 'w', kind: 'edge', position: createPixeloidCoordinate(left, midY) }
+        ]
+      }
+      case 'line': {
+        const [start, end] = vertices
+        return [
+          { id: 'start', kind: 'vertex', position: createPixeloidCoordinate(start.x, start.y) },
+          { id: 'end', kind: 'vertex', position: createPixeloidCoordinate(end.x, end.y) }
+        ]
+      }
+    }
+    return []
+  }
+
+  /**
+   * Find the handle of an object under a pixeloid position.
+   * Distance is measured on screen so handles stay easy to grab at any zoom and projection.
+   */
+  static findHandleAt(obj: GeometricObject, pixeloidPos: PixeloidCoordinate): ObjectHandle | null {
+    const pixeloidScale = gameStore.camera.pixeloid_scale
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const projection = gameStore.camera.projection
+    const target = CoordinateCalculations.pixeloidToScreen(pixeloidPos, pixeloidScale, offset, projection)
+
+    let closest: ObjectHandle | null = null
+    let closestDistance = ObjectHandleHelper.HIT_RADIUS
+    for (const handle of ObjectHandleHelper.getHandles(obj)) {
+      const screen = CoordinateCalculations.pixeloidToScreen(handle.position, pixeloidScale, offset, projection)
+      const distance = Math.hypot(screen.x - target.x, screen.y - target.y)
+      if (distance <= closestDistance) {
+        closest = handle
+        closestDistance = distance
+      }
+    }
+    return closest
+  }
+
+  /**
+   * Calculate the updates that move one handle of the ORIGINAL object to a pixeloid position.
+   * The position is snapped with the object's anchor configuration (per-object override or type default),
+   * unless `exact` is set because object snapping already placed it on another object.
+   * Returns null when the drag would collapse the shape.
+   */
+  static calculateHandleDrag(
+    original: GeometricObject,
+    handleId: string,
+    pixeloidPos: PixeloidCoordinate,
+    exact: boolean = false
+  ): Partial<GeometricObject> | null {
+    const anchorConfig = GeometryVertexCalculator.getAnchorConfig(original.type, original.id)
+    const snapped = GeometryVertexCalculator.anchorVertex(pixeloidPos, anchorConfig.firstPointAnchor, exact)
+    const originalVertices = original.pixeloidVertices
+
+    switch (original.type) {
+      case 'polygon':
+      case 'polyline': {
+        const index = parseInt(handleId.replace('vertex-', ''), 10)
+        if (!Number.isInteger(index) || index < 0 || index >= originalVertices.length) return null
+        const pixeloidVertices: PixeloidVertex[] = originalVertices.map((vertex, i) =>
+          i === index ? snapped : { __brand: 'pixeloid', x: vertex.x, y: vertex.y }
+        )
+        return { pixeloidVertices }
+      }
+
+      case 'diamond': {
+        // The dragged vertex and the opposite (fixed) vertex define the diamond, west first.
+        // Diamonds are reshaped horizontally only - the west/east Y stays locked.
+        const [originalWest, , originalEast] = originalVertices
+        const dragged = createPixeloidCoordinate(pixeloidPos.x, originalWest.y)
+        const fixed = handleId === 'west'
+          ? createPixeloidCoordinate(originalEast.x, originalEast.y)
+          : createPixeloidCoordinate(originalWest.x, originalWest.y)
+        const [west, east] = dragged.x <= fixed.x ? [dragged, fixed] : [fixed, dragged]
+        const pixeloidVertices = GeometryVertexCalculator.calculateDiamondVertices(west, east, {
+          firstPointAnchor: anchorConfig.firstPointAnchor,
+          secondPointAnchor: anchorConfig.secondPointAnchor ?? anchorConfig.firstPointAnchor,
+          firstPointExact: exact && west === dragged,
+          secondPointExact: exact && east === dragged
+        })
+        return pixeloidVertices[2].x > pixeloidVertices[0].x ? { pixeloidVertices } : null
+      }
+
+      case 'circle': {
+        const { centerX, centerY } = GeometryVertexCalculator.getCircleShape(originalVertices)
+        const radius = Math.hypot(snapped.x - centerX, snapped.y - centerY)
+        return radius > 0
+          ? { pixeloidVertices: GeometryVertexCalculator.toCircleVertices({ centerX, centerY, radius }) }
+          : null
+      }
+
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(originalVertices)
+        let left = rect.x
+        let right = rect.x + rect.width
+        let top = rect.y
+        let bottom = rect.y + rect.height
+        if (handleId.includes('w')) left = snapped.x
+        if (handleId.includes('e')) right = snapped.x
+        if (handleId.includes('n')) top = snapped.y
+        if (handleId.includes('s')) bottom = snapped.y
+
+        // Dragging past the opposite side flips the rectangle instead of inverting it
+        const width = Math.abs(right - left)
+        const height = Math.abs(bottom - top)
+        if (width === 0 || height === 0) return null
+        return {
+          pixeloidVertices: GeometryVertexCalculator.toRectangleVertices({ x: Math.min(left, right), y: Math.min(top, bottom), width, height })
+        }
+      }
+
+      case 'line': {
+        const [start, end] = originalVertices
+        const pixeloidVertices: PixeloidVertex[] = handleId === 'start'
+          ? [snapped, { __brand: 'pixeloid', x: end.x, y: end.y }]
+          : [{ __brand: 'pixeloid', x: start.x, y: start.y }, snapped]
+        return { pixeloidVertices }
+      }
+    }
+
+    return null
+  }
+}
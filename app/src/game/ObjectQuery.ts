@@ -0,0 +1,213 @@
+import { gameStore, updateGameStore } from '../store/gameStore'
+import { PropertySchemaRegistry, type PropertyObjectType } from './PropertySchemaRegistry'
+import type { SpatialBounds } from './SpatialIndex'
+import type { GeometricObject } from '../types'
+
+export type ObjectSortKey = 'layer' | 'created' | 'size' | 'distance'
+
+export interface ObjectQueryFilter {
+  types: PropertyObjectType[]                       // Any of these types (empty = all)
+  colors: number[]                                  // Any of these stroke colors (empty = all)
+  visible: boolean | null
+  favorite: boolean | null
+  region: SpatialBounds | 'viewport' | null         // Bounds must intersect the region
+  ids: string[]                                     // Id substrings (all must match)
+  properties: { key: string, value: string }[]      // key=value property matches (schema defaults included)
+  terms: string[]                                   // Free text: id, type name, stored property key or value
+}
+
+const OBJECT_TYPES: PropertyObjectType[] = ['point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline']
+
+/**
+ * ObjectQuery filters and sorts the geometry objects for the StoreExplorer search bar.
+ * Whitespace-separated terms must all match:
+ * - type:circle,rectangle     any of the listed types
+ * - color:#ff0000             any of the listed stroke colors (hex, '#' optional)
+ * - visible:true|false        object visibility flag
+ * - favorite:true|false       favorites membership
+ * - in:x1,y1,x2,y2 / in:viewport   bounds intersecting a pixeloid region
+ * - id:abc                    id substring
+ * - key=value                 property value
+ * - anything else             id substring, type name, or stored property key / value
+ * Terms that cannot be parsed are reported as errors and ignored.
+ */
+export class ObjectQuery {
+  static parse(query: string): { filter: ObjectQueryFilter, errors: string[] } {
+    const filter: ObjectQueryFilter = {
+      types: [],
+      colors: [],
+      visible: null,
+      favorite: null,
+      region: null,
+      ids: [],
+      properties: [],
+      terms: []
+    }
+    const errors: string[] = []
+
+    for (const term of query.trim().toLowerCase().split(/\s+/).filter(term => term !== '')) {
+      const colon = term.indexOf(':')
+      const equals = term.indexOf('=')
+      if (equals > 0 && (colon === -1 || equals < colon)) {
+        filter.properties.push({ key: term.slice(0, equals), value: term.slice(equals + 1) })
+        continue
+      }
+      if (colon <= 0) {
+        filter.terms.push(term)
+        continue
+      }
+
+      const field = term.slice(0, colon)
+      const value = term.slice(colon + 1)
+      const error = ObjectQuery.applyField(filter, field, value)
+      if (error) {
+        errors.push(error)
+      }
+    }
+    return { filter, errors }
+  }
+
+  static matches(obj: GeometricObject, filter: ObjectQueryFilter): boolean {
+    if (filter.types.length > 0 && !filter.types.includes(PropertySchemaRegistry.getObjectType(obj))) return false
+    if (filter.colors.length > 0 && !filter.colors.includes(obj.style.color)) return false
+    if (filter.visible !== null && obj.isVisible !== filter.visible) return false
+    if (filter.favorite !== null && updateGameStore.isFavorite(obj.id) !== filter.favorite) return false
+
+    if (filter.region) {
+      const region = filter.region === 'viewport' ? ObjectQuery.getViewportRegion() : filter.region
+      const bounds = obj.metadata?.bounds
+      if (!bounds || bounds.maxX < region.minX || bounds.minX > region.maxX || bounds.maxY < region.minY || bounds.minY > region.maxY) {
+        return false
+      }
+    }
+
+    const id = obj.id.toLowerCase()
+    if (!filter.ids.every(part => id.includes(part))) return false
+
+    if (filter.properties.length > 0) {
+      const resolved = Object.entries(PropertySchemaRegistry.resolve(obj))
+      const matchesProperty = ({ key, value }: { key: string, value: string }) =>
+        resolved.some(([propertyKey, propertyValue]) => propertyKey.toLowerCase() === key && String(propertyValue).toLowerCase() === value)
+      if (!filter.properties.every(matchesProperty)) return false
+    }
+
+    if (filter.terms.length > 0) {
+      const type = PropertySchemaRegistry.getObjectType(obj)
+      const stored = Object.entries(obj.properties ?? {})
+      return filter.terms.every(term =>
+        id.includes(term) ||
+        type === term ||
+        stored.some(([key, value]) => key.toLowerCase().includes(term) || String(value).toLowerCase().includes(term))
+      )
+    }
+    return true
+  }
+
+  /**
+   * Sort a copy of the objects. 'layer' keeps the draw order (bottom first), the others sort
+   * ascending - oldest, smallest or closest to the camera first.
+   */
+  static sort(objects: GeometricObject[], key: ObjectSortKey, descending = false): GeometricObject[] {
+    let value: (obj: GeometricObject) => number
+    switch (key) {
+      case 'created':
+        value = obj => obj.createdAt
+        break
+      case 'size':
+        value = ObjectQuery.getArea
+        break
+      case 'distance': {
+        const region = ObjectQuery.getViewportRegion()
+        const cameraX = (region.minX + region.maxX) / 2
+        const cameraY = (region.minY + region.maxY) / 2
+        value = obj => obj.metadata ? Math.hypot(obj.metadata.center.x - cameraX, obj.metadata.center.y - cameraY) : Infinity
+        break
+      }
+      default:
+        value = obj => updateGameStore.getObjectDrawOrder(obj.id)
+    }
+
+    const direction = descending ? -1 : 1
+    return objects
+      .map(obj => ({ obj, sortValue: value(obj) }))
+      .sort((a, b) => (a.sortValue - b.sortValue) * direction || a.obj.createdAt - b.obj.createdAt)
+      .map(entry => entry.obj)
+  }
+
+  /**
+   * Matching objects in sort order
+   */
+  static run(query: string, key: ObjectSortKey = 'layer', descending = false): GeometricObject[] {
+    const { filter } = ObjectQuery.parse(query)
+    return ObjectQuery.sort(gameStore.geometry.objects.filter(obj => ObjectQuery.matches(obj, filter)), key, descending)
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Apply a field:value term - returns an error message when the value cannot be parsed
+   */
+  private static applyField(filter: ObjectQueryFilter, field: string, value: string): string | null {
+    const parseBoolean = (text: string): boolean | null => text === 'true' || text === 'yes' ? true : text === 'false' || text === 'no' ? false : null
+
+    switch (field) {
+      case 'type': {
+        const types = value.split(',').filter(type => type !== '')
+        const unknown = types.find(type => !OBJECT_TYPES.includes(type as PropertyObjectType))
+        if (types.length === 0 || unknown !== undefined) {
+          return `unknown type '${unknown ?? value}' (${OBJECT_TYPES.join(', ')})`
+        }
+        filter.types.push(...types as PropertyObjectType[])
+        return null
+      }
+      case 'color': {
+        const colors = value.split(',').map(color => color.replace(/^#/, ''))
+        if (colors.some(color => !/^[0-9a-f]{6}$/.test(color))) {
+          return `invalid color '${value}' (use #rrggbb)`
+        }
+        filter.colors.push(...colors.map(color => parseInt(color, 16)))
+        return null
+      }
+      case 'visible':
+      case 'favorite': {
+        const flag = parseBoolean(value)
+        if (flag === null) {
+          return `${field} must be true or false`
+        }
+        filter[field] = flag
+        return null
+      }
+      case 'in': {
+        if (value === 'viewport') {
+          filter.region = 'viewport'
+          return null
+        }
+        const numbers = value.split(',').map(Number)
+        if (numbers.length !== 4 || numbers.some(number => !Number.isFinite(number))) {
+          return `invalid region '${value}' (use in:x1,y1,x2,y2 or in:viewport)`
+        }
+        const [x1, y1, x2, y2] = numbers
+        filter.region = { minX: Math.min(x1, x2), minY: Math.min(y1, y2), maxX: Math.max(x1, x2), maxY: Math.max(y1, y2) }
+        return null
+      }
+      case 'id':
+        filter.ids.push(value)
+        return null
+      default:
+        return `unknown filter '${field}:'`
+    }
+  }
+
+  private static getViewportRegion(): SpatialBounds {
+    const world = gameStore.camera.viewport_bounds.world
+    return { minX: world.top_left.x, minY: world.top_left.y, maxX: world.bottom_right.x, maxY: world.bottom_right.y }
+  }
+
+  private static getArea(obj: GeometricObject): number {
+    if (!obj.metadata) return 0
+    const { minX, minY, maxX, maxY } = obj.metadata.bounds
+    return (maxX - minX) * (maxY - minY)
+  }
+}
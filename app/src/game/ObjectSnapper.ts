@@ -0,0 +1,237 @@
+import { gameStore, updateGameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { GeometryHelper } from './GeometryHelper'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import type { GeometricObject, PixeloidCoordinate, SnapTarget, SnapGuide } from '../types'
+
+interface SnapSegment {
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+  objectId: string
+}
+
+/**
+ * ObjectSnapper finds snap targets on other objects (gameStore.geometry.snapping):
+ * - Point: its position
+ * - Line: endpoints and midpoint
+ * - Circle: center
+ * - Rectangle: corners, edge midpoints, center and its edges
+ * - Diamond: its four vertices, center and its edges
+ * - Polygon / polyline: vertices (polyline ends as endpoints), segment midpoints, center and its segments
+ * Key points come from the object vertices and metadata.
+ * Distances are measured on screen, so the tolerance (pixels) feels the same at any zoom and projection.
+ */
+export class ObjectSnapper {
+  /**
+   * Key points of an object (no edges)
+   */
+  static getSnapTargets(obj: GeometricObject): SnapTarget[] {
+    const target = (x: number, y: number, kind: SnapTarget['kind']): SnapTarget => ({ x, y, kind, objectId: obj.id })
+    const center = obj.metadata?.center ?? GeometryHelper.calculateObjectMetadata(obj, gameStore.camera.pixeloid_scale).center
+
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline': {
+        const closed = obj.type === 'polygon'
+        const segmentCount = closed ? vertices.length : vertices.length - 1
+        const targets = vertices.map((vertex, index) =>
+          target(vertex.x, vertex.y, !closed && (index === 0 || index === vertices.length - 1) ? 'endpoint' : 'vertex')
+        )
+        for (let i = 0; i < segmentCount; i++) {
+          const a = vertices[i]
+          const b = vertices[(i + 1) % vertices.length]
+          targets.push(target((a.x + b.x) / 2, (a.y + b.y) / 2, 'midpoint'))
+        }
+        if (closed) {
+          targets.push(target(center.x, center.y, 'center'))
+        }
+        return targets
+      }
+      case 'diamond':
+        // [west, north, east, south]
+        return [
+          ...vertices.map(vertex => target(vertex.x, vertex.y, 'vertex')),
+          target(center.x, center.y, 'center')
+        ]
+      case 'circle':
+        return [target(center.x, center.y, 'center')]
+      case 'rectangle': {
+        const { x, y, width, height } = GeometryVertexCalculator.getRectangleShape(vertices)
+        const right = x + width
+        const bottom = y + height
+        return [
+          target(x, y, 'vertex'),
+          target(right, y, 'vertex'),
+          target(right, bottom, 'vertex'),
+          target(x, bottom, 'vertex'),
+          target(center.x, y, 'midpoint'),
+          target(right, center.y, 'midpoint'),
+          target(center.x, bottom, 'midpoint'),
+          target(x, center.y, 'midpoint'),
+          target(center.x, center.y, 'center')
+        ]
+      }
+      case 'line': {
+        const [start, end] = vertices
+        return [
+          target(start.x, start.y, 'endpoint'),
+          target(end.x, end.y, 'endpoint'),
+          target((start.x + end.x) / 2, (start.y + end.y) / 2, 'midpoint')
+        ]
+      }
+    }
+    return [target(vertices[0].x, vertices[0].y, 'point')]
+  }
+
+  /**
+   * Snap a pixeloid position to the closest key point of another object within the tolerance,
+   * falling back to the closest point on an outline. Returns null when nothing is in range.
+   */
+  static snapPoint(pixeloidPos: PixeloidCoordinate, excludeIds: string[] = []): SnapTarget | null {
+    const { tolerance } = gameStore.geometry.snapping
+    const pixeloidScale = gameStore.camera.pixeloid_scale
+    // Generous pixeloid search box - isometric projection stretches distances up to sqrt(2)
+    const reach = (tolerance / pixeloidScale) * 2
+    const candidates = ObjectSnapper.getCandidates(excludeIds, {
+      minX: pixeloidPos.x - reach,
+      minY: pixeloidPos.y - reach,
+      maxX: pixeloidPos.x + reach,
+      maxY: pixeloidPos.y + reach
+    })
+    if (candidates.length === 0) return null
+
+    let closest: SnapTarget | null = null
+    let closestDistance = tolerance
+    for (const obj of candidates) {
+      for (const target of ObjectSnapper.getSnapTargets(obj)) {
+        const distance = ObjectSnapper.screenDistance(pixeloidPos, target)
+        if (distance <= closestDistance) {
+          closest = target
+          closestDistance = distance
+        }
+      }
+    }
+    if (closest) return closest
+
+    closestDistance = tolerance
+    for (const obj of candidates) {
+      for (const segment of ObjectSnapper.getSnapEdges(obj)) {
+        const point = ObjectSnapper.closestPointOnSegment(pixeloidPos, segment)
+        const distance = ObjectSnapper.screenDistance(pixeloidPos, point)
+        if (distance <= closestDistance) {
+          closest = { x: point.x, y: point.y, kind: 'edge', objectId: segment.objectId }
+          closestDistance = distance
+        }
+      }
+    }
+    return closest
+  }
+
+  /**
+   * Smallest per-axis correction that aligns a key point of the moving objects with a key point
+   * of another visible object (null for an axis with nothing within the tolerance)
+   */
+  static findAlignment(movingObjects: GeometricObject[], excludeIds: string[]): { dx: number | null, dy: number | null } {
+    const tolerance = gameStore.geometry.snapping.tolerance / gameStore.camera.pixeloid_scale
+    const movingPoints = movingObjects.flatMap(obj => ObjectSnapper.getSnapTargets(obj))
+    const targets = ObjectSnapper.getCandidates(excludeIds).flatMap(obj => ObjectSnapper.getSnapTargets(obj))
+
+    let dx: number | null = null
+    let dy: number | null = null
+    for (const moving of movingPoints) {
+      for (const target of targets) {
+        const offsetX = target.x - moving.x
+        const offsetY = target.y - moving.y
+        if (Math.abs(offsetX) <= tolerance && (dx === null || Math.abs(offsetX) < Math.abs(dx))) dx = offsetX
+        if (Math.abs(offsetY) <= tolerance && (dy === null || Math.abs(offsetY) < Math.abs(dy))) dy = offsetY
+      }
+    }
+    return { dx, dy }
+  }
+
+  /**
+   * Guides for every exact horizontal / vertical alignment between the moving objects and the others.
+   * Each guide spans all the key points it passes through.
+   */
+  static findGuides(movingObjects: GeometricObject[], excludeIds: string[]): SnapGuide[] {
+    const movingPoints = movingObjects.flatMap(obj => ObjectSnapper.getSnapTargets(obj))
+    const targets = ObjectSnapper.getCandidates(excludeIds).flatMap(obj => ObjectSnapper.getSnapTargets(obj))
+    const guides = new Map<string, SnapGuide>()
+
+    const extend = (axis: 'x' | 'y', position: number, a: number, b: number) => {
+      const key = `${axis}:${position}`
+      const guide = guides.get(key)
+      if (guide) {
+        guide.from = Math.min(guide.from, a, b)
+        guide.to = Math.max(guide.to, a, b)
+      } else {
+        guides.set(key, { axis, position, from: Math.min(a, b), to: Math.max(a, b) })
+      }
+    }
+
+    for (const moving of movingPoints) {
+      for (const target of targets) {
+        if (Math.abs(target.x - moving.x) < 1e-6) extend('x', target.x, target.y, moving.y)
+        if (Math.abs(target.y - moving.y) < 1e-6) extend('y', target.y, target.x, moving.x)
+      }
+    }
+    return [...guides.values()]
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Visible objects that can be snapped to - in the bounds, or in the viewport when none are given
+   */
+  private static getCandidates(
+    excludeIds: string[],
+    bounds?: { minX: number, minY: number, maxX: number, maxY: number }
+  ): GeometricObject[] {
+    const excluded = new Set(excludeIds)
+    const objects = bounds ? updateGameStore.queryObjectsInRect(bounds) : updateGameStore.queryObjectsInViewport()
+    return objects.filter(obj => obj.isVisible && !excluded.has(obj.id))
+  }
+
+  /**
+   * Outline segments used for edge snapping
+   */
+  private static getSnapEdges(obj: GeometricObject): SnapSegment[] {
+    // Diamond and rectangle vertices are their corners in outline order
+    if (obj.type === 'circle' || obj.type === 'point') return []
+    const corners = obj.pixeloidVertices
+    const closed = obj.type !== 'line' && obj.type !== 'polyline'
+
+    const segments: SnapSegment[] = []
+    const segmentCount = closed ? corners.length : corners.length - 1
+    for (let i = 0; i < segmentCount; i++) {
+      const a = corners[i]
+      const b = corners[(i + 1) % corners.length]
+      segments.push({ x1: a.x, y1: a.y, x2: b.x, y2: b.y, objectId: obj.id })
+    }
+    return segments
+  }
+
+  private static closestPointOnSegment(point: { x: number, y: number }, segment: SnapSegment): { x: number, y: number } {
+    const dx = segment.x2 - segment.x1
+    const dy = segment.y2 - segment.y1
+    const lengthSquared = dx * dx + dy * dy
+    if (lengthSquared === 0) return { x: segment.x1, y: segment.y1 }
+
+    const t = Math.max(0, Math.min(1, ((point.x - segment.x1) * dx + (point.y - segment.y1) * dy) / lengthSquared))
+    return { x: segment.x1 + t * dx, y: segment.y1 + t * dy }
+  }
+
+  private static screenDistance(a: { x: number, y: number }, b: { x: number, y: number }): number {
+    const pixeloidScale = gameStore.camera.pixeloid_scale
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const projection = gameStore.camera.projection
+    const screenA = CoordinateCalculations.pixeloidToScreen(createPixeloidCoordinate(a.x, a.y), pixeloidScale, offset, projection)
+    const screenB = CoordinateCalculations.pixeloidToScreen(createPixeloidCoordinate(b.x, b.y), pixeloidScale, offset, projection)
+    return Math.hypot(screenA.x - screenB.x, screenA.y - screenB.y)
+  }
+}
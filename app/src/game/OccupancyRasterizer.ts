@@ -0,0 +1,213 @@
+/**
+ * OccupancyRasterizer fills the mesh registry (gameStore.meshRegistry) with the pixeloids each object covers.
+ * - Cells are tested with GeometryHelper.pixeloidIntersectsObject in meshSettings.samplingMode and
+ *   capped at meshSettings.maxPixeloidsPerObject per object
+ * - Object changes only mark meshes invalid; they are rebuilt on the next query, so nothing is rasterized
+ *   until pathfinding, the FOV tool or the debug overlay (OccupancyRenderer) asks for cells
+ * - Lines and polylines are traced along their segments; area shapes scan their bounding box
+ * - Changing the sampling mode or the limit rebuilds every mesh
+ * - Scene queries only see visible objects of visible groups, like picking
+ */
+
+import type { GeometricObject, PixeloidMeshData } from '../types'
+import { subscribe } from 'valtio'
+import { gameStore, updateGameStore } from '../store/gameStore'
+import { GeometryHelper } from './GeometryHelper'
+
+interface RasterizedObject {
+  object: GeometricObject   // Store object the cells were computed from (replaced on undo / restore)
+  cells: Set<string>
+}
+
+// Object fields that change the covered cells
+const GEOMETRY_KEYS = new Set(['pixeloidVertices', 'type'])
+
+// Derived from the registry and kept outside the proxy: object id -> cells, cell key -> object ids
+const rasterized = new Map<string, RasterizedObject>()
+const cellOccupants = new Map<string, Set<string>>()
+
+// Objects to rebuild on the next update (see handleObjectOps)
+const pendingIds = new Set<string>()
+let isStructureStale = true
+let settingsKey = ''
+
+export class OccupancyRasterizer {
+  /**
+   * Rebuild invalid meshes - called by every query, cheap when nothing changed
+   */
+  static update(): void {
+    const { samplingMode, maxPixeloidsPerObject } = gameStore.meshRegistry.meshSettings
+    const currentSettingsKey = `${samplingMode}:${maxPixeloidsPerObject}`
+    if (currentSettingsKey !== settingsKey) {
+      settingsKey = currentSettingsKey
+      updateGameStore.invalidateAllMeshes()
+      rasterized.forEach((_entry, objectId) => pendingIds.add(objectId))
+      isStructureStale = true
+    }
+
+    if (isStructureStale) {
+      OccupancyRasterizer.reconcile()
+    }
+    if (pendingIds.size === 0) return
+
+    const objects = new Map(gameStore.geometry.objects.map(obj => [obj.id, obj]))
+    for (const objectId of pendingIds) {
+      const object = objects.get(objectId)
+      if (object) {
+        OccupancyRasterizer.rasterize(object)
+      } else {
+        OccupancyRasterizer.forget(objectId)
+      }
+    }
+    pendingIds.clear()
+  }
+
+  // ================================
+  // QUERIES
+  // ================================
+
+  /**
+   * Up-to-date mesh data of one object (undefined if the object does not exist)
+   */
+  static getObjectOccupancy(objectId: string): PixeloidMeshData | undefined {
+    OccupancyRasterizer.update()
+    return updateGameStore.getMeshData(objectId)
+  }
+
+  /**
+   * Ids of the visible objects covering a pixeloid
+   */
+  static getOccupants(pixeloidX: number, pixeloidY: number): string[] {
+    OccupancyRasterizer.update()
+    const occupants = cellOccupants.get(`${Math.floor(pixeloidX)},${Math.floor(pixeloidY)}`)
+    if (!occupants) return []
+    return [...occupants].filter(objectId => OccupancyRasterizer.isShown(rasterized.get(objectId)!.object))
+  }
+
+  static isOccupied(pixeloidX: number, pixeloidY: number): boolean {
+    return OccupancyRasterizer.getOccupants(pixeloidX, pixeloidY).length > 0
+  }
+
+  /**
+   * Every pixeloid covered by a visible object ("x,y" keys), optionally limited to a pixeloid rectangle
+   */
+  static getSceneOccupancy(bounds?: { minX: number, minY: number, maxX: number, maxY: number }): Set<string> {
+    OccupancyRasterizer.update()
+    const occupied = new Set<string>()
+    for (const obj of gameStore.geometry.objects) {
+      if (!OccupancyRasterizer.isShown(obj)) continue
+      const mesh = updateGameStore.getMeshData(obj.id)
+      if (!mesh) continue
+      if (bounds && (mesh.pixeloidBounds.maxX < bounds.minX || mesh.pixeloidBounds.minX > bounds.maxX ||
+          mesh.pixeloidBounds.maxY < bounds.minY || mesh.pixeloidBounds.minY > bounds.maxY)) continue
+
+      for (const cell of mesh.occupiedPixeloids) {
+        if (bounds) {
+          const [x, y] = cell.split(',').map(Number)
+          if (x < bounds.minX || x > bounds.maxX || y < bounds.minY || y > bounds.maxY) continue
+        }
+        occupied.add(cell)
+      }
+    }
+    return occupied
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Queue new and replaced objects, drop meshes of removed ones
+   */
+  private static reconcile(): void {
+    const objects = gameStore.geometry.objects
+    const sceneIds = new Set(objects.map(obj => obj.id))
+
+    for (const objectId of rasterized.keys()) {
+      if (!sceneIds.has(objectId)) {
+        OccupancyRasterizer.forget(objectId)
+      }
+    }
+    for (const obj of objects) {
+      const entry = rasterized.get(obj.id)
+      if (!entry || entry.object !== obj || !updateGameStore.hasMeshData(obj.id)) {
+        pendingIds.add(obj.id)
+      }
+    }
+    isStructureStale = false
+  }
+
+  private static rasterize(obj: GeometricObject): void {
+    OccupancyRasterizer.removeCells(obj.id)
+    if (!obj.metadata) {
+      OccupancyRasterizer.forget(obj.id)
+      return
+    }
+
+    const { samplingMode, maxPixeloidsPerObject } = gameStore.meshRegistry.meshSettings
+    const cells = GeometryHelper.getObjectPixeloids(obj, samplingMode, maxPixeloidsPerObject)
+
+    for (const cell of cells) {
+      let occupants = cellOccupants.get(cell)
+      if (!occupants) {
+        occupants = new Set()
+        cellOccupants.set(cell, occupants)
+      }
+      occupants.add(obj.id)
+    }
+    rasterized.set(obj.id, { object: obj, cells })
+
+    updateGameStore.setMeshData(obj.id, {
+      objectId: obj.id,
+      pixeloidBounds: GeometryHelper.calculatePixeloidBounds(obj),
+      pixeloidCount: cells.size,
+      occupiedPixeloids: cells,
+      meshCreatedAt: Date.now(),
+      isValid: true
+    })
+  }
+
+  private static forget(objectId: string): void {
+    OccupancyRasterizer.removeCells(objectId)
+    rasterized.delete(objectId)
+    if (updateGameStore.hasMeshData(objectId)) {
+      updateGameStore.removeMeshData(objectId)
+    }
+  }
+
+  private static removeCells(objectId: string): void {
+    const entry = rasterized.get(objectId)
+    if (!entry) return
+    for (const cell of entry.cells) {
+      const occupants = cellOccupants.get(cell)
+      occupants?.delete(objectId)
+      if (occupants?.size === 0) {
+        cellOccupants.delete(cell)
+      }
+    }
+  }
+
+  private static isShown(obj: GeometricObject): boolean {
+    return obj.isVisible && updateGameStore.getObjectGroup(obj).isVisible
+  }
+}
+
+// Valtio ops on geometry.objects (sync subscription): queue the objects whose cells changed
+function handleObjectOps(ops: [string, (string | symbol)[], ...unknown[]][]): void {
+  for (const [, path] of ops) {
+    // Added, removed, reordered or replaced objects - compare the whole scene on the next update
+    if (path.length < 2 || path[1] === 'id') {
+      isStructureStale = true
+      continue
+    }
+    if (!GEOMETRY_KEYS.has(String(path[1]))) continue
+
+    const object = gameStore.geometry.objects[Number(path[0])]
+    if (object && !pendingIds.has(object.id)) {
+      pendingIds.add(object.id)
+      updateGameStore.invalidateMesh(object.id)
+    }
+  }
+}
+
+subscribe(gameStore.geometry.objects, handleObjectOps, true)
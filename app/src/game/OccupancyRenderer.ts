@@ -0,0 +1,92 @@
+import { Graphics } from 'pixi.js'
+import { gameStore, updateGameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { OccupancyRasterizer } from './OccupancyRasterizer'
+
+// Upper bound of cells drawn per frame so a huge scene cannot stall the overlay
+const MAX_DRAWN_CELLS = 20000
+
+/**
+ * OccupancyRenderer is the debug overlay for the mesh registry (meshSettings.enableDebugVisualization):
+ * - Every occupied pixeloid of a visible object as a translucent cell in the object's stroke color
+ * - Only cells inside the viewport are drawn
+ * Draws at screen coordinates using the same pixeloid → vertex → screen conversion as GeometryRenderer,
+ * so cells follow the isometric projection.
+ */
+export class OccupancyRenderer {
+  private graphics: Graphics
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Redraw the occupied cells in view
+   */
+  public render(pixeloidScale: number): void {
+    this.graphics.clear()
+    OccupancyRasterizer.update()
+
+    const world = gameStore.camera.viewport_bounds.world
+    const view = {
+      minX: Math.floor(Math.min(world.top_left.x, world.bottom_right.x)),
+      minY: Math.floor(Math.min(world.top_left.y, world.bottom_right.y)),
+      maxX: Math.ceil(Math.max(world.top_left.x, world.bottom_right.x)),
+      maxY: Math.ceil(Math.max(world.top_left.y, world.bottom_right.y))
+    }
+
+    let drawnCells = 0
+    for (const obj of gameStore.geometry.objects) {
+      if (!obj.isVisible || !updateGameStore.getObjectGroup(obj).isVisible) continue
+      const mesh = updateGameStore.getMeshData(obj.id)
+      if (!mesh) continue
+      const bounds = mesh.pixeloidBounds
+      if (bounds.maxX < view.minX || bounds.minX > view.maxX || bounds.maxY < view.minY || bounds.minY > view.maxY) continue
+
+      for (const cell of mesh.occupiedPixeloids) {
+        const [x, y] = cell.split(',').map(Number)
+        if (x < view.minX || x > view.maxX || y < view.minY || y > view.maxY) continue
+        if (drawnCells++ >= MAX_DRAWN_CELLS) {
+          console.warn(`OccupancyRenderer: More than ${MAX_DRAWN_CELLS} occupied cells in view, overlay is incomplete`)
+          return
+        }
+
+        const corners = [
+          this.pixeloidToScreen(x, y, pixeloidScale),
+          this.pixeloidToScreen(x + 1, y, pixeloidScale),
+          this.pixeloidToScreen(x + 1, y + 1, pixeloidScale),
+          this.pixeloidToScreen(x, y + 1, pixeloidScale)
+        ]
+        this.graphics
+          .poly(corners.flatMap(corner => [corner.x, corner.y]))
+          .fill({ color: obj.style.color, alpha: 0.35 })
+      }
+    }
+  }
+
+  /**
+   * Convert a pixeloid position to screen coordinates for the current camera
+   */
+  private pixeloidToScreen(pixeloidX: number, pixeloidY: number, pixeloidScale: number): { x: number, y: number } {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    return CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: pixeloidX - offset.x, y: pixeloidY - offset.y },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+  }
+}
@@ -0,0 +1,330 @@
+/**
+ * Pathfinder runs A* over the pixeloid grid.
+ * - Obstacles are the visible objects with the 'collision' property; their cells come from the occupancy
+ *   meshes (GeometryHelper.pixeloidIntersectsObject in meshSettings.samplingMode). Meshes cut off at
+ *   meshSettings.maxPixeloidsPerObject are rasterized once more without the limit, so no wall has gaps;
+ *   those cell sets are cached per object until its geometry or the sampling mode changes
+ * - 4-connectivity moves orthogonally (cost 1, Manhattan heuristic); 8-connectivity adds diagonals
+ *   (cost √2, octile heuristic) subject to the corner-cutting rule
+ * - The search is limited to the box around start, goal and all obstacles (plus a one-cell margin),
+ *   so an unreachable goal fails instead of exploring the infinite grid
+ * - update() keeps gameStore.geometry.pathfinding.result in sync with start, goal, settings and the scene;
+ *   only object changes that can move obstacles (see affectsObstacles) trigger a new search
+ */
+
+import type { CornerCuttingRule, GeometricObject, PathConnectivity, PathfindingResult, PathfindingStatus, PixeloidCoordinate, PixeloidVertex } from '../types'
+import { subscribe } from 'valtio'
+import { gameStore, updateGameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { GeometryHelper } from './GeometryHelper'
+import { OccupancyRasterizer } from './OccupancyRasterizer'
+import { PropertySchemaRegistry } from './PropertySchemaRegistry'
+import type { SpatialBounds } from './SpatialIndex'
+
+export interface PathSearchOptions {
+  connectivity: PathConnectivity
+  cornerCutting: CornerCuttingRule
+  maxExpandedNodes: number
+}
+
+export interface PathObstacles {
+  cells: Set<string>              // Blocked cells ("x,y" keys)
+  bounds: SpatialBounds | null    // Box around all blocked cells (null when there are none)
+}
+
+interface SearchNode {
+  x: number
+  y: number
+  g: number   // Cost from start
+  f: number   // g + heuristic
+  h: number
+}
+
+const ORTHOGONAL_STEPS: Array<[number, number]> = [[1, 0], [-1, 0], [0, 1], [0, -1]]
+const DIAGONAL_STEPS: Array<[number, number]> = [[1, 1], [1, -1], [-1, 1], [-1, -1]]
+
+// Object fields that decide whether and where an object blocks
+const OBSTACLE_KEYS = new Set(['pixeloidVertices', 'type', 'properties', 'isVisible', 'groupId'])
+// Object fields that change an object's cells
+const GEOMETRY_KEYS = new Set(['pixeloidVertices', 'type'])
+
+// Inputs of the last search in the store (see update)
+let searchKey = ''
+let isSceneStale = true
+
+// Unlimited cells of objects whose occupancy mesh hit maxPixeloidsPerObject (see getFullCells)
+const fullCellCache = new Map<string, { vertices: PixeloidVertex[], samplingMode: 'fast' | 'precise', cells: Set<string> }>()
+
+export class Pathfinder {
+  /**
+   * Re-run the search when start, goal, settings or the scene changed - called every frame
+   */
+  static update(): void {
+    const { start, goal, result, settings } = gameStore.geometry.pathfinding
+    if (!start || !goal) {
+      if (result) updateGameStore.setPathfindingResult(null)
+      searchKey = ''
+      return
+    }
+
+    const currentKey = JSON.stringify([
+      start.x, start.y, goal.x, goal.y,
+      settings.connectivity, settings.cornerCutting, settings.maxExpandedNodes,
+      gameStore.meshRegistry.meshSettings.samplingMode,
+      gameStore.meshRegistry.meshSettings.maxPixeloidsPerObject
+    ])
+    if (currentKey === searchKey && !isSceneStale && result) return
+    searchKey = currentKey
+    isSceneStale = false
+
+    const found = Pathfinder.findPath(start, goal, settings)
+    updateGameStore.setPathfindingResult(found)
+    console.log(`Pathfinder: ${found.status} after ${found.expandedNodes} nodes${found.status === 'found' ? `, ${found.path.length} cells, cost ${found.cost.toFixed(2)}` : ''}`)
+  }
+
+  /**
+   * A* from the start cell to the goal cell (positions are floored to cells)
+   */
+  static findPath(
+    start: PixeloidCoordinate,
+    goal: PixeloidCoordinate,
+    options: PathSearchOptions = gameStore.geometry.pathfinding.settings,
+    obstacles: PathObstacles = Pathfinder.getObstacles()
+  ): PathfindingResult {
+    const startX = Math.floor(start.x)
+    const startY = Math.floor(start.y)
+    const goalX = Math.floor(goal.x)
+    const goalY = Math.floor(goal.y)
+    const isBlocked = (x: number, y: number) => obstacles.cells.has(`${x},${y}`)
+
+    if (isBlocked(startX, startY) || isBlocked(goalX, goalY)) {
+      return { status: 'blocked', path: [], cost: 0, openSet: [], closedSet: [], expandedNodes: 0 }
+    }
+
+    const limits = {
+      minX: Math.min(startX, goalX, obstacles.bounds?.minX ?? Infinity) - 1,
+      minY: Math.min(startY, goalY, obstacles.bounds?.minY ?? Infinity) - 1,
+      maxX: Math.max(startX, goalX, obstacles.bounds?.maxX ?? -Infinity) + 1,
+      maxY: Math.max(startY, goalY, obstacles.bounds?.maxY ?? -Infinity) + 1
+    }
+    const steps = options.connectivity === 8 ? [...ORTHOGONAL_STEPS, ...DIAGONAL_STEPS] : ORTHOGONAL_STEPS
+    const heuristic = (x: number, y: number): number => {
+      const dx = Math.abs(x - goalX)
+      const dy = Math.abs(y - goalY)
+      return options.connectivity === 8
+        ? Math.max(dx, dy) + (Math.SQRT2 - 1) * Math.min(dx, dy)
+        : dx + dy
+    }
+
+    const gScores = new Map<string, number>()
+    const cameFrom = new Map<string, string>()
+    const closed = new Set<string>()
+    const open = new OpenQueue()
+
+    const startH = heuristic(startX, startY)
+    gScores.set(`${startX},${startY}`, 0)
+    open.push({ x: startX, y: startY, g: 0, f: startH, h: startH })
+
+    let status: PathfindingStatus = 'unreachable'
+    let goalNode: SearchNode | null = null
+
+    while (open.size > 0) {
+      const node = open.pop()!
+      const nodeKey = `${node.x},${node.y}`
+      // Stale queue entry - the cell was reached more cheaply and already expanded
+      if (closed.has(nodeKey)) continue
+
+      if (node.x === goalX && node.y === goalY) {
+        status = 'found'
+        goalNode = node
+        break
+      }
+      if (closed.size >= options.maxExpandedNodes) {
+        status = 'limit'
+        break
+      }
+      closed.add(nodeKey)
+
+      for (const [dx, dy] of steps) {
+        const x = node.x + dx
+        const y = node.y + dy
+        const key = `${x},${y}`
+        if (x < limits.minX || x > limits.maxX || y < limits.minY || y > limits.maxY) continue
+        if (closed.has(key) || isBlocked(x, y)) continue
+
+        const isDiagonal = dx !== 0 && dy !== 0
+        if (isDiagonal && !Pathfinder.canCutCorner(isBlocked(node.x + dx, node.y), isBlocked(node.x, node.y + dy), options.cornerCutting)) continue
+
+        const g = node.g + (isDiagonal ? Math.SQRT2 : 1)
+        if (g >= (gScores.get(key) ?? Infinity)) continue
+
+        gScores.set(key, g)
+        cameFrom.set(key, nodeKey)
+        const h = heuristic(x, y)
+        open.push({ x, y, g, f: g + h, h })
+      }
+    }
+
+    const toCell = (key: string) => {
+      const [x, y] = key.split(',').map(Number)
+      return createPixeloidCoordinate(x, y)
+    }
+    const path: PixeloidCoordinate[] = []
+    if (goalNode) {
+      let key: string | undefined = `${goalX},${goalY}`
+      while (key) {
+        path.push(toCell(key))
+        key = cameFrom.get(key)
+      }
+      path.reverse()
+    }
+
+    return {
+      status,
+      path,
+      cost: goalNode?.g ?? 0,
+      openSet: [...gScores.keys()].filter(key => !closed.has(key)).map(toCell),
+      closedSet: [...closed].map(toCell),
+      expandedNodes: closed.size
+    }
+  }
+
+  /**
+   * Cells covered by visible objects with the 'collision' property
+   */
+  static getObstacles(): PathObstacles {
+    const cells = new Set<string>()
+    let bounds: SpatialBounds | null = null
+    const { samplingMode, maxPixeloidsPerObject } = gameStore.meshRegistry.meshSettings
+
+    const objectIds = new Set(gameStore.geometry.objects.map(obj => obj.id))
+    fullCellCache.forEach((_entry, objectId) => {
+      if (!objectIds.has(objectId)) fullCellCache.delete(objectId)
+    })
+
+    for (const obj of gameStore.geometry.objects) {
+      if (!obj.isVisible || !updateGameStore.getObjectGroup(obj).isVisible) continue
+      if (PropertySchemaRegistry.resolve(obj).collision !== true) continue
+      const mesh = OccupancyRasterizer.getObjectOccupancy(obj.id)
+      if (!mesh || mesh.occupiedPixeloids.size === 0) continue
+
+      const objectCells = mesh.pixeloidCount >= maxPixeloidsPerObject
+        ? Pathfinder.getFullCells(obj, samplingMode)
+        : mesh.occupiedPixeloids
+      objectCells.forEach(cell => cells.add(cell))
+      const meshBounds = mesh.pixeloidBounds
+      bounds = bounds
+        ? {
+          minX: Math.min(bounds.minX, meshBounds.minX),
+          minY: Math.min(bounds.minY, meshBounds.minY),
+          maxX: Math.max(bounds.maxX, meshBounds.maxX),
+          maxY: Math.max(bounds.maxY, meshBounds.maxY)
+        }
+        : { ...meshBounds }
+    }
+    return { cells, bounds }
+  }
+
+  /**
+   * Whether Valtio ops on geometry.objects can move, add or remove obstacles
+   * (added, removed or replaced objects, geometry, properties, visibility or group)
+   */
+  static affectsObstacles(ops: [string, (string | symbol)[], ...unknown[]][]): boolean {
+    return ops.some(([, path]) => path.length < 2 || path[1] === 'id' || OBSTACLE_KEYS.has(String(path[1])))
+  }
+
+  /**
+   * All cells of an object without the per-object limit, reused while its vertices and the sampling mode hold
+   */
+  private static getFullCells(obj: GeometricObject, samplingMode: 'fast' | 'precise'): Set<string> {
+    const cached = fullCellCache.get(obj.id)
+    if (cached && cached.vertices === obj.pixeloidVertices && cached.samplingMode === samplingMode) {
+      return cached.cells
+    }
+    const cells = GeometryHelper.getObjectPixeloids(obj, samplingMode)
+    fullCellCache.set(obj.id, { vertices: obj.pixeloidVertices, samplingMode, cells })
+    return cells
+  }
+
+  /**
+   * Whether a diagonal step may pass between its two orthogonal neighbours
+   */
+  private static canCutCorner(isFirstBlocked: boolean, isSecondBlocked: boolean, rule: CornerCuttingRule): boolean {
+    switch (rule) {
+      case 'allow':
+        return true
+      case 'one-free':
+        return !isFirstBlocked || !isSecondBlocked
+      case 'never':
+        return !isFirstBlocked && !isSecondBlocked
+    }
+  }
+}
+
+/**
+ * Binary min-heap ordered by f, ties broken towards the goal (lower h) for straighter expansion
+ */
+class OpenQueue {
+  private nodes: SearchNode[] = []
+
+  get size(): number {
+    return this.nodes.length
+  }
+
+  push(node: SearchNode): void {
+    const nodes = this.nodes
+    nodes.push(node)
+    let index = nodes.length - 1
+    while (index > 0) {
+      const parent = (index - 1) >> 1
+      if (!OpenQueue.isBefore(nodes[index], nodes[parent])) break
+      ;[nodes[index], nodes[parent]] = [nodes[parent], nodes[index]]
+      index = parent
+    }
+  }
+
+  pop(): SearchNode | undefined {
+    const nodes = this.nodes
+    const top = nodes[0]
+    const last = nodes.pop()
+    if (nodes.length === 0 || !last) return top
+
+    nodes[0] = last
+    let index = 0
+    while (true) {
+      const left = index * 2 + 1
+      const right = left + 1
+      let smallest = index
+      if (left < nodes.length && OpenQueue.isBefore(nodes[left], nodes[smallest])) smallest = left
+      if (right < nodes.length && OpenQueue.isBefore(nodes[right], nodes[smallest])) smallest = right
+      if (smallest === index) break
+      ;[nodes[index], nodes[smallest]] = [nodes[smallest], nodes[index]]
+      index = smallest
+    }
+    return top
+  }
+
+  private static isBefore(a: SearchNode, b: SearchNode): boolean {
+    return a.f < b.f || (a.f === b.f && a.h < b.h)
+  }
+}
+
+// Valtio ops on geometry.objects (sync subscription): drop cached cells of reshaped objects and
+// search again on the next update when obstacles may have changed
+function handleObjectOps(ops: [string, (string | symbol)[], ...unknown[]][]): void {
+  for (const [, path] of ops) {
+    if (path.length < 2 || !GEOMETRY_KEYS.has(String(path[1]))) continue
+    const object = gameStore.geometry.objects[Number(path[0])]
+    if (object) fullCellCache.delete(object.id)
+  }
+  if (Pathfinder.affectsObstacles(ops)) {
+    isSceneStale = true
+  }
+}
+
+// Group visibility may hide or show obstacles - search again on the next update
+function markSceneStale(): void {
+  isSceneStale = true
+}
+
+subscribe(gameStore.geometry.objects, handleObjectOps, true)
+subscribe(gameStore.geometry.groups, markSceneStale, true)
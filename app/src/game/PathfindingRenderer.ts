@@ -0,0 +1,128 @@
+import { Graphics } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import type { PixeloidCoordinate } from '../types'
+
+const START_COLOR = 0x22c55e
+const GOAL_COLOR = 0xef4444
+
+/**
+ * PathfindingRenderer draws the pathfinding tool state from the store:
+ * - Closed and open sets of the last search as translucent cells (when settings.showSearch is on)
+ * - The path cells and a line through their centers
+ * - Start and goal cells as outlined markers (the goal is dimmed when it cannot be reached)
+ * Draws at screen coordinates using the same pixeloid → vertex → screen conversion as GeometryRenderer.
+ */
+export class PathfindingRenderer {
+  private graphics: Graphics
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Redraw the search, the path and the endpoints
+   */
+  public render(pixeloidScale: number): void {
+    this.graphics.clear()
+
+    const { start, goal, result, settings } = gameStore.geometry.pathfinding
+    if (!start && !goal) return
+
+    if (result && settings.showSearch) {
+      this.fillCells(result.closedSet, settings.closedColor, 0.25, pixeloidScale)
+      this.fillCells(result.openSet, settings.openColor, 0.35, pixeloidScale)
+    }
+
+    if (result && result.path.length > 0) {
+      this.fillCells(result.path, settings.pathColor, 0.45, pixeloidScale)
+      this.renderPathLine(result.path, settings.pathColor, pixeloidScale)
+    }
+
+    if (start) {
+      this.renderEndpoint(start, START_COLOR, 1, pixeloidScale)
+    }
+    if (goal) {
+      const isReachable = !result || result.status === 'found'
+      this.renderEndpoint(goal, GOAL_COLOR, isReachable ? 1 : 0.4, pixeloidScale)
+    }
+  }
+
+  private fillCells(cells: PixeloidCoordinate[], color: number, alpha: number, pixeloidScale: number): void {
+    if (cells.length === 0) return
+    for (const cell of cells) {
+      this.graphics.poly(this.projectPixeloidCell(cell.x, cell.y, pixeloidScale))
+    }
+    this.graphics.fill({ color, alpha })
+  }
+
+  /**
+   * Line through the centers of the path cells
+   */
+  private renderPathLine(path: PixeloidCoordinate[], color: number, pixeloidScale: number): void {
+    path.forEach((cell, index) => {
+      const screen = this.pixeloidToScreen(cell.x + 0.5, cell.y + 0.5, pixeloidScale)
+      if (index === 0) {
+        this.graphics.moveTo(screen.x, screen.y)
+      } else {
+        this.graphics.lineTo(screen.x, screen.y)
+      }
+    })
+    this.graphics.stroke({ width: 2, color, alpha: 0.9 })
+  }
+
+  /**
+   * Outline the cell and mark its center
+   */
+  private renderEndpoint(cell: PixeloidCoordinate, color: number, alpha: number, pixeloidScale: number): void {
+    const center = this.pixeloidToScreen(cell.x + 0.5, cell.y + 0.5, pixeloidScale)
+    this.graphics
+      .poly(this.projectPixeloidCell(cell.x, cell.y, pixeloidScale))
+      .stroke({ width: 2, color, alpha })
+    this.graphics
+      .circle(center.x, center.y, 4)
+      .fill({ color, alpha })
+  }
+
+  /**
+   * Screen-space polygon for a single pixeloid cell (diamond in isometric projection)
+   */
+  private projectPixeloidCell(pixeloidX: number, pixeloidY: number, pixeloidScale: number): number[] {
+    const corners = [
+      { x: pixeloidX, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY + 1 },
+      { x: pixeloidX, y: pixeloidY + 1 }
+    ]
+    return corners.flatMap(corner => {
+      const screen = this.pixeloidToScreen(corner.x, corner.y, pixeloidScale)
+      return [screen.x, screen.y]
+    })
+  }
+
+  /**
+   * Convert a pixeloid position to screen coordinates for the current camera
+   */
+  private pixeloidToScreen(pixeloidX: number, pixeloidY: number, pixeloidScale: number): { x: number, y: number } {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    return CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: pixeloidX - offset.x, y: pixeloidY - offset.y },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+  }
+}
@@ -0,0 +1,284 @@
+/**
+ * PixelArtRasterizer turns objects into exact pixeloid cells for the pixel-art render mode.
+ * - Cell (x, y) covers the pixeloid square [x, x + 1) × [y, y + 1); shape coordinates are floored to cells
+ * - Lines and path edges: Bresenham; circles: midpoint circle; rectangles, diamonds and polygons: scanline fill
+ * - Strokes are stamped with a square brush of round(strokeWidth) cells (at least one)
+ * - Cells are returned as horizontal runs so renderers can emit one quad per run
+ */
+
+import type { GeometricObject } from '../types'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+
+export interface CellRun {
+  x: number       // First cell of the run
+  y: number
+  length: number  // Number of cells
+}
+
+export interface PixelArtCells {
+  fill: CellRun[]
+  stroke: CellRun[]
+}
+
+// Cells collected row by row before merging into runs (deduplicates overlapping stamps)
+type CellRows = Map<number, Set<number>>
+
+export class PixelArtRasterizer {
+  /**
+   * Fill and stroke cells of an object (fill is empty for unfilled or unfillable objects)
+   */
+  static rasterizeObject(obj: Pick<GeometricObject, 'type' | 'pixeloidVertices' | 'style'>): PixelArtCells {
+    const vertices = obj.pixeloidVertices
+    const brush = Math.max(1, Math.round(obj.style.strokeWidth))
+    const hasFill = obj.style.fillColor !== undefined && GeometryVertexCalculator.isFillable(obj.type)
+    const stroke: CellRows = new Map()
+    let fill: CellRun[] = []
+
+    switch (obj.type) {
+      case 'point': {
+        const point = GeometryVertexCalculator.getPointShape(vertices)
+        PixelArtRasterizer.addCell(stroke, Math.floor(point.x), Math.floor(point.y))
+        break
+      }
+      case 'line': {
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        PixelArtRasterizer.addLine(stroke, line.startX, line.startY, line.endX, line.endY, brush)
+        break
+      }
+      case 'polyline':
+        PixelArtRasterizer.addPath(stroke, vertices, false, brush)
+        break
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        const outline = PixelArtRasterizer.getCircleOutline(Math.floor(circle.centerX), Math.floor(circle.centerY), Math.round(circle.radius))
+        outline.forEach(([x, y]) => PixelArtRasterizer.stamp(stroke, x, y, brush))
+        if (hasFill) {
+          fill = PixelArtRasterizer.getRowExtents(outline)
+        }
+        break
+      }
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        const minX = Math.floor(rect.x)
+        const minY = Math.floor(rect.y)
+        const maxX = Math.max(minX, Math.ceil(rect.x + rect.width) - 1)
+        const maxY = Math.max(minY, Math.ceil(rect.y + rect.height) - 1)
+        PixelArtRasterizer.addRectangleBorder(stroke, minX, minY, maxX, maxY, brush)
+        if (hasFill) {
+          for (let y = minY; y <= maxY; y++) {
+            fill.push({ x: minX, y, length: maxX - minX + 1 })
+          }
+        }
+        break
+      }
+      case 'diamond':
+      case 'polygon':
+        PixelArtRasterizer.addPath(stroke, vertices, true, brush)
+        if (hasFill) {
+          // Fill through the centers of the outline's corner cells so fill and outline meet without gaps
+          fill = PixelArtRasterizer.scanlineFill(vertices.map(vertex => ({ x: Math.floor(vertex.x) + 0.5, y: Math.floor(vertex.y) + 0.5 })))
+        }
+        break
+    }
+
+    return { fill, stroke: PixelArtRasterizer.toRuns(stroke) }
+  }
+
+  // ================================
+  // ALGORITHMS
+  // ================================
+
+  /**
+   * Bresenham line between the cells containing both endpoints (endpoints included)
+   */
+  static getLineCells(x0: number, y0: number, x1: number, y1: number): Array<[number, number]> {
+    let x = Math.floor(x0)
+    let y = Math.floor(y0)
+    const endX = Math.floor(x1)
+    const endY = Math.floor(y1)
+    const dx = Math.abs(endX - x)
+    const dy = -Math.abs(endY - y)
+    const stepX = x < endX ? 1 : -1
+    const stepY = y < endY ? 1 : -1
+    let error = dx + dy
+
+    const cells: Array<[number, number]> = []
+    while (true) {
+      cells.push([x, y])
+      if (x === endX && y === endY) break
+      const doubled = 2 * error
+      if (doubled >= dy) {
+        error += dy
+        x += stepX
+      }
+      if (doubled <= dx) {
+        error += dx
+        y += stepY
+      }
+    }
+    return cells
+  }
+
+  /**
+   * Midpoint circle outline around a center cell (every cell once)
+   */
+  static getCircleOutline(centerX: number, centerY: number, radius: number): Array<[number, number]> {
+    if (radius <= 0) return [[centerX, centerY]]
+
+    const cells = new Map<string, [number, number]>()
+    const add = (x: number, y: number) => cells.set(`${x},${y}`, [x, y])
+    let x = radius
+    let y = 0
+    let decision = 1 - radius
+
+    while (x >= y) {
+      // One point per octant
+      add(centerX + x, centerY + y)
+      add(centerX - x, centerY + y)
+      add(centerX + x, centerY - y)
+      add(centerX - x, centerY - y)
+      add(centerX + y, centerY + x)
+      add(centerX - y, centerY + x)
+      add(centerX + y, centerY - x)
+      add(centerX - y, centerY - x)
+
+      y++
+      if (decision < 0) {
+        decision += 2 * y + 1
+      } else {
+        x--
+        decision += 2 * (y - x) + 1
+      }
+    }
+    return [...cells.values()]
+  }
+
+  /**
+   * Even-odd scanline fill: cells whose centers lie inside the closed path
+   */
+  static scanlineFill(vertices: Array<{ x: number, y: number }>): CellRun[] {
+    if (vertices.length < 3) return []
+
+    const ys = vertices.map(vertex => vertex.y)
+    const minRow = Math.floor(Math.min(...ys))
+    const maxRow = Math.ceil(Math.max(...ys))
+    const runs: CellRun[] = []
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const sampleY = row + 0.5
+      const crossings: number[] = []
+      for (let i = 0, j = vertices.length - 1; i < vertices.length; j = i++) {
+        const a = vertices[j]
+        const b = vertices[i]
+        // Half-open rule so a crossing through a vertex is counted once
+        if ((a.y <= sampleY) !== (b.y <= sampleY)) {
+          crossings.push(a.x + (sampleY - a.y) * (b.x - a.x) / (b.y - a.y))
+        }
+      }
+      crossings.sort((a, b) => a - b)
+
+      for (let k = 0; k + 1 < crossings.length; k += 2) {
+        const first = Math.ceil(crossings[k] - 0.5)
+        const last = Math.floor(crossings[k + 1] - 0.5)
+        if (last >= first) {
+          runs.push({ x: first, y: row, length: last - first + 1 })
+        }
+      }
+    }
+    return runs
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  private static addCell(rows: CellRows, x: number, y: number): void {
+    let row = rows.get(y)
+    if (!row) {
+      row = new Set()
+      rows.set(y, row)
+    }
+    row.add(x)
+  }
+
+  /**
+   * Square brush centered on a cell (a brush of 1 is the cell itself)
+   */
+  private static stamp(rows: CellRows, x: number, y: number, brush: number): void {
+    const start = -Math.floor((brush - 1) / 2)
+    for (let dy = start; dy < start + brush; dy++) {
+      for (let dx = start; dx < start + brush; dx++) {
+        PixelArtRasterizer.addCell(rows, x + dx, y + dy)
+      }
+    }
+  }
+
+  private static addLine(rows: CellRows, x0: number, y0: number, x1: number, y1: number, brush: number): void {
+    for (const [x, y] of PixelArtRasterizer.getLineCells(x0, y0, x1, y1)) {
+      PixelArtRasterizer.stamp(rows, x, y, brush)
+    }
+  }
+
+  private static addPath(rows: CellRows, vertices: Array<{ x: number, y: number }>, closed: boolean, brush: number): void {
+    for (let i = 1; i < vertices.length; i++) {
+      PixelArtRasterizer.addLine(rows, vertices[i - 1].x, vertices[i - 1].y, vertices[i].x, vertices[i].y, brush)
+    }
+    if (closed && vertices.length > 2) {
+      const last = vertices[vertices.length - 1]
+      PixelArtRasterizer.addLine(rows, last.x, last.y, vertices[0].x, vertices[0].y, brush)
+    }
+  }
+
+  /**
+   * Rectangle border drawn inwards, so the stroke never grows the rectangle
+   */
+  private static addRectangleBorder(rows: CellRows, minX: number, minY: number, maxX: number, maxY: number, brush: number): void {
+    for (let y = minY; y <= maxY; y++) {
+      if (y < minY + brush || y > maxY - brush) {
+        // Top / bottom band - the whole row
+        for (let x = minX; x <= maxX; x++) PixelArtRasterizer.addCell(rows, x, y)
+        continue
+      }
+      for (let i = 0; i < brush; i++) {
+        PixelArtRasterizer.addCell(rows, Math.min(maxX, minX + i), y)
+        PixelArtRasterizer.addCell(rows, Math.max(minX, maxX - i), y)
+      }
+    }
+  }
+
+  /**
+   * One run per row from the leftmost to the rightmost outline cell (fill of a convex outline)
+   */
+  private static getRowExtents(cells: Array<[number, number]>): CellRun[] {
+    const extents = new Map<number, { min: number, max: number }>()
+    for (const [x, y] of cells) {
+      const extent = extents.get(y)
+      if (extent) {
+        extent.min = Math.min(extent.min, x)
+        extent.max = Math.max(extent.max, x)
+      } else {
+        extents.set(y, { min: x, max: x })
+      }
+    }
+    return [...extents].map(([y, { min, max }]) => ({ x: min, y, length: max - min + 1 }))
+  }
+
+  private static toRuns(rows: CellRows): CellRun[] {
+    const runs: CellRun[] = []
+    for (const [y, row] of rows) {
+      const xs = [...row].sort((a, b) => a - b)
+      let start = xs[0]
+      let previous = xs[0]
+      for (let i = 1; i <= xs.length; i++) {
+        if (i < xs.length && xs[i] === previous + 1) {
+          previous = xs[i]
+          continue
+        }
+        runs.push({ x: start, y, length: previous - start + 1 })
+        start = xs[i]
+        previous = xs[i]
+      }
+    }
+    return runs
+  }
+}
@@ -0,0 +1,120 @@
+import { Container, Matrix, MeshSimple, Texture } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { PixelArtRasterizer, type CellRun } from './PixelArtRasterizer'
+import type { CameraProjection, GeometricObject } from '../types'
+
+interface PixelArtView {
+  container: Container
+  signature: string                     // Geometry + style the meshes were built from
+  origin: { x: number, y: number }      // Pixeloid cell at the mesh origin
+}
+
+/**
+ * PixelArtRenderer draws objects as exact pixeloid cells (pixel-art render mode).
+ * - Cells come from PixelArtRasterizer; each object gets one fill mesh and one stroke mesh
+ *   (one quad per cell run, tinted with the style colors)
+ * - Meshes are built in pixeloid units and only rebuilt when the object's geometry or style changes;
+ *   panning, zooming and projection changes only update the view's transform, so edges stay crisp
+ *   at every zoom level without filter passes
+ */
+export class PixelArtRenderer {
+  private views: Map<string, PixelArtView> = new Map()
+
+  /**
+   * Container with the object's cell meshes, positioned for the current camera
+   */
+  public getObjectView(obj: GeometricObject, pixeloidScale: number, projection: CameraProjection): Container {
+    const signature = JSON.stringify([obj.type, obj.pixeloidVertices, obj.style])
+    let view = this.views.get(obj.id)
+
+    if (!view || view.signature !== signature) {
+      this.removeObject(obj.id)
+      view = this.buildView(obj, signature)
+      this.views.set(obj.id, view)
+    }
+
+    this.positionView(view, pixeloidScale, projection)
+    return view.container
+  }
+
+  public removeObject(objectId: string): void {
+    const view = this.views.get(objectId)
+    if (!view) return
+    view.container.removeFromParent()
+    view.container.destroy({ children: true })
+    this.views.delete(objectId)
+  }
+
+  public clear(): void {
+    for (const objectId of [...this.views.keys()]) {
+      this.removeObject(objectId)
+    }
+  }
+
+  private buildView(obj: GeometricObject, signature: string): PixelArtView {
+    const { fill, stroke } = PixelArtRasterizer.rasterizeObject(obj)
+    const allRuns = [...fill, ...stroke]
+    const origin = allRuns.length > 0
+      ? allRuns.reduce((min, run) => ({ x: Math.min(min.x, run.x), y: Math.min(min.y, run.y) }), { x: Infinity, y: Infinity })
+      : { x: 0, y: 0 }
+
+    const container = new Container()
+    if (fill.length > 0) {
+      container.addChild(this.createRunMesh(fill, origin, obj.style.fillColor!, obj.style.fillAlpha ?? 0.5))
+    }
+    if (stroke.length > 0) {
+      container.addChild(this.createRunMesh(stroke, origin, obj.style.color, obj.style.strokeAlpha))
+    }
+
+    console.log(`PixelArtRenderer: Built ${fill.length} fill and ${stroke.length} stroke runs for ${obj.id}`)
+    return { container, signature, origin }
+  }
+
+  /**
+   * One quad per run, in cells relative to the origin
+   */
+  private createRunMesh(runs: CellRun[], origin: { x: number, y: number }, color: number, alpha: number): MeshSimple {
+    const vertices = new Float32Array(runs.length * 8)
+    const uvs = new Float32Array(runs.length * 8)
+    const indices = new Uint32Array(runs.length * 6)
+
+    runs.forEach((run, index) => {
+      const left = run.x - origin.x
+      const top = run.y - origin.y
+      const right = left + run.length
+      const bottom = top + 1
+      vertices.set([left, top, right, top, right, bottom, left, bottom], index * 8)
+
+      const base = index * 4
+      indices.set([base, base + 1, base + 2, base, base + 2, base + 3], index * 6)
+    })
+
+    const mesh = new MeshSimple({ texture: Texture.WHITE, vertices, uvs, indices })
+    mesh.tint = color
+    mesh.alpha = alpha
+    return mesh
+  }
+
+  /**
+   * Map cell units to screen: scale by the pixeloid size, project, and move the origin cell into place
+   */
+  private positionView(view: PixelArtView, pixeloidScale: number, projection: CameraProjection): void {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const originScreen = CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: view.origin.x - offset.x, y: view.origin.y - offset.y },
+      pixeloidScale,
+      projection
+    )
+
+    // Same linear maps as CoordinateCalculations.vertexToScreen
+    const matrix = projection === 'isometric'
+      ? new Matrix(pixeloidScale, pixeloidScale / 2, -pixeloidScale, pixeloidScale / 2, originScreen.x, originScreen.y)
+      : new Matrix(pixeloidScale, 0, 0, pixeloidScale, originScreen.x, originScreen.y)
+    view.container.setFromMatrix(matrix)
+  }
+
+  public destroy(): void {
+    this.clear()
+  }
+}
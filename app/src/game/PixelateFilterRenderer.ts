@@ -1,6 +1,6 @@
 import { Container, Sprite, Rectangle, Texture } from 'pixi.js'
 import { PixelateFilter } from 'pixi-filters'
-import { gameStore } from '../store/gameStore'
+import { gameStore, updateGameStore } from '../store/gameStore'
 import { CoordinateCalculations } from './CoordinateCalculations'
 import { GeometryHelper } from './GeometryHelper'
 import type { ViewportCorners } from '../types'
@@ -51,8 +51,8 @@ export class PixelateFilterRenderer {
     // Get texture cache from mirror renderer
     const textureCache = mirrorRenderer.getTextureCache()
     
-    // Get visible objects from store for positioning, excluding offscreen objects
-    const visibleObjects = gameStore.geometry.objects.filter(obj => {
+    // Get visible objects from the spatial index for positioning, excluding offscreen objects
+    const visibleObjects = updateGameStore.queryObjectsInViewport().filter(obj => {
       if (!obj.isVisible || !obj.metadata) return false
       
       // Get visibility from scale-indexed cache
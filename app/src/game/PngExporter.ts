@@ -0,0 +1,239 @@
+/**
+ * PngExporter renders a pixeloid region of the scene offscreen into a PNG.
+ * Objects are drawn through GeometryRenderer.drawObject so the output matches the canvas;
+ * the region is rendered in tiles no larger than `maxTileSize` pixels and stitched on a 2D canvas,
+ * which keeps every render texture under the GPU texture limit.
+ * Like the SVG export, the output is always top-down.
+ */
+
+import { Container, Graphics, Rectangle, RenderTexture, Texture, TilingSprite, type Renderer } from 'pixi.js'
+import { PixelateFilter } from 'pixi-filters'
+import type { GeometricObject } from '../types'
+import { updateGameStore } from '../store/gameStore'
+import type { GeometryRenderer } from './GeometryRenderer'
+import { SvgExporter, type SvgExportScope } from './SvgExporter'
+import type { SpatialBounds } from './SpatialIndex'
+
+export interface PngExportOptions {
+  scope: SvgExportScope
+  scale: number                   // Output pixels per pixeloid
+  includeGrid: boolean            // Checkerboard background matching the canvas grid
+  includeBbox: boolean            // Bounding box overlay (bbox layer)
+  includePixelate: boolean        // Pixelated copy of the geometry (pixelate layer)
+  padding: number                 // Pixeloids around the exported objects (ignored for the viewport scope)
+  maxTileSize: number             // Largest render texture side in pixels
+}
+
+// Checkerboard colors of the background grid
+const GRID_LIGHT_COLOR = 0xf0f0f0
+const GRID_DARK_COLOR = 0xe0e0e0
+
+// Largest side of the stitched image (browser canvas limit)
+const MAX_IMAGE_SIZE = 16384
+
+export class PngExporter {
+  static readonly DEFAULT_OPTIONS: PngExportOptions = {
+    scope: 'all',
+    scale: 10,
+    includeGrid: false,
+    includeBbox: false,
+    includePixelate: false,
+    padding: 2,
+    maxTileSize: 4096
+  }
+
+  constructor(
+    private renderer: Renderer,
+    private geometryRenderer: GeometryRenderer
+  ) {}
+
+  /**
+   * Render the scope to a PNG blob.
+   * Throws a descriptive Error if there is nothing to export or the image would be too large.
+   */
+  public async export(options: Partial<PngExportOptions> = {}): Promise<Blob> {
+    const settings = { ...PngExporter.DEFAULT_OPTIONS, ...options }
+    if (!Number.isFinite(settings.scale) || settings.scale <= 0) {
+      throw new Error('PNG export failed: scale must be a positive number')
+    }
+
+    const { objects, bounds: scopeBounds } = SvgExporter.resolveScope(settings.scope, settings.padding)
+    if (objects.length === 0 && settings.scope !== 'viewport') {
+      throw new Error(`PNG export failed: no ${settings.scope === 'selection' ? 'selected' : 'visible'} objects to export`)
+    }
+
+    // Whole pixeloids only, so the grid and pixelation line up with the tiles
+    const bounds: SpatialBounds = {
+      minX: Math.floor(scopeBounds.minX),
+      minY: Math.floor(scopeBounds.minY),
+      maxX: Math.ceil(scopeBounds.maxX),
+      maxY: Math.ceil(scopeBounds.maxY)
+    }
+    const width = Math.round((bounds.maxX - bounds.minX) * settings.scale)
+    const height = Math.round((bounds.maxY - bounds.minY) * settings.scale)
+    if (width < 1 || height < 1) {
+      throw new Error('PNG export failed: the export region is empty')
+    }
+    if (width > MAX_IMAGE_SIZE || height > MAX_IMAGE_SIZE) {
+      throw new Error(`PNG export failed: ${width}x${height}px exceeds the ${MAX_IMAGE_SIZE}px limit - lower the scale`)
+    }
+
+    const output = document.createElement('canvas')
+    output.width = width
+    output.height = height
+    const context = output.getContext('2d')
+    if (!context) {
+      throw new Error('PNG export failed: 2D canvas is not available')
+    }
+
+    const scene = this.buildScene(objects, bounds, settings)
+    try {
+      // Tile edges fall on whole pixeloids so pixelate blocks never straddle two tiles
+      const tileStep = Math.round(Math.max(1, Math.floor(settings.maxTileSize / settings.scale)) * settings.scale)
+      let tileCount = 0
+      for (let tileY = 0; tileY < height; tileY += tileStep) {
+        for (let tileX = 0; tileX < width; tileX += tileStep) {
+          const tile = new Rectangle(tileX, tileY, Math.min(tileStep, width - tileX), Math.min(tileStep, height - tileY))
+          this.renderTile(scene, tile, context)
+          tileCount++
+        }
+      }
+      console.log(`PngExporter: Rendered ${objects.length} objects as ${width}x${height}px in ${tileCount} tiles (${settings.scope}, ${settings.scale}px per pixeloid)`)
+    } finally {
+      scene.root.destroy({ children: true })
+      scene.gridTexture?.destroy(true)
+    }
+
+    return new Promise((resolve, reject) => {
+      output.toBlob(blob => {
+        if (blob) {
+          resolve(blob)
+        } else {
+          reject(new Error('PNG export failed: could not encode the image'))
+        }
+      }, 'image/png')
+    })
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Offscreen display tree in region pixel space (region top-left at 0,0):
+   * grid, geometry, pixelated geometry, bounding boxes - the canvas layer order
+   */
+  private buildScene(objects: GeometricObject[], bounds: SpatialBounds, settings: PngExportOptions): {
+    root: Container
+    pixelateContainer: Container | null
+    gridTexture: Texture | null
+  } {
+    const root = new Container()
+    const origin = { x: bounds.minX, y: bounds.minY }
+    const width = (bounds.maxX - bounds.minX) * settings.scale
+    const height = (bounds.maxY - bounds.minY) * settings.scale
+
+    let gridTexture: Texture | null = null
+    if (settings.includeGrid) {
+      gridTexture = PngExporter.createGridTexture()
+      const grid = new TilingSprite({ texture: gridTexture, width, height })
+      grid.tileScale.set(settings.scale)
+      // Keep the checkerboard parity of the world grid
+      grid.tilePosition.set((origin.x % 2) * -settings.scale, (origin.y % 2) * -settings.scale)
+      root.addChild(grid)
+    }
+
+    root.addChild(this.createGeometryContainer(objects, origin, settings.scale))
+
+    let pixelateContainer: Container | null = null
+    if (settings.includePixelate) {
+      pixelateContainer = this.createGeometryContainer(objects, origin, settings.scale)
+      pixelateContainer.filters = [new PixelateFilter(settings.scale)]
+      root.addChild(pixelateContainer)
+    }
+
+    if (settings.includeBbox) {
+      root.addChild(PngExporter.createBboxGraphics(objects, origin, settings.scale))
+    }
+
+    return { root, pixelateContainer, gridTexture }
+  }
+
+  private createGeometryContainer(objects: GeometricObject[], origin: { x: number, y: number }, scale: number): Container {
+    const container = new Container()
+    for (const obj of objects) {
+      const graphics = new Graphics()
+      this.geometryRenderer.drawObject(obj, origin, scale, graphics)
+      graphics.alpha = updateGameStore.getObjectGroup(obj).opacity
+      container.addChild(graphics)
+    }
+    return container
+  }
+
+  /**
+   * Same styling as BoundingBoxRenderer: translucent red box with a 1px outline
+   */
+  private static createBboxGraphics(objects: GeometricObject[], origin: { x: number, y: number }, scale: number): Graphics {
+    const graphics = new Graphics()
+    for (const obj of objects) {
+      if (!obj.metadata) continue
+      const { minX, minY, maxX, maxY } = obj.metadata.bounds
+      graphics
+        .rect((minX - origin.x) * scale, (minY - origin.y) * scale, (maxX - minX) * scale, (maxY - minY) * scale)
+        .fill({ color: 0xff0000, alpha: 0.1 })
+        .stroke({ width: 1, color: 0xff0000, alpha: 0.8 })
+    }
+    return graphics
+  }
+
+  /**
+   * 2x2 checkerboard cell, tiled at one texel per pixeloid
+   */
+  private static createGridTexture(): Texture {
+    const canvas = document.createElement('canvas')
+    canvas.width = 2
+    canvas.height = 2
+    const context = canvas.getContext('2d')!
+    const format = (color: number) => `#${color.toString(16).padStart(6, '0')}`
+    context.fillStyle = format(GRID_LIGHT_COLOR)
+    context.fillRect(0, 0, 2, 2)
+    context.fillStyle = format(GRID_DARK_COLOR)
+    context.fillRect(1, 0, 1, 1)
+    context.fillRect(0, 1, 1, 1)
+
+    const texture = Texture.from(canvas)
+    texture.source.scaleMode = 'nearest'
+    return texture
+  }
+
+  /**
+   * Render one tile of the scene and copy it into the output image
+   */
+  private renderTile(
+    scene: { root: Container, pixelateContainer: Container | null },
+    tile: Rectangle,
+    context: CanvasRenderingContext2D
+  ): void {
+    const target = RenderTexture.create({
+      width: tile.width,
+      height: tile.height,
+      resolution: 1,
+      antialias: true
+    })
+
+    try {
+      scene.root.position.set(-tile.x, -tile.y)
+      if (scene.pixelateContainer) {
+        // filterArea is in render target space, where the shifted tile starts at the origin.
+        // Pixelate blocks start at the tile corner, which sits on a pixeloid boundary.
+        scene.pixelateContainer.filterArea = new Rectangle(0, 0, tile.width, tile.height)
+      }
+
+      this.renderer.render({ container: scene.root, target, clear: true })
+      const tileCanvas = this.renderer.extract.canvas(target) as HTMLCanvasElement
+      context.drawImage(tileCanvas, tile.x, tile.y)
+    } finally {
+      target.destroy(true)
+    }
+  }
+}
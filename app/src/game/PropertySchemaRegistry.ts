@@ -0,0 +1,136 @@
+import type { GeometricObject, PropertyValue } from '../types'
+
+export type PropertyObjectType = 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline'
+
+export interface PropertyDefinition {
+  key: string
+  type: 'string' | 'number' | 'boolean' | 'enum'
+  defaultValue: PropertyValue
+  options?: string[]       // Allowed values of an 'enum' property
+  min?: number             // Inclusive range of a 'number' property
+  max?: number
+  description?: string
+}
+
+// Schemas registered under '*' apply to every object type
+type SchemaScope = PropertyObjectType | '*'
+
+// Keys are short identifiers so they stay readable in search queries (key=value)
+const PROPERTY_KEY_PATTERN = /^[A-Za-z_][A-Za-z0-9_.-]*$/
+
+/**
+ * PropertySchemaRegistry describes the typed properties objects can carry (GeometricObject.properties).
+ * - A schema entry gives a key its type, default value and constraints
+ * - Entries registered for a type override '*' entries with the same key
+ * - Keys without an entry are free-form custom metadata (any string, number or boolean)
+ * Objects only store values that were set explicitly - defaults are merged in by resolve().
+ */
+export class PropertySchemaRegistry {
+  private static schemas: Map<SchemaScope, Map<string, PropertyDefinition>> = new Map()
+
+  static register(scope: SchemaScope, definition: PropertyDefinition): void {
+    if (!PROPERTY_KEY_PATTERN.test(definition.key)) {
+      throw new Error(`Property schema failed: invalid key '${definition.key}'`)
+    }
+    if (!PropertySchemaRegistry.schemas.has(scope)) {
+      PropertySchemaRegistry.schemas.set(scope, new Map())
+    }
+    PropertySchemaRegistry.schemas.get(scope)!.set(definition.key, definition)
+  }
+
+  static unregister(scope: SchemaScope, key: string): void {
+    PropertySchemaRegistry.schemas.get(scope)?.delete(key)
+  }
+
+  /**
+   * Schema entries that apply to an object type, in registration order ('*' entries first)
+   */
+  static getDefinitions(type: PropertyObjectType): PropertyDefinition[] {
+    const merged = new Map<string, PropertyDefinition>()
+    for (const scope of ['*', type] as SchemaScope[]) {
+      PropertySchemaRegistry.schemas.get(scope)?.forEach((definition, key) => merged.set(key, definition))
+    }
+    return [...merged.values()]
+  }
+
+  static getDefinition(type: PropertyObjectType, key: string): PropertyDefinition | undefined {
+    return PropertySchemaRegistry.schemas.get(type)?.get(key) ?? PropertySchemaRegistry.schemas.get('*')?.get(key)
+  }
+
+  static getObjectType(obj: GeometricObject): PropertyObjectType {
+    return obj.type
+  }
+
+  static getDefaults(type: PropertyObjectType): Record<string, PropertyValue> {
+    const defaults: Record<string, PropertyValue> = {}
+    for (const definition of PropertySchemaRegistry.getDefinitions(type)) {
+      defaults[definition.key] = definition.defaultValue
+    }
+    return defaults
+  }
+
+  /**
+   * Effective properties of an object: schema defaults overlaid with its stored values
+   */
+  static resolve(obj: GeometricObject): Record<string, PropertyValue> {
+    return { ...PropertySchemaRegistry.getDefaults(PropertySchemaRegistry.getObjectType(obj)), ...obj.properties }
+  }
+
+  /**
+   * Check a value against the schema - returns an error message, or null when the value is valid
+   */
+  static validate(type: PropertyObjectType, key: string, value: PropertyValue): string | null {
+    if (!PROPERTY_KEY_PATTERN.test(key)) {
+      return `'${key}' is not a valid property key`
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+      return `'${key}' must be a finite number`
+    }
+
+    const definition = PropertySchemaRegistry.getDefinition(type, key)
+    if (!definition) {
+      return ['string', 'number', 'boolean'].includes(typeof value) ? null : `'${key}' has an unsupported value type`
+    }
+
+    switch (definition.type) {
+      case 'enum':
+        return typeof value === 'string' && definition.options?.includes(value)
+          ? null
+          : `'${key}' must be one of: ${definition.options?.join(', ')}`
+      case 'number':
+        if (typeof value !== 'number') return `'${key}' must be a number`
+        if (definition.min !== undefined && value < definition.min) return `'${key}' must be at least ${definition.min}`
+        if (definition.max !== undefined && value > definition.max) return `'${key}' must be at most ${definition.max}`
+        return null
+      default:
+        return typeof value === definition.type ? null : `'${key}' must be a ${definition.type}`
+    }
+  }
+
+  /**
+   * Convert text input to a property value: by the schema type, or inferred for custom keys
+   * ('true' / 'false' become booleans, numeric text becomes a number)
+   */
+  static parseValue(type: PropertyObjectType, key: string, raw: string): PropertyValue {
+    const definition = PropertySchemaRegistry.getDefinition(type, key)
+    const text = raw.trim()
+    const kind = definition?.type ?? (text === 'true' || text === 'false' ? 'boolean' : text !== '' && Number.isFinite(Number(text)) ? 'number' : 'string')
+
+    switch (kind) {
+      case 'boolean':
+        return text === 'true'
+      case 'number':
+        return text === '' ? NaN : Number(text)
+      default:
+        return definition ? raw : text
+    }
+  }
+}
+
+// Built-in schema used by the game (collision for every shape, spawn points and trigger regions)
+PropertySchemaRegistry.register('*', { key: 'collision', type: 'boolean', defaultValue: false, description: 'Blocks movement' })
+PropertySchemaRegistry.register('point', { key: 'spawn', type: 'string', defaultValue: '', description: 'Spawn point name' })
+for (const type of ['rectangle', 'circle', 'diamond', 'polygon'] as PropertyObjectType[]) {
+  PropertySchemaRegistry.register(type, { key: 'region', type: 'string', defaultValue: '', description: 'Region name' })
+  PropertySchemaRegistry.register(type, { key: 'trigger', type: 'enum', defaultValue: 'none', options: ['none', 'enter', 'exit', 'both'], description: 'Fires when the player crosses the outline' })
+}
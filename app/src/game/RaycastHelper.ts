@@ -0,0 +1,110 @@
+import { createPixeloidCoordinate } from '../store/gameStore'
+import { GeometryHelper } from './GeometryHelper'
+import type { GeometricObject, PixeloidCoordinate } from '../types'
+
+export interface RaycastTraversal {
+  steps: PixeloidCoordinate[]
+  hitPoint: PixeloidCoordinate | null
+  // Where the ray ended: the hit point, or the end point / maxDistance limit, whichever is closer
+  stopPoint: PixeloidCoordinate
+  hitObjectId: string | null
+}
+
+/**
+ * RaycastHelper walks a ray through the pixeloid grid.
+ * Uses DDA grid traversal (Amanatides & Woo) so every pixeloid the ray crosses is visited exactly once.
+ */
+export class RaycastHelper {
+  /**
+   * Traverse pixeloids from start towards end, stopping at the first geometry hit,
+   * at the end pixeloid or after maxDistance pixeloids of travel - whichever comes first.
+   * Each traversed pixeloid is tested at its center with GeometryHelper.isPointInsideObject against the
+   * objects queryObjects returns for that point (e.g. updateGameStore.queryObjectsAtPoint, in draw order).
+   */
+  static traverse(
+    start: PixeloidCoordinate,
+    end: PixeloidCoordinate,
+    maxDistance: number,
+    queryObjects: (point: PixeloidCoordinate) => GeometricObject[]
+  ): RaycastTraversal {
+    const steps: PixeloidCoordinate[] = []
+
+    const deltaX = end.x - start.x
+    const deltaY = end.y - start.y
+    const length = Math.sqrt(deltaX * deltaX + deltaY * deltaY)
+    const maxT = Math.min(length, Math.max(0, maxDistance))
+
+    // Direction is undefined for a zero-length ray - only the start pixeloid is tested
+    const dirX = length > 0 ? deltaX / length : 0
+    const dirY = length > 0 ? deltaY / length : 0
+
+    let cellX = Math.floor(start.x)
+    let cellY = Math.floor(start.y)
+    const endCellX = Math.floor(end.x)
+    const endCellY = Math.floor(end.y)
+
+    const stepX = Math.sign(dirX)
+    const stepY = Math.sign(dirY)
+
+    // Distance along the ray between successive vertical / horizontal pixeloid boundaries
+    const tDeltaX = dirX !== 0 ? Math.abs(1 / dirX) : Infinity
+    const tDeltaY = dirY !== 0 ? Math.abs(1 / dirY) : Infinity
+
+    // Distance along the ray to the first vertical / horizontal boundary
+    let tMaxX = dirX > 0 ? (cellX + 1 - start.x) / dirX : dirX < 0 ? (start.x - cellX) / -dirX : Infinity
+    let tMaxY = dirY > 0 ? (cellY + 1 - start.y) / dirY : dirY < 0 ? (start.y - cellY) / -dirY : Infinity
+
+    let t = 0
+    while (true) {
+      steps.push(createPixeloidCoordinate(cellX, cellY))
+
+      const hitObject = RaycastHelper.findObjectInPixeloid(cellX, cellY, queryObjects)
+      if (hitObject) {
+        const hitPoint = createPixeloidCoordinate(start.x + dirX * t, start.y + dirY * t)
+        return { steps, hitPoint, stopPoint: hitPoint, hitObjectId: hitObject.id }
+      }
+
+      if (cellX === endCellX && cellY === endCellY) break
+
+      // Advance across whichever boundary is closer
+      if (tMaxX < tMaxY) {
+        t = tMaxX
+        tMaxX += tDeltaX
+        if (t > maxT) break
+        cellX += stepX
+      } else {
+        t = tMaxY
+        tMaxY += tDeltaY
+        if (t > maxT) break
+        cellY += stepY
+      }
+    }
+
+    return {
+      steps,
+      hitPoint: null,
+      stopPoint: createPixeloidCoordinate(start.x + dirX * maxT, start.y + dirY * maxT),
+      hitObjectId: null
+    }
+  }
+
+  /**
+   * Find the topmost visible object covering the center of a pixeloid
+   */
+  private static findObjectInPixeloid(
+    pixeloidX: number,
+    pixeloidY: number,
+    queryObjects: (point: PixeloidCoordinate) => GeometricObject[]
+  ): GeometricObject | null {
+    const center = createPixeloidCoordinate(pixeloidX + 0.5, pixeloidY + 0.5)
+    const objects = queryObjects(center)
+
+    // Later objects are drawn on top, so test them first
+    for (let i = objects.length - 1; i >= 0; i--) {
+      if (objects[i].isVisible && GeometryHelper.isPointInsideObject(center, objects[i])) {
+        return objects[i]
+      }
+    }
+    return null
+  }
+}
@@ -0,0 +1,126 @@
+import { Graphics } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import type { Raycast } from '../types'
+
+/**
+ * RaycastRenderer draws active raycasts from the store:
+ * - Traversed pixeloids as translucent cells (when settings.showSteps is on)
+ * - The ray itself from start to where the traversal stopped (hit point, end point or maxDistance)
+ * - A marker at the first geometry hit
+ * Draws at screen coordinates using the same pixeloid → vertex → screen conversion as GeometryRenderer.
+ */
+export class RaycastRenderer {
+  private graphics: Graphics
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Redraw all active raycasts
+   */
+  public render(pixeloidScale: number): void {
+    this.graphics.clear()
+
+    const { activeRaycasts, settings } = gameStore.geometry.raycast
+    if (activeRaycasts.length === 0) return
+
+    for (const raycast of activeRaycasts) {
+      if (settings.showSteps) {
+        this.renderSteps(raycast, settings.stepColor, pixeloidScale)
+      }
+      this.renderRay(raycast, pixeloidScale)
+      if (raycast.hitPoints.length > 0) {
+        this.renderHits(raycast, settings.hitColor, pixeloidScale)
+      }
+    }
+  }
+
+  /**
+   * Fill every pixeloid the ray traversed
+   */
+  private renderSteps(raycast: Raycast, color: number, pixeloidScale: number): void {
+    for (const step of raycast.steps) {
+      this.graphics.poly(this.projectPixeloidCell(step.x, step.y, pixeloidScale))
+    }
+    this.graphics.fill({ color, alpha: 0.35 })
+  }
+
+  /**
+   * Draw the ray segment up to where the traversal stopped (first hit or maxDistance)
+   */
+  private renderRay(raycast: Raycast, pixeloidScale: number): void {
+    const start = this.pixeloidToScreen(raycast.startX, raycast.startY, pixeloidScale)
+    const end = this.pixeloidToScreen(raycast.stopX, raycast.stopY, pixeloidScale)
+
+    this.graphics
+      .moveTo(start.x, start.y)
+      .lineTo(end.x, end.y)
+      .stroke({ width: 2, color: raycast.color, alpha: 0.9 })
+    this.graphics
+      .circle(start.x, start.y, 3)
+      .fill({ color: raycast.color, alpha: 0.9 })
+  }
+
+  /**
+   * Outline the hit pixeloid and mark the exact entry point
+   */
+  private renderHits(raycast: Raycast, color: number, pixeloidScale: number): void {
+    const hitCell = raycast.steps[raycast.steps.length - 1]
+    if (hitCell) {
+      this.graphics
+        .poly(this.projectPixeloidCell(hitCell.x, hitCell.y, pixeloidScale))
+        .stroke({ width: 2, color, alpha: 1 })
+    }
+
+    for (const hit of raycast.hitPoints) {
+      const screen = this.pixeloidToScreen(hit.x, hit.y, pixeloidScale)
+      this.graphics
+        .circle(screen.x, screen.y, 4)
+        .fill({ color, alpha: 1 })
+    }
+  }
+
+  /**
+   * Screen-space polygon for a single pixeloid cell (diamond in isometric projection)
+   */
+  private projectPixeloidCell(pixeloidX: number, pixeloidY: number, pixeloidScale: number): number[] {
+    const corners = [
+      { x: pixeloidX, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY },
+      { x: pixeloidX + 1, y: pixeloidY + 1 },
+      { x: pixeloidX, y: pixeloidY + 1 }
+    ]
+    return corners.flatMap(corner => {
+      const screen = this.pixeloidToScreen(corner.x, corner.y, pixeloidScale)
+      return [screen.x, screen.y]
+    })
+  }
+
+  /**
+   * Convert a pixeloid position to screen coordinates for the current camera
+   */
+  private pixeloidToScreen(pixeloidX: number, pixeloidY: number, pixeloidScale: number): { x: number, y: number } {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    return CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: pixeloidX - offset.x, y: pixeloidY - offset.y },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+  }
+}
@@ -0,0 +1,478 @@
+/**
+ * SceneSerializer converts the current scene to a versioned JSON document and back.
+ * Only source geometry is written - metadata is regenerated on load through GeometryHelper.
+ *
+ * Versions:
+ * - 1: per-shape coordinate fields (x/y, startX..., centerX..., anchorX..., vertices) with flat style fields
+ * - 2: adds the tile map (sparse tile chunks + tile palette)
+ * - 3: stable objects (type + pixeloidVertices + anchorConfig + style); each object's anchorConfig is its only anchor
+ */
+
+import type {
+  GeometricObject,
+  GeometricObjectType,
+  LegacyGeometricObject,
+  SceneDocument,
+  SerializedGeometricObject,
+  SerializedSceneObject,
+  AnchorConfig,
+  ObjectGroup,
+  CameraBookmark
+} from '../types'
+import { gameStore, updateGameStore, createPixeloidCoordinate } from '../store/gameStore'
+import { GeometryHelper } from './GeometryHelper'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import { TileMapHelper } from './TileMapHelper'
+import { LegacyGeometryConverter } from './LegacyGeometryConverter'
+
+const OBJECT_TYPES: GeometricObjectType[] = ['point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline']
+
+// Required numeric fields for each version 1 object shape (checked in duck-typing order)
+const LEGACY_OBJECT_SHAPES: Array<{ type: string, discriminator: string, fields: string[] }> = [
+  { type: 'diamond', discriminator: 'anchorX', fields: ['anchorX', 'anchorY', 'width', 'height'] },
+  { type: 'circle', discriminator: 'centerX', fields: ['centerX', 'centerY', 'radius'] },
+  { type: 'rectangle', discriminator: 'width', fields: ['x', 'y', 'width', 'height'] },
+  { type: 'line', discriminator: 'startX', fields: ['startX', 'startY', 'endX', 'endY'] },
+  { type: 'point', discriminator: 'x', fields: ['x', 'y'] }
+]
+
+export class SceneSerializer {
+  static readonly FORMAT = 'pixy-scene'
+  static readonly CURRENT_VERSION = 3
+
+  /**
+   * Upgrade steps keyed by the version they upgrade FROM.
+   * Each step must return a document of version + 1.
+   */
+  private static readonly MIGRATIONS: Record<number, (doc: any) => any> = {
+    // No tile map yet -> an empty one (the palette in use is kept)
+    1: (doc: any) => {
+      return { ...doc, version: 2, tileMap: { chunkSize: gameStore.tileMap.chunkSize, chunks: {} } }
+    },
+    // Per-shape fields -> stable vertex objects. Stored coordinates are kept exactly.
+    // Anchor overrides move into the overridden object's anchorConfig; the override map is dropped.
+    2: (doc: any) => {
+      if (!Array.isArray(doc.objects)) {
+        throw new Error('Scene load failed: objects must be an array')
+      }
+      const { objectOverrides, ...anchoring } = doc.anchoring ?? {}
+      const overrides: Record<string, AnchorConfig> = objectOverrides ?? {}
+      const objects = doc.objects.map((entry: any, index: number) => {
+        SceneSerializer.validateLegacyObject(entry, index)
+        const object = LegacyGeometryConverter.toStable(entry.object as LegacyGeometricObject)
+        const override = overrides[object.id]
+        return { ...entry, object: override ? { ...object, anchorConfig: { ...override } } : object }
+      })
+      return { ...doc, version: 3, objects, anchoring }
+    }
+  }
+
+  // ================================
+  // SAVE
+  // ================================
+
+  /**
+   * Build a scene document from the current store state
+   */
+  static serialize(): SceneDocument {
+    const objects: SerializedSceneObject[] = gameStore.geometry.objects.map(obj => {
+      const { metadata, bboxMesh, ...source } = obj
+      return {
+        object: { ...source } as SerializedGeometricObject,
+        createdAtScale: metadata?.createdAtScale ?? gameStore.camera.pixeloid_scale
+      }
+    })
+
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+
+    return {
+      format: SceneSerializer.FORMAT,
+      version: SceneSerializer.CURRENT_VERSION,
+      savedAt: Date.now(),
+      objects,
+      groups: gameStore.geometry.groups.list.map(group => ({ ...group })),
+      bookmarks: gameStore.camera.bookmarks.map(bookmark => ({ ...bookmark, offset: { ...bookmark.offset } })),
+      tileMap: {
+        chunkSize: gameStore.tileMap.chunkSize,
+        chunks: Object.fromEntries(Object.entries(gameStore.tileMap.chunks).map(([key, chunk]) => [
+          key,
+          { ...chunk, tiles: { ...chunk.tiles } }
+        ])),
+        palette: gameStore.tileMap.palette.map(tileType => ({ ...tileType }))
+      },
+      favorites: [...gameStore.geometry.favorites.favoriteObjectIds],
+      anchoring: {
+        defaults: { ...gameStore.geometry.anchoring.defaults }
+      },
+      drawingSettings: { ...gameStore.geometry.drawing.settings },
+      camera: {
+        offset: { x: offset.x, y: offset.y },
+        pixeloidScale: gameStore.camera.pixeloid_scale,
+        projection: gameStore.camera.projection
+      }
+    }
+  }
+
+  /**
+   * Serialize the current scene to a JSON string
+   */
+  static toJSON(): string {
+    return JSON.stringify(SceneSerializer.serialize(), null, 2)
+  }
+
+  // ================================
+  // LOAD
+  // ================================
+
+  /**
+   * Parse and validate a scene JSON string, migrating older versions.
+   * Throws a descriptive Error if the document cannot be loaded.
+   */
+  static parse(json: string): SceneDocument {
+    let raw: any
+    try {
+      raw = JSON.parse(json)
+    } catch (error) {
+      throw new Error(`Scene load failed: invalid JSON (${(error as Error).message})`)
+    }
+
+    if (!raw || typeof raw !== 'object' || raw.format !== SceneSerializer.FORMAT) {
+      throw new Error(`Scene load failed: not a ${SceneSerializer.FORMAT} document`)
+    }
+
+    const doc = SceneSerializer.migrate(raw)
+    SceneSerializer.validate(doc)
+    return doc
+  }
+
+  /**
+   * Parse a scene JSON string and replace the current scene with it
+   */
+  static load(json: string): void {
+    SceneSerializer.restore(SceneSerializer.parse(json))
+  }
+
+  /**
+   * Replace the current scene with a validated document
+   */
+  static restore(doc: SceneDocument): void {
+    updateGameStore.clearScene()
+
+    // Camera projection first so visibility caches are built for the right view
+    updateGameStore.setCameraProjection(doc.camera.projection)
+
+    // Groups before objects so every groupId resolves (older scenes keep the default group)
+    if (doc.groups) {
+      updateGameStore.setGroups(doc.groups)
+    }
+
+    for (const entry of doc.objects) {
+      const object = { ...entry.object } as GeometricObject
+      object.metadata = GeometryHelper.calculateObjectMetadata(object, entry.createdAtScale)
+      updateGameStore.addGeometricObject(object)
+    }
+    updateGameStore.recalculateScaleTracking()
+
+    // Anchoring
+    for (const [type, anchor] of Object.entries(doc.anchoring.defaults)) {
+      updateGameStore.setDefaultAnchor(type as keyof SceneDocument['anchoring']['defaults'], anchor)
+    }
+
+    // Favorites (drop references to objects that are not in the scene)
+    const existingIds = new Set(gameStore.geometry.objects.map(obj => obj.id))
+    for (const objectId of doc.favorites) {
+      if (existingIds.has(objectId)) {
+        updateGameStore.addToFavorites(objectId)
+      }
+    }
+
+    updateGameStore.setDrawingSettings(doc.drawingSettings)
+
+    if (doc.bookmarks) {
+      updateGameStore.setCameraBookmarks(doc.bookmarks)
+    }
+
+    // Tiles are re-chunked by cell so a different saved chunk size still loads
+    if (doc.tileMap.palette) {
+      updateGameStore.setTilePalette(doc.tileMap.palette)
+    }
+    for (const chunk of Object.values(doc.tileMap.chunks)) {
+      TileMapHelper.forEachTile(chunk, doc.tileMap.chunkSize, (cellX, cellY, tileTypeId) => {
+        updateGameStore.setTile(cellX, cellY, tileTypeId)
+      })
+    }
+
+    // Camera - scale is checked against the restored scale tracking
+    updateGameStore.setPixeloidScale(doc.camera.pixeloidScale)
+    updateGameStore.setVertexToPixeloidOffset(
+      createPixeloidCoordinate(doc.camera.offset.x, doc.camera.offset.y)
+    )
+
+    // A freshly loaded scene starts with an empty undo history
+    updateGameStore.clearHistory()
+
+    console.log(`SceneSerializer: Restored ${doc.objects.length} objects from version ${doc.version} scene`)
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Run migration steps until the document reaches the current version
+   */
+  private static migrate(raw: any): SceneDocument {
+    let doc = raw
+    if (typeof doc.version !== 'number' || !Number.isInteger(doc.version)) {
+      throw new Error('Scene load failed: missing or invalid version')
+    }
+    if (doc.version > SceneSerializer.CURRENT_VERSION) {
+      throw new Error(
+        `Scene load failed: version ${doc.version} is newer than supported version ${SceneSerializer.CURRENT_VERSION}`
+      )
+    }
+
+    while (doc.version < SceneSerializer.CURRENT_VERSION) {
+      const step = SceneSerializer.MIGRATIONS[doc.version]
+      if (!step) {
+        throw new Error(`Scene load failed: no migration available from version ${doc.version}`)
+      }
+      doc = step(doc)
+    }
+
+    return doc as SceneDocument
+  }
+
+  /**
+   * Validate the structure of a current-version document
+   */
+  private static validate(doc: SceneDocument): void {
+    if (!Array.isArray(doc.objects)) {
+      throw new Error('Scene load failed: objects must be an array')
+    }
+    doc.objects.forEach((entry, index) => SceneSerializer.validateObject(entry, index))
+
+    if (doc.groups !== undefined) {
+      if (!Array.isArray(doc.groups)) {
+        throw new Error('Scene load failed: groups must be an array')
+      }
+      doc.groups.forEach((group, index) => SceneSerializer.validateGroup(group, index))
+    }
+
+    if (doc.bookmarks !== undefined) {
+      if (!Array.isArray(doc.bookmarks)) {
+        throw new Error('Scene load failed: bookmarks must be an array')
+      }
+      doc.bookmarks.forEach((bookmark, index) => SceneSerializer.validateBookmark(bookmark, index))
+    }
+
+    SceneSerializer.validateTileMap(doc.tileMap)
+
+    if (!Array.isArray(doc.favorites) || doc.favorites.some(id => typeof id !== 'string')) {
+      throw new Error('Scene load failed: favorites must be an array of object ids')
+    }
+    if (!doc.anchoring || typeof doc.anchoring.defaults !== 'object') {
+      throw new Error('Scene load failed: anchoring section is missing or malformed')
+    }
+    if (!doc.drawingSettings || typeof doc.drawingSettings !== 'object') {
+      throw new Error('Scene load failed: drawingSettings section is missing')
+    }
+
+    const camera = doc.camera
+    if (!camera || !camera.offset ||
+        !Number.isFinite(camera.offset.x) || !Number.isFinite(camera.offset.y) ||
+        !Number.isFinite(camera.pixeloidScale)) {
+      throw new Error('Scene load failed: camera section is missing or malformed')
+    }
+    if (camera.projection !== 'orthographic' && camera.projection !== 'isometric') {
+      throw new Error(`Scene load failed: unknown camera projection '${camera.projection}'`)
+    }
+  }
+
+  /**
+   * Validate a single layer / group entry
+   */
+  private static validateGroup(group: ObjectGroup, index: number): void {
+    if (!group || typeof group.id !== 'string' || typeof group.name !== 'string') {
+      throw new Error(`Scene load failed: group #${index} has no id or name`)
+    }
+    if (typeof group.isVisible !== 'boolean' || typeof group.isLocked !== 'boolean') {
+      throw new Error(`Scene load failed: group '${group.id}' has invalid visibility or lock state`)
+    }
+    if (!Number.isFinite(group.opacity) || group.opacity < 0 || group.opacity > 1) {
+      throw new Error(`Scene load failed: group '${group.id}' has invalid opacity`)
+    }
+  }
+
+  /**
+   * Validate a single camera bookmark
+   */
+  private static validateBookmark(bookmark: CameraBookmark, index: number): void {
+    if (!bookmark || typeof bookmark.id !== 'string' || typeof bookmark.name !== 'string') {
+      throw new Error(`Scene load failed: bookmark #${index} has no id or name`)
+    }
+    if (!bookmark.offset || !Number.isFinite(bookmark.offset.x) || !Number.isFinite(bookmark.offset.y) ||
+        !Number.isFinite(bookmark.pixeloidScale) || !Number.isFinite(bookmark.createdAt)) {
+      throw new Error(`Scene load failed: bookmark '${bookmark.id}' has an invalid view`)
+    }
+  }
+
+  /**
+   * Validate the tile map: positive chunk size, well-formed palette and chunks, tiles of known types
+   */
+  private static validateTileMap(tileMap: SceneDocument['tileMap']): void {
+    if (!tileMap || typeof tileMap !== 'object' || !Number.isInteger(tileMap.chunkSize) || tileMap.chunkSize < 1) {
+      throw new Error('Scene load failed: tileMap section is missing or malformed')
+    }
+
+    if (tileMap.palette !== undefined) {
+      if (!Array.isArray(tileMap.palette)) {
+        throw new Error('Scene load failed: tile palette must be an array')
+      }
+      tileMap.palette.forEach((tileType, index) => {
+        if (!tileType || typeof tileType.id !== 'string' || typeof tileType.name !== 'string') {
+          throw new Error(`Scene load failed: tile type #${index} has no id or name`)
+        }
+        if (!Number.isFinite(tileType.color) || (tileType.texture !== null && typeof tileType.texture !== 'string')) {
+          throw new Error(`Scene load failed: tile type '${tileType.id}' has invalid color or texture`)
+        }
+      })
+    }
+
+    const knownTypeIds = new Set((tileMap.palette ?? gameStore.tileMap.palette).map(tileType => tileType.id))
+    if (!tileMap.chunks || typeof tileMap.chunks !== 'object' || Array.isArray(tileMap.chunks)) {
+      throw new Error('Scene load failed: tile chunks must be an object')
+    }
+    for (const [key, chunk] of Object.entries(tileMap.chunks)) {
+      if (!chunk || !Number.isInteger(chunk.chunkX) || !Number.isInteger(chunk.chunkY) ||
+          !chunk.tiles || typeof chunk.tiles !== 'object') {
+        throw new Error(`Scene load failed: tile chunk '${key}' is malformed`)
+      }
+      for (const [localKey, tileTypeId] of Object.entries(chunk.tiles)) {
+        const [localX, localY] = localKey.split(',').map(Number)
+        if (!Number.isInteger(localX) || !Number.isInteger(localY) ||
+            localX < 0 || localY < 0 || localX >= tileMap.chunkSize || localY >= tileMap.chunkSize) {
+          throw new Error(`Scene load failed: tile chunk '${key}' has invalid cell '${localKey}'`)
+        }
+        if (!knownTypeIds.has(tileTypeId)) {
+          throw new Error(`Scene load failed: tile chunk '${key}' uses unknown tile type '${tileTypeId}'`)
+        }
+      }
+    }
+  }
+
+  /**
+   * Validate a single serialized object: known type, vertex count for the type, finite vertices and style
+   */
+  private static validateObject(entry: SerializedSceneObject, index: number): void {
+    const object = entry?.object as any
+    if (!object || typeof object.id !== 'string') {
+      throw new Error(`Scene load failed: object #${index} has no id`)
+    }
+    if (!OBJECT_TYPES.includes(object.type)) {
+      throw new Error(`Scene load failed: object '${object.id}' has unknown type '${object.type}'`)
+    }
+
+    SceneSerializer.validateProperties(object)
+
+    const type = object.type as GeometricObjectType
+    const expected = GeometryVertexCalculator.getMinVertexCount(type)
+    const isPath = type === 'polygon' || type === 'polyline'
+    const vertices = object.pixeloidVertices
+    if (!Array.isArray(vertices) || (isPath ? vertices.length < expected : vertices.length !== expected)) {
+      throw new Error(`Scene load failed: ${type} '${object.id}' needs ${isPath ? 'at least ' : ''}${expected} vertices`)
+    }
+    vertices.forEach((vertex: any, vertexIndex: number) => {
+      if (!vertex || !Number.isFinite(vertex.x) || !Number.isFinite(vertex.y)) {
+        throw new Error(`Scene load failed: ${type} '${object.id}' has invalid vertex #${vertexIndex}`)
+      }
+    })
+
+    if (!object.anchorConfig || typeof object.anchorConfig.firstPointAnchor !== 'string') {
+      throw new Error(`Scene load failed: ${type} '${object.id}' has invalid anchorConfig`)
+    }
+    const style = object.style
+    if (!style || typeof style !== 'object') {
+      throw new Error(`Scene load failed: ${type} '${object.id}' has no style`)
+    }
+    for (const field of ['color', 'strokeWidth', 'strokeAlpha']) {
+      if (!Number.isFinite(style[field])) {
+        throw new Error(`Scene load failed: ${type} '${object.id}' has invalid style field '${field}'`)
+      }
+    }
+    if (!Number.isFinite(entry.createdAtScale)) {
+      throw new Error(`Scene load failed: object '${object.id}' has invalid createdAtScale`)
+    }
+  }
+
+  /**
+   * Validate a single version 1 object by its duck-typed shape
+   */
+  private static validateLegacyObject(entry: SerializedSceneObject, index: number): void {
+    const object = entry?.object as any
+    if (!object || typeof object.id !== 'string') {
+      throw new Error(`Scene load failed: object #${index} has no id`)
+    }
+
+    SceneSerializer.validateProperties(object)
+
+    if ('vertices' in object) {
+      SceneSerializer.validateLegacyPath(object)
+      if (!Number.isFinite(entry.createdAtScale)) {
+        throw new Error(`Scene load failed: object '${object.id}' has invalid createdAtScale`)
+      }
+      return
+    }
+
+    const shape = LEGACY_OBJECT_SHAPES.find(candidate => candidate.discriminator in object)
+    if (!shape) {
+      throw new Error(`Scene load failed: object '${object.id}' has an unknown shape`)
+    }
+    for (const field of [...shape.fields, 'color']) {
+      if (!Number.isFinite(object[field])) {
+        throw new Error(`Scene load failed: ${shape.type} '${object.id}' has invalid field '${field}'`)
+      }
+    }
+    if (!Number.isFinite(entry.createdAtScale)) {
+      throw new Error(`Scene load failed: object '${object.id}' has invalid createdAtScale`)
+    }
+  }
+
+  /**
+   * Validate the optional property bag (flat string / number / boolean values)
+   */
+  private static validateProperties(object: any): void {
+    if (object.properties === undefined) return
+    const properties = object.properties
+    if (!properties || typeof properties !== 'object' || Array.isArray(properties)) {
+      throw new Error(`Scene load failed: object '${object.id}' has invalid properties`)
+    }
+    for (const [key, value] of Object.entries(properties)) {
+      if (typeof value !== 'string' && typeof value !== 'boolean' && !Number.isFinite(value)) {
+        throw new Error(`Scene load failed: object '${object.id}' has invalid property '${key}'`)
+      }
+    }
+  }
+
+  /**
+   * Validate a version 1 polygon / polyline (vertex list instead of fixed fields)
+   */
+  private static validateLegacyPath(object: any): void {
+    const type = object.closed ? 'polygon' : 'polyline'
+    const minVertices = object.closed ? 3 : 2
+    if (typeof object.closed !== 'boolean') {
+      throw new Error(`Scene load failed: path '${object.id}' has invalid field 'closed'`)
+    }
+    if (!Array.isArray(object.vertices) || object.vertices.length < minVertices) {
+      throw new Error(`Scene load failed: ${type} '${object.id}' needs at least ${minVertices} vertices`)
+    }
+    object.vertices.forEach((vertex: any, index: number) => {
+      if (!vertex || !Number.isFinite(vertex.x) || !Number.isFinite(vertex.y)) {
+        throw new Error(`Scene load failed: ${type} '${object.id}' has invalid vertex #${index}`)
+      }
+    })
+    if (!Number.isFinite(object.color)) {
+      throw new Error(`Scene load failed: ${type} '${object.id}' has invalid field 'color'`)
+    }
+  }
+}
@@ -3,7 +3,9 @@ import { OutlineFilter } from 'pixi-filters'
 import { gameStore } from '../store/gameStore'
 import { GeometryHelper } from './GeometryHelper'
 import { CoordinateCalculations } from './CoordinateCalculations'
-import type { ViewportCorners, GeometricObject, GeometricRectangle, GeometricCircle, GeometricLine, GeometricPoint, GeometricDiamond } from '../types'
+import { ObjectHandleHelper } from './ObjectHandleHelper'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import type { ViewportCorners, GeometricObject, GeometryStyle, PixeloidVertex, PointShape, LineShape, CircleShape, RectangleShape } from '../types'
 
 /**
  * SelectionFilterRenderer handles selection highlighting using GPU-accelerated OutlineFilter
@@ -11,6 +13,9 @@ import type { ViewportCorners, GeometricObject, GeometricRectangle, GeometricCir
  */
 export class SelectionFilterRenderer {
   private container: Container = new Container()
+  private outlineContainer: Container = new Container()  // Selected shapes, outlined by the filter
+  private marqueeGraphics: Graphics = new Graphics()     // Box selection rectangle (unfiltered)
+  private handleGraphics: Graphics = new Graphics()      // Reshape handles of the primary selection (unfiltered)
   private outlineFilter: OutlineFilter
 
   constructor() {
@@ -20,6 +25,10 @@ export class SelectionFilterRenderer {
       color: 0xff4444,  // Bright red for visibility
       quality: 0.1      // Performance optimization
     })
+    
+    this.container.addChild(this.outlineContainer)
+    this.container.addChild(this.marqueeGraphics)
+    this.container.addChild(this.handleGraphics)
   }
 
   /**
@@ -27,48 +36,105 @@ export class SelectionFilterRenderer {
    * Gets selected objects from store and applies GPU-accelerated red outline
    */
   public render(corners: ViewportCorners, pixeloidScale: number): void {
-    const selectedId = gameStore.geometry.selection.selectedObjectId
+    const selectedIds = gameStore.geometry.selection.selectedObjectIds
 
     // Clear previous selection graphics
-    this.container.removeChildren()
-    this.container.filters = null
-
-    if (!selectedId) {
-      return // No selection
+    for (const child of this.outlineContainer.removeChildren()) {
+      child.destroy()
     }
+    this.outlineContainer.filters = null
+    
+    this.renderMarquee(pixeloidScale)
+    this.renderHandles(pixeloidScale)
 
-    // Find the selected object
-    const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedId)
-    if (!selectedObject || !selectedObject.isVisible) {
-      return
-    }
+    for (const selectedId of selectedIds) {
+      // Find the selected object
+      const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedId)
+      if (!selectedObject || !selectedObject.isVisible) {
+        continue
+      }
 
-    // Check if object is in viewport (with some padding)
-    if (!this.isObjectInViewport(selectedObject, corners)) {
-      return
+      // Check if object is in viewport (with some padding)
+      if (!this.isObjectInViewport(selectedObject, corners)) {
+        continue
+      }
+
+      // Create graphics for the selected object with coordinate conversion
+      const graphics = this.createGraphicsForObject(selectedObject, pixeloidScale)
+      if (graphics) {
+        this.outlineContainer.addChild(graphics)
+      }
     }
 
-    // Create graphics for the selected object with coordinate conversion
-    const graphics = this.createGraphicsForObject(selectedObject, pixeloidScale)
-    if (graphics) {
-      this.container.addChild(graphics)
-      
+    if (this.outlineContainer.children.length > 0) {
       // Apply OutlineFilter to the entire container for GPU-accelerated red borders
-      this.container.filters = [this.outlineFilter]
+      this.outlineContainer.filters = [this.outlineFilter]
       
       // 🚨 SHADER-LEVEL OOM FIX: Constrain filter processing to screen bounds only
       // This works correctly here because SelectionFilterRenderer uses single container architecture
-      this.container.filterArea = new Rectangle(
+      this.outlineContainer.filterArea = new Rectangle(
         0,
         0,
         gameStore.windowWidth,
         gameStore.windowHeight
       )
-      
-      console.log(`SelectionFilterRenderer: Applied outline filter to object ${selectedId}`)
     }
   }
 
+  /**
+   * Render the rubber-band selection box while a marquee drag is active
+   */
+  private renderMarquee(pixeloidScale: number): void {
+    this.marqueeGraphics.clear()
+    
+    const marquee = gameStore.geometry.selection.marquee
+    if (!marquee) return
+    
+    // Marquee is stored in pixeloid space - convert to vertex space first
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const minX = Math.min(marquee.start.x, marquee.end.x) - offset.x
+    const minY = Math.min(marquee.start.y, marquee.end.y) - offset.y
+    const width = Math.abs(marquee.end.x - marquee.start.x)
+    const height = Math.abs(marquee.end.y - marquee.start.y)
+    
+    this.marqueeGraphics
+      .poly(this.projectRectangleCorners(minX, minY, width, height, pixeloidScale))
+      .fill({ color: 0x4488ff, alpha: 0.15 })
+      .stroke({ width: 1, color: 0x4488ff, alpha: 0.9 })
+  }
+
+  /**
+   * Render reshape handles for the primary selected object (see ObjectHandleHelper)
+   */
+  private renderHandles(pixeloidScale: number): void {
+    this.handleGraphics.clear()
+
+    const selectedId = gameStore.geometry.selection.selectedObjectId
+    if (!selectedId) return
+
+    const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedId)
+    if (!selectedObject || !selectedObject.isVisible) return
+
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const size = 6  // Fixed pixel size
+    for (const handle of ObjectHandleHelper.getHandles(selectedObject)) {
+      const screen = CoordinateCalculations.pixeloidToScreen(
+        handle.position,
+        pixeloidScale,
+        offset,
+        gameStore.camera.projection
+      )
+      if (handle.kind === 'vertex') {
+        this.handleGraphics.rect(screen.x - size / 2, screen.y - size / 2, size, size)
+      } else {
+        this.handleGraphics.circle(screen.x, screen.y, size / 2)
+      }
+    }
+    this.handleGraphics
+      .fill({ color: 0xffffff, alpha: 1 })
+      .stroke({ width: 1, color: 0xff4444, alpha: 1 })
+  }
+
   /**
    * Create graphics for a selected object with coordinate conversion
    */
@@ -79,18 +145,29 @@ export class SelectionFilterRenderer {
     const graphics = new Graphics()
     
     // Render the object graphics (will be filtered by OutlineFilter)
-    if ('anchorX' in convertedObject && 'anchorY' in convertedObject) {
-      this.renderDiamondToGraphics(convertedObject as GeometricDiamond, pixeloidScale, graphics)
-    } else if ('width' in convertedObject && 'height' in convertedObject) {
-      this.renderRectangleToGraphics(convertedObject as GeometricRectangle, pixeloidScale, graphics)
-    } else if ('radius' in convertedObject) {
-      this.renderCircleToGraphics(convertedObject as GeometricCircle, pixeloidScale, graphics)
-    } else if ('startX' in convertedObject && 'endX' in convertedObject) {
-      this.renderLineToGraphics(convertedObject as GeometricLine, pixeloidScale, graphics)
-    } else if ('x' in convertedObject && 'y' in convertedObject && !('width' in convertedObject)) {
-      this.renderPointToGraphics(convertedObject as GeometricPoint, pixeloidScale, graphics)
-    } else {
-      return null
+    const { style, pixeloidVertices: vertices } = convertedObject
+    switch (convertedObject.type) {
+      case 'polygon':
+      case 'polyline':
+        this.renderPolygonToGraphics(vertices, convertedObject.type === 'polygon', style, pixeloidScale, graphics)
+        break
+      case 'diamond':
+        this.renderDiamondToGraphics(vertices, style, pixeloidScale, graphics)
+        break
+      case 'rectangle':
+        this.renderRectangleToGraphics(GeometryVertexCalculator.getRectangleShape(vertices), style, pixeloidScale, graphics)
+        break
+      case 'circle':
+        this.renderCircleToGraphics(GeometryVertexCalculator.getCircleShape(vertices), style, pixeloidScale, graphics)
+        break
+      case 'line':
+        this.renderLineToGraphics(GeometryVertexCalculator.getLineShape(vertices), style, pixeloidScale, graphics)
+        break
+      case 'point':
+        this.renderPointToGraphics(GeometryVertexCalculator.getPointShape(vertices), style, pixeloidScale, graphics)
+        break
+      default:
+        return null
     }
 
     return graphics
@@ -101,48 +178,8 @@ export class SelectionFilterRenderer {
    */
   private convertObjectToVertexCoordinates(obj: GeometricObject): GeometricObject {
     const offset = gameStore.mesh.vertex_to_pixeloid_offset
-    
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond object - use EXACT same conversion as GeometryRenderer
-      return {
-        ...obj,
-        anchorX: obj.anchorX - offset.x,  // EXACT conversion, no rounding
-        anchorY: obj.anchorY - offset.y
-      }
-    } else if ('x' in obj && 'width' in obj && 'height' in obj) {
-      // Rectangle object - use EXACT same conversion as GeometryRenderer
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      }
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle object - use EXACT same conversion as GeometryRenderer
-      return {
-        ...obj,
-        centerX: obj.centerX - offset.x,  // EXACT conversion, no rounding
-        centerY: obj.centerY - offset.y
-      }
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line object - convert both points using EXACT same conversion as GeometryRenderer
-      return {
-        ...obj,
-        startX: obj.startX - offset.x,  // EXACT conversion, no rounding
-        startY: obj.startY - offset.y,
-        endX: obj.endX - offset.x,
-        endY: obj.endY - offset.y
-      }
-    } else if ('x' in obj && 'y' in obj) {
-      // Point object - use EXACT same conversion as GeometryRenderer
-      return {
-        ...obj,
-        x: obj.x - offset.x,  // EXACT conversion, no rounding
-        y: obj.y - offset.y
-      }
-    }
-    
-    // Fallback - return original object
-    return obj
+    // EXACT conversion, no rounding
+    return { ...obj, ...GeometryHelper.translateObject(obj, -offset.x, -offset.y) }
   }
 
   /**
@@ -155,186 +192,155 @@ export class SelectionFilterRenderer {
     const viewportTop = corners.topLeft.y - padding
     const viewportBottom = corners.bottomRight.y + padding
 
-    // Check bounds based on object type (same logic as GeometryRenderer)
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      const diamond = obj as GeometricDiamond
-      const vertices = GeometryHelper.calculateDiamondVertices(diamond)
-      const bounds = {
-        left: Math.min(vertices.west.x, vertices.east.x, vertices.north.x, vertices.south.x),
-        right: Math.max(vertices.west.x, vertices.east.x, vertices.north.x, vertices.south.x),
-        top: Math.min(vertices.west.y, vertices.east.y, vertices.north.y, vertices.south.y),
-        bottom: Math.max(vertices.west.y, vertices.east.y, vertices.north.y, vertices.south.y)
-      }
-      return !(
-        bounds.right < viewportLeft ||
-        bounds.left > viewportRight ||
-        bounds.bottom < viewportTop ||
-        bounds.top > viewportBottom
-      )
-    } else if ('width' in obj && 'height' in obj) {
-      const rect = obj as GeometricRectangle
-      return !(
-        rect.x + rect.width < viewportLeft ||
-        rect.x > viewportRight ||
-        rect.y + rect.height < viewportTop ||
-        rect.y > viewportBottom
-      )
-    } else if ('radius' in obj) {
-      const circle = obj as GeometricCircle
-      return !(
-        circle.centerX + circle.radius < viewportLeft ||
-        circle.centerX - circle.radius > viewportRight ||
-        circle.centerY + circle.radius < viewportTop ||
-        circle.centerY - circle.radius > viewportBottom
-      )
-    } else if ('startX' in obj && 'endX' in obj) {
-      const line = obj as GeometricLine
-      const minX = Math.min(line.startX, line.endX)
-      const maxX = Math.max(line.startX, line.endX)
-      const minY = Math.min(line.startY, line.endY)
-      const maxY = Math.max(line.startY, line.endY)
-      return !(
-        maxX < viewportLeft ||
-        minX > viewportRight ||
-        maxY < viewportTop ||
-        minY > viewportBottom
-      )
-    } else if ('x' in obj && 'y' in obj) {
-      const point = obj as GeometricPoint
-      return !(
-        point.x < viewportLeft ||
-        point.x > viewportRight ||
-        point.y < viewportTop ||
-        point.y > viewportBottom
-      )
-    }
-
-    return true
+    const bounds = obj.metadata?.bounds ?? GeometryHelper.calculateObjectMetadata(obj, gameStore.camera.pixeloid_scale).bounds
+    return !(
+      bounds.maxX < viewportLeft ||
+      bounds.minX > viewportRight ||
+      bounds.maxY < viewportTop ||
+      bounds.minY > viewportBottom
+    )
   }
 
   /**
    * Render rectangle shape to graphics (same logic as GeometryRenderer)
    */
-  private renderRectangleToGraphics(rect: GeometricRectangle, pixeloidScale: number, graphics: Graphics): void {
+  private renderRectangleToGraphics(rect: RectangleShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert vertex coordinates to screen coordinates
     const topLeft = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: rect.x, y: rect.y },
-      pixeloidScale
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const x = topLeft.x
     const y = topLeft.y
     const width = rect.width * pixeloidScale
     const height = rect.height * pixeloidScale
 
-    graphics.rect(x, y, width, height)
+    if (gameStore.camera.projection === 'isometric') {
+      graphics.poly(this.projectRectangleCorners(rect.x, rect.y, rect.width, rect.height, pixeloidScale))
+    } else {
+      graphics.rect(x, y, width, height)
+    }
     
-    if (rect.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
       graphics.fill({
-        color: rect.fillColor,
-        alpha: rect.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     graphics.stroke({
-      width: (rect.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: rect.color,
-      alpha: rect.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render circle shape to graphics (same logic as GeometryRenderer)
    */
-  private renderCircleToGraphics(circle: GeometricCircle, pixeloidScale: number, graphics: Graphics): void {
+  private renderCircleToGraphics(circle: CircleShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert center vertex to screen coordinates
     const center = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: circle.centerX, y: circle.centerY },
-      pixeloidScale
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const centerX = center.x
     const centerY = center.y
     const radius = circle.radius * pixeloidScale
 
-    graphics.circle(centerX, centerY, radius)
+    if (gameStore.camera.projection === 'isometric') {
+      graphics.ellipse(centerX, centerY, radius * Math.SQRT2, radius * Math.SQRT2 / 2)
+    } else {
+      graphics.circle(centerX, centerY, radius)
+    }
     
-    if (circle.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
       graphics.fill({
-        color: circle.fillColor,
-        alpha: circle.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     graphics.stroke({
-      width: (circle.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: circle.color,
-      alpha: circle.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render line shape to graphics (same logic as GeometryRenderer)
    */
-  private renderLineToGraphics(line: GeometricLine, pixeloidScale: number, graphics: Graphics): void {
+  private renderLineToGraphics(line: LineShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert both endpoints to screen coordinates
     const start = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: line.startX, y: line.startY },
-      pixeloidScale
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const end = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: line.endX, y: line.endY },
-      pixeloidScale
+      pixeloidScale,
+      gameStore.camera.projection
     )
 
     graphics.moveTo(start.x, start.y)
     graphics.lineTo(end.x, end.y)
 
     graphics.stroke({
-      width: (line.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: line.color,
-      alpha: line.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render point shape to graphics (same logic as GeometryRenderer)
    */
-  private renderPointToGraphics(point: GeometricPoint, pixeloidScale: number, graphics: Graphics): void {
+  private renderPointToGraphics(point: PointShape, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
     // Convert vertex position to screen coordinates
     const pos = CoordinateCalculations.vertexToScreen(
       { __brand: 'vertex' as const, x: point.x, y: point.y },
-      pixeloidScale
+      pixeloidScale,
+      gameStore.camera.projection
     )
     
     const pointRadius = 2  // Fixed pixel size
     graphics.circle(pos.x, pos.y, pointRadius)
     graphics.fill({
-      color: point.color,
-      alpha: point.strokeAlpha
+      color: style.color,
+      alpha: style.strokeAlpha
     })
   }
 
   /**
    * Render diamond shape to graphics (same logic as GeometryRenderer)
    */
-  private renderDiamondToGraphics(diamond: GeometricDiamond, pixeloidScale: number, graphics: Graphics): void {
-    const vertices = GeometryHelper.calculateDiamondVertices(diamond)
+  private renderDiamondToGraphics(diamondVertices: PixeloidVertex[], style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
+    const [westVertex, northVertex, eastVertex, southVertex] = diamondVertices
     
     // Convert each vertex to screen coordinates
     const west = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.west.x, y: vertices.west.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: westVertex.x, y: westVertex.y },
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const north = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.north.x, y: vertices.north.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: northVertex.x, y: northVertex.y },
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const east = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.east.x, y: vertices.east.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: eastVertex.x, y: eastVertex.y },
+      pixeloidScale,
+      gameStore.camera.projection
     )
     const south = CoordinateCalculations.vertexToScreen(
-      { __brand: 'vertex' as const, x: vertices.south.x, y: vertices.south.y },
-      pixeloidScale
+      { __brand: 'vertex' as const, x: southVertex.x, y: southVertex.y },
+      pixeloidScale,
+      gameStore.camera.projection
     )
     
     graphics.moveTo(west.x, west.y)    // West
@@ -343,17 +349,67 @@ export class SelectionFilterRenderer {
     graphics.lineTo(south.x, south.y)  // South
     graphics.lineTo(west.x, west.y)    // Back to West (close)
 
-    if (diamond.fillColor !== undefined) {
+    if (style.fillColor !== undefined) {
       graphics.fill({
-        color: diamond.fillColor,
-        alpha: diamond.fillAlpha ?? 0.5
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
       })
     }
 
     graphics.stroke({
-      width: (diamond.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
-      color: diamond.color,
-      alpha: diamond.strokeAlpha
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
+    })
+  }
+
+  /**
+   * Render polygon / polyline shape to graphics (same logic as GeometryRenderer)
+   */
+  private renderPolygonToGraphics(vertices: PixeloidVertex[], closed: boolean, style: GeometryStyle, pixeloidScale: number, graphics: Graphics): void {
+    const points = vertices.flatMap(vertex => {
+      const screen = CoordinateCalculations.vertexToScreen(
+        { __brand: 'vertex' as const, x: vertex.x, y: vertex.y },
+        pixeloidScale,
+        gameStore.camera.projection
+      )
+      return [screen.x, screen.y]
+    })
+    if (points.length < 4) return
+
+    graphics.poly(points, closed)
+
+    if (closed && style.fillColor !== undefined) {
+      graphics.fill({
+        color: style.fillColor,
+        alpha: style.fillAlpha ?? 0.5
+      })
+    }
+
+    graphics.stroke({
+      width: (style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth) * pixeloidScale,
+      color: style.color,
+      alpha: style.strokeAlpha
+    })
+  }
+
+  /**
+   * Project the four corners of a vertex-space rectangle (same logic as GeometryRenderer)
+   */
+  private projectRectangleCorners(x: number, y: number, width: number, height: number, pixeloidScale: number): number[] {
+    const corners = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ]
+    return corners.flatMap(corner => {
+      const screen = CoordinateCalculations.vertexToScreen(
+        { __brand: 'vertex' as const, x: corner.x, y: corner.y },
+        pixeloidScale,
+        gameStore.camera.projection
+      )
+      return [screen.x, screen.y]
     })
   }
 
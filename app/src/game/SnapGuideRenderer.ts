@@ -0,0 +1,86 @@
+import { Graphics } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+
+// Guide / snap marker color (magenta stands out against geometry and the grid)
+const GUIDE_COLOR = 0xff00ff
+
+/**
+ * SnapGuideRenderer draws object snapping feedback from gameStore.geometry.snapping:
+ * - Alignment guides while dragging (pixeloid-axis lines, projected in isometric mode)
+ * - A marker on the key point or outline the cursor snapped to while drawing or reshaping
+ * Draws at screen coordinates using the same pixeloid → vertex → screen conversion as GeometryRenderer.
+ */
+export class SnapGuideRenderer {
+  private graphics: Graphics
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Redraw guides and the snap marker
+   */
+  public render(pixeloidScale: number): void {
+    this.graphics.clear()
+
+    const { enabled, guides, activeTarget } = gameStore.geometry.snapping
+    if (!enabled) return
+
+    for (const guide of guides) {
+      const start = guide.axis === 'x'
+        ? this.pixeloidToScreen(guide.position, guide.from, pixeloidScale)
+        : this.pixeloidToScreen(guide.from, guide.position, pixeloidScale)
+      const end = guide.axis === 'x'
+        ? this.pixeloidToScreen(guide.position, guide.to, pixeloidScale)
+        : this.pixeloidToScreen(guide.to, guide.position, pixeloidScale)
+      this.graphics
+        .moveTo(start.x, start.y)
+        .lineTo(end.x, end.y)
+        .stroke({ width: 1, color: GUIDE_COLOR, alpha: 0.9 })
+    }
+
+    if (activeTarget) {
+      const screen = this.pixeloidToScreen(activeTarget.x, activeTarget.y, pixeloidScale)
+      if (activeTarget.kind === 'edge') {
+        // Outline snaps get a cross, key points a square
+        this.graphics
+          .moveTo(screen.x - 5, screen.y - 5)
+          .lineTo(screen.x + 5, screen.y + 5)
+          .moveTo(screen.x + 5, screen.y - 5)
+          .lineTo(screen.x - 5, screen.y + 5)
+          .stroke({ width: 2, color: GUIDE_COLOR, alpha: 1 })
+      } else {
+        this.graphics
+          .rect(screen.x - 5, screen.y - 5, 10, 10)
+          .stroke({ width: 2, color: GUIDE_COLOR, alpha: 1 })
+      }
+    }
+  }
+
+  /**
+   * Convert a pixeloid position to screen coordinates for the current camera
+   */
+  private pixeloidToScreen(pixeloidX: number, pixeloidY: number, pixeloidScale: number): { x: number, y: number } {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    return CoordinateCalculations.vertexToScreen(
+      { __brand: 'vertex' as const, x: pixeloidX - offset.x, y: pixeloidY - offset.y },
+      pixeloidScale,
+      gameStore.camera.projection
+    )
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+  }
+}
@@ -0,0 +1,163 @@
+export interface SpatialBounds {
+  minX: number
+  minY: number
+  maxX: number
+  maxY: number
+}
+
+interface SpatialEntry {
+  bounds: SpatialBounds
+  cellKeys: string[]          // Grid cells the entry is registered in (empty when oversized)
+}
+
+/**
+ * SpatialIndex is a uniform grid over pixeloid-space bounding boxes.
+ * Each entry is registered in every cell its bounds overlap, so point and rectangle
+ * queries only look at the few cells they touch instead of scanning every object.
+ * Entries spanning more than maxCellsPerEntry cells are kept in a separate list that
+ * every query checks directly (huge shapes would otherwise flood the grid).
+ */
+export class SpatialIndex {
+  private cells: Map<string, Set<string>> = new Map()
+  private entries: Map<string, SpatialEntry> = new Map()
+  private oversized: Set<string> = new Set()
+
+  constructor(
+    private cellSize: number = 32,
+    private maxCellsPerEntry: number = 1024
+  ) {}
+
+  /**
+   * Add an entry, replacing its previous bounds if it is already indexed
+   */
+  public insert(id: string, bounds: SpatialBounds): void {
+    if (this.entries.has(id)) {
+      this.remove(id)
+    }
+
+    const range = this.getCellRange(bounds)
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1)
+
+    if (cellCount > this.maxCellsPerEntry) {
+      this.oversized.add(id)
+      this.entries.set(id, { bounds: { ...bounds }, cellKeys: [] })
+      return
+    }
+
+    const cellKeys: string[] = []
+    for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+      for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+        const key = `${cellX},${cellY}`
+        let cell = this.cells.get(key)
+        if (!cell) {
+          cell = new Set()
+          this.cells.set(key, cell)
+        }
+        cell.add(id)
+        cellKeys.push(key)
+      }
+    }
+    this.entries.set(id, { bounds: { ...bounds }, cellKeys })
+  }
+
+  public remove(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+
+    for (const key of entry.cellKeys) {
+      const cell = this.cells.get(key)
+      if (!cell) continue
+      cell.delete(id)
+      if (cell.size === 0) {
+        this.cells.delete(key)
+      }
+    }
+    this.oversized.delete(id)
+    this.entries.delete(id)
+  }
+
+  public clear(): void {
+    this.cells.clear()
+    this.entries.clear()
+    this.oversized.clear()
+  }
+
+  public has(id: string): boolean {
+    return this.entries.has(id)
+  }
+
+  public get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Ids of all entries whose bounds contain the point
+   */
+  public queryPoint(x: number, y: number): string[] {
+    const result: string[] = []
+    const cell = this.cells.get(`${Math.floor(x / this.cellSize)},${Math.floor(y / this.cellSize)}`)
+
+    const candidates = cell ? [...cell, ...this.oversized] : [...this.oversized]
+    for (const id of candidates) {
+      const bounds = this.entries.get(id)!.bounds
+      if (x >= bounds.minX && x <= bounds.maxX && y >= bounds.minY && y <= bounds.maxY) {
+        result.push(id)
+      }
+    }
+    return result
+  }
+
+  /**
+   * Ids of all entries whose bounds intersect the rectangle
+   */
+  public queryRect(query: SpatialBounds): string[] {
+    const range = this.getCellRange(query)
+    const cellCount = (range.maxX - range.minX + 1) * (range.maxY - range.minY + 1)
+
+    // Zoomed far out the query covers more cells than there are entries - scan entries instead
+    if (cellCount > this.entries.size) {
+      const result: string[] = []
+      for (const [id, entry] of this.entries) {
+        if (this.intersects(entry.bounds, query)) {
+          result.push(id)
+        }
+      }
+      return result
+    }
+
+    const found = new Set<string>()
+    for (let cellX = range.minX; cellX <= range.maxX; cellX++) {
+      for (let cellY = range.minY; cellY <= range.maxY; cellY++) {
+        const cell = this.cells.get(`${cellX},${cellY}`)
+        if (!cell) continue
+        for (const id of cell) {
+          found.add(id)
+        }
+      }
+    }
+    for (const id of this.oversized) {
+      found.add(id)
+    }
+
+    const result: string[] = []
+    for (const id of found) {
+      if (this.intersects(this.entries.get(id)!.bounds, query)) {
+        result.push(id)
+      }
+    }
+    return result
+  }
+
+  private getCellRange(bounds: SpatialBounds): SpatialBounds {
+    return {
+      minX: Math.floor(bounds.minX / this.cellSize),
+      minY: Math.floor(bounds.minY / this.cellSize),
+      maxX: Math.floor(bounds.maxX / this.cellSize),
+      maxY: Math.floor(bounds.maxY / this.cellSize)
+    }
+  }
+
+  private intersects(a: SpatialBounds, b: SpatialBounds): boolean {
+    return a.minX <= b.maxX && a.maxX >= b.minX && a.minY <= b.maxY && a.maxY >= b.minY
+  }
+}
@@ -0,0 +1,234 @@
+/**
+ * SvgExporter writes the geometry scene as a standalone SVG document.
+ * Coordinates stay in pixeloid units (viewBox); the pixeloid-to-pixel scale only sets
+ * the document's width/height, so the output is resolution independent.
+ * The export is always top-down - the isometric camera projection is a view setting.
+ */
+
+import type { GeometricObject, GeometryStyle } from '../types'
+import { gameStore, updateGameStore } from '../store/gameStore'
+import { GeometryHelper } from './GeometryHelper'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import type { SpatialBounds } from './SpatialIndex'
+
+export type SvgExportScope = 'all' | 'selection' | 'viewport'
+
+export interface SvgExportOptions {
+  scope: SvgExportScope
+  scale: number                   // Output pixels per pixeloid
+  includeGrid: boolean            // Checkerboard background matching the canvas grid
+  padding: number                 // Pixeloids around the exported objects (ignored for the viewport scope)
+}
+
+// Checkerboard colors of the background grid
+const GRID_LIGHT_COLOR = 0xf0f0f0
+const GRID_DARK_COLOR = 0xe0e0e0
+
+// Points are drawn with a fixed screen radius on the canvas
+const POINT_RADIUS_PIXELS = 2
+
+export class SvgExporter {
+  static readonly DEFAULT_OPTIONS: SvgExportOptions = {
+    scope: 'all',
+    scale: 10,
+    includeGrid: false,
+    padding: 2
+  }
+
+  /**
+   * Build the SVG document for the current scene.
+   * Throws a descriptive Error if there is nothing to export.
+   */
+  static export(options: Partial<SvgExportOptions> = {}): string {
+    const settings = { ...SvgExporter.DEFAULT_OPTIONS, ...options }
+    if (!Number.isFinite(settings.scale) || settings.scale <= 0) {
+      throw new Error('SVG export failed: scale must be a positive number')
+    }
+
+    const { objects, bounds } = SvgExporter.resolveScope(settings.scope, settings.padding)
+    if (objects.length === 0 && settings.scope !== 'viewport') {
+      throw new Error(`SVG export failed: no ${settings.scope === 'selection' ? 'selected' : 'visible'} objects to export`)
+    }
+
+    const width = bounds.maxX - bounds.minX
+    const height = bounds.maxY - bounds.minY
+    const viewBox = [bounds.minX, bounds.minY, width, height].map(SvgExporter.formatNumber).join(' ')
+
+    const lines: string[] = [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      `<svg xmlns="http://www.w3.org/2000/svg" viewBox="${viewBox}" ` +
+        `width="${SvgExporter.formatNumber(width * settings.scale)}" height="${SvgExporter.formatNumber(height * settings.scale)}">`
+    ]
+
+    if (settings.includeGrid) {
+      lines.push(...SvgExporter.renderGrid(bounds))
+    }
+
+    for (const obj of objects) {
+      const element = SvgExporter.renderObject(obj, settings.scale)
+      if (element) {
+        lines.push(`  ${element}`)
+      }
+    }
+
+    lines.push('</svg>')
+    console.log(`SvgExporter: Exported ${objects.length} objects (${settings.scope}, ${settings.scale}px per pixeloid)`)
+    return lines.join('\n')
+  }
+
+  /**
+   * Visible objects of a scope (draw order) and the pixeloid region they cover.
+   * The viewport scope covers the camera's view; other scopes cover the objects plus padding.
+   * Also used by PngExporter so both exports agree on the region.
+   */
+  static resolveScope(scope: SvgExportScope, padding: number): { objects: GeometricObject[], bounds: SpatialBounds } {
+    const objects = SvgExporter.collectObjects(scope)
+    const bounds = scope === 'viewport'
+      ? SvgExporter.getViewportBounds()
+      : SvgExporter.getObjectBounds(objects, padding)
+    return { objects, bounds }
+  }
+
+  // ================================
+  // INTERNALS
+  // ================================
+
+  /**
+   * Visible objects of a scope in draw order (bottom first)
+   */
+  private static collectObjects(scope: SvgExportScope): GeometricObject[] {
+    if (scope === 'viewport') {
+      return updateGameStore.queryObjectsInViewport().filter(obj => obj.isVisible)
+    }
+
+    const candidates = scope === 'selection'
+      ? updateGameStore.getSelectedObjects()
+      : gameStore.geometry.objects
+    return candidates
+      .filter(obj => obj.isVisible && updateGameStore.getObjectGroup(obj).isVisible)
+      .sort((a, b) => updateGameStore.getObjectDrawOrder(a.id) - updateGameStore.getObjectDrawOrder(b.id))
+  }
+
+  private static getViewportBounds(): SpatialBounds {
+    const world = gameStore.camera.viewport_bounds.world
+    return {
+      minX: world.top_left.x,
+      minY: world.top_left.y,
+      maxX: world.bottom_right.x,
+      maxY: world.bottom_right.y
+    }
+  }
+
+  /**
+   * Union of the objects' bounds, widened by their strokes and the padding
+   */
+  private static getObjectBounds(objects: GeometricObject[], padding: number): SpatialBounds {
+    const bounds = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity }
+    for (const obj of objects) {
+      const objectBounds = obj.metadata?.bounds ?? GeometryHelper.calculateObjectMetadata(obj, gameStore.camera.pixeloid_scale).bounds
+      const stroke = obj.type === 'point' ? 0 : obj.style.strokeWidth / 2
+      bounds.minX = Math.min(bounds.minX, objectBounds.minX - stroke)
+      bounds.minY = Math.min(bounds.minY, objectBounds.minY - stroke)
+      bounds.maxX = Math.max(bounds.maxX, objectBounds.maxX + stroke)
+      bounds.maxY = Math.max(bounds.maxY, objectBounds.maxY + stroke)
+    }
+    return {
+      minX: Math.floor(bounds.minX - padding),
+      minY: Math.floor(bounds.minY - padding),
+      maxX: Math.ceil(bounds.maxX + padding),
+      maxY: Math.ceil(bounds.maxY + padding)
+    }
+  }
+
+  /**
+   * Checkerboard of 1x1 pixeloid cells aligned to integer pixeloid coordinates
+   */
+  private static renderGrid(bounds: SpatialBounds): string[] {
+    const light = SvgExporter.formatColor(GRID_LIGHT_COLOR)
+    const dark = SvgExporter.formatColor(GRID_DARK_COLOR)
+    const { minX, minY } = bounds
+    const width = SvgExporter.formatNumber(bounds.maxX - bounds.minX)
+    const height = SvgExporter.formatNumber(bounds.maxY - bounds.minY)
+    return [
+      '  <defs>',
+      '    <pattern id="pixeloid-grid" width="2" height="2" patternUnits="userSpaceOnUse">',
+      `      <rect width="2" height="2" fill="${light}"/>`,
+      `      <rect x="1" width="1" height="1" fill="${dark}"/>`,
+      `      <rect y="1" width="1" height="1" fill="${dark}"/>`,
+      '    </pattern>',
+      '  </defs>',
+      `  <rect x="${SvgExporter.formatNumber(minX)}" y="${SvgExporter.formatNumber(minY)}" width="${width}" height="${height}" fill="url(#pixeloid-grid)"/>`
+    ]
+  }
+
+  /**
+   * SVG element for one object
+   */
+  private static renderObject(obj: GeometricObject, scale: number): string | null {
+    const opacity = updateGameStore.getObjectGroup(obj).opacity
+    const id = `id="${SvgExporter.escapeAttribute(obj.id)}"`
+    const groupOpacity = opacity < 1 ? ` opacity="${SvgExporter.formatNumber(opacity)}"` : ''
+    const n = SvgExporter.formatNumber
+    const style = obj.style
+    const vertices = obj.pixeloidVertices
+
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline': {
+        const points = vertices.map(vertex => `${n(vertex.x)},${n(vertex.y)}`).join(' ')
+        const fill = obj.type === 'polygon' ? SvgExporter.fillAttributes(style.fillColor, style.fillAlpha) : 'fill="none"'
+        return `<${obj.type} ${id} points="${points}" ${fill} ${SvgExporter.strokeAttributes(style)}${groupOpacity}/>`
+      }
+      case 'diamond': {
+        // Vertices are already [west, north, east, south]
+        const points = vertices.map(vertex => `${n(vertex.x)},${n(vertex.y)}`).join(' ')
+        return `<polygon ${id} points="${points}" ${SvgExporter.fillAttributes(style.fillColor, style.fillAlpha)} ${SvgExporter.strokeAttributes(style)}${groupOpacity}/>`
+      }
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        return `<circle ${id} cx="${n(circle.centerX)}" cy="${n(circle.centerY)}" r="${n(circle.radius)}" ` +
+          `${SvgExporter.fillAttributes(style.fillColor, style.fillAlpha)} ${SvgExporter.strokeAttributes(style)}${groupOpacity}/>`
+      }
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return `<rect ${id} x="${n(rect.x)}" y="${n(rect.y)}" width="${n(rect.width)}" height="${n(rect.height)}" ` +
+          `${SvgExporter.fillAttributes(style.fillColor, style.fillAlpha)} ${SvgExporter.strokeAttributes(style)}${groupOpacity}/>`
+      }
+      case 'line': {
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        return `<line ${id} x1="${n(line.startX)}" y1="${n(line.startY)}" x2="${n(line.endX)}" y2="${n(line.endY)}" ` +
+          `${SvgExporter.strokeAttributes(style)} stroke-linecap="round"${groupOpacity}/>`
+      }
+      case 'point':
+        // Same fixed on-screen size as the canvas point marker
+        return `<circle ${id} cx="${n(vertices[0].x)}" cy="${n(vertices[0].y)}" r="${n(POINT_RADIUS_PIXELS / scale)}" ` +
+          `fill="${SvgExporter.formatColor(style.color)}" fill-opacity="${n(style.strokeAlpha)}"${groupOpacity}/>`
+    }
+    return null
+  }
+
+  private static fillAttributes(fillColor: number | undefined, fillAlpha: number | undefined): string {
+    if (fillColor === undefined) return 'fill="none"'
+    // Renderers default a missing fill alpha to 0.5
+    return `fill="${SvgExporter.formatColor(fillColor)}" fill-opacity="${SvgExporter.formatNumber(fillAlpha ?? 0.5)}"`
+  }
+
+  private static strokeAttributes(style: GeometryStyle): string {
+    const width = style.strokeWidth || gameStore.geometry.drawing.settings.defaultStrokeWidth
+    return `stroke="${SvgExporter.formatColor(style.color)}" stroke-width="${SvgExporter.formatNumber(width)}" ` +
+      `stroke-opacity="${SvgExporter.formatNumber(style.strokeAlpha)}"`
+  }
+
+  private static formatColor(color: number): string {
+    return `#${color.toString(16).padStart(6, '0')}`
+  }
+
+  // Up to 4 decimals without trailing zeros
+  private static formatNumber(value: number): string {
+    return String(Math.round(value * 10000) / 10000)
+  }
+
+  private static escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+  }
+}
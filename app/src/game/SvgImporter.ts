@@ -0,0 +1,570 @@
+/**
+ * SvgImporter converts an SVG document into geometric objects through the store's create actions.
+ * - Nested transforms are flattened into the coordinates
+ * - SVG user units are mapped to pixeloids with a scale and origin
+ * - Shapes that cannot stay their own type under a transform become polygons
+ *   (rotated rectangles, non-uniformly scaled circles)
+ * - Anything that cannot be converted is counted in the result summary
+ * The whole import is a single undo step.
+ */
+
+import type { GeometricObject, GeometryStyle, PixeloidVertex } from '../types'
+import { updateGameStore } from '../store/gameStore'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+
+export interface SvgImportOptions {
+  scale: number                   // Pixeloids per SVG user unit
+  originX: number                 // Pixeloid position of the SVG user-space origin
+  originY: number
+}
+
+export interface SvgImportResult {
+  createdIds: string[]
+  unsupported: Record<string, number>   // Element (or feature) name -> skipped count
+  warnings: string[]
+}
+
+// 2D affine transform [a, b, c, d, e, f] as in SVG's matrix()
+type Matrix = [number, number, number, number, number, number]
+
+interface SvgStyle {
+  fill: string
+  stroke: string
+  strokeWidth: number
+  fillOpacity: number
+  strokeOpacity: number
+  opacity: number
+}
+
+interface Point {
+  x: number
+  y: number
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+
+// SVG initial values (fill defaults to black, stroke to none)
+const DEFAULT_STYLE: SvgStyle = {
+  fill: 'black',
+  stroke: 'none',
+  strokeWidth: 1,
+  fillOpacity: 1,
+  strokeOpacity: 1,
+  opacity: 1
+}
+
+// Containers walked recursively / elements that never render and are skipped silently
+const CONTAINER_TAGS = new Set(['svg', 'g', 'a', 'switch'])
+const NON_RENDERED_TAGS = new Set(['defs', 'title', 'desc', 'metadata', 'style', 'symbol', 'clipPath', 'mask', 'linearGradient', 'radialGradient', 'pattern', 'filter', 'marker'])
+
+const NAMED_COLORS: Record<string, number> = {
+  black: 0x000000, white: 0xffffff, red: 0xff0000, green: 0x008000, blue: 0x0000ff,
+  yellow: 0xffff00, cyan: 0x00ffff, magenta: 0xff00ff, gray: 0x808080, grey: 0x808080,
+  orange: 0xffa500, purple: 0x800080, brown: 0xa52a2a, pink: 0xffc0cb, lime: 0x00ff00,
+  navy: 0x000080, teal: 0x008080, silver: 0xc0c0c0, maroon: 0x800000, olive: 0x808000
+}
+
+// Segments used when an ellipse / distorted circle is turned into a polygon
+const CURVE_SEGMENTS = 32
+
+export class SvgImporter {
+  static readonly DEFAULT_OPTIONS: SvgImportOptions = {
+    scale: 1,
+    originX: 0,
+    originY: 0
+  }
+
+  /**
+   * Parse an SVG string and create its shapes in the active group.
+   * Throws a descriptive Error if the document cannot be parsed.
+   */
+  static import(svgText: string, options: Partial<SvgImportOptions> = {}): SvgImportResult {
+    const settings = { ...SvgImporter.DEFAULT_OPTIONS, ...options }
+    if (!Number.isFinite(settings.scale) || settings.scale <= 0) {
+      throw new Error('SVG import failed: scale must be a positive number')
+    }
+    if (!Number.isFinite(settings.originX) || !Number.isFinite(settings.originY)) {
+      throw new Error('SVG import failed: origin must be a finite position')
+    }
+
+    const doc = new DOMParser().parseFromString(svgText, 'image/svg+xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('SVG import failed: document is not well-formed XML')
+    }
+    const root = doc.documentElement
+    if (root.localName !== 'svg') {
+      throw new Error(`SVG import failed: root element is <${root.localName}>, expected <svg>`)
+    }
+
+    const result: SvgImportResult = { createdIds: [], unsupported: {}, warnings: [] }
+    // SVG user space -> pixeloid space
+    const toPixeloid: Matrix = [settings.scale, 0, 0, settings.scale, settings.originX, settings.originY]
+
+    updateGameStore.beginHistoryBatch('Import SVG')
+    try {
+      SvgImporter.walk(root, toPixeloid, DEFAULT_STYLE, result)
+    } finally {
+      updateGameStore.endHistoryBatch()
+    }
+
+    console.log(`SvgImporter: Created ${result.createdIds.length} objects`, result.unsupported)
+    return result
+  }
+
+  /**
+   * Human-readable summary of an import (shown to the user)
+   */
+  static summarize(result: SvgImportResult): string {
+    const lines = [`Imported ${result.createdIds.length} objects.`]
+    const skipped = Object.entries(result.unsupported)
+    if (skipped.length > 0) {
+      lines.push(`Skipped: ${skipped.map(([name, count]) => `${count}× ${name}`).join(', ')}`)
+    }
+    lines.push(...result.warnings)
+    return lines.join('\n')
+  }
+
+  // ================================
+  // DOCUMENT WALK
+  // ================================
+
+  private static walk(element: Element, parentMatrix: Matrix, parentStyle: SvgStyle, result: SvgImportResult): void {
+    const tag = element.localName
+    if (NON_RENDERED_TAGS.has(tag) || element.getAttribute('display') === 'none') return
+
+    const style = SvgImporter.resolveStyle(element, parentStyle)
+    let matrix = SvgImporter.multiply(parentMatrix, SvgImporter.parseTransform(element.getAttribute('transform')))
+
+    if (CONTAINER_TAGS.has(tag)) {
+      // Nested <svg> elements are positioned by x / y (viewBox scaling is not applied)
+      if (tag === 'svg' && element !== element.ownerDocument.documentElement) {
+        matrix = SvgImporter.multiply(matrix, [1, 0, 0, 1, SvgImporter.number(element, 'x'), SvgImporter.number(element, 'y')])
+      }
+      for (const child of Array.from(element.children)) {
+        SvgImporter.walk(child, matrix, style, result)
+      }
+      return
+    }
+
+    const createdBefore = result.createdIds.length
+    const skippedBefore = SvgImporter.countUnsupported(result)
+    switch (tag) {
+      case 'circle':
+        SvgImporter.importEllipse(element, matrix, style, result, SvgImporter.number(element, 'r'), SvgImporter.number(element, 'r'))
+        break
+      case 'ellipse':
+        SvgImporter.importEllipse(element, matrix, style, result, SvgImporter.number(element, 'rx'), SvgImporter.number(element, 'ry'))
+        break
+      case 'rect':
+        SvgImporter.importRect(element, matrix, style, result)
+        break
+      case 'line':
+        SvgImporter.importLine(element, matrix, style, result)
+        break
+      case 'polygon':
+      case 'polyline':
+        SvgImporter.importPoints(element, matrix, style, result, tag === 'polygon')
+        break
+      case 'path':
+        SvgImporter.importPath(element, matrix, style, result)
+        break
+      default:
+        SvgImporter.reportUnsupported(result, `<${tag}>`)
+        return
+    }
+
+    if (result.createdIds.length === createdBefore && SvgImporter.countUnsupported(result) === skippedBefore) {
+      result.warnings.push(`Skipped degenerate <${tag}>${element.id ? ` '${element.id}'` : ''}`)
+    }
+  }
+
+  // ================================
+  // ELEMENTS
+  // ================================
+
+  private static importEllipse(element: Element, matrix: Matrix, style: SvgStyle, result: SvgImportResult, rx: number, ry: number): void {
+    if (rx <= 0 || ry <= 0) return
+    const cx = SvgImporter.number(element, 'cx')
+    const cy = SvgImporter.number(element, 'cy')
+
+    // A circle under a similarity transform (translate / rotate / uniform scale) stays a circle
+    const uniformScale = SvgImporter.getUniformScale(matrix)
+    if (rx === ry && uniformScale !== null) {
+      const center = SvgImporter.apply(matrix, { x: cx, y: cy })
+      const circle = updateGameStore.createGeometricObject('circle', GeometryVertexCalculator.toCircleVertices({
+        centerX: SvgImporter.round(center.x),
+        centerY: SvgImporter.round(center.y),
+        radius: SvgImporter.round(rx * uniformScale)
+      }))
+      SvgImporter.finish(circle, style, matrix, true, result)
+      return
+    }
+
+    const outline: Point[] = []
+    for (let i = 0; i < CURVE_SEGMENTS; i++) {
+      const angle = (i / CURVE_SEGMENTS) * Math.PI * 2
+      outline.push({ x: cx + Math.cos(angle) * rx, y: cy + Math.sin(angle) * ry })
+    }
+    SvgImporter.createPath(outline, true, matrix, style, result)
+  }
+
+  private static importRect(element: Element, matrix: Matrix, style: SvgStyle, result: SvgImportResult): void {
+    const x = SvgImporter.number(element, 'x')
+    const y = SvgImporter.number(element, 'y')
+    const width = SvgImporter.number(element, 'width')
+    const height = SvgImporter.number(element, 'height')
+    if (width <= 0 || height <= 0) return
+    if (element.hasAttribute('rx') || element.hasAttribute('ry')) {
+      result.warnings.push(`Rounded corners of <rect>${element.id ? ` '${element.id}'` : ''} were dropped`)
+    }
+
+    const corners = [
+      { x, y },
+      { x: x + width, y },
+      { x: x + width, y: y + height },
+      { x, y: y + height }
+    ].map(corner => SvgImporter.apply(matrix, corner))
+
+    // Axis-aligned after the transform (no rotation / skew) - keep it a rectangle
+    if (Math.abs(matrix[1]) < 1e-9 && Math.abs(matrix[2]) < 1e-9) {
+      const minX = Math.min(...corners.map(corner => corner.x))
+      const minY = Math.min(...corners.map(corner => corner.y))
+      const maxX = Math.max(...corners.map(corner => corner.x))
+      const maxY = Math.max(...corners.map(corner => corner.y))
+      const rectangle = updateGameStore.createGeometricObject('rectangle', GeometryVertexCalculator.toRectangleVertices({
+        x: SvgImporter.round(minX),
+        y: SvgImporter.round(minY),
+        width: SvgImporter.round(maxX - minX),
+        height: SvgImporter.round(maxY - minY)
+      }))
+      SvgImporter.finish(rectangle, style, matrix, true, result)
+      return
+    }
+
+    SvgImporter.createPath(corners, true, IDENTITY, style, result, matrix)
+  }
+
+  private static importLine(element: Element, matrix: Matrix, style: SvgStyle, result: SvgImportResult): void {
+    const start = SvgImporter.apply(matrix, { x: SvgImporter.number(element, 'x1'), y: SvgImporter.number(element, 'y1') })
+    const end = SvgImporter.apply(matrix, { x: SvgImporter.number(element, 'x2'), y: SvgImporter.number(element, 'y2') })
+    if (start.x === end.x && start.y === end.y) return
+
+    const line = updateGameStore.createGeometricObject('line', GeometryVertexCalculator.toLineVertices({
+      startX: SvgImporter.round(start.x),
+      startY: SvgImporter.round(start.y),
+      endX: SvgImporter.round(end.x),
+      endY: SvgImporter.round(end.y)
+    }))
+    SvgImporter.finish(line, style, matrix, false, result)
+  }
+
+  private static importPoints(element: Element, matrix: Matrix, style: SvgStyle, result: SvgImportResult, closed: boolean): void {
+    const values = SvgImporter.parseNumbers(element.getAttribute('points') ?? '')
+    const points: Point[] = []
+    for (let i = 0; i + 1 < values.length; i += 2) {
+      points.push({ x: values[i], y: values[i + 1] })
+    }
+    SvgImporter.createPath(points, closed, matrix, style, result)
+  }
+
+  /**
+   * Straight-segment paths (M, L, H, V, Z - absolute and relative). Each subpath becomes
+   * its own polygon (closed) or polyline (open); paths with curves are reported instead.
+   */
+  private static importPath(element: Element, matrix: Matrix, style: SvgStyle, result: SvgImportResult): void {
+    const data = element.getAttribute('d') ?? ''
+    if (/[CcSsQqTtAa]/.test(data)) {
+      SvgImporter.reportUnsupported(result, '<path> with curves')
+      return
+    }
+
+    const tokens = data.match(/[MmLlHhVvZz]|-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []
+    const subpaths: Array<{ points: Point[], closed: boolean }> = []
+    let current: { points: Point[], closed: boolean } | null = null
+    let position: Point = { x: 0, y: 0 }
+    let subpathStart: Point = { x: 0, y: 0 }
+    let command = ''
+
+    for (let i = 0; i < tokens.length;) {
+      if (/^[A-Za-z]$/.test(tokens[i])) {
+        command = tokens[i++]
+        if (command === 'Z' || command === 'z') {
+          if (current) current.closed = true
+          position = { ...subpathStart }
+          current = null
+          continue
+        }
+      }
+
+      const relative = command === command.toLowerCase()
+      const read = () => Number(tokens[i++])
+      switch (command.toUpperCase()) {
+        case 'M': {
+          const x = read()
+          const y = read()
+          position = relative ? { x: position.x + x, y: position.y + y } : { x, y }
+          subpathStart = { ...position }
+          current = { points: [{ ...position }], closed: false }
+          subpaths.push(current)
+          // Further coordinate pairs after a moveto are implicit linetos
+          command = relative ? 'l' : 'L'
+          break
+        }
+        case 'L': {
+          const x = read()
+          const y = read()
+          position = relative ? { x: position.x + x, y: position.y + y } : { x, y }
+          break
+        }
+        case 'H': {
+          const x = read()
+          position = { x: relative ? position.x + x : x, y: position.y }
+          break
+        }
+        case 'V': {
+          const y = read()
+          position = { x: position.x, y: relative ? position.y + y : y }
+          break
+        }
+        default:
+          // Numbers without a command - malformed path data
+          SvgImporter.reportUnsupported(result, '<path> with invalid data')
+          return
+      }
+
+      if (command.toUpperCase() !== 'M') {
+        // A drawing command after Z starts a new subpath at the current point
+        if (!current) {
+          current = { points: [{ ...subpathStart }], closed: false }
+          subpaths.push(current)
+        }
+        current.points.push({ ...position })
+      }
+    }
+
+    for (const subpath of subpaths) {
+      if (subpath.points.some(point => !Number.isFinite(point.x) || !Number.isFinite(point.y))) {
+        SvgImporter.reportUnsupported(result, '<path> with invalid data')
+        continue
+      }
+      SvgImporter.createPath(subpath.points, subpath.closed, matrix, style, result)
+    }
+  }
+
+  // ================================
+  // OBJECT CREATION
+  // ================================
+
+  /**
+   * Create a polygon / polyline from user-space points (duplicate neighbours dropped)
+   */
+  private static createPath(points: Point[], closed: boolean, matrix: Matrix, style: SvgStyle, result: SvgImportResult, styleMatrix: Matrix = matrix): void {
+    const vertices: PixeloidVertex[] = []
+    for (const point of points) {
+      const mapped = SvgImporter.apply(matrix, point)
+      const vertex: PixeloidVertex = { __brand: 'pixeloid', x: SvgImporter.round(mapped.x), y: SvgImporter.round(mapped.y) }
+      const previous = vertices[vertices.length - 1]
+      if (!previous || previous.x !== vertex.x || previous.y !== vertex.y) {
+        vertices.push(vertex)
+      }
+    }
+    // An explicit closing vertex equals the first one
+    if (closed && vertices.length > 1) {
+      const first = vertices[0]
+      const last = vertices[vertices.length - 1]
+      if (first.x === last.x && first.y === last.y) vertices.pop()
+    }
+
+    const object = updateGameStore.createGeometricObject(closed ? 'polygon' : 'polyline', vertices)
+    SvgImporter.finish(object, style, styleMatrix, closed, result)
+  }
+
+  /**
+   * Apply the SVG paint to a created object and record it
+   */
+  private static finish(object: GeometricObject | null, style: SvgStyle, matrix: Matrix, fillable: boolean, result: SvgImportResult): void {
+    if (!object) return
+
+    const strokeColor = SvgImporter.parseColor(style.stroke)
+    const fillColor = fillable ? SvgImporter.parseColor(style.fill) : null
+    // Stroke widths scale with the transform (geometric mean for non-uniform scales)
+    const strokeScale = Math.sqrt(Math.abs(matrix[0] * matrix[3] - matrix[1] * matrix[2]))
+    const strokeWidth = SvgImporter.round(style.strokeWidth * strokeScale)
+
+    const objectStyle: GeometryStyle = {
+      color: strokeColor ?? 0x000000,
+      strokeWidth: object.type !== 'point' && strokeWidth > 0 ? strokeWidth : object.style.strokeWidth,
+      strokeAlpha: strokeColor !== null && strokeWidth > 0 ? style.strokeOpacity * style.opacity : 0
+    }
+    if (fillable && fillColor !== null) {
+      objectStyle.fillColor = fillColor
+      objectStyle.fillAlpha = style.fillOpacity * style.opacity
+    }
+
+    updateGameStore.updateGeometricObject(object.id, { style: objectStyle })
+    result.createdIds.push(object.id)
+  }
+
+  private static reportUnsupported(result: SvgImportResult, name: string): void {
+    result.unsupported[name] = (result.unsupported[name] ?? 0) + 1
+  }
+
+  private static countUnsupported(result: SvgImportResult): number {
+    return Object.values(result.unsupported).reduce((total, count) => total + count, 0)
+  }
+
+  // ================================
+  // STYLE
+  // ================================
+
+  /**
+   * Inherit the parent's paint and apply presentation attributes, then the style attribute
+   */
+  private static resolveStyle(element: Element, parent: SvgStyle): SvgStyle {
+    const properties: Record<string, string> = {}
+    for (const name of ['fill', 'stroke', 'stroke-width', 'fill-opacity', 'stroke-opacity', 'opacity']) {
+      const value = element.getAttribute(name)
+      if (value !== null) properties[name] = value.trim()
+    }
+    for (const declaration of (element.getAttribute('style') ?? '').split(';')) {
+      const [name, value] = declaration.split(':').map(part => part?.trim())
+      if (name && value) properties[name] = value
+    }
+
+    const style: SvgStyle = { ...parent }
+    if (properties.fill) style.fill = properties.fill
+    if (properties.stroke) style.stroke = properties.stroke
+    if (properties['stroke-width']) style.strokeWidth = SvgImporter.parseLength(properties['stroke-width'], parent.strokeWidth)
+    if (properties['fill-opacity']) style.fillOpacity = SvgImporter.parseOpacity(properties['fill-opacity'], parent.fillOpacity)
+    if (properties['stroke-opacity']) style.strokeOpacity = SvgImporter.parseOpacity(properties['stroke-opacity'], parent.strokeOpacity)
+    // Group opacity multiplies down the tree
+    if (properties.opacity) style.opacity = parent.opacity * SvgImporter.parseOpacity(properties.opacity, 1)
+    return style
+  }
+
+  /**
+   * Paint value to a color number, null for none / unsupported paint (gradients, currentColor)
+   */
+  private static parseColor(value: string): number | null {
+    const paint = value.trim().toLowerCase()
+    if (paint in NAMED_COLORS) return NAMED_COLORS[paint]
+
+    const hex = paint.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/)
+    if (hex) {
+      const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1]
+      return parseInt(digits, 16)
+    }
+
+    const rgb = paint.match(/^rgba?\(([^)]*)\)$/)
+    if (rgb) {
+      const channels = rgb[1].split(/[\s,]+/).filter(Boolean).slice(0, 3).map(channel =>
+        channel.endsWith('%') ? parseFloat(channel) * 2.55 : parseFloat(channel)
+      )
+      if (channels.length === 3 && channels.every(Number.isFinite)) {
+        const [r, g, b] = channels.map(channel => Math.max(0, Math.min(255, Math.round(channel))))
+        return (r << 16) | (g << 8) | b
+      }
+    }
+    return null
+  }
+
+  private static parseOpacity(value: string, fallback: number): number {
+    const opacity = value.endsWith('%') ? parseFloat(value) / 100 : parseFloat(value)
+    return Number.isFinite(opacity) ? Math.max(0, Math.min(1, opacity)) : fallback
+  }
+
+  private static parseLength(value: string, fallback: number): number {
+    const length = parseFloat(value)
+    return Number.isFinite(length) && length >= 0 ? length : fallback
+  }
+
+  // ================================
+  // GEOMETRY
+  // ================================
+
+  /**
+   * Parse a transform list (matrix, translate, scale, rotate, skewX, skewY) into one matrix
+   */
+  private static parseTransform(value: string | null): Matrix {
+    let matrix: Matrix = [...IDENTITY]
+    if (!value) return matrix
+
+    for (const [, name, args] of value.matchAll(/(\w+)\s*\(([^)]*)\)/g)) {
+      const n = SvgImporter.parseNumbers(args)
+      let step: Matrix
+      switch (name) {
+        case 'matrix':
+          step = n.length === 6 ? [n[0], n[1], n[2], n[3], n[4], n[5]] : [...IDENTITY]
+          break
+        case 'translate':
+          step = [1, 0, 0, 1, n[0] ?? 0, n[1] ?? 0]
+          break
+        case 'scale':
+          step = [n[0] ?? 1, 0, 0, n[1] ?? n[0] ?? 1, 0, 0]
+          break
+        case 'rotate': {
+          const angle = ((n[0] ?? 0) * Math.PI) / 180
+          const cos = Math.cos(angle)
+          const sin = Math.sin(angle)
+          const cx = n[1] ?? 0
+          const cy = n[2] ?? 0
+          // rotate(a, cx, cy) = translate(cx, cy) rotate(a) translate(-cx, -cy)
+          step = [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy]
+          break
+        }
+        case 'skewX':
+          step = [1, 0, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+          break
+        case 'skewY':
+          step = [1, Math.tan(((n[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+          break
+        default:
+          step = [...IDENTITY]
+      }
+      matrix = SvgImporter.multiply(matrix, step)
+    }
+    return matrix
+  }
+
+  private static multiply(m: Matrix, n: Matrix): Matrix {
+    return [
+      m[0] * n[0] + m[2] * n[1],
+      m[1] * n[0] + m[3] * n[1],
+      m[0] * n[2] + m[2] * n[3],
+      m[1] * n[2] + m[3] * n[3],
+      m[0] * n[4] + m[2] * n[5] + m[4],
+      m[1] * n[4] + m[3] * n[5] + m[5]
+    ]
+  }
+
+  private static apply(m: Matrix, point: Point): Point {
+    return {
+      x: m[0] * point.x + m[2] * point.y + m[4],
+      y: m[1] * point.x + m[3] * point.y + m[5]
+    }
+  }
+
+  /**
+   * Scale factor of a similarity transform, null if it scales or skews non-uniformly
+   */
+  private static getUniformScale(m: Matrix): number | null {
+    const scaleX = Math.hypot(m[0], m[1])
+    const scaleY = Math.hypot(m[2], m[3])
+    const dot = m[0] * m[2] + m[1] * m[3]
+    return Math.abs(scaleX - scaleY) < 1e-9 && Math.abs(dot) < 1e-9 ? scaleX : null
+  }
+
+  private static number(element: Element, name: string): number {
+    const value = parseFloat(element.getAttribute(name) ?? '')
+    return Number.isFinite(value) ? value : 0
+  }
+
+  private static parseNumbers(value: string): number[] {
+    return (value.match(/-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number)
+  }
+
+  // Drop floating point noise from transformed coordinates
+  private static round(value: number): number {
+    return Math.round(value * 1000) / 1000
+  }
+}
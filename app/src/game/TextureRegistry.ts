@@ -1,7 +1,8 @@
 import { Graphics } from 'pixi.js'
 import { updateGameStore, gameStore } from '../store/gameStore'
 import { GeometryHelper } from './GeometryHelper'
-import type { ObjectTextureData } from '../types'
+import { GeometryVertexCalculator } from './GeometryVertexCalculator'
+import type { GeometricObject, ObjectTextureData } from '../types'
 
 /**
  * TextureRegistry handles post-render texture capture for object previews.
@@ -120,148 +121,107 @@ export class TextureRegistry {
   /**
    * Get pixeloid bounds for an object
    */
-  private getObjectPixeloidBounds(obj: any): { minX: number, maxX: number, minY: number, maxY: number } {
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond
-      const halfWidth = obj.width / 2
-      const halfHeight = obj.height / 2
+  private getObjectPixeloidBounds(obj: GeometricObject): { minX: number, maxX: number, minY: number, maxY: number } {
+    const vertices = obj.pixeloidVertices
+    if (obj.type === 'circle') {
+      const circle = GeometryVertexCalculator.getCircleShape(vertices)
       return {
-        minX: obj.anchorX - halfWidth,
-        maxX: obj.anchorX + halfWidth,
-        minY: obj.anchorY - halfHeight,
-        maxY: obj.anchorY + halfHeight
+        minX: circle.centerX - circle.radius,
+        maxX: circle.centerX + circle.radius,
+        minY: circle.centerY - circle.radius,
+        maxY: circle.centerY + circle.radius
       }
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle
-      return {
-        minX: obj.centerX - obj.radius,
-        maxX: obj.centerX + obj.radius,
-        minY: obj.centerY - obj.radius,
-        maxY: obj.centerY + obj.radius
-      }
-    } else if ('x' in obj && 'width' in obj) {
-      // Rectangle
-      return {
-        minX: obj.x,
-        maxX: obj.x + obj.width,
-        minY: obj.y,
-        maxY: obj.y + obj.height
-      }
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line
-      return {
-        minX: Math.min(obj.startX, obj.endX),
-        maxX: Math.max(obj.startX, obj.endX),
-        minY: Math.min(obj.startY, obj.endY),
-        maxY: Math.max(obj.startY, obj.endY)
-      }
-    } else {
-      // Point
+    }
+    if (obj.type === 'point') {
       return {
-        minX: obj.x - 1,
-        maxX: obj.x + 1,
-        minY: obj.y - 1,
-        maxY: obj.y + 1
+        minX: vertices[0].x - 1,
+        maxX: vertices[0].x + 1,
+        minY: vertices[0].y - 1,
+        maxY: vertices[0].y + 1
       }
     }
+    // Every other shape lies within its vertices
+    const xs = vertices.map(vertex => vertex.x)
+    const ys = vertices.map(vertex => vertex.y)
+    return {
+      minX: Math.min(...xs),
+      maxX: Math.max(...xs),
+      minY: Math.min(...ys),
+      maxY: Math.max(...ys)
+    }
   }
 
   /**
    * Calculate object center point (fallback for objects without metadata)
    */
-  private calculateObjectCenter(obj: any): { x: number, y: number } {
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond - center is at anchor + half width
-      return {
-        x: obj.anchorX + obj.width / 2,
-        y: obj.anchorY
-      }
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle
-      return {
-        x: obj.centerX,
-        y: obj.centerY
-      }
-    } else if ('x' in obj && 'width' in obj) {
-      // Rectangle
-      return {
-        x: obj.x + obj.width / 2,
-        y: obj.y + obj.height / 2
-      }
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line
-      return {
-        x: (obj.startX + obj.endX) / 2,
-        y: (obj.startY + obj.endY) / 2
-      }
-    } else {
-      // Point
-      return {
-        x: obj.x,
-        y: obj.y
-      }
-    }
+  private calculateObjectCenter(obj: GeometricObject): { x: number, y: number } {
+    return GeometryHelper.calculateObjectMetadata(obj, gameStore.camera.pixeloid_scale).center
   }
 
   /**
    * Render object to canvas context (mini version of GeometryRenderer)
    */
-  private renderObjectToContext(obj: any, ctx: CanvasRenderingContext2D): void {
+  private renderObjectToContext(obj: GeometricObject, ctx: CanvasRenderingContext2D): void {
+    const style = obj.style
+    const vertices = obj.pixeloidVertices
+
     // Set stroke properties with thinner lines for preview
-    ctx.strokeStyle = `#${obj.color.toString(16).padStart(6, '0')}`
+    ctx.strokeStyle = `#${style.color.toString(16).padStart(6, '0')}`
     
     // FIXED: Much thinner stroke width for previews to avoid filling small objects
-    const originalStrokeWidth = obj.strokeWidth || 2
+    const originalStrokeWidth = style.strokeWidth || 2
     ctx.lineWidth = Math.max(0.5, originalStrokeWidth * 0.25) // 25% of original, minimum 0.5px
     
     ctx.lineCap = 'round'
     ctx.lineJoin = 'round'
 
     // Set fill properties if available
-    if (obj.fillColor !== undefined) {
-      ctx.fillStyle = `#${obj.fillColor.toString(16).padStart(6, '0')}`
+    if (style.fillColor !== undefined) {
+      ctx.fillStyle = `#${style.fillColor.toString(16).padStart(6, '0')}`
     }
 
     // Render based on object type
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond - use same logic as GeometryHelper
-      const vertices = GeometryHelper.calculateDiamondVertices(obj)
-      
-      ctx.beginPath()
-      ctx.moveTo(vertices.west.x, vertices.west.y)
-      ctx.lineTo(vertices.north.x, vertices.north.y)
-      ctx.lineTo(vertices.east.x, vertices.east.y)
-      ctx.lineTo(vertices.south.x, vertices.south.y)
-      ctx.closePath()
-      
-      if (obj.fillColor !== undefined) ctx.fill()
-      ctx.stroke()
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      // Circle
-      ctx.beginPath()
-      ctx.arc(obj.centerX, obj.centerY, obj.radius, 0, 2 * Math.PI)
-      
-      if (obj.fillColor !== undefined) ctx.fill()
-      ctx.stroke()
-    } else if ('x' in obj && 'width' in obj) {
-      // Rectangle
-      ctx.beginPath()
-      ctx.rect(obj.x, obj.y, obj.width, obj.height)
-      
-      if (obj.fillColor !== undefined) ctx.fill()
-      ctx.stroke()
-    } else if ('startX' in obj && 'endX' in obj) {
-      // Line
-      ctx.beginPath()
-      ctx.moveTo(obj.startX, obj.startY)
-      ctx.lineTo(obj.endX, obj.endY)
-      ctx.stroke()
-    } else {
-      // Point
-      ctx.beginPath()
-      ctx.arc(obj.x, obj.y, 2, 0, 2 * Math.PI)
-      ctx.fillStyle = `#${obj.color.toString(16).padStart(6, '0')}`
-      ctx.fill()
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+      case 'diamond':
+      case 'rectangle':
+        // Vertex paths (diamond and rectangle vertices are their corners in outline order)
+        ctx.beginPath()
+        vertices.forEach((vertex, index) => {
+          if (index === 0) {
+            ctx.moveTo(vertex.x, vertex.y)
+          } else {
+            ctx.lineTo(vertex.x, vertex.y)
+          }
+        })
+        if (obj.type !== 'polyline') {
+          ctx.closePath()
+          if (style.fillColor !== undefined) ctx.fill()
+        }
+        ctx.stroke()
+        break
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        ctx.beginPath()
+        ctx.arc(circle.centerX, circle.centerY, circle.radius, 0, 2 * Math.PI)
+        
+        if (style.fillColor !== undefined) ctx.fill()
+        ctx.stroke()
+        break
+      }
+      case 'line':
+        ctx.beginPath()
+        ctx.moveTo(vertices[0].x, vertices[0].y)
+        ctx.lineTo(vertices[1].x, vertices[1].y)
+        ctx.stroke()
+        break
+      case 'point':
+        ctx.beginPath()
+        ctx.arc(vertices[0].x, vertices[0].y, 2, 0, 2 * Math.PI)
+        ctx.fillStyle = `#${style.color.toString(16).padStart(6, '0')}`
+        ctx.fill()
+        break
     }
   }
 
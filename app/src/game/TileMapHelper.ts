@@ -0,0 +1,122 @@
+import type { TileChunk, TileMapState } from '../types'
+
+export interface TileCell {
+  x: number
+  y: number
+}
+
+/**
+ * TileMapHelper holds the chunk math for the sparse tile map.
+ * Tiles are keyed by integer pixeloid cell; cells are grouped into square chunks
+ * so rendering and culling only touch the chunks that actually contain tiles.
+ */
+export class TileMapHelper {
+  /**
+   * Chunk containing a pixeloid cell (works for negative cells too)
+   */
+  static getChunkCoord(cellX: number, cellY: number, chunkSize: number): TileCell {
+    return {
+      x: Math.floor(cellX / chunkSize),
+      y: Math.floor(cellY / chunkSize)
+    }
+  }
+
+  static getChunkKey(chunkX: number, chunkY: number): string {
+    return `${chunkX},${chunkY}`
+  }
+
+  /**
+   * Key of a cell inside its chunk
+   */
+  static getLocalKey(cellX: number, cellY: number, chunkSize: number): string {
+    const localX = cellX - Math.floor(cellX / chunkSize) * chunkSize
+    const localY = cellY - Math.floor(cellY / chunkSize) * chunkSize
+    return `${localX},${localY}`
+  }
+
+  /**
+   * Tile type id at a pixeloid cell, or null when the cell is empty
+   */
+  static getTile(tileMap: TileMapState, cellX: number, cellY: number): string | null {
+    const chunkCoord = TileMapHelper.getChunkCoord(cellX, cellY, tileMap.chunkSize)
+    const chunk = tileMap.chunks[TileMapHelper.getChunkKey(chunkCoord.x, chunkCoord.y)]
+    if (!chunk) return null
+    return chunk.tiles[TileMapHelper.getLocalKey(cellX, cellY, tileMap.chunkSize)] ?? null
+  }
+
+  /**
+   * Iterate every tile of a chunk in world cell coordinates
+   */
+  static forEachTile(chunk: TileChunk, chunkSize: number, callback: (cellX: number, cellY: number, tileTypeId: string) => void): void {
+    const originX = chunk.chunkX * chunkSize
+    const originY = chunk.chunkY * chunkSize
+    for (const [localKey, tileTypeId] of Object.entries(chunk.tiles)) {
+      const [localX, localY] = localKey.split(',').map(Number)
+      callback(originX + localX, originY + localY, tileTypeId)
+    }
+  }
+
+  /**
+   * Cells on the straight line between two cells (Bresenham) - fills the gaps
+   * left by fast mouse moves while a brush stroke is dragged
+   */
+  static traceCells(from: TileCell, to: TileCell): TileCell[] {
+    const cells: TileCell[] = []
+    const deltaX = Math.abs(to.x - from.x)
+    const deltaY = -Math.abs(to.y - from.y)
+    const stepX = from.x < to.x ? 1 : -1
+    const stepY = from.y < to.y ? 1 : -1
+    let error = deltaX + deltaY
+    let x = from.x
+    let y = from.y
+
+    while (true) {
+      cells.push({ x, y })
+      if (x === to.x && y === to.y) break
+      const doubled = 2 * error
+      if (doubled >= deltaY) {
+        error += deltaY
+        x += stepX
+      }
+      if (doubled <= deltaX) {
+        error += deltaX
+        y += stepY
+      }
+    }
+    return cells
+  }
+
+  /**
+   * 4-connected flood fill from a cell over every cell holding the same tile (or nothing).
+   * Returns null when the region grows past maxTiles - an empty region on the
+   * unbounded map would otherwise never end.
+   */
+  static floodFillCells(tileMap: TileMapState, startX: number, startY: number, maxTiles: number): TileCell[] | null {
+    const target = TileMapHelper.getTile(tileMap, startX, startY)
+    const visited = new Set<string>([`${startX},${startY}`])
+    const queue: TileCell[] = [{ x: startX, y: startY }]
+    const cells: TileCell[] = []
+
+    for (let head = 0; head < queue.length; head++) {
+      const cell = queue[head]
+      cells.push(cell)
+      if (cells.length > maxTiles) return null
+
+      const neighbors = [
+        { x: cell.x + 1, y: cell.y },
+        { x: cell.x - 1, y: cell.y },
+        { x: cell.x, y: cell.y + 1 },
+        { x: cell.x, y: cell.y - 1 }
+      ]
+      for (const neighbor of neighbors) {
+        const key = `${neighbor.x},${neighbor.y}`
+        if (visited.has(key)) continue
+        visited.add(key)
+        if (TileMapHelper.getTile(tileMap, neighbor.x, neighbor.y) === target) {
+          queue.push(neighbor)
+        }
+      }
+    }
+    return cells
+  }
+}
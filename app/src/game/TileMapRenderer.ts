@@ -0,0 +1,170 @@
+import { Assets, Graphics, Texture } from 'pixi.js'
+import { gameStore } from '../store/gameStore'
+import { CoordinateCalculations } from './CoordinateCalculations'
+import { TileMapHelper, type TileCell } from './TileMapHelper'
+import type { ViewportCorners, TileType } from '../types'
+
+/**
+ * TileMapRenderer draws the painted tile map below the geometry layer:
+ * - Only chunks intersecting the viewport are visited
+ * - Color tiles are batched into one fill per tile type
+ * - Texture tiles are filled per cell once the texture has loaded (color until then)
+ * Redraws only when tiles, camera offset, zoom or projection changed.
+ */
+export class TileMapRenderer {
+  private graphics: Graphics
+  private textures: Map<string, Texture> = new Map()
+  private loadingTextures: Set<string> = new Set()
+  private isDirty = true
+  private lastRenderKey = ''
+
+  constructor() {
+    this.graphics = new Graphics()
+  }
+
+  /**
+   * Force a redraw on the next render (tile map changed)
+   */
+  public markDirty(): void {
+    this.isDirty = true
+  }
+
+  /**
+   * Redraw visible tiles if anything affecting them changed
+   */
+  public render(corners: ViewportCorners, pixeloidScale: number): void {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const renderKey = `${offset.x},${offset.y},${pixeloidScale},${gameStore.camera.projection}`
+    if (!this.isDirty && renderKey === this.lastRenderKey) return
+
+    this.isDirty = false
+    this.lastRenderKey = renderKey
+    this.graphics.clear()
+
+    const tileMap = gameStore.tileMap
+    if (tileMap.tileCount === 0) return
+
+    const xs = [corners.topLeft.x, corners.topRight.x, corners.bottomLeft.x, corners.bottomRight.x]
+    const ys = [corners.topLeft.y, corners.topRight.y, corners.bottomLeft.y, corners.bottomRight.y]
+    const minChunk = TileMapHelper.getChunkCoord(Math.floor(Math.min(...xs)), Math.floor(Math.min(...ys)), tileMap.chunkSize)
+    const maxChunk = TileMapHelper.getChunkCoord(Math.floor(Math.max(...xs)), Math.floor(Math.max(...ys)), tileMap.chunkSize)
+
+    // Group visible cells by tile type so color tiles share a single fill
+    const cellsByType = new Map<string, TileCell[]>()
+    for (const chunk of Object.values(tileMap.chunks)) {
+      if (chunk.chunkX < minChunk.x || chunk.chunkX > maxChunk.x ||
+          chunk.chunkY < minChunk.y || chunk.chunkY > maxChunk.y) {
+        continue
+      }
+
+      TileMapHelper.forEachTile(chunk, tileMap.chunkSize, (cellX, cellY, tileTypeId) => {
+        const cells = cellsByType.get(tileTypeId)
+        if (cells) {
+          cells.push({ x: cellX, y: cellY })
+        } else {
+          cellsByType.set(tileTypeId, [{ x: cellX, y: cellY }])
+        }
+      })
+
+      if (tileMap.settings.showChunkBounds) {
+        this.renderChunkBounds(chunk.chunkX, chunk.chunkY, tileMap.chunkSize, pixeloidScale)
+      }
+    }
+
+    for (const [tileTypeId, cells] of cellsByType) {
+      const tileType = tileMap.palette.find(type => type.id === tileTypeId)
+      if (tileType) {
+        this.renderTiles(tileType, cells, pixeloidScale)
+      }
+    }
+  }
+
+  /**
+   * Draw all visible cells of one tile type
+   */
+  private renderTiles(tileType: TileType, cells: TileCell[], pixeloidScale: number): void {
+    const texture = tileType.texture ? this.getTexture(tileType.texture) : null
+
+    if (texture) {
+      // Local texture space maps the whole texture onto each cell (diamond in isometric projection)
+      for (const cell of cells) {
+        this.graphics
+          .poly(this.projectCell(cell.x, cell.y, 1, pixeloidScale))
+          .fill({ texture, textureSpace: 'local' })
+      }
+      return
+    }
+
+    for (const cell of cells) {
+      this.graphics.poly(this.projectCell(cell.x, cell.y, 1, pixeloidScale))
+    }
+    this.graphics.fill({ color: tileType.color, alpha: 1 })
+  }
+
+  /**
+   * Outline a chunk (debug aid for chunk sizing)
+   */
+  private renderChunkBounds(chunkX: number, chunkY: number, chunkSize: number, pixeloidScale: number): void {
+    this.graphics
+      .poly(this.projectCell(chunkX * chunkSize, chunkY * chunkSize, chunkSize, pixeloidScale))
+      .stroke({ width: 1, color: 0xffffff, alpha: 0.4 })
+  }
+
+  /**
+   * Get a loaded texture, starting the load on first use
+   */
+  private getTexture(source: string): Texture | null {
+    const texture = this.textures.get(source)
+    if (texture) return texture
+
+    if (!this.loadingTextures.has(source)) {
+      this.loadingTextures.add(source)
+      Assets.load<Texture>(source)
+        .then(loaded => {
+          this.textures.set(source, loaded)
+          this.markDirty()
+        })
+        .catch(error => {
+          console.error(`TileMapRenderer: Failed to load tile texture ${source.slice(0, 64)}`, error)
+        })
+    }
+    return null
+  }
+
+  /**
+   * Screen-space polygon for a square block of pixeloid cells (diamond in isometric projection)
+   */
+  private projectCell(pixeloidX: number, pixeloidY: number, size: number, pixeloidScale: number): number[] {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const corners = [
+      { x: pixeloidX, y: pixeloidY },
+      { x: pixeloidX + size, y: pixeloidY },
+      { x: pixeloidX + size, y: pixeloidY + size },
+      { x: pixeloidX, y: pixeloidY + size }
+    ]
+    return corners.flatMap(corner => {
+      const screen = CoordinateCalculations.vertexToScreen(
+        { __brand: 'vertex' as const, x: corner.x - offset.x, y: corner.y - offset.y },
+        pixeloidScale,
+        gameStore.camera.projection
+      )
+      return [screen.x, screen.y]
+    })
+  }
+
+  /**
+   * Get graphics for adding to layer
+   */
+  public getGraphics(): Graphics {
+    return this.graphics
+  }
+
+  /**
+   * Clean up resources
+   */
+  public destroy(): void {
+    this.graphics.destroy()
+    this.textures.clear()
+    this.loadingTextures.clear()
+  }
+}
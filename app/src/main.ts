@@ -1,6 +1,8 @@
 import { Game } from './game'
+import { PngExporter } from './game/PngExporter'
+import { AutosaveManager } from './game/AutosaveManager'
 import { updateGameStore } from './store/gameStore'
-import { StorePanel, UIControlBar, GeometryPanel, LayerToggleBar, ObjectEditPanel, StoreExplorer, Workspace } from './ui'
+import { StorePanel, UIControlBar, GeometryPanel, LayerToggleBar, ObjectEditPanel, StoreExplorer, Workspace, KeybindingHelp, Minimap } from './ui'
 
 // Initialize the game when the DOM is loaded
 async function init() {
@@ -23,6 +25,8 @@ async function init() {
     const uiControlBar = new UIControlBar()
     const layerToggleBar = new LayerToggleBar()
     const objectEditPanel = new ObjectEditPanel()
+    const keybindingHelp = new KeybindingHelp()
+    const minimap = new Minimap()
     
     // Connect the control bar with the panels
     uiControlBar.registerStorePanel(storePanel)
@@ -30,6 +34,29 @@ async function init() {
     uiControlBar.registerStoreExplorer(storeExplorer)
     uiControlBar.registerWorkspace(workspace)
     uiControlBar.registerLayers(layerToggleBar)
+    uiControlBar.registerKeybindingHelp(keybindingHelp)
+    uiControlBar.registerMinimap(minimap)
+    
+    // PNG export renders offscreen with the game's renderer and geometry drawing
+    geometryPanel.registerPngExporter(new PngExporter(game.renderer, game.canvasSystem.getGeometryRenderer()))
+    
+    // Offer to recover an autosave newer than the last explicit save, then start autosaving
+    const autosave = new AutosaveManager()
+    const recovery = await autosave.getRecoveryCandidate()
+    if (recovery) {
+      const savedAt = new Date(recovery.savedAt).toLocaleString()
+      if (confirm(`An autosaved scene from ${savedAt} (${recovery.objectCount} objects) was not saved. Restore it?`)) {
+        try {
+          await autosave.restore(recovery.id)
+        } catch (error) {
+          console.error('❌ Failed to restore autosave:', error)
+          alert((error as Error).message)
+        }
+      }
+      await autosave.acknowledgeRecovery()
+    }
+    autosave.start()
+    geometryPanel.registerAutosave(autosave)
     
     console.log('🎮 Infinite Canvas Template initialized successfully!')
     console.log('✅ PixiJS Application:', game.application)
@@ -42,11 +69,15 @@ async function init() {
     console.log('✅ UI Control Bar:', uiControlBar)
     console.log('✅ Layer Toggle Bar:', layerToggleBar)
     console.log('✅ Object Edit Panel:', objectEditPanel)
+    console.log('✅ Keybinding Help:', keybindingHelp)
+    console.log('✅ Minimap:', minimap)
+    console.log('✅ Autosave:', autosave)
     console.log('')
     console.log('🎯 Controls:')
     console.log('   WASD: Move camera')
     console.log('   Mouse Wheel: Zoom in/out')
     console.log('   Space: Recenter to origin (0,0)')
+    console.log('   ?: Keyboard shortcuts (rebindable)')
     console.log('')
     console.log('📊 Open the browser devtools to see reactive store updates')
     
@@ -1,7 +1,12 @@
-import { proxy } from 'valtio'
-import type { GameState, GeometricObject, ObjectTextureData, GeometricPoint, GeometricLine, GeometricCircle, GeometricRectangle, GeometricDiamond, PixeloidMeshData, StaticMeshData, PixeloidVertexMapping, PixeloidCoordinate, VertexCoordinate, ScreenCoordinate, ViewportBounds } from '../types'
+import { proxy, subscribe } from 'valtio'
+import type { GameState, GeometryRenderMode, ObjectGroup, TileType, TileBrush, GeometricObject, GeometricObjectType, GeometryStyle, AnchorConfig, PixeloidVertex, Raycast, PathfindingResult, SnapTarget, SnapGuide, HistoryCommand, HistoryEntry, HistoryObjectSnapshot, SerializedGeometricObject, PropertyValue, ObjectTextureData, PixeloidMeshData, StaticMeshData, PixeloidVertexMapping, PixeloidCoordinate, VertexCoordinate, ScreenCoordinate, ViewportBounds, CameraProjection, CameraBookmark } from '../types'
 import { GeometryHelper } from '../game/GeometryHelper'
+import { GeometryVertexCalculator } from '../game/GeometryVertexCalculator'
 import { CoordinateCalculations } from '../game/CoordinateCalculations'
+import { RaycastHelper } from '../game/RaycastHelper'
+import { TileMapHelper } from '../game/TileMapHelper'
+import { SpatialIndex, type SpatialBounds } from '../game/SpatialIndex'
+import { PropertySchemaRegistry } from '../game/PropertySchemaRegistry'
 import type { InfiniteCanvas } from '../game/InfiniteCanvas'
 
 // ================================
@@ -9,11 +14,40 @@ import type { InfiniteCanvas } from '../game/InfiniteCanvas'
 // ================================
 let isUpdatingCoordinates = false // Prevent cascading updates
 
+// ================================
+// UNDO / REDO STACKS
+// ================================
+// Kept outside the proxy so snapshots are never made reactive
+const undoStack: HistoryEntry[] = []
+const redoStack: HistoryEntry[] = []
+let isApplyingHistory = false // Suppress recording while undoing/redoing
+let activeHistoryBatch: HistoryEntry | null = null // Open batch collecting commands (e.g. a drag)
+let historyBatchDepth = 0 // Nested begin/end pairs - only the outermost end records the batch
+let isHistoryPaused = false // Suppress recording for previews that are recorded later (see recordObjectEdits)
+
+// ================================
+// SPATIAL INDEX
+// ================================
+// Derived from geometry.objects and kept outside the proxy (see syncObjectIndex)
+const objectIndex = new SpatialIndex(32)
+const objectOrder: Map<string, number> = new Map() // id -> position in geometry.objects
+const objectDrawOrder: Map<string, number> = new Map() // id -> rank by (group z-order, array position)
+let isObjectIndexStale = true // Rebuilt lazily on the next query after objects or groups were added/removed/reordered
+
+// ================================
+// LAYERS / GROUPS
+// ================================
+const DEFAULT_GROUP_ID = 'group-default'
+
 // Coordinate helper functions to create properly branded coordinates
 const createPixeloidCoordinate = (x: number, y: number): PixeloidCoordinate => ({ __brand: 'pixeloid', x, y })
 const createVertexCoordinate = (x: number, y: number): VertexCoordinate => ({ __brand: 'vertex', x, y })
 const createScreenCoordinate = (x: number, y: number): ScreenCoordinate => ({ __brand: 'screen', x, y })
 
+// Pathfinding works on whole cells
+const toPathCell = (position: PixeloidCoordinate): PixeloidCoordinate =>
+  createPixeloidCoordinate(Math.floor(position.x), Math.floor(position.y))
+
 // Initialize empty viewport bounds
 const createEmptyViewportBounds = (): ViewportBounds => ({
   screen: {
@@ -50,7 +84,9 @@ export const gameStore = proxy<GameState>({
     world_position: createPixeloidCoordinate(0, 0),
     screen_center: { x: window.innerWidth / 2, y: window.innerHeight / 2 },
     pixeloid_scale: 10,
-    viewport_bounds: createEmptyViewportBounds()
+    projection: 'orthographic',
+    viewport_bounds: createEmptyViewportBounds(),
+    bookmarks: []
   },
   
   mesh: {
@@ -80,12 +116,17 @@ export const gameStore = proxy<GameState>({
   // Geometry system state (Phase 1: Multi-Layer System)
   geometry: {
     objects: [],
+    groups: {
+      list: [createDefaultGroup()],
+      activeGroupId: DEFAULT_GROUP_ID
+    },
     drawing: {
       mode: 'none',
       activeDrawing: {
         type: null,
         firstPixeloidPos: null,
         currentPixeloidPos: null,
+        vertices: [],
         anchorConfig: null,
         isDrawing: false
       },
@@ -105,9 +146,38 @@ export const gameStore = proxy<GameState>({
         maxDistance: 100,
         visualizationColor: 0xff6600,
         showSteps: true,
-        stepColor: 0xffaa66
+        stepColor: 0xffaa66,
+        hitColor: 0xff2222
+      }
+    },
+    pathfinding: {
+      start: null,
+      goal: null,
+      result: null,
+      settings: {
+        connectivity: 8,
+        cornerCutting: 'never',
+        maxExpandedNodes: 20000,
+        showSearch: true,
+        pathColor: 0x22d3ee,
+        openColor: 0x4ade80,
+        closedColor: 0x94a3b8
+      }
+    },
+    fieldOfView: {
+      origin: null,
+      visibleCount: 0,
+      settings: {
+        radius: 12,
+        color: 0xfde047
       }
     },
+    snapping: {
+      enabled: false,
+      tolerance: 8,
+      activeTarget: null,
+      guides: []
+    },
     // Enhanced anchor configuration for UI control
     anchoring: {
       // Global defaults for new geometry creation
@@ -116,16 +186,17 @@ export const gameStore = proxy<GameState>({
         line: 'top-left',      // Lines use top-left anchoring
         circle: 'top-left',    // Circles use top-left anchoring
         rectangle: 'top-left', // Rectangles use top-left anchoring
-        diamond: 'top-left'    // Diamonds use top-left anchoring
+        diamond: 'top-left',   // Diamonds use top-left anchoring
+        polygon: 'top-left',   // Polygon vertices use top-left anchoring
+        polyline: 'top-left'   // Polyline vertices use top-left anchoring
       },
-      // Per-object anchor overrides (objectId -> anchorConfig)
-      objectOverrides: new Map(),
       enablePreComputedAnchors: true  // Enable zoom-stable anchoring
     },
     layerVisibility: {
       background: true,  // Grid and background elements
       geometry: true,    // Geometric shapes and objects
       selection: true,   // Selection highlights
+      tiles: true,       // Painted tile map
       raycast: true,     // Raycast lines and debug visuals
       bbox: false,       // Bounding box overlay for comparison (off by default)
       mirror: false,     // Mirror layer for cached texture sprites (off by default)
@@ -134,12 +205,15 @@ export const gameStore = proxy<GameState>({
     filterEffects: {
       pixelate: false  // Pixeloid-perfect pixelation disabled by default
     },
+    renderMode: 'vector', // Pixel-art cells are opt-in
     selection: {
       selectedObjectId: null,
-      isEditPanelOpen: false
+      selectedObjectIds: [],
+      isEditPanelOpen: false,
+      marquee: null
     },
     clipboard: {
-      copiedObject: null
+      copiedObjects: []
     },
     favorites: {
       favoriteObjectIds: []
@@ -190,9 +264,41 @@ export const gameStore = proxy<GameState>({
       lastMeshSwitch: 0,
       coordinateMappingUpdates: 0
     }
+  },
+  // Undo/redo counters (stacks are module-level)
+  history: {
+    undoDepth: 0,
+    redoDepth: 0,
+    maxDepth: 100,
+    lastAction: null
+  },
+  // Sparse chunked tile map
+  tileMap: {
+    chunkSize: 16,
+    chunks: {},
+    palette: [
+      { id: 'grass', name: 'Grass', color: 0x5a9e4b, texture: null },
+      { id: 'dirt', name: 'Dirt', color: 0x8b6b4a, texture: null },
+      { id: 'stone', name: 'Stone', color: 0x8a8d91, texture: null },
+      { id: 'sand', name: 'Sand', color: 0xd8c38a, texture: null },
+      { id: 'water', name: 'Water', color: 0x3b7dd8, texture: null }
+    ],
+    activeTileTypeId: 'grass',
+    brush: 'paint',
+    tileCount: 0,
+    settings: {
+      maxFillTiles: 4096,
+      showChunkBounds: false
+    }
   }
 })
 
+// Keep the spatial index in sync with every object mutation - synchronous so
+// queries made right after an add/update/remove never see stale bounds
+subscribe(gameStore.geometry.objects, syncObjectIndex, true)
+// Group order and visibility change the draw order and the set of pickable objects
+subscribe(gameStore.geometry.groups, () => { isObjectIndexStale = true }, true)
+
 // Helper functions to update the store
 export const updateGameStore = {
   setGameInitialized: (initialized: boolean) => {
@@ -230,10 +336,10 @@ export const updateGameStore = {
       
       // Recalculate derived values using pure functions (no store dependencies)
       const updatedBounds = CoordinateCalculations.calculateViewportBounds(
-        screenSize, scale, worldPos, offset
+        screenSize, scale, worldPos, offset, gameStore.camera.projection
       )
       const updatedScreenCenter = CoordinateCalculations.pixeloidToScreen(
-        worldPos, scale, offset
+        worldPos, scale, offset, gameStore.camera.projection
       )
       
       // Apply all updates atomically
@@ -273,10 +379,10 @@ export const updateGameStore = {
       
       // Recalculate everything that depends on scale
       const updatedBounds = CoordinateCalculations.calculateViewportBounds(
-        screenSize, clampedScale, worldPos, offset
+        screenSize, clampedScale, worldPos, offset, gameStore.camera.projection
       )
       const updatedScreenCenter = CoordinateCalculations.pixeloidToScreen(
-        worldPos, clampedScale, offset
+        worldPos, clampedScale, offset, gameStore.camera.projection
       )
       
       // Apply atomically
@@ -326,7 +432,7 @@ export const updateGameStore = {
       
       // Recalculate everything that depends on offset
       const updatedBounds = CoordinateCalculations.calculateViewportBounds(
-        screenSize, scale, worldPos, offset
+        screenSize, scale, worldPos, offset, gameStore.camera.projection
       )
       
       // Apply atomically
@@ -366,14 +472,18 @@ export const updateGameStore = {
     const scale = gameStore.camera.pixeloid_scale
     const offset = gameStore.mesh.vertex_to_pixeloid_offset
     
+    const projection = gameStore.camera.projection
+    
     const vertexPos = CoordinateCalculations.screenToVertex(
       createScreenCoordinate(screenPos.x, screenPos.y),
-      scale
+      scale,
+      projection
     )
     const pixeloidPos = CoordinateCalculations.screenToPixeloid(
       createScreenCoordinate(screenPos.x, screenPos.y),
       scale,
-      offset
+      offset,
+      projection
     )
     
     // Update all mouse positions atomically
@@ -398,7 +508,7 @@ export const updateGameStore = {
       const offset = gameStore.mesh.vertex_to_pixeloid_offset
       
       const updatedBounds = CoordinateCalculations.calculateViewportBounds(
-        { width, height }, scale, worldPos, offset
+        { width, height }, scale, worldPos, offset, gameStore.camera.projection
       )
       
       gameStore.camera.viewport_bounds = updatedBounds
@@ -429,6 +539,47 @@ export const updateGameStore = {
     }
   },
 
+  // PROJECTION SWITCH - Recalculates everything that depends on screen ↔ vertex mapping
+  setCameraProjection: (projection: CameraProjection) => {
+    if (isUpdatingCoordinates) return // Prevent infinite loops
+    if (gameStore.camera.projection === projection) return
+
+    isUpdatingCoordinates = true
+    try {
+      gameStore.camera.projection = projection
+
+      const worldPos = gameStore.camera.world_position
+      const scale = gameStore.camera.pixeloid_scale
+      const offset = gameStore.mesh.vertex_to_pixeloid_offset
+      const screenSize = { width: gameStore.windowWidth, height: gameStore.windowHeight }
+
+      const updatedBounds = CoordinateCalculations.calculateViewportBounds(
+        screenSize, scale, worldPos, offset, projection
+      )
+      const updatedScreenCenter = CoordinateCalculations.pixeloidToScreen(
+        worldPos, scale, offset, projection
+      )
+
+      gameStore.camera.screen_center = { x: updatedScreenCenter.x, y: updatedScreenCenter.y }
+      gameStore.camera.viewport_bounds = updatedBounds
+
+      // Cached visibility was computed for the old projection - rebuild it from scratch
+      for (const obj of gameStore.geometry.objects) {
+        if (!obj.metadata) continue
+
+        const visibilityInfo = GeometryHelper.calculateVisibilityState(obj, scale)
+        obj.metadata.visibilityCache = new Map([[scale, {
+          visibility: visibilityInfo.visibility,
+          onScreenBounds: visibilityInfo.onScreenBounds
+        }]])
+      }
+
+      console.log(`Store: Camera projection set to ${projection}`)
+    } finally {
+      isUpdatingCoordinates = false
+    }
+  },
+
   // Input controls
   setKeyState: (key: keyof typeof gameStore.input.keys, pressed: boolean) => {
     gameStore.input.keys[key] = pressed
@@ -462,15 +613,17 @@ export const updateGameStore = {
   },
 
   // Geometry controls (Phase 1: Multi-Layer System)
-  setDrawingMode: (mode: 'none' | 'point' | 'line' | 'circle' | 'rectangle' | 'diamond') => {
+  setDrawingMode: (mode: 'none' | 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline' | 'raycast' | 'pathfinding' | 'fov' | 'tiles') => {
     gameStore.geometry.drawing.mode = mode
     // Clear active drawing when switching modes
     gameStore.geometry.drawing.activeDrawing.type = null
     gameStore.geometry.drawing.activeDrawing.firstPixeloidPos = null
     gameStore.geometry.drawing.activeDrawing.currentPixeloidPos = null
+    gameStore.geometry.drawing.activeDrawing.vertices = []
     gameStore.geometry.drawing.activeDrawing.anchorConfig = null
     gameStore.geometry.drawing.activeDrawing.isDrawing = false
     gameStore.geometry.drawing.preview = null
+    updateGameStore.clearSnapFeedback()
   },
 
   addGeometricObject: (object: GeometricObject) => {
@@ -479,18 +632,7 @@ export const updateGameStore = {
     
     // Ensure metadata exists
     if (!ensuredObject.metadata) {
-      // Calculate metadata based on object type
-      if ('anchorX' in ensuredObject && 'anchorY' in ensuredObject) {
-        ensuredObject.metadata = GeometryHelper.calculateDiamondMetadata(ensuredObject as any)
-      } else if ('centerX' in ensuredObject && 'centerY' in ensuredObject) {
-        ensuredObject.metadata = GeometryHelper.calculateCircleMetadata(ensuredObject as any)
-      } else if ('x' in ensuredObject && 'width' in ensuredObject) {
-        ensuredObject.metadata = GeometryHelper.calculateRectangleMetadata(ensuredObject as any)
-      } else if ('startX' in ensuredObject && 'endX' in ensuredObject) {
-        ensuredObject.metadata = GeometryHelper.calculateLineMetadata(ensuredObject as any)
-      } else if ('x' in ensuredObject && 'y' in ensuredObject) {
-        ensuredObject.metadata = GeometryHelper.calculatePointMetadata(ensuredObject as any)
-      }
+      ensuredObject.metadata = GeometryHelper.calculateObjectMetadata(ensuredObject, gameStore.camera.pixeloid_scale)
     }
     
     // Initialize visibility cache if not present
@@ -506,6 +648,7 @@ export const updateGameStore = {
     }
     
     gameStore.geometry.objects.push(ensuredObject)
+    recordObjectAdded('Add object', ensuredObject.id)
   },
 
   // Ensure unique ID for objects (handles copying and duplicate prevention)
@@ -620,198 +763,68 @@ export const updateGameStore = {
     return { allowed: true }
   },
 
-  // Factory methods for creating objects with proper metadata
-  createPoint: (x: number, y: number) => {
-    const currentScale = gameStore.camera.pixeloid_scale
-    const metadata = GeometryHelper.calculatePointMetadata({ x, y })
-    metadata.createdAtScale = currentScale
-    
-    const point: GeometricPoint = {
-      id: updateGameStore.generateUniqueId('point'),
-      x,
-      y,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata
+  // Factory method for creating objects with proper metadata.
+  // Vertices follow the per-type layout of GeometricObjectStable and are stored as given.
+  createGeometricObject: (type: GeometricObjectType, vertices: PixeloidVertex[], anchorConfig?: AnchorConfig) => {
+    const minVertices = GeometryVertexCalculator.getMinVertexCount(type)
+    if (vertices.length < minVertices) {
+      console.warn(`Store: ${type} needs at least ${minVertices} vertices, got ${vertices.length}`)
+      return null
     }
     
-    // Initialize visibility cache
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(point, currentScale)
-    
-    point.metadata!.visibilityCache = new Map()
-    point.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(point)
-    
-    // Update scale tracking
-    updateGameStore.updateCreationScaleTracking(currentScale)
-    
-    return point
-  },
-
-  createLine: (startX: number, startY: number, endX: number, endY: number) => {
     const currentScale = gameStore.camera.pixeloid_scale
-    const metadata = GeometryHelper.calculateLineMetadata({ startX, startY, endX, endY })
-    metadata.createdAtScale = currentScale
-    
-    const line: GeometricLine = {
-      id: updateGameStore.generateUniqueId('line'),
-      startX,
-      startY,
-      endX,
-      endY,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata
-    }
-    
-    // Initialize visibility cache
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(line, currentScale)
-    
-    line.metadata!.visibilityCache = new Map()
-    line.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
+    const settings = gameStore.geometry.drawing.settings
+    const pixeloidVertices = vertices.map(vertex => ({ __brand: 'pixeloid' as const, x: vertex.x, y: vertex.y }))
     
-    gameStore.geometry.objects.push(line)
-    
-    // Update scale tracking
-    updateGameStore.updateCreationScaleTracking(currentScale)
-    
-    return line
-  },
-
-  createCircle: (centerX: number, centerY: number, radius: number) => {
-    const currentScale = gameStore.camera.pixeloid_scale
-    const metadata = GeometryHelper.calculateCircleMetadata({ centerX, centerY, radius })
-    metadata.createdAtScale = currentScale
-    
-    const circle: GeometricCircle = {
-      id: updateGameStore.generateUniqueId('circle'),
-      centerX,
-      centerY,
-      radius,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata
+    const style: GeometryStyle = {
+      color: settings.defaultColor,
+      strokeWidth: type === 'point' ? 1 : settings.defaultStrokeWidth,
+      strokeAlpha: settings.strokeAlpha
     }
-    
-    // Initialize visibility cache
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(circle, currentScale)
-    
-    circle.metadata!.visibilityCache = new Map()
-    circle.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(circle)
-    
-    // Update scale tracking
-    updateGameStore.updateCreationScaleTracking(currentScale)
-    
-    return circle
-  },
-
-  createRectangle: (x: number, y: number, width: number, height: number) => {
-    const currentScale = gameStore.camera.pixeloid_scale
-    const metadata = GeometryHelper.calculateRectangleMetadata({ x, y, width, height })
-    metadata.createdAtScale = currentScale
-    
-    const rectangle: GeometricRectangle = {
-      id: updateGameStore.generateUniqueId('rect'),
-      x,
-      y,
-      width,
-      height,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata
+    if (settings.fillEnabled && GeometryVertexCalculator.isFillable(type)) {
+      style.fillColor = settings.defaultFillColor
+      style.fillAlpha = settings.fillAlpha
     }
     
-    // Initialize visibility cache
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(rectangle, currentScale)
-    
-    rectangle.metadata!.visibilityCache = new Map()
-    rectangle.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(rectangle)
-    
-    // Update scale tracking
-    updateGameStore.updateCreationScaleTracking(currentScale)
-    
-    return rectangle
-  },
-
-  createDiamond: (anchorX: number, anchorY: number, width: number, height: number) => {
-    const currentScale = gameStore.camera.pixeloid_scale
-    const metadata = GeometryHelper.calculateDiamondMetadata({ anchorX, anchorY, width, height })
-    metadata.createdAtScale = currentScale
-    
-    const diamond: GeometricDiamond = {
-      id: updateGameStore.generateUniqueId('diamond'),
-      anchorX,
-      anchorY,
-      width,
-      height,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
+    const object: GeometricObject = {
+      id: updateGameStore.generateUniqueId(type === 'rectangle' ? 'rect' : type),
+      type,
       isVisible: true,
       createdAt: Date.now(),
-      metadata
+      pixeloidVertices,
+      anchorConfig: anchorConfig
+        ? { ...anchorConfig }
+        : { ...GeometryVertexCalculator.getAnchorConfig(type), firstPointExact: true, secondPointExact: true },
+      style,
+      groupId: gameStore.geometry.groups.activeGroupId,
+      metadata: GeometryHelper.calculateObjectMetadata({ type, pixeloidVertices }, currentScale)
     }
     
     // Initialize visibility cache
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(diamond, currentScale)
+    const visibilityInfo = GeometryHelper.calculateVisibilityState(object, currentScale)
     
-    diamond.metadata!.visibilityCache = new Map()
-    diamond.metadata!.visibilityCache.set(currentScale, {
+    object.metadata.visibilityCache = new Map()
+    object.metadata.visibilityCache.set(currentScale, {
       visibility: visibilityInfo.visibility,
       onScreenBounds: visibilityInfo.onScreenBounds
     })
     
-    gameStore.geometry.objects.push(diamond)
+    gameStore.geometry.objects.push(object)
+    recordObjectAdded(`Create ${type}`, object.id)
     
     // Update scale tracking
     updateGameStore.updateCreationScaleTracking(currentScale)
     
-    return diamond
+    return object
   },
 
   removeGeometricObject: (id: string) => {
     const index = gameStore.geometry.objects.findIndex(obj => obj.id === id)
     if (index !== -1) {
+      recordHistoryCommand('Remove object', {
+        type: 'remove',
+        snapshot: snapshotObject(gameStore.geometry.objects[index], index)
+      })
       gameStore.geometry.objects.splice(index, 1)
       // Remove textures when object is deleted
       updateGameStore.removeObjectTexture(id)
@@ -823,35 +836,28 @@ export const updateGameStore = {
   updateGeometricObject: (id: string, updates: Partial<GeometricObject>) => {
     const object = gameStore.geometry.objects.find(obj => obj.id === id)
     if (object) {
+      // Record previous values of the updated properties
+      const before: Record<string, unknown> = {}
+      for (const key of Object.keys(updates)) {
+        before[key] = cloneHistoryValue((object as any)[key])
+      }
+      const after: Record<string, unknown> = {}
+      for (const [key, value] of Object.entries(updates)) {
+        after[key] = cloneHistoryValue(value)
+      }
+      recordHistoryCommand('Update object', { type: 'update', objectId: id, before, after })
+      
       // Apply updates
       Object.assign(object, updates)
       
-      // Recalculate metadata if geometry properties changed
-      if ('x' in updates || 'y' in updates || 'width' in updates || 'height' in updates ||
-          'centerX' in updates || 'centerY' in updates || 'radius' in updates ||
-          'startX' in updates || 'startY' in updates || 'endX' in updates || 'endY' in updates ||
-          'anchorX' in updates || 'anchorY' in updates) {
-        
-        if ('anchorX' in object && 'anchorY' in object) {
-          object.metadata = GeometryHelper.calculateDiamondMetadata(object as any)
-        } else if ('centerX' in object && 'centerY' in object) {
-          object.metadata = GeometryHelper.calculateCircleMetadata(object as any)
-        } else if ('x' in object && 'width' in object) {
-          object.metadata = GeometryHelper.calculateRectangleMetadata(object as any)
-        } else if ('startX' in object && 'endX' in object) {
-          object.metadata = GeometryHelper.calculateLineMetadata(object as any)
-        } else if ('x' in object && 'y' in object) {
-          object.metadata = GeometryHelper.calculatePointMetadata(object as any)
-        }
+      // Recalculate metadata if the geometry changed (keeping the creation scale)
+      if ('pixeloidVertices' in updates || 'type' in updates) {
+        const createdAtScale = object.metadata?.createdAtScale ?? gameStore.camera.pixeloid_scale
+        object.metadata = GeometryHelper.calculateObjectMetadata(object, createdAtScale)
       }
       
       // Invalidate texture cache when visual properties change
-      if ('color' in updates || 'strokeWidth' in updates || 'fillColor' in updates ||
-          'x' in updates || 'y' in updates || 'width' in updates || 'height' in updates ||
-          'centerX' in updates || 'centerY' in updates || 'radius' in updates ||
-          'startX' in updates || 'startY' in updates || 'endX' in updates || 'endY' in updates ||
-          'anchorX' in updates || 'anchorY' in updates) {
-        
+      if ('style' in updates || 'pixeloidVertices' in updates || 'type' in updates) {
         // Remove cached textures to force regeneration
         updateGameStore.removeObjectTexture(id)
         updateGameStore.removeRenderingTexture(id)
@@ -906,7 +912,130 @@ export const updateGameStore = {
   },
 
   clearAllGeometricObjects: () => {
+    if (gameStore.geometry.objects.length > 0) {
+      recordHistoryCommand('Clear all objects', {
+        type: 'clear',
+        snapshots: gameStore.geometry.objects.map((obj, index) => snapshotObject(obj, index))
+      })
+    }
+    gameStore.geometry.objects.length = 0
+  },
+
+  // Reset all object-related state before a scene is restored
+  clearScene: () => {
+    updateGameStore.clearSelection()
+    updateGameStore.setDrawingMode('none')
     gameStore.geometry.objects.length = 0
+    gameStore.geometry.favorites.favoriteObjectIds.length = 0
+    updateGameStore.setGroups([])
+    gameStore.camera.bookmarks.length = 0
+    updateGameStore.clearTiles()
+    updateGameStore.clearRaycasts()
+    updateGameStore.clearTextureCache()
+    updateGameStore.clearAllMeshData()
+    updateGameStore.recalculateScaleTracking()
+    console.log('Store: Cleared scene')
+  },
+
+  // ================================
+  // UNDO / REDO HISTORY
+  // ================================
+
+  // Group all following commands into one undo step until endHistoryBatch.
+  // Batches may nest (e.g. an import inside another batch); the outermost one is recorded.
+  beginHistoryBatch: (label: string) => {
+    if (isApplyingHistory) return
+    if (historyBatchDepth++ === 0) {
+      activeHistoryBatch = { label, commands: [] }
+    }
+  },
+
+  endHistoryBatch: () => {
+    if (isApplyingHistory || historyBatchDepth === 0) return
+    if (--historyBatchDepth > 0) return
+    const batch = activeHistoryBatch
+    activeHistoryBatch = null
+    if (!batch) return
+    
+    // Drop no-op updates (e.g. a drag that returned to its start point)
+    batch.commands = batch.commands.filter(command =>
+      command.type !== 'update' ||
+      Object.keys(command.after).some(key => !isSameHistoryValue(command.before[key], command.after[key]))
+    )
+    if (batch.commands.length > 0) {
+      pushHistoryEntry(batch)
+    }
+  },
+
+  // Apply changes without recording them (live previews recorded once with recordObjectEdits)
+  withoutHistory: (action: () => void) => {
+    const wasPaused = isHistoryPaused
+    isHistoryPaused = true
+    try {
+      action()
+    } finally {
+      isHistoryPaused = wasPaused
+    }
+  },
+
+  // Record already applied object changes (previous and current values per key) as one undo step
+  recordObjectEdits: (label: string, edits: Array<{ objectId: string, before: Record<string, unknown>, after: Record<string, unknown> }>) => {
+    updateGameStore.beginHistoryBatch(label)
+    for (const edit of edits) {
+      recordHistoryCommand(label, {
+        type: 'update',
+        objectId: edit.objectId,
+        before: cloneHistoryValue(edit.before),
+        after: cloneHistoryValue(edit.after)
+      })
+    }
+    updateGameStore.endHistoryBatch()
+  },
+
+  undo: () => {
+    const entry = undoStack.pop()
+    if (!entry) return false
+    
+    isApplyingHistory = true
+    try {
+      for (let i = entry.commands.length - 1; i >= 0; i--) {
+        revertHistoryCommand(entry.commands[i])
+      }
+    } finally {
+      isApplyingHistory = false
+    }
+    
+    redoStack.push(entry)
+    syncHistoryState(`Undo ${entry.label}`)
+    console.log(`Store: Undid '${entry.label}'`)
+    return true
+  },
+
+  redo: () => {
+    const entry = redoStack.pop()
+    if (!entry) return false
+    
+    isApplyingHistory = true
+    try {
+      for (const command of entry.commands) {
+        applyHistoryCommand(command)
+      }
+    } finally {
+      isApplyingHistory = false
+    }
+    
+    undoStack.push(entry)
+    syncHistoryState(`Redo ${entry.label}`)
+    console.log(`Store: Redid '${entry.label}'`)
+    return true
+  },
+
+  clearHistory: () => {
+    undoStack.length = 0
+    redoStack.length = 0
+    activeHistoryBatch = null
+    historyBatchDepth = 0
+    syncHistoryState(null)
   },
 
   updateGeometricObjectVisibility: (id: string, isVisible: boolean) => {
@@ -916,7 +1045,7 @@ export const updateGameStore = {
     }
   },
 
-  setLayerVisibility: (layer: 'background' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse', visible: boolean) => {
+  setLayerVisibility: (layer: 'background' | 'geometry' | 'selection' | 'tiles' | 'raycast' | 'bbox' | 'mirror' | 'mouse', visible: boolean) => {
     gameStore.geometry.layerVisibility[layer] = visible
   },
 
@@ -928,175 +1057,785 @@ export const updateGameStore = {
     Object.assign(gameStore.geometry.raycast.settings, settings)
   },
 
-  // Selection controls
-  setSelectedObject: (objectId: string | null) => {
-    gameStore.geometry.selection.selectedObjectId = objectId
-    
-    // Automatically set drawing mode to 'none' when selecting an object
-    // This prevents accidental object creation when clicking while something is selected
-    if (objectId !== null) {
-      updateGameStore.setDrawingMode('none')
-      console.log(`Store: Set drawing mode to 'none' due to object selection: ${objectId}`)
+  // Object snapping
+  setObjectSnapping: (enabled: boolean) => {
+    gameStore.geometry.snapping.enabled = enabled
+    if (!enabled) {
+      updateGameStore.clearSnapFeedback()
+    }
+    console.log(`Store: Object snapping ${enabled ? 'enabled' : 'disabled'}`)
+  },
+
+  setSnapTolerance: (pixels: number) => {
+    gameStore.geometry.snapping.tolerance = Math.max(1, pixels)
+  },
+
+  // Snapped point / alignment guides for the canvas overlay
+  setSnapFeedback: (activeTarget: SnapTarget | null, guides: SnapGuide[]) => {
+    gameStore.geometry.snapping.activeTarget = activeTarget
+    gameStore.geometry.snapping.guides = guides
+  },
+
+  clearSnapFeedback: () => {
+    const snapping = gameStore.geometry.snapping
+    if (snapping.activeTarget === null && snapping.guides.length === 0) return
+    snapping.activeTarget = null
+    snapping.guides = []
+  },
+
+  // Raycasts
+  castRay: (start: PixeloidCoordinate, end: PixeloidCoordinate): string => {
+    const settings = gameStore.geometry.raycast.settings
+    const traversal = RaycastHelper.traverse(start, end, settings.maxDistance, updateGameStore.queryObjectsAtPoint)
+    const raycast: Raycast = {
+      id: updateGameStore.generateUniqueId('raycast'),
+      startX: start.x,
+      startY: start.y,
+      endX: end.x,
+      endY: end.y,
+      color: settings.visualizationColor,
+      steps: traversal.steps,
+      hitPoints: traversal.hitPoint ? [traversal.hitPoint] : [],
+      stopX: traversal.stopPoint.x,
+      stopY: traversal.stopPoint.y,
+      hitObjectId: traversal.hitObjectId,
+      createdAt: Date.now()
     }
+    gameStore.geometry.raycast.activeRaycasts.push(raycast)
+    console.log(`Store: Cast ray ${raycast.id} through ${raycast.steps.length} pixeloids${raycast.hitObjectId ? `, hit ${raycast.hitObjectId}` : ''}`)
+    return raycast.id
+  },
+
+  // Re-cast an existing ray towards a new end point (used while dragging)
+  updateRaycastEnd: (id: string, end: PixeloidCoordinate) => {
+    const raycast = gameStore.geometry.raycast.activeRaycasts.find(ray => ray.id === id)
+    if (!raycast) return
+    const start = createPixeloidCoordinate(raycast.startX, raycast.startY)
+    const traversal = RaycastHelper.traverse(
+      start, end, gameStore.geometry.raycast.settings.maxDistance, updateGameStore.queryObjectsAtPoint
+    )
+    raycast.endX = end.x
+    raycast.endY = end.y
+    raycast.steps = traversal.steps
+    raycast.hitPoints = traversal.hitPoint ? [traversal.hitPoint] : []
+    raycast.stopX = traversal.stopPoint.x
+    raycast.stopY = traversal.stopPoint.y
+    raycast.hitObjectId = traversal.hitObjectId
   },
 
-  setEditPanelOpen: (open: boolean) => {
-    gameStore.geometry.selection.isEditPanelOpen = open
+  removeRaycast: (id: string) => {
+    const index = gameStore.geometry.raycast.activeRaycasts.findIndex(ray => ray.id === id)
+    if (index !== -1) {
+      gameStore.geometry.raycast.activeRaycasts.splice(index, 1)
+    }
   },
 
-  clearSelection: () => {
-    gameStore.geometry.selection.selectedObjectId = null
-    gameStore.geometry.selection.isEditPanelOpen = false
+  clearRaycasts: () => {
+    gameStore.geometry.raycast.activeRaycasts.length = 0
+    console.log('Store: Cleared raycasts')
   },
 
-  // Clipboard operations
-  copySelectedObject: () => {
-    const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-    if (!selectedObjectId) {
-      console.warn('Store: No object selected to copy')
-      return false
-    }
+  // Pathfinding (the search itself runs in Pathfinder.update)
+  setPathStart: (position: PixeloidCoordinate | null) => {
+    gameStore.geometry.pathfinding.start = position ? toPathCell(position) : null
+  },
 
-    const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
-    if (!selectedObject) {
-      console.warn(`Store: Selected object ${selectedObjectId} not found`)
-      return false
-    }
+  setPathGoal: (position: PixeloidCoordinate | null) => {
+    const goal = position ? toPathCell(position) : null
+    const current = gameStore.geometry.pathfinding.goal
+    if (goal && current && goal.x === current.x && goal.y === current.y) return
+    gameStore.geometry.pathfinding.goal = goal
+  },
 
-    // Create a deep copy of the object
-    gameStore.geometry.clipboard.copiedObject = { ...selectedObject }
-    console.log(`Store: Copied object ${selectedObjectId} to clipboard`)
-    return true
+  setPathfindingSettings: (settings: Partial<typeof gameStore.geometry.pathfinding.settings>) => {
+    Object.assign(gameStore.geometry.pathfinding.settings, settings)
   },
 
-  pasteObjectAtPosition: (pixeloidX: number, pixeloidY: number) => {
-    if (!gameStore.geometry.clipboard.copiedObject) {
-      console.warn('Store: No object in clipboard to paste')
-      return null
-    }
+  setPathfindingResult: (result: PathfindingResult | null) => {
+    gameStore.geometry.pathfinding.result = result
+  },
 
-    const copiedObject = gameStore.geometry.clipboard.copiedObject
-    
-    // Create new object with unique ID and position it at the specified location
-    const newObject = updateGameStore.ensureUniqueId({ ...copiedObject })
-    
-    // Position the new object based on its type
-    if ('anchorX' in newObject && 'anchorY' in newObject) {
-      // Diamond - position anchor at mouse
-      newObject.anchorX = pixeloidX
-      newObject.anchorY = pixeloidY
-    } else if ('centerX' in newObject && 'centerY' in newObject) {
-      // Circle - position center at mouse
-      newObject.centerX = pixeloidX
-      newObject.centerY = pixeloidY
-    } else if ('x' in newObject && 'width' in newObject) {
-      // Rectangle - position top-left at mouse
-      newObject.x = pixeloidX
-      newObject.y = pixeloidY
-    } else if ('startX' in newObject && 'endX' in newObject) {
-      // Line - calculate offset and move both points
-      const line = newObject as GeometricLine
-      const originalLine = copiedObject as GeometricLine
-      const originalCenterX = (originalLine.startX + originalLine.endX) / 2
-      const originalCenterY = (originalLine.startY + originalLine.endY) / 2
-      const offsetX = pixeloidX - originalCenterX
-      const offsetY = pixeloidY - originalCenterY
-      
-      line.startX = originalLine.startX + offsetX
-      line.startY = originalLine.startY + offsetY
-      line.endX = originalLine.endX + offsetX
-      line.endY = originalLine.endY + offsetY
-    } else if ('x' in newObject && 'y' in newObject) {
-      // Point - position at mouse
-      newObject.x = pixeloidX
-      newObject.y = pixeloidY
-    }
-
-    // Update metadata and creation time
-    newObject.createdAt = Date.now()
-    
-    // Recalculate metadata based on new position
-    if ('anchorX' in newObject) {
-      newObject.metadata = GeometryHelper.calculateDiamondMetadata(newObject as any)
-    } else if ('centerX' in newObject) {
-      newObject.metadata = GeometryHelper.calculateCircleMetadata(newObject as any)
-    } else if ('x' in newObject && 'width' in newObject) {
-      newObject.metadata = GeometryHelper.calculateRectangleMetadata(newObject as any)
-    } else if ('startX' in newObject) {
-      newObject.metadata = GeometryHelper.calculateLineMetadata(newObject as any)
-    } else if ('x' in newObject && 'y' in newObject) {
-      newObject.metadata = GeometryHelper.calculatePointMetadata(newObject as any)
-    }
-    
-    // Initialize visibility cache for pasted object
-    if (newObject.metadata) {
-      const currentScale = gameStore.camera.pixeloid_scale
-      const visibilityInfo = GeometryHelper.calculateVisibilityState(newObject, currentScale)
-      
-      newObject.metadata.visibilityCache = new Map()
-      newObject.metadata.visibilityCache.set(currentScale, {
-        visibility: visibilityInfo.visibility,
-        onScreenBounds: visibilityInfo.onScreenBounds
-      })
-    }
+  clearPathfinding: () => {
+    gameStore.geometry.pathfinding.start = null
+    gameStore.geometry.pathfinding.goal = null
+    gameStore.geometry.pathfinding.result = null
+    console.log('Store: Cleared pathfinding')
+  },
 
-    // Use proper method that handles object setup (but we already initialized visibility cache)
-    updateGameStore.addGeometricObject(newObject)
-    
-    // Select the new object
-    updateGameStore.setSelectedObject(newObject.id)
-    
-    console.log(`Store: Pasted object as ${newObject.id} at (${pixeloidX.toFixed(1)}, ${pixeloidY.toFixed(1)})`)
-    return newObject
+  // Field of view (computed by FieldOfView.update while the FOV tool is active)
+  setFieldOfViewSettings: (settings: Partial<typeof gameStore.geometry.fieldOfView.settings>) => {
+    Object.assign(gameStore.geometry.fieldOfView.settings, settings)
   },
 
-  clearClipboard: () => {
-    gameStore.geometry.clipboard.copiedObject = null
-    console.log('Store: Cleared clipboard')
+  setFieldOfViewResult: (origin: PixeloidCoordinate | null, visibleCount: number) => {
+    gameStore.geometry.fieldOfView.origin = origin
+    gameStore.geometry.fieldOfView.visibleCount = visibleCount
   },
 
-  // Favorites operations
-  addToFavorites: (objectId: string) => {
-    if (!gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)) {
-      gameStore.geometry.favorites.favoriteObjectIds.push(objectId)
-      console.log(`Store: Added object ${objectId} to favorites`)
-      return true
+  // Tile map
+  setTileBrush: (brush: TileBrush) => {
+    gameStore.tileMap.brush = brush
+  },
+
+  setActiveTileType: (tileTypeId: string) => {
+    if (!gameStore.tileMap.palette.some(tileType => tileType.id === tileTypeId)) {
+      console.warn(`Store: Unknown tile type ${tileTypeId}`)
+      return
     }
-    return false
+    gameStore.tileMap.activeTileTypeId = tileTypeId
   },
 
-  removeFromFavorites: (objectId: string) => {
-    const index = gameStore.geometry.favorites.favoriteObjectIds.indexOf(objectId)
-    if (index !== -1) {
-      gameStore.geometry.favorites.favoriteObjectIds.splice(index, 1)
-      console.log(`Store: Removed object ${objectId} from favorites`)
-      return true
+  addTileType: (tileType: Omit<TileType, 'id'>): string => {
+    const existingIds = new Set(gameStore.tileMap.palette.map(existing => existing.id))
+    const baseId = tileType.name.toLowerCase().replace(/[^a-z0-9]+/g, '-') || 'tile'
+    let id = baseId
+    for (let counter = 2; existingIds.has(id); counter++) {
+      id = `${baseId}-${counter}`
     }
-    return false
+    gameStore.tileMap.palette.push({ ...tileType, id })
+    gameStore.tileMap.activeTileTypeId = id
+    console.log(`Store: Added tile type ${id}`)
+    return id
   },
 
-  toggleFavorite: (objectId: string) => {
-    if (gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)) {
-      return updateGameStore.removeFromFavorites(objectId)
-    } else {
-      return updateGameStore.addToFavorites(objectId)
+  // Replace the palette (scene load); the active type falls back to the first one if it is gone
+  setTilePalette: (palette: TileType[]) => {
+    gameStore.tileMap.palette.splice(0, gameStore.tileMap.palette.length, ...palette.map(tileType => ({ ...tileType })))
+    if (!palette.some(tileType => tileType.id === gameStore.tileMap.activeTileTypeId)) {
+      gameStore.tileMap.activeTileTypeId = palette[0]?.id ?? null
     }
   },
 
-  isFavorite: (objectId: string): boolean => {
-    return gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)
+  // Remove a tile type from the palette together with every tile painted with it
+  removeTileType: (tileTypeId: string) => {
+    const index = gameStore.tileMap.palette.findIndex(tileType => tileType.id === tileTypeId)
+    if (index === -1) return
+
+    const cells: { x: number, y: number }[] = []
+    for (const chunk of Object.values(gameStore.tileMap.chunks)) {
+      TileMapHelper.forEachTile(chunk, gameStore.tileMap.chunkSize, (cellX, cellY, id) => {
+        if (id === tileTypeId) cells.push({ x: cellX, y: cellY })
+      })
+    }
+    cells.forEach(cell => updateGameStore.eraseTile(cell.x, cell.y))
+
+    gameStore.tileMap.palette.splice(index, 1)
+    if (gameStore.tileMap.activeTileTypeId === tileTypeId) {
+      gameStore.tileMap.activeTileTypeId = gameStore.tileMap.palette[0]?.id ?? null
+    }
+    console.log(`Store: Removed tile type ${tileTypeId} (${cells.length} tiles erased)`)
   },
 
-  // Set reference to InfiniteCanvas for direct camera control
-  setInfiniteCanvasRef: (_canvas: InfiniteCanvas) => {
-    // Reference no longer stored - method kept for compatibility
-    console.log('Store: InfiniteCanvas reference method called (legacy compatibility)')
+  getTile: (cellX: number, cellY: number): string | null => {
+    return TileMapHelper.getTile(gameStore.tileMap, cellX, cellY)
   },
 
-  centerCameraOnObject: (objectId: string) => {
-    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
-    if (object && object.metadata) {
-      // Set camera position to center on object
+  setTile: (cellX: number, cellY: number, tileTypeId: string) => {
+    const tileMap = gameStore.tileMap
+    const chunkCoord = TileMapHelper.getChunkCoord(cellX, cellY, tileMap.chunkSize)
+    const chunkKey = TileMapHelper.getChunkKey(chunkCoord.x, chunkCoord.y)
+    const localKey = TileMapHelper.getLocalKey(cellX, cellY, tileMap.chunkSize)
+
+    if (!tileMap.chunks[chunkKey]) {
+      tileMap.chunks[chunkKey] = { chunkX: chunkCoord.x, chunkY: chunkCoord.y, tiles: {}, tileCount: 0 }
+    }
+    const chunk = tileMap.chunks[chunkKey]
+    if (chunk.tiles[localKey] === tileTypeId) return
+
+    if (chunk.tiles[localKey] === undefined) {
+      chunk.tileCount++
+      tileMap.tileCount++
+    }
+    chunk.tiles[localKey] = tileTypeId
+  },
+
+  eraseTile: (cellX: number, cellY: number) => {
+    const tileMap = gameStore.tileMap
+    const chunkCoord = TileMapHelper.getChunkCoord(cellX, cellY, tileMap.chunkSize)
+    const chunkKey = TileMapHelper.getChunkKey(chunkCoord.x, chunkCoord.y)
+    const chunk = tileMap.chunks[chunkKey]
+    if (!chunk) return
+
+    const localKey = TileMapHelper.getLocalKey(cellX, cellY, tileMap.chunkSize)
+    if (chunk.tiles[localKey] === undefined) return
+
+    delete chunk.tiles[localKey]
+    chunk.tileCount--
+    tileMap.tileCount--
+
+    // Keep the map sparse - drop chunks that became empty
+    if (chunk.tileCount === 0) {
+      delete tileMap.chunks[chunkKey]
+    }
+  },
+
+  // Fill the connected region under a cell with a tile type (null erases the region)
+  floodFillTiles: (cellX: number, cellY: number, tileTypeId: string | null): boolean => {
+    if (TileMapHelper.getTile(gameStore.tileMap, cellX, cellY) === tileTypeId) return false
+
+    const maxTiles = gameStore.tileMap.settings.maxFillTiles
+    const cells = TileMapHelper.floodFillCells(gameStore.tileMap, cellX, cellY, maxTiles)
+    if (!cells) {
+      console.warn(`Store: Flood fill at (${cellX}, ${cellY}) exceeds ${maxTiles} tiles - enclose the area first`)
+      return false
+    }
+
+    for (const cell of cells) {
+      if (tileTypeId) {
+        updateGameStore.setTile(cell.x, cell.y, tileTypeId)
+      } else {
+        updateGameStore.eraseTile(cell.x, cell.y)
+      }
+    }
+    console.log(`Store: Flood filled ${cells.length} tiles at (${cellX}, ${cellY})`)
+    return true
+  },
+
+  clearTiles: () => {
+    for (const chunkKey of Object.keys(gameStore.tileMap.chunks)) {
+      delete gameStore.tileMap.chunks[chunkKey]
+    }
+    gameStore.tileMap.tileCount = 0
+    console.log('Store: Cleared tiles')
+  },
+
+  setTileMapSettings: (settings: Partial<typeof gameStore.tileMap.settings>) => {
+    Object.assign(gameStore.tileMap.settings, settings)
+  },
+
+  // Spatial queries (served by the spatial index, results in draw order - topmost last)
+  queryObjectsAtPoint: (point: { x: number, y: number }): GeometricObject[] => {
+    ensureObjectIndex()
+    return resolveIndexedObjects(objectIndex.queryPoint(point.x, point.y))
+  },
+
+  queryObjectsInRect: (bounds: SpatialBounds): GeometricObject[] => {
+    ensureObjectIndex()
+    return resolveIndexedObjects(objectIndex.queryRect(bounds))
+  },
+
+  queryObjectsInViewport: (): GeometricObject[] => {
+    const world = gameStore.camera.viewport_bounds.world
+    return updateGameStore.queryObjectsInRect({
+      minX: world.top_left.x,
+      minY: world.top_left.y,
+      maxX: world.bottom_right.x,
+      maxY: world.bottom_right.y
+    })
+  },
+
+  // ================================
+  // LAYERS / GROUPS
+  // ================================
+
+  // Group an object belongs to (missing or unknown groupId resolves to the bottom group)
+  getObjectGroup: (object: GeometricObject): ObjectGroup => {
+    return resolveObjectGroup(object)
+  },
+
+  isObjectLocked: (objectId: string): boolean => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    return object ? resolveObjectGroup(object).isLocked : false
+  },
+
+  // Objects of one group in draw order (bottom first)
+  getGroupObjects: (groupId: string): GeometricObject[] => {
+    return gameStore.geometry.objects.filter(obj => resolveObjectGroup(obj).id === groupId)
+  },
+
+  // Rank of an object in the final draw order (higher is drawn on top), -1 if unknown
+  getObjectDrawOrder: (objectId: string): number => {
+    ensureObjectIndex()
+    return objectDrawOrder.get(objectId) ?? -1
+  },
+
+  // Create a group on top of the stack and make it the active one
+  createGroup: (name?: string): string => {
+    const groups = gameStore.geometry.groups
+    let counter = groups.list.length + 1
+    let id = `group-${counter}`
+    while (groups.list.some(group => group.id === id)) {
+      id = `group-${++counter}`
+    }
+    
+    groups.list.push({ id, name: name?.trim() || `Layer ${counter}`, isVisible: true, isLocked: false, opacity: 1 })
+    groups.activeGroupId = id
+    console.log(`Store: Created group ${id}`)
+    return id
+  },
+
+  renameGroup: (groupId: string, name: string) => {
+    const group = gameStore.geometry.groups.list.find(g => g.id === groupId)
+    if (group && name.trim()) {
+      group.name = name.trim()
+    }
+  },
+
+  // Remove a group, moving its objects into the group below it (or above for the bottom group)
+  removeGroup: (groupId: string): boolean => {
+    const groups = gameStore.geometry.groups
+    const index = groups.list.findIndex(group => group.id === groupId)
+    if (index === -1 || groups.list.length <= 1) {
+      console.warn('Store: Cannot remove the last group')
+      return false
+    }
+    
+    // One undo step: the objects' moves and the removal, so undo restores both together
+    const target = groups.list[index > 0 ? index - 1 : 1]
+    const label = `Remove layer ${groups.list[index].name}`
+    updateGameStore.beginHistoryBatch(label)
+    for (const obj of updateGameStore.getGroupObjects(groupId)) {
+      updateGameStore.updateGeometricObject(obj.id, { groupId: target.id })
+    }
+    recordHistoryCommand(label, {
+      type: 'removeGroup',
+      group: { ...groups.list[index] },
+      index,
+      fallbackGroupId: target.id,
+      wasActive: groups.activeGroupId === groupId
+    })
+    removeGroupFromList(groupId, target.id)
+    updateGameStore.endHistoryBatch()
+    console.log(`Store: Removed group ${groupId}, objects moved to ${target.id}`)
+    return true
+  },
+
+  setGroupVisibility: (groupId: string, visible: boolean) => {
+    const group = gameStore.geometry.groups.list.find(g => g.id === groupId)
+    if (!group) return
+    group.isVisible = visible
+    if (!visible) {
+      deselectGroupObjects(groupId)
+    }
+  },
+
+  setGroupLocked: (groupId: string, locked: boolean) => {
+    const group = gameStore.geometry.groups.list.find(g => g.id === groupId)
+    if (!group) return
+    group.isLocked = locked
+    if (locked) {
+      deselectGroupObjects(groupId)
+    }
+  },
+
+  setGroupOpacity: (groupId: string, opacity: number) => {
+    const group = gameStore.geometry.groups.list.find(g => g.id === groupId)
+    if (group) {
+      group.opacity = Math.max(0, Math.min(1, opacity))
+    }
+  },
+
+  // Move a group one step up (towards the top of the stack) or down
+  moveGroup: (groupId: string, direction: 'up' | 'down') => {
+    const list = gameStore.geometry.groups.list
+    const index = list.findIndex(group => group.id === groupId)
+    const targetIndex = direction === 'up' ? index + 1 : index - 1
+    if (index === -1 || targetIndex < 0 || targetIndex >= list.length) return
+    
+    const [group] = list.splice(index, 1)
+    list.splice(targetIndex, 0, group)
+  },
+
+  setActiveGroup: (groupId: string) => {
+    if (gameStore.geometry.groups.list.some(group => group.id === groupId)) {
+      gameStore.geometry.groups.activeGroupId = groupId
+    }
+  },
+
+  // Replace all groups (scene load) - the top group becomes active
+  setGroups: (groups: ObjectGroup[]) => {
+    const list = groups.length > 0 ? groups.map(group => ({ ...group })) : [createDefaultGroup()]
+    gameStore.geometry.groups.list = list
+    gameStore.geometry.groups.activeGroupId = list[list.length - 1].id
+  },
+
+  // Move objects into another group as a single undo step (they land on top of it)
+  moveObjectsToGroup: (objectIds: string[], groupId: string) => {
+    if (!gameStore.geometry.groups.list.some(group => group.id === groupId)) return
+    const ids = objectIds.filter(id => {
+      const object = gameStore.geometry.objects.find(obj => obj.id === id)
+      return object !== undefined && resolveObjectGroup(object).id !== groupId
+    })
+    if (ids.length === 0) return
+    
+    updateGameStore.beginHistoryBatch(ids.length > 1 ? `Move ${ids.length} objects to layer` : 'Move object to layer')
+    for (const id of sortByArrayPosition(ids)) {
+      updateGameStore.updateGeometricObject(id, { groupId })
+      moveObjectToIndex(id, gameStore.geometry.objects.length - 1)
+    }
+    updateGameStore.endHistoryBatch()
+    
+    if (gameStore.geometry.groups.list.find(group => group.id === groupId)?.isLocked) {
+      deselectGroupObjects(groupId)
+    }
+    console.log(`Store: Moved ${ids.length} objects to group ${groupId}`)
+  },
+
+  // Z-order within the objects' groups (group order always wins)
+  bringToFront: (objectIds: string[]) => {
+    const moving = sortByArrayPosition(objectIds)
+    if (moving.length === 0) return
+    
+    updateGameStore.beginHistoryBatch('Bring to front')
+    for (const id of moving) {
+      moveObjectToIndex(id, gameStore.geometry.objects.length - 1)
+    }
+    updateGameStore.endHistoryBatch()
+  },
+
+  sendToBack: (objectIds: string[]) => {
+    const moving = sortByArrayPosition(objectIds).reverse()
+    if (moving.length === 0) return
+    
+    updateGameStore.beginHistoryBatch('Send to back')
+    for (const id of moving) {
+      moveObjectToIndex(id, 0)
+    }
+    updateGameStore.endHistoryBatch()
+  },
+
+  // Swap each object with the next object of its group (selected neighbours move as a block)
+  bringForward: (objectIds: string[]) => {
+    const moving = sortByArrayPosition(objectIds).reverse()
+    if (moving.length === 0) return
+    
+    updateGameStore.beginHistoryBatch('Bring forward')
+    for (const id of moving) {
+      const neighbour = findGroupNeighbour(id, 1)
+      if (neighbour !== -1 && !objectIds.includes(gameStore.geometry.objects[neighbour].id)) {
+        moveObjectToIndex(id, neighbour)
+      }
+    }
+    updateGameStore.endHistoryBatch()
+  },
+
+  sendBackward: (objectIds: string[]) => {
+    const moving = sortByArrayPosition(objectIds)
+    if (moving.length === 0) return
+    
+    updateGameStore.beginHistoryBatch('Send backward')
+    for (const id of moving) {
+      const neighbour = findGroupNeighbour(id, -1)
+      if (neighbour !== -1 && !objectIds.includes(gameStore.geometry.objects[neighbour].id)) {
+        moveObjectToIndex(id, neighbour)
+      }
+    }
+    updateGameStore.endHistoryBatch()
+  },
+
+  // Selection controls
+  setSelectedObject: (objectId: string | null) => {
+    gameStore.geometry.selection.selectedObjectId = objectId
+    gameStore.geometry.selection.selectedObjectIds = objectId !== null ? [objectId] : []
+    
+    // Automatically set drawing mode to 'none' when selecting an object
+    // This prevents accidental object creation when clicking while something is selected
+    if (objectId !== null) {
+      updateGameStore.setDrawingMode('none')
+      console.log(`Store: Set drawing mode to 'none' due to object selection: ${objectId}`)
+    }
+  },
+
+  // Replace the selection set (last id becomes the primary selection)
+  setSelectedObjects: (objectIds: string[]) => {
+    const uniqueIds = [...new Set(objectIds)]
+    gameStore.geometry.selection.selectedObjectIds = uniqueIds
+    gameStore.geometry.selection.selectedObjectId = uniqueIds.length > 0 ? uniqueIds[uniqueIds.length - 1] : null
+    
+    if (uniqueIds.length > 0) {
+      updateGameStore.setDrawingMode('none')
+    }
+    console.log(`Store: Selected ${uniqueIds.length} objects`)
+  },
+
+  // Add or remove a single object from the selection set (shift-click)
+  toggleObjectSelection: (objectId: string) => {
+    const ids = gameStore.geometry.selection.selectedObjectIds
+    if (ids.includes(objectId)) {
+      updateGameStore.setSelectedObjects(ids.filter(id => id !== objectId))
+    } else {
+      updateGameStore.setSelectedObjects([...ids, objectId])
+    }
+  },
+
+  // Make an already selected object the primary selection without changing the set
+  setPrimarySelection: (objectId: string) => {
+    const ids = gameStore.geometry.selection.selectedObjectIds
+    if (!ids.includes(objectId)) return
+    gameStore.geometry.selection.selectedObjectIds = [...ids.filter(id => id !== objectId), objectId]
+    gameStore.geometry.selection.selectedObjectId = objectId
+  },
+
+  isObjectSelected: (objectId: string): boolean => {
+    return gameStore.geometry.selection.selectedObjectIds.includes(objectId)
+  },
+
+  getSelectedObjects: (): GeometricObject[] => {
+    const ids = gameStore.geometry.selection.selectedObjectIds
+    return ids
+      .map(id => gameStore.geometry.objects.find(obj => obj.id === id))
+      .filter((obj): obj is GeometricObject => obj !== undefined)
+  },
+
+  setEditPanelOpen: (open: boolean) => {
+    gameStore.geometry.selection.isEditPanelOpen = open
+  },
+
+  clearSelection: () => {
+    gameStore.geometry.selection.selectedObjectId = null
+    gameStore.geometry.selection.selectedObjectIds = []
+    gameStore.geometry.selection.isEditPanelOpen = false
+  },
+
+  // Marquee (rubber-band) selection
+  startSelectionMarquee: (start: PixeloidCoordinate, additive: boolean) => {
+    gameStore.geometry.selection.marquee = { start, end: start, additive }
+  },
+
+  updateSelectionMarquee: (end: PixeloidCoordinate) => {
+    if (!gameStore.geometry.selection.marquee) return
+    gameStore.geometry.selection.marquee.end = end
+  },
+
+  // Select every visible, unlocked object whose metadata bounds lie inside the marquee
+  finishSelectionMarquee: () => {
+    const marquee = gameStore.geometry.selection.marquee
+    if (!marquee) return
+    gameStore.geometry.selection.marquee = null
+    
+    const minX = Math.min(marquee.start.x, marquee.end.x)
+    const maxX = Math.max(marquee.start.x, marquee.end.x)
+    const minY = Math.min(marquee.start.y, marquee.end.y)
+    const maxY = Math.max(marquee.start.y, marquee.end.y)
+    
+    const enclosedIds = updateGameStore.queryObjectsInRect({ minX, minY, maxX, maxY })
+      .filter(obj => obj.isVisible && obj.metadata && !resolveObjectGroup(obj).isLocked)
+      .filter(obj => {
+        const bounds = obj.metadata.bounds
+        return bounds.minX >= minX && bounds.maxX <= maxX && bounds.minY >= minY && bounds.maxY <= maxY
+      })
+      .map(obj => obj.id)
+    
+    const baseIds = marquee.additive ? gameStore.geometry.selection.selectedObjectIds : []
+    updateGameStore.setSelectedObjects([...baseIds, ...enclosedIds])
+  },
+
+  cancelSelectionMarquee: () => {
+    gameStore.geometry.selection.marquee = null
+  },
+
+  // Remove every selected object as a single undo step
+  deleteSelectedObjects: () => {
+    const ids = [...gameStore.geometry.selection.selectedObjectIds]
+    if (ids.length === 0) return
+    
+    updateGameStore.beginHistoryBatch(ids.length > 1 ? `Delete ${ids.length} objects` : 'Remove object')
+    for (const id of ids) {
+      updateGameStore.removeGeometricObject(id)
+    }
+    updateGameStore.endHistoryBatch()
+    updateGameStore.clearSelection()
+    console.log(`Store: Deleted ${ids.length} selected objects`)
+  },
+
+  // Clipboard operations
+  copySelectedObject: () => {
+    const selectedObjects = updateGameStore.getSelectedObjects()
+    if (selectedObjects.length === 0) {
+      console.warn('Store: No object selected to copy')
+      return false
+    }
+
+    // Copy every selected object (primary last, matching the selection order)
+    gameStore.geometry.clipboard.copiedObjects = selectedObjects.map(obj => ({ ...obj }))
+    console.log(`Store: Copied ${selectedObjects.length} objects to clipboard`)
+    return true
+  },
+
+  pasteObjectAtPosition: (pixeloidX: number, pixeloidY: number) => {
+    const copiedObjects = gameStore.geometry.clipboard.copiedObjects
+    if (copiedObjects.length === 0) {
+      console.warn('Store: No object in clipboard to paste')
+      return null
+    }
+
+    // The primary copied object is placed at the mouse, the rest keep their relative offsets
+    const primary = copiedObjects[copiedObjects.length - 1]
+    let deltaX: number
+    let deltaY: number
+    if (primary.type === 'line') {
+      // Line - center on mouse
+      const [start, end] = primary.pixeloidVertices
+      deltaX = pixeloidX - (start.x + end.x) / 2
+      deltaY = pixeloidY - (start.y + end.y) / 2
+    } else {
+      // Circle center, otherwise the first vertex at mouse
+      const position = GeometryHelper.getObjectPosition(primary)
+      deltaX = pixeloidX - position.x
+      deltaY = pixeloidY - position.y
+    }
+
+    updateGameStore.beginHistoryBatch(copiedObjects.length > 1 ? `Paste ${copiedObjects.length} objects` : 'Paste object')
+    
+    const currentScale = gameStore.camera.pixeloid_scale
+    const pastedObjects: GeometricObject[] = []
+    for (const copiedObject of copiedObjects) {
+      // Create new object with unique ID at the offset position
+      const newObject = updateGameStore.ensureUniqueId({
+        ...copiedObject,
+        ...GeometryHelper.translateObject(copiedObject, deltaX, deltaY)
+      } as GeometricObject)
+      if (copiedObject.properties) {
+        // Own copy of the property bag - it must not be shared with the original
+        newObject.properties = { ...copiedObject.properties }
+      }
+      
+      // Pasted objects land in the active group; update metadata and creation time
+      newObject.groupId = gameStore.geometry.groups.activeGroupId
+      newObject.createdAt = Date.now()
+      newObject.metadata = GeometryHelper.calculateObjectMetadata(newObject, currentScale)
+      
+      // Initialize visibility cache for pasted object
+      const visibilityInfo = GeometryHelper.calculateVisibilityState(newObject, currentScale)
+      newObject.metadata.visibilityCache = new Map()
+      newObject.metadata.visibilityCache.set(currentScale, {
+        visibility: visibilityInfo.visibility,
+        onScreenBounds: visibilityInfo.onScreenBounds
+      })
+
+      // Use proper method that handles object setup (but we already initialized visibility cache)
+      updateGameStore.addGeometricObject(newObject)
+      pastedObjects.push(newObject)
+    }
+    updateGameStore.endHistoryBatch()
+    updateGameStore.updateCreationScaleTracking(currentScale)
+    
+    // Select the pasted objects
+    updateGameStore.setSelectedObjects(pastedObjects.map(obj => obj.id))
+    
+    console.log(`Store: Pasted ${pastedObjects.length} objects at (${pixeloidX.toFixed(1)}, ${pixeloidY.toFixed(1)})`)
+    return pastedObjects
+  },
+
+  clearClipboard: () => {
+    gameStore.geometry.clipboard.copiedObjects = []
+    console.log('Store: Cleared clipboard')
+  },
+
+  // Favorites operations
+  addToFavorites: (objectId: string) => {
+    if (!gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)) {
+      gameStore.geometry.favorites.favoriteObjectIds.push(objectId)
+      console.log(`Store: Added object ${objectId} to favorites`)
+      return true
+    }
+    return false
+  },
+
+  removeFromFavorites: (objectId: string) => {
+    const index = gameStore.geometry.favorites.favoriteObjectIds.indexOf(objectId)
+    if (index !== -1) {
+      gameStore.geometry.favorites.favoriteObjectIds.splice(index, 1)
+      console.log(`Store: Removed object ${objectId} from favorites`)
+      return true
+    }
+    return false
+  },
+
+  toggleFavorite: (objectId: string) => {
+    if (gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)) {
+      return updateGameStore.removeFromFavorites(objectId)
+    } else {
+      return updateGameStore.addToFavorites(objectId)
+    }
+  },
+
+  isFavorite: (objectId: string): boolean => {
+    return gameStore.geometry.favorites.favoriteObjectIds.includes(objectId)
+  },
+
+  // Object properties (typed key/value bag, validated by PropertySchemaRegistry)
+  setObjectProperty: (objectId: string, key: string, value: PropertyValue): boolean => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    if (!object) return false
+
+    const error = PropertySchemaRegistry.validate(PropertySchemaRegistry.getObjectType(object), key, value)
+    if (error) {
+      console.warn(`Store: Rejected property for object ${objectId}: ${error}`)
+      return false
+    }
+    if (object.properties?.[key] === value) return true
+
+    // Replace the whole bag so history records before/after copies
+    updateGameStore.updateGeometricObject(objectId, { properties: { ...object.properties, [key]: value } })
+    console.log(`Store: Set property ${key}=${value} on object ${objectId}`)
+    return true
+  },
+
+  removeObjectProperty: (objectId: string, key: string): boolean => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    if (!object?.properties || !(key in object.properties)) return false
+
+    const { [key]: _removed, ...properties } = object.properties
+    updateGameStore.updateGeometricObject(objectId, { properties })
+    console.log(`Store: Removed property ${key} from object ${objectId}`)
+    return true
+  },
+
+  // Effective properties (schema defaults merged with the stored values)
+  getObjectProperties: (objectId: string): Record<string, PropertyValue> => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    return object ? PropertySchemaRegistry.resolve(object) : {}
+  },
+
+  // Camera bookmarks (fly-to is handled by CameraAnimator)
+  addCameraBookmark: (name: string): CameraBookmark => {
+    const offset = gameStore.mesh.vertex_to_pixeloid_offset
+    const bookmark: CameraBookmark = {
+      id: updateGameStore.generateUniqueId('bookmark'),
+      name: name.trim() || `View ${gameStore.camera.bookmarks.length + 1}`,
+      offset: { x: offset.x, y: offset.y },
+      pixeloidScale: gameStore.camera.pixeloid_scale,
+      createdAt: Date.now()
+    }
+    gameStore.camera.bookmarks.push(bookmark)
+    console.log(`Store: Added camera bookmark '${bookmark.name}' at (${offset.x.toFixed(1)}, ${offset.y.toFixed(1)}) scale ${bookmark.pixeloidScale}`)
+    return bookmark
+  },
+
+  removeCameraBookmark: (bookmarkId: string) => {
+    const index = gameStore.camera.bookmarks.findIndex(bookmark => bookmark.id === bookmarkId)
+    if (index === -1) return false
+    gameStore.camera.bookmarks.splice(index, 1)
+    console.log(`Store: Removed camera bookmark ${bookmarkId}`)
+    return true
+  },
+
+  renameCameraBookmark: (bookmarkId: string, name: string) => {
+    const bookmark = gameStore.camera.bookmarks.find(candidate => candidate.id === bookmarkId)
+    if (!bookmark || !name.trim()) return false
+    bookmark.name = name.trim()
+    return true
+  },
+
+  // Replace all bookmarks (scene load)
+  setCameraBookmarks: (bookmarks: CameraBookmark[]) => {
+    gameStore.camera.bookmarks.splice(0, gameStore.camera.bookmarks.length, ...bookmarks.map(bookmark => ({
+      ...bookmark,
+      offset: { ...bookmark.offset }
+    })))
+  },
+
+  // Set reference to InfiniteCanvas for direct camera control
+  setInfiniteCanvasRef: (_canvas: InfiniteCanvas) => {
+    // Reference no longer stored - method kept for compatibility
+    console.log('Store: InfiniteCanvas reference method called (legacy compatibility)')
+  },
+
+  centerCameraOnObject: (objectId: string) => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    if (object && object.metadata) {
+      // Set camera position to center on object
       updateGameStore.setCameraPosition(createPixeloidCoordinate(object.metadata.center.x, object.metadata.center.y))
       console.log(`Store: Centered camera on object ${objectId} at position (${object.metadata.center.x.toFixed(1)}, ${object.metadata.center.y.toFixed(1)})`)
     } else {
@@ -1107,25 +1846,35 @@ export const updateGameStore = {
   centerViewportOnObject: (objectId: string) => {
     const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
     if (object && object.metadata) {
-      // Calculate offset to center object at screen center (compatible with WASD movement)
-      const screenCenterX = gameStore.windowWidth / 2 / gameStore.camera.pixeloid_scale
-      const screenCenterY = gameStore.windowHeight / 2 / gameStore.camera.pixeloid_scale
-      const targetOffset = createPixeloidCoordinate(
-        object.metadata.center.x - screenCenterX,
-        object.metadata.center.y - screenCenterY
-      )
-      updateGameStore.setVertexToPixeloidOffset(targetOffset)
+      const targetOffset = updateGameStore.centerViewportOnPoint(object.metadata.center.x, object.metadata.center.y)
       console.log(`Store: Centered viewport on object ${objectId} with offset (${targetOffset.x.toFixed(1)}, ${targetOffset.y.toFixed(1)})`)
     } else {
       console.warn(`Store: Cannot center viewport on object ${objectId} - object not found or missing metadata`)
     }
   },
 
+  // Put a pixeloid position at the screen center (offset-based, compatible with WASD movement)
+  centerViewportOnPoint: (x: number, y: number): PixeloidCoordinate => {
+    const screenCenterVertex = CoordinateCalculations.screenToVertex(
+      createScreenCoordinate(gameStore.windowWidth / 2, gameStore.windowHeight / 2),
+      gameStore.camera.pixeloid_scale,
+      gameStore.camera.projection
+    )
+    const targetOffset = createPixeloidCoordinate(x - screenCenterVertex.x, y - screenCenterVertex.y)
+    updateGameStore.setVertexToPixeloidOffset(targetOffset)
+    return targetOffset
+  },
+
   setPixelateFilterEnabled: (enabled: boolean) => {
     gameStore.geometry.filterEffects.pixelate = enabled
     console.log(`Store: Pixeloid-perfect pixelate filter ${enabled ? 'enabled' : 'disabled'}`)
   },
 
+  setGeometryRenderMode: (mode: GeometryRenderMode) => {
+    gameStore.geometry.renderMode = mode
+    console.log(`Store: Geometry render mode set to ${mode}`)
+  },
+
   // Texture Registry actions (WRITE-ONLY from rendering perspective)
   setObjectTexture: (objectId: string, textureData: ObjectTextureData) => {
     gameStore.textureRegistry.objectTextures[objectId] = textureData
@@ -1256,243 +2005,338 @@ export const updateGameStore = {
   // ================================
 
   // Enhanced anchor configuration actions
-  getDefaultAnchor: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond') => {
+  getDefaultAnchor: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline') => {
     return gameStore.geometry.anchoring.defaults[geometryType]
   },
 
-  setDefaultAnchor: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond', anchorPoint: any) => {
+  setDefaultAnchor: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline', anchorPoint: any) => {
     gameStore.geometry.anchoring.defaults[geometryType] = anchorPoint
     console.log(`Store: Set default anchor for ${geometryType} to ${anchorPoint}`)
   },
 
-  getObjectAnchor: (objectId: string): any => {
-    return gameStore.geometry.anchoring.objectOverrides.get(objectId) || null
-  },
-
-  setObjectAnchor: (objectId: string, anchorConfig: any) => {
-    gameStore.geometry.anchoring.objectOverrides.set(objectId, anchorConfig)
-    console.log(`Store: Set object anchor for ${objectId}:`, anchorConfig)
-  },
-
-  clearObjectAnchor: (objectId: string) => {
-    gameStore.geometry.anchoring.objectOverrides.delete(objectId)
-    console.log(`Store: Cleared object anchor for ${objectId}`)
-  },
-
   // Legacy compatibility methods
-  getAnchorConfig: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond') => {
+  getAnchorConfig: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline') => {
     return updateGameStore.getDefaultAnchor(geometryType)
   },
 
-  setAnchorConfig: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond', snapPoint: any) => {
+  setAnchorConfig: (geometryType: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline', snapPoint: any) => {
     updateGameStore.setDefaultAnchor(geometryType, snapPoint)
-  },
+  }
+}
 
-  // Factory methods with unified anchoring
-  createPointWithAnchor: (clickPos: PixeloidCoordinate) => {
-    const snapPoint = updateGameStore.getAnchorConfig('point')
-    const anchoredPos = GeometryHelper.snapToPixeloidAnchor(clickPos, snapPoint)
-    
-    const point: GeometricPoint = {
-      id: updateGameStore.generateUniqueId('point'),
-      x: anchoredPos.x,
-      y: anchoredPos.y,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: GeometryHelper.calculatePointMetadata({ x: anchoredPos.x, y: anchoredPos.y })
+// Listen for window resize events
+window.addEventListener('resize', () => {
+  updateGameStore.updateWindowSize(window.innerWidth, window.innerHeight)
+})
+
+// ================================
+// UNDO / REDO HELPERS
+// ================================
+
+// Capture an object's source properties (metadata is rebuilt on restore)
+function snapshotObject(obj: GeometricObject, index: number): HistoryObjectSnapshot {
+  const { metadata, bboxMesh, ...source } = obj
+  return {
+    object: cloneHistoryValue(source) as SerializedGeometricObject,
+    createdAtScale: metadata?.createdAtScale ?? gameStore.camera.pixeloid_scale,
+    index
+  }
+}
+
+// Copy plain data one level deep into arrays/objects so history never shares
+// vertex arrays or property bags with the live (proxied) objects, which may be edited in place
+function cloneHistoryValue<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(item => (item && typeof item === 'object' ? { ...item } : item)) as T
+  }
+  if (value && typeof value === 'object') {
+    const copy: Record<string, unknown> = {}
+    for (const [key, item] of Object.entries(value)) {
+      copy[key] = Array.isArray(item) ? cloneHistoryValue(item) : isPlainObject(item) ? { ...item } : item
     }
-    
-    // Initialize visibility cache
-    const currentScale = gameStore.camera.pixeloid_scale
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(point, currentScale)
-    
-    point.metadata!.visibilityCache = new Map()
-    point.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(point)
-    
-    return point
-  },
+    return copy as T
+  }
+  return value
+}
 
-  createLineWithAnchor: (clickPos: PixeloidCoordinate, dragPos: PixeloidCoordinate) => {
-    const snapPoint = updateGameStore.getAnchorConfig('line')
-    const anchoredStart = GeometryHelper.snapToPixeloidAnchor(clickPos, snapPoint)
-    
-    const line: GeometricLine = {
-      id: updateGameStore.generateUniqueId('line'),
-      startX: anchoredStart.x,
-      startY: anchoredStart.y,
-      endX: dragPos.x,  // End point can be anywhere
-      endY: dragPos.y,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: GeometryHelper.calculateLineMetadata({
-        startX: anchoredStart.x, startY: anchoredStart.y,
-        endX: dragPos.x, endY: dragPos.y
-      })
+// Structural equality of history values (plain arrays, objects and primitives)
+function isSameHistoryValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (!a || !b || typeof a !== 'object' || typeof b !== 'object' || Array.isArray(a) !== Array.isArray(b)) return false
+  const keysA = Object.keys(a)
+  const keysB = Object.keys(b)
+  return keysA.length === keysB.length &&
+    keysA.every(key => isSameHistoryValue((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]))
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype
+}
+
+// Re-insert a snapshot at its original position in the object list
+function restoreSnapshot(snapshot: HistoryObjectSnapshot): void {
+  const object = cloneHistoryValue(snapshot.object) as GeometricObject
+  object.metadata = GeometryHelper.calculateObjectMetadata(object, snapshot.createdAtScale)
+  updateGameStore.addGeometricObject(object)
+  
+  const objects = gameStore.geometry.objects
+  const currentIndex = objects.length - 1
+  const targetIndex = Math.min(snapshot.index, currentIndex)
+  if (targetIndex !== currentIndex) {
+    const [restored] = objects.splice(currentIndex, 1)
+    objects.splice(targetIndex, 0, restored)
+  }
+  updateGameStore.recalculateScaleTracking()
+}
+
+function recordObjectAdded(label: string, objectId: string): void {
+  const index = gameStore.geometry.objects.findIndex(obj => obj.id === objectId)
+  if (index === -1) return
+  recordHistoryCommand(label, { type: 'add', snapshot: snapshotObject(gameStore.geometry.objects[index], index) })
+}
+
+function recordHistoryCommand(label: string, command: HistoryCommand): void {
+  if (isApplyingHistory || isHistoryPaused) return
+  
+  if (activeHistoryBatch) {
+    // Coalesce repeated updates of the same object into one command
+    if (command.type === 'update') {
+      const existing = activeHistoryBatch.commands.find(
+        (c): c is Extract<HistoryCommand, { type: 'update' }> => c.type === 'update' && c.objectId === command.objectId
+      )
+      if (existing) {
+        for (const key of Object.keys(command.before)) {
+          if (!(key in existing.before)) existing.before[key] = command.before[key]
+        }
+        Object.assign(existing.after, command.after)
+        return
+      }
     }
-    
-    // Initialize visibility cache
-    const currentScale = gameStore.camera.pixeloid_scale
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(line, currentScale)
-    
-    line.metadata!.visibilityCache = new Map()
-    line.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(line)
-    
-    return line
-  },
+    activeHistoryBatch.commands.push(command)
+    return
+  }
+  
+  pushHistoryEntry({ label, commands: [command] })
+}
 
-  createCircleWithAnchor: (clickPos: PixeloidCoordinate, dragPos: PixeloidCoordinate) => {
-    const snapPoint = updateGameStore.getAnchorConfig('circle')
-    const anchoredStart = GeometryHelper.snapToPixeloidAnchor(clickPos, snapPoint)
-    
-    // ISOMETRIC CONSTRAINT: Circle radius derived from width only
-    const width = Math.abs(dragPos.x - anchoredStart.x)
-    const radius = width / 2
-    
-    const circle: GeometricCircle = {
-      id: updateGameStore.generateUniqueId('circle'),
-      centerX: anchoredStart.x + radius,  // Calculate center from anchor
-      centerY: anchoredStart.y + radius,
-      radius,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: GeometryHelper.calculateCircleMetadata({
-        centerX: anchoredStart.x + radius,
-        centerY: anchoredStart.y + radius,
-        radius
-      })
+function pushHistoryEntry(entry: HistoryEntry): void {
+  undoStack.push(entry)
+  if (undoStack.length > gameStore.history.maxDepth) {
+    undoStack.shift()
+  }
+  // A new action invalidates everything that was undone
+  redoStack.length = 0
+  syncHistoryState(entry.label)
+}
+
+function applyHistoryCommand(command: HistoryCommand): void {
+  switch (command.type) {
+    case 'add':
+      restoreSnapshot(command.snapshot)
+      break
+    case 'remove':
+      updateGameStore.removeGeometricObject(command.snapshot.object.id)
+      break
+    case 'update':
+      updateGameStore.updateGeometricObject(command.objectId, cloneHistoryValue(command.after) as Partial<GeometricObject>)
+      break
+    case 'reorder':
+      moveObjectToIndex(command.objectId, command.toIndex)
+      break
+    case 'clear':
+      updateGameStore.clearAllGeometricObjects()
+      break
+    case 'removeGroup':
+      removeGroupFromList(command.group.id, command.fallbackGroupId)
+      break
+  }
+}
+
+function revertHistoryCommand(command: HistoryCommand): void {
+  switch (command.type) {
+    case 'add':
+      updateGameStore.removeGeometricObject(command.snapshot.object.id)
+      break
+    case 'remove':
+      restoreSnapshot(command.snapshot)
+      break
+    case 'update':
+      updateGameStore.updateGeometricObject(command.objectId, cloneHistoryValue(command.before) as Partial<GeometricObject>)
+      break
+    case 'reorder':
+      moveObjectToIndex(command.objectId, command.fromIndex)
+      break
+    case 'clear':
+      for (const snapshot of command.snapshots) {
+        restoreSnapshot(snapshot)
+      }
+      break
+    case 'removeGroup': {
+      const list = gameStore.geometry.groups.list
+      list.splice(Math.min(command.index, list.length), 0, { ...command.group })
+      if (command.wasActive) {
+        gameStore.geometry.groups.activeGroupId = command.group.id
+      }
+      break
     }
-    
-    // Initialize visibility cache
-    const currentScale = gameStore.camera.pixeloid_scale
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(circle, currentScale)
-    
-    circle.metadata!.visibilityCache = new Map()
-    circle.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(circle)
-    
-    return circle
-  },
+  }
+}
 
-  createRectangleWithAnchor: (clickPos: PixeloidCoordinate, dragPos: PixeloidCoordinate) => {
-    const snapPoint = updateGameStore.getAnchorConfig('rectangle')
-    const anchoredStart = GeometryHelper.snapToPixeloidAnchor(clickPos, snapPoint)
-    
-    const width = Math.abs(dragPos.x - anchoredStart.x)
-    const height = Math.abs(dragPos.y - anchoredStart.y)
-    
-    const rectangle: GeometricRectangle = {
-      id: updateGameStore.generateUniqueId('rect'),
-      x: anchoredStart.x,  // Top-left corner
-      y: anchoredStart.y,
-      width,
-      height,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: GeometryHelper.calculateRectangleMetadata({
-        x: anchoredStart.x, y: anchoredStart.y, width, height
-      })
+// Drop a group from the list, handing the active role to the fallback group
+function removeGroupFromList(groupId: string, fallbackGroupId: string): void {
+  const groups = gameStore.geometry.groups
+  const index = groups.list.findIndex(group => group.id === groupId)
+  if (index !== -1) {
+    groups.list.splice(index, 1)
+  }
+  if (groups.activeGroupId === groupId) {
+    groups.activeGroupId = fallbackGroupId
+  }
+}
+
+function syncHistoryState(lastAction: string | null): void {
+  gameStore.history.undoDepth = undoStack.length
+  gameStore.history.redoDepth = redoStack.length
+  gameStore.history.lastAction = lastAction
+  
+  // Drop selected objects that no longer exist
+  const selectedIds = gameStore.geometry.selection.selectedObjectIds
+  const existingIds = selectedIds.filter(id => gameStore.geometry.objects.some(obj => obj.id === id))
+  if (existingIds.length !== selectedIds.length) {
+    if (existingIds.length === 0) {
+      updateGameStore.clearSelection()
+    } else {
+      updateGameStore.setSelectedObjects(existingIds)
     }
-    
-    // Initialize visibility cache
-    const currentScale = gameStore.camera.pixeloid_scale
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(rectangle, currentScale)
-    
-    rectangle.metadata!.visibilityCache = new Map()
-    rectangle.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(rectangle)
-    
-    return rectangle
-  },
+  }
+}
 
-  createDiamondWithAnchor: (clickPos: PixeloidCoordinate, dragPos: PixeloidCoordinate) => {
-    const snapPoint = updateGameStore.getAnchorConfig('diamond')
-    const anchoredStart = GeometryHelper.snapToPixeloidAnchor(clickPos, snapPoint)
-    
-    // ISOMETRIC CONSTRAINT: Diamond height derived from width
-    const width = Math.abs(dragPos.x - anchoredStart.x)
-    const height = width / 4  // Fixed ratio for isometric diamonds
+// Apply object mutations to the spatial index (valtio ops, called synchronously)
+function syncObjectIndex(ops: [string, (string | symbol)[], ...unknown[]][]): void {
+  for (const [, path] of ops) {
+    if (isObjectIndexStale) return
     
-    // Calculate west vertex from top-left anchor
-    const westX = anchoredStart.x
-    const westY = anchoredStart.y + height  // Center Y
-    
-    const diamond: GeometricDiamond = {
-      id: updateGameStore.generateUniqueId('diamond'),
-      anchorX: westX,
-      anchorY: westY,
-      width,
-      height,
-      color: gameStore.geometry.drawing.settings.defaultColor,
-      strokeWidth: gameStore.geometry.drawing.settings.defaultStrokeWidth,
-      strokeAlpha: gameStore.geometry.drawing.settings.strokeAlpha,
-      ...(gameStore.geometry.drawing.settings.fillEnabled && {
-        fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-        fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
-      }),
-      isVisible: true,
-      createdAt: Date.now(),
-      metadata: GeometryHelper.calculateDiamondMetadata({
-        anchorX: westX, anchorY: westY, width, height
-      })
+    // Array-level change (push, splice, length), id or group change - positions, keys or draw order moved, rebuild on next query
+    if (path.length < 2 || path[1] === 'id' || path[1] === 'groupId') {
+      isObjectIndexStale = true
+      return
     }
     
-    // Initialize visibility cache
-    const currentScale = gameStore.camera.pixeloid_scale
-    const visibilityInfo = GeometryHelper.calculateVisibilityState(diamond, currentScale)
+    // Render caches never change an object's bounds
+    if (path.includes('visibilityCache')) continue
     
-    diamond.metadata!.visibilityCache = new Map()
-    diamond.metadata!.visibilityCache.set(currentScale, {
-      visibility: visibilityInfo.visibility,
-      onScreenBounds: visibilityInfo.onScreenBounds
-    })
-    
-    gameStore.geometry.objects.push(diamond)
-    
-    return diamond
+    const object = gameStore.geometry.objects[Number(path[0])]
+    if (object) {
+      indexObject(object)
+    }
   }
 }
 
-// Listen for window resize events
-window.addEventListener('resize', () => {
-  updateGameStore.updateWindowSize(window.innerWidth, window.innerHeight)
-})
+// Rebuild the spatial index and draw order after structural changes
+function ensureObjectIndex(): void {
+  if (!isObjectIndexStale) return
+  
+  const objects = gameStore.geometry.objects
+  const groupRanks = new Map(gameStore.geometry.groups.list.map((group, rank) => [group.id, rank]))
+  
+  objectIndex.clear()
+  objectOrder.clear()
+  objectDrawOrder.clear()
+  objects.forEach((obj, index) => {
+    objectOrder.set(obj.id, index)
+    objectDrawOrder.set(obj.id, (groupRanks.get(resolveObjectGroup(obj).id) ?? 0) * objects.length + index)
+    indexObject(obj)
+  })
+  isObjectIndexStale = false
+}
+
+function indexObject(obj: GeometricObject): void {
+  if (!obj.metadata?.bounds) {
+    objectIndex.remove(obj.id)
+    return
+  }
+  
+  // Pad by half the stroke (min. the 2 pixeloid pick tolerance) so strokes and near clicks are found
+  const padding = Math.max(obj.style.strokeWidth * 0.5, 2)
+  const bounds = obj.metadata.bounds
+  objectIndex.insert(obj.id, {
+    minX: bounds.minX - padding,
+    minY: bounds.minY - padding,
+    maxX: bounds.maxX + padding,
+    maxY: bounds.maxY + padding
+  })
+}
+
+// Map index hits back to store objects, sorted by draw order (objects of hidden groups are dropped)
+function resolveIndexedObjects(ids: string[]): GeometricObject[] {
+  const objects = gameStore.geometry.objects
+  return ids
+    .filter(id => objectOrder.has(id))
+    .sort((a, b) => objectDrawOrder.get(a)! - objectDrawOrder.get(b)!)
+    .map(id => objects[objectOrder.get(id)!])
+    .filter(obj => resolveObjectGroup(obj).isVisible)
+}
+
+// ================================
+// LAYER / GROUP HELPERS
+// ================================
+
+function createDefaultGroup(): ObjectGroup {
+  return { id: DEFAULT_GROUP_ID, name: 'Default', isVisible: true, isLocked: false, opacity: 1 }
+}
+
+function resolveObjectGroup(obj: GeometricObject): ObjectGroup {
+  const list = gameStore.geometry.groups.list
+  return list.find(group => group.id === obj.groupId) ?? list[0]
+}
+
+function deselectGroupObjects(groupId: string): void {
+  const selectedIds = gameStore.geometry.selection.selectedObjectIds
+  const remainingIds = selectedIds.filter(id => {
+    const object = gameStore.geometry.objects.find(obj => obj.id === id)
+    return object !== undefined && resolveObjectGroup(object).id !== groupId
+  })
+  if (remainingIds.length === selectedIds.length) return
+  if (remainingIds.length === 0) {
+    updateGameStore.clearSelection()
+  } else {
+    updateGameStore.setSelectedObjects(remainingIds)
+  }
+}
+
+// Existing object ids ordered by their position in geometry.objects
+function sortByArrayPosition(objectIds: string[]): string[] {
+  const objects = gameStore.geometry.objects
+  return objectIds
+    .map(id => ({ id, index: objects.findIndex(obj => obj.id === id) }))
+    .filter(entry => entry.index !== -1)
+    .sort((a, b) => a.index - b.index)
+    .map(entry => entry.id)
+}
+
+// Array index of the next (step 1) or previous (step -1) object in the same group, -1 if none
+function findGroupNeighbour(objectId: string, step: 1 | -1): number {
+  const objects = gameStore.geometry.objects
+  const index = objects.findIndex(obj => obj.id === objectId)
+  if (index === -1) return -1
+  
+  const groupId = resolveObjectGroup(objects[index]).id
+  for (let i = index + step; i >= 0 && i < objects.length; i += step) {
+    if (resolveObjectGroup(objects[i]).id === groupId) return i
+  }
+  return -1
+}
+
+// Move an object to a new array position, recording the move for undo
+function moveObjectToIndex(objectId: string, toIndex: number): void {
+  const objects = gameStore.geometry.objects
+  const fromIndex = objects.findIndex(obj => obj.id === objectId)
+  if (fromIndex === -1 || fromIndex === toIndex) return
+  
+  recordHistoryCommand('Reorder object', { type: 'reorder', objectId, fromIndex, toIndex })
+  const [object] = objects.splice(fromIndex, 1)
+  objects.splice(toIndex, 0, object)
+}
 
 // Helper function for visibility cache cleanup with distance-based eviction
 function cleanupVisibilityCache(cache: Map<number, any>, currentScale: number): void {
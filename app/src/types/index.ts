@@ -22,6 +22,21 @@ export interface PixeloidCoordinate {
   y: number
 }
 
+// Camera projection: top-down grid or 2:1 dimetric diamond tiles
+export type CameraProjection = 'orthographic' | 'isometric'
+
+// Geometry drawing: anti-aliased vector graphics or exact pixeloid cells (pixel art)
+export type GeometryRenderMode = 'vector' | 'pixel'
+
+// Named camera view: mesh offset + zoom, restored with an eased fly-to
+export interface CameraBookmark {
+  id: string
+  name: string
+  offset: { x: number, y: number }   // vertex_to_pixeloid_offset
+  pixeloidScale: number
+  createdAt: number
+}
+
 // Legacy alias for backward compatibility during migration
 export interface MeshVertexCoordinate extends VertexCoordinate {}
 
@@ -155,8 +170,14 @@ export interface GameState {
     // Scale
     pixeloid_scale: number                 // Zoom level (screen pixels per pixeloid)
     
+    // Projection used by all screen ↔ vertex conversions
+    projection: CameraProjection
+    
     // Derived viewport bounds (stored for efficiency, no recomputation)
     viewport_bounds: ViewportBounds
+    
+    // Saved views (persisted with the scene)
+    bookmarks: CameraBookmark[]
   }
   
   mesh: {
@@ -190,6 +211,10 @@ export interface GameState {
   meshRegistry: MeshRegistryState
   // Static mesh system for transform coherence
   staticMesh: StaticMeshState
+  // Undo/redo history (stacks live outside the proxy, only counters are reactive)
+  history: HistoryState
+  // Sparse chunked tile map painted on the pixeloid grid
+  tileMap: TileMapState
 }
 
 // UI-related types
@@ -248,84 +273,46 @@ export interface BboxMeshReference {
   lastUpdated: number      // Timestamp for consistency tracking
 }
 
-export interface GeometricPoint {
-  id: string
+// Value in an object's `properties` bag (keys are validated by PropertySchemaRegistry)
+export type PropertyValue = string | number | boolean
+
+// Object types of the geometry model
+export type GeometricObjectType = 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline'
+
+// Shape parameters derived from an object's vertices (GeometryVertexCalculator.get*Shape)
+export interface PointShape {
   x: number
   y: number
-  color: number
-  strokeAlpha: number
-  isVisible: boolean
-  createdAt: number
-  metadata: GeometricMetadata
-  bboxMesh?: BboxMeshReference
 }
 
-export interface GeometricLine {
-  id: string
+export interface LineShape {
   startX: number
   startY: number
   endX: number
   endY: number
-  color: number
-  strokeWidth: number
-  strokeAlpha: number
-  isVisible: boolean
-  createdAt: number
-  metadata: GeometricMetadata
-  bboxMesh?: BboxMeshReference
 }
 
-export interface GeometricCircle {
-  id: string
+export interface CircleShape {
   centerX: number
   centerY: number
   radius: number
-  color: number
-  strokeWidth: number
-  fillColor?: number
-  fillAlpha?: number
-  strokeAlpha: number
-  isVisible: boolean
-  createdAt: number
-  metadata: GeometricMetadata
-  bboxMesh?: BboxMeshReference
 }
 
-export interface GeometricRectangle {
-  id: string
+export interface RectangleShape {
   x: number
   y: number
   width: number
   height: number
-  color: number
-  strokeWidth: number
-  fillColor?: number
-  fillAlpha?: number
-  strokeAlpha: number
-  isVisible: boolean
-  createdAt: number
-  metadata: GeometricMetadata
-  bboxMesh?: BboxMeshReference
 }
 
-export interface GeometricDiamond {
-  id: string
+export interface DiamondShape {
   // West corner anchor point
   anchorX: number
   anchorY: number
-  // Width determines the horizontal size
+  // Distance between the west and east corners
   width: number
-  // Height is computed as width/2 (integer/approximate)
+  // Distance from the center to the north / south corners
   height: number
-  color: number
-  strokeWidth: number
-  fillColor?: number
-  fillAlpha?: number
-  strokeAlpha: number
-  isVisible: boolean
-  createdAt: number
-  metadata: GeometricMetadata
-  bboxMesh?: BboxMeshReference
 }
 
 // ================================
@@ -356,6 +343,9 @@ export type PixeloidAnchorPoint =
 export interface AnchorConfig {
   firstPointAnchor: PixeloidAnchorPoint
   secondPointAnchor?: PixeloidAnchorPoint
+  // Point was placed on another object by object snapping - use it as is, skip the anchor
+  firstPointExact?: boolean
+  secondPointExact?: boolean
 }
 
 // Geometry style properties (separated from coordinates)
@@ -367,11 +357,18 @@ export interface GeometryStyle {
   fillAlpha?: number
 }
 
-// NEW: Stable geometric object with pre-computed vertices
+// Stable geometric object: discriminated by `type`, coordinates only as pre-computed vertices.
+// Vertex layout per type (built and read by GeometryVertexCalculator):
+// - point:     [position]
+// - line:      [start, end]
+// - circle:    [west, east, center]
+// - rectangle: [top-left, top-right, bottom-right, bottom-left]
+// - diamond:   [west, north, east, south]
+// - polygon / polyline: path vertices in drawing order (a polygon joins back to the first)
 export interface GeometricObjectStable {
   // Identity
   id: string
-  type: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond'
+  type: GeometricObjectType
   isVisible: boolean
   createdAt: number
   
@@ -384,8 +381,13 @@ export interface GeometricObjectStable {
   // Style properties (no coordinates here!)
   style: GeometryStyle
   
+  // Layer / group membership and typed key/value properties
+  groupId?: string
+  properties?: Record<string, PropertyValue>
+  
   // Metadata for UI/selection (derived from vertices)
   metadata: GeometricMetadata
+  bboxMesh?: BboxMeshReference
 }
 
 // Preview state for drawing
@@ -394,7 +396,7 @@ export interface DrawingPreview {
   vertices: PixeloidVertex[]
   
   // Geometry type for rendering
-  type: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond'
+  type: GeometricObjectType
   
   // Style properties for preview rendering
   style: GeometryStyle
@@ -403,21 +405,60 @@ export interface DrawingPreview {
   isPreview: true
 }
 
-// Legacy types (for backward compatibility during migration)
-export type GeometricObject = GeometricPoint | GeometricLine | GeometricCircle | GeometricRectangle | GeometricDiamond
+// The geometry model used by the store, renderers and editors
+export type GeometricObject = GeometricObjectStable
+
+// ================================
+// LEGACY GEOMETRY (scene format v1)
+// ================================
+
+// Per-shape objects with coordinates and style as flat fields, as written by version 1 scenes.
+// Only read when loading old documents - LegacyGeometryConverter turns them into GeometricObject.
+interface LegacyObjectFields {
+  id: string
+  color: number
+  strokeWidth: number
+  strokeAlpha: number
+  fillColor?: number
+  fillAlpha?: number
+  isVisible: boolean
+  groupId?: string
+  properties?: Record<string, PropertyValue>
+  createdAt: number
+}
+
+export type LegacyGeometricPoint = PointShape & Omit<LegacyObjectFields, 'strokeWidth' | 'fillColor' | 'fillAlpha'>
+export type LegacyGeometricLine = LineShape & Omit<LegacyObjectFields, 'fillColor' | 'fillAlpha'>
+export type LegacyGeometricCircle = CircleShape & LegacyObjectFields
+export type LegacyGeometricRectangle = RectangleShape & LegacyObjectFields
+export type LegacyGeometricDiamond = DiamondShape & LegacyObjectFields
+export type LegacyGeometricPolygon = LegacyObjectFields & { vertices: PixeloidVertex[], closed: true }
+export type LegacyGeometricPolyline = Omit<LegacyObjectFields, 'fillColor' | 'fillAlpha'> & { vertices: PixeloidVertex[], closed: false }
+
+export type LegacyGeometricObject =
+  | LegacyGeometricPoint
+  | LegacyGeometricLine
+  | LegacyGeometricCircle
+  | LegacyGeometricRectangle
+  | LegacyGeometricDiamond
+  | LegacyGeometricPolygon
+  | LegacyGeometricPolyline
+
 
 // Anchor point configuration for unified pixeloid anchoring (DEPRECATED - use PixeloidAnchorPoint)
 export type AnchorSnapPoint = PixeloidAnchorPoint
 
 export interface GeometryDrawingState {
   // Current drawing mode
-  mode: 'none' | 'point' | 'line' | 'circle' | 'rectangle' | 'diamond'
+  mode: 'none' | 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline' | 'raycast' | 'pathfinding' | 'fov' | 'tiles'
   // Active drawing operation (NEW: stores exact user input)
   activeDrawing: {
-    type: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | null
+    type: 'point' | 'line' | 'circle' | 'rectangle' | 'diamond' | 'polygon' | 'polyline' | null
     // EXACT user input coordinates (never modified)
     firstPixeloidPos: PixeloidCoordinate | null
     currentPixeloidPos: PixeloidCoordinate | null
+    // Snapped vertices placed so far (polygon / polyline drawing only)
+    vertices: PixeloidVertex[]
     // Anchor configuration for this drawing operation
     anchorConfig: AnchorConfig | null
     isDrawing: boolean
@@ -435,34 +476,142 @@ export interface GeometryDrawingState {
   }
 }
 
+export interface Raycast {
+  id: string
+  startX: number
+  startY: number
+  endX: number
+  endY: number
+  color: number
+  // Pixeloid cells traversed by the ray, in order (integer cell coordinates)
+  steps: PixeloidCoordinate[]
+  // Point where the ray entered the first geometry it hit (empty when nothing was hit)
+  hitPoints: PixeloidCoordinate[]
+  // Where the traversal stopped: first hit, end point or settings.maxDistance along the ray
+  stopX: number
+  stopY: number
+  hitObjectId: string | null
+  createdAt: number
+}
+
 export interface RaycastState {
   // Active raycast lines for visualization
-  activeRaycasts: Array<{
-    id: string
-    startX: number
-    startY: number
-    endX: number
-    endY: number
-    color: number
-    hitPoints: PixeloidCoordinate[]
-    createdAt: number
-  }>
+  activeRaycasts: Raycast[]
   // Raycast settings
   settings: {
     maxDistance: number
     visualizationColor: number
     showSteps: boolean
     stepColor: number
+    hitColor: number
   }
 }
 
+// Pathfinding neighbourhood: 4 = orthogonal steps only, 8 = orthogonal and diagonal steps
+export type PathConnectivity = 4 | 8
+
+// When a diagonal step may pass the corner between its two orthogonal neighbours:
+// 'allow' always, 'one-free' unless both are blocked, 'never' unless both are free
+export type CornerCuttingRule = 'allow' | 'one-free' | 'never'
+
+// 'blocked' = start or goal cell is an obstacle, 'limit' = gave up after settings.maxExpandedNodes
+export type PathfindingStatus = 'found' | 'unreachable' | 'blocked' | 'limit'
+
+export interface PathfindingResult {
+  status: PathfindingStatus
+  // Cells from start to goal, both included (empty unless found)
+  path: PixeloidCoordinate[]
+  // Path length in pixeloids (diagonal steps cost √2)
+  cost: number
+  // Search state when the search stopped (integer cell coordinates)
+  openSet: PixeloidCoordinate[]
+  closedSet: PixeloidCoordinate[]
+  expandedNodes: number
+}
+
+export interface PathfindingState {
+  // Start and goal cells (integer cell coordinates)
+  start: PixeloidCoordinate | null
+  goal: PixeloidCoordinate | null
+  // Last search between start and goal (null until both are set)
+  result: PathfindingResult | null
+  settings: {
+    connectivity: PathConnectivity
+    cornerCutting: CornerCuttingRule
+    maxExpandedNodes: number
+    showSearch: boolean   // Draw the open and closed sets
+    pathColor: number
+    openColor: number
+    closedColor: number
+  }
+}
+
+export interface FieldOfViewState {
+  // Cell the last FOV was computed from (null outside the FOV tool)
+  origin: PixeloidCoordinate | null
+  // Number of visible cells (the cells themselves are kept by FieldOfView, outside the store)
+  visibleCount: number
+  settings: {
+    radius: number        // Sight radius in pixeloids
+    color: number
+  }
+}
+
+// Key point of another object that drawing and dragging can snap to (pixeloid coordinates)
+export type SnapTargetKind = 'point' | 'endpoint' | 'midpoint' | 'center' | 'vertex' | 'edge'
+
+export interface SnapTarget {
+  x: number
+  y: number
+  kind: SnapTargetKind            // 'edge' = nearest point on an outline, used when no key point is in range
+  objectId: string
+}
+
+// Alignment guide shown while dragging: a line along `axis` at `position`, spanning `from`-`to`
+// ('x' = vertical line at x = position, 'y' = horizontal line at y = position)
+export interface SnapGuide {
+  axis: 'x' | 'y'
+  position: number
+  from: number
+  to: number
+}
+
+export interface SnapState {
+  enabled: boolean                // Snap to other objects while drawing, dragging and reshaping
+  tolerance: number               // Snap distance in screen pixels
+  // Feedback for the canvas (SnapGuideRenderer)
+  activeTarget: SnapTarget | null
+  guides: SnapGuide[]
+}
+
+// User-defined layer/group of geometric objects (objects reference it by groupId;
+// a missing or unknown groupId falls back to the bottom group)
+export interface ObjectGroup {
+  id: string
+  name: string
+  isVisible: boolean
+  isLocked: boolean               // Locked objects cannot be picked, dragged or reshaped on the canvas
+  opacity: number                 // 0-1, applied to every object of the group
+}
+
 export interface GeometryState {
-  // All geometric objects on the canvas
+  // All geometric objects on the canvas (draw order within a group = array order)
   objects: GeometricObject[]
+  // Layers / groups - z-order bottom first, always at least one group
+  groups: {
+    list: ObjectGroup[]
+    activeGroupId: string         // Group that receives newly created objects
+  }
   // Drawing state
   drawing: GeometryDrawingState
   // Raycast visualization state
   raycast: RaycastState
+  // A* pathfinding tool (start, goal and last search)
+  pathfinding: PathfindingState
+  // Field-of-view tool (shadowcasting from the mouse cell)
+  fieldOfView: FieldOfViewState
+  // Object snapping and alignment guides
+  snapping: SnapState
   // Enhanced anchor configuration for UI control
   anchoring: {
     // Global defaults for new geometry creation
@@ -472,9 +621,9 @@ export interface GeometryState {
       circle: PixeloidAnchorPoint
       rectangle: PixeloidAnchorPoint
       diamond: PixeloidAnchorPoint
+      polygon: PixeloidAnchorPoint
+      polyline: PixeloidAnchorPoint
     }
-    // Per-object anchor overrides (objectId -> anchorConfig)
-    objectOverrides: Map<string, AnchorConfig>
     // Enable/disable pre-computed anchors (for zoom stability)
     enablePreComputedAnchors: boolean
   }
@@ -483,6 +632,7 @@ export interface GeometryState {
     background: boolean  // Grid and background elements (backgroundLayer)
     geometry: boolean    // Geometric shapes and objects (geometryLayer)
     selection: boolean   // Selection highlights (selectionLayer)
+    tiles: boolean       // Painted tile map (tileLayer)
     raycast: boolean     // Raycast lines and debug visuals (raycastLayer)
     bbox: boolean        // Bounding box overlay for comparison (bboxLayer)
     mirror: boolean      // Mirror layer for cached texture sprites
@@ -492,14 +642,23 @@ export interface GeometryState {
   filterEffects: {
     pixelate: boolean    // Pixeloid-perfect pixelation filter enabled
   }
+  // How objects are drawn: vector graphics or exact pixeloid cells
+  renderMode: GeometryRenderMode
   // Selection state
   selection: {
-    selectedObjectId: string | null
+    selectedObjectId: string | null     // Primary (most recently selected) object
+    selectedObjectIds: string[]         // Full selection set, primary last
     isEditPanelOpen: boolean
+    // Rubber-band box selection in progress (pixeloid coordinates)
+    marquee: {
+      start: PixeloidCoordinate
+      end: PixeloidCoordinate
+      additive: boolean                 // Shift held: add to the existing selection
+    } | null
   }
   // Clipboard state for copy/paste
   clipboard: {
-    copiedObject: GeometricObject | null
+    copiedObjects: GeometricObject[]
   }
   // Favorites system
   favorites: {
@@ -563,3 +722,117 @@ export interface MeshRegistryState {
     lastMeshUpdate: number
   }
 }
+
+// ================================
+// TILE MAP
+// ================================
+
+// Paintable tile type - drawn with its texture when one is set, otherwise with its color
+export interface TileType {
+  id: string
+  name: string
+  color: number
+  texture: string | null          // Image URL or data URL
+}
+
+export type TileBrush = 'paint' | 'erase' | 'fill'
+
+// Square block of tiles - only chunks containing at least one tile exist
+export interface TileChunk {
+  chunkX: number
+  chunkY: number
+  tiles: Record<string, string>   // "localX,localY" -> tile type id
+  tileCount: number
+}
+
+export interface TileMapState {
+  chunkSize: number               // Tiles per chunk side
+  chunks: Record<string, TileChunk>  // "chunkX,chunkY" -> chunk (plain object for Valtio compatibility)
+  palette: TileType[]
+  activeTileTypeId: string | null
+  brush: TileBrush
+  tileCount: number
+  settings: {
+    maxFillTiles: number          // Flood fill gives up beyond this (the map is unbounded)
+    showChunkBounds: boolean
+  }
+}
+
+// ================================
+// SCENE PERSISTENCE
+// ================================
+
+// Geometric object as written to a scene file (metadata is regenerated on load)
+export type SerializedGeometricObject = Omit<GeometricObject, 'metadata' | 'bboxMesh'>
+
+export interface SerializedSceneObject {
+  object: SerializedGeometricObject
+  createdAtScale: number          // Preserved so zoom span limits survive a reload
+}
+
+// Versioned scene document (JSON-safe: no Maps, Sets or branded coordinates)
+export interface SceneDocument {
+  format: 'pixy-scene'
+  version: number
+  savedAt: number
+  objects: SerializedSceneObject[]
+  groups?: ObjectGroup[]          // Optional - scenes saved before layers load into the default group
+  bookmarks?: CameraBookmark[]    // Optional - scenes saved before camera bookmarks have none
+  tileMap: {
+    chunkSize: number
+    chunks: Record<string, TileChunk>
+    palette?: TileType[]          // Optional - scenes saved before the tile map keep the palette in use
+  }
+  favorites: string[]
+  anchoring: {
+    defaults: GeometryState['anchoring']['defaults']
+  }
+  drawingSettings: GeometryDrawingState['settings']
+  camera: {
+    offset: { x: number, y: number }
+    pixeloidScale: number
+    projection: CameraProjection
+  }
+}
+
+// Rolling autosave kept in IndexedDB for crash recovery (id is the save timestamp)
+export interface AutosaveSnapshot {
+  id: number
+  savedAt: number
+  objectCount: number
+  json: string              // SceneDocument as written by SceneSerializer.toJSON
+}
+
+// ================================
+// UNDO / REDO HISTORY
+// ================================
+
+// Object snapshot kept in history (metadata is regenerated when it is restored)
+export interface HistoryObjectSnapshot {
+  object: SerializedGeometricObject
+  createdAtScale: number
+  index: number                   // Position in geometry.objects when captured
+}
+
+// Single reversible geometry mutation
+export type HistoryCommand =
+  | { type: 'add', snapshot: HistoryObjectSnapshot }
+  | { type: 'remove', snapshot: HistoryObjectSnapshot }
+  | { type: 'update', objectId: string, before: Record<string, unknown>, after: Record<string, unknown> }
+  | { type: 'reorder', objectId: string, fromIndex: number, toIndex: number }
+  | { type: 'clear', snapshots: HistoryObjectSnapshot[] }
+  // Group removal; its objects' moves to fallbackGroupId are recorded as updates in the same entry
+  | { type: 'removeGroup', group: ObjectGroup, index: number, fallbackGroupId: string, wasActive: boolean }
+
+// One undo step - may group several commands (e.g. a whole drag)
+export interface HistoryEntry {
+  label: string
+  commands: HistoryCommand[]
+}
+
+export interface HistoryState {
+  undoDepth: number
+  redoDepth: number
+  maxDepth: number
+  lastAction: string | null
+}
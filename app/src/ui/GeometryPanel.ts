@@ -1,5 +1,12 @@
 import { subscribe } from 'valtio'
 import { gameStore, updateGameStore } from '../store/gameStore'
+import { KeybindingRegistry } from '../game/KeybindingRegistry'
+import { SceneSerializer } from '../game/SceneSerializer'
+import { SvgExporter, type SvgExportScope } from '../game/SvgExporter'
+import { SvgImporter } from '../game/SvgImporter'
+import type { PngExporter } from '../game/PngExporter'
+import type { CornerCuttingRule } from '../types'
+import type { AutosaveManager } from '../game/AutosaveManager'
 import {
   updateElement
 } from './handlers/UIHandlers'
@@ -7,6 +14,9 @@ import {
 export class GeometryPanel {
   private elements: Map<string, HTMLElement> = new Map()
   private isVisible: boolean = false
+  private lastPaletteSignature: string = ''
+  private pngExporter: PngExporter | null = null
+  private autosave: AutosaveManager | null = null
   
   constructor() {
     this.initializeElements()
@@ -28,12 +38,31 @@ export class GeometryPanel {
       'geometry-fill-alpha',
       'geometry-stroke-alpha',
       'geometry-default-texture',
+      'geometry-snap-objects',
+      'geometry-snap-tolerance',
       // Anchor control elements
       'anchor-point',
       'anchor-line',
       'anchor-circle',
       'anchor-rectangle',
-      'anchor-diamond'
+      'anchor-diamond',
+      'anchor-polygon',
+      'anchor-polyline',
+      // Tile map elements
+      'tile-palette',
+      'tile-active-type',
+      'tile-count',
+      'tile-show-chunks',
+      // Pathfinding elements
+      'pathfinding-connectivity',
+      'pathfinding-corner-cutting',
+      'pathfinding-show-search',
+      'pathfinding-status',
+      'pathfinding-length',
+      'pathfinding-expanded',
+      // Field of view elements
+      'fov-radius',
+      'fov-visible-count'
     ]
     
     elementIds.forEach(id => {
@@ -57,7 +86,7 @@ export class GeometryPanel {
   
   private setupEventHandlers(): void {
     // Drawing mode buttons
-    const modes = ['none', 'point', 'line', 'circle', 'rectangle', 'diamond']
+    const modes = ['none', 'point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline', 'raycast', 'pathfinding', 'fov', 'tiles']
     modes.forEach(mode => {
       const button = document.getElementById(`geometry-mode-${mode}`)
       if (button) {
@@ -132,6 +161,25 @@ export class GeometryPanel {
       })
     }
 
+    // Object snapping toggle and distance
+    const snapObjectsElement = this.elements.get('geometry-snap-objects') as HTMLInputElement
+    if (snapObjectsElement) {
+      snapObjectsElement.addEventListener('change', () => {
+        updateGameStore.setObjectSnapping(snapObjectsElement.checked)
+      })
+    }
+
+    const snapToleranceElement = this.elements.get('geometry-snap-tolerance') as HTMLInputElement
+    if (snapToleranceElement) {
+      snapToleranceElement.addEventListener('change', () => {
+        const pixels = parseFloat(snapToleranceElement.value)
+        if (Number.isFinite(pixels)) {
+          updateGameStore.setSnapTolerance(pixels)
+        }
+        snapToleranceElement.value = gameStore.geometry.snapping.tolerance.toString()
+      })
+    }
+
     // Fill alpha slider
     const fillAlphaElement = this.elements.get('geometry-fill-alpha') as HTMLInputElement
     if (fillAlphaElement) {
@@ -157,6 +205,15 @@ export class GeometryPanel {
     // Anchor control dropdowns
     this.setupAnchorControls()
     
+    // Tile brushes and palette
+    this.setupTileControls()
+    
+    // Pathfinding settings
+    this.setupPathfindingControls()
+    
+    // Field of view radius
+    this.setupFieldOfViewControls()
+    
     // Clear all button
     const clearButton = document.getElementById('geometry-clear-all')
     if (clearButton) {
@@ -165,6 +222,68 @@ export class GeometryPanel {
       })
     }
     
+    // Clear raycasts button
+    const clearRaycastsButton = document.getElementById('geometry-clear-raycasts')
+    if (clearRaycastsButton) {
+      clearRaycastsButton.addEventListener('click', () => {
+        updateGameStore.clearRaycasts()
+      })
+    }
+    
+    // Clear tiles button
+    const clearTilesButton = document.getElementById('geometry-clear-tiles')
+    if (clearTilesButton) {
+      clearTilesButton.addEventListener('click', () => {
+        updateGameStore.clearTiles()
+      })
+    }
+    
+    // Scene save/load buttons
+    const saveSceneButton = document.getElementById('geometry-save-scene')
+    if (saveSceneButton) {
+      saveSceneButton.addEventListener('click', () => {
+        this.saveScene()
+      })
+    }
+
+    const loadSceneButton = document.getElementById('geometry-load-scene')
+    if (loadSceneButton) {
+      loadSceneButton.addEventListener('click', () => {
+        this.openSceneFile()
+      })
+    }
+
+    // Restore the autosave picked in the snapshot list
+    const restoreAutosaveButton = document.getElementById('autosave-restore')
+    if (restoreAutosaveButton) {
+      restoreAutosaveButton.addEventListener('click', () => {
+        this.restoreAutosave()
+      })
+    }
+
+    // SVG export button (options are read from the inputs next to it)
+    const exportSvgButton = document.getElementById('geometry-export-svg')
+    if (exportSvgButton) {
+      exportSvgButton.addEventListener('click', () => {
+        this.exportSvg()
+      })
+    }
+
+    // PNG export button (shares the scope and scale inputs with the SVG export)
+    const exportPngButton = document.getElementById('geometry-export-png')
+    if (exportPngButton) {
+      exportPngButton.addEventListener('click', () => {
+        this.exportPng()
+      })
+    }
+
+    const importSvgButton = document.getElementById('geometry-import-svg')
+    if (importSvgButton) {
+      importSvgButton.addEventListener('click', () => {
+        this.openSvgFile()
+      })
+    }
+    
     // Close button
     const closeBtn = document.getElementById('close-geometry-panel')
     if (closeBtn) {
@@ -175,9 +294,15 @@ export class GeometryPanel {
   }
 
   private setupKeyboardHandlers(): void {
-    document.addEventListener('keydown', (event) => {
-      // ESC key - clear selection if entity is selected, or set drawing mode to none
-      if (event.key === 'Escape' && this.isVisible) {
+    // ESC key - clear selection if entity is selected, or set drawing mode to none
+    KeybindingRegistry.register({
+      id: 'selection.clear',
+      label: 'Deselect / stop drawing',
+      category: 'Drawing',
+      context: 'canvas',
+      defaultBindings: ['Escape'],
+      onPress: () => {
+        if (!this.isVisible) return false
         if (gameStore.geometry.selection.selectedObjectId) {
           // If an entity is selected, deselect it
           updateGameStore.clearSelection()
@@ -186,7 +311,6 @@ export class GeometryPanel {
           // If no entity selected, set drawing mode to none
           updateGameStore.setDrawingMode('none')
         }
-        event.preventDefault()
       }
     })
   }
@@ -202,9 +326,9 @@ export class GeometryPanel {
     updateElement(this.elements, 'geometry-objects-count', 
       gameStore.geometry.objects.length.toString(), 'text-primary')
     
-    // Selected count (placeholder for future selection feature)
+    // Selected count
     updateElement(this.elements, 'geometry-selected-count', 
-      '0', 'text-info')
+      gameStore.geometry.selection.selectedObjectIds.length.toString(), 'text-info')
     
     
     // Drawing settings
@@ -231,6 +355,16 @@ export class GeometryPanel {
       fillEnabledInput.checked = gameStore.geometry.drawing.settings.fillEnabled
     }
 
+    // Object snapping
+    const snapObjectsInput = this.elements.get('geometry-snap-objects') as HTMLInputElement
+    if (snapObjectsInput) {
+      snapObjectsInput.checked = gameStore.geometry.snapping.enabled
+    }
+    const snapToleranceInput = this.elements.get('geometry-snap-tolerance') as HTMLInputElement
+    if (snapToleranceInput && document.activeElement !== snapToleranceInput) {
+      snapToleranceInput.value = gameStore.geometry.snapping.tolerance.toString()
+    }
+
     // Fill alpha slider
     const fillAlphaInput = this.elements.get('geometry-fill-alpha') as HTMLInputElement
     if (fillAlphaInput) {
@@ -253,10 +387,19 @@ export class GeometryPanel {
     
     // Update anchor control values
     this.updateAnchorValues()
+    
+    // Update tile map controls
+    this.updateTileValues()
+    
+    // Update pathfinding settings and stats
+    this.updatePathfindingValues()
+    
+    // Update field of view settings and stats
+    this.updateFieldOfViewValues()
   }
   
   private updateModeButtons(): void {
-    const modes = ['none', 'point', 'line', 'circle', 'rectangle', 'diamond']
+    const modes = ['none', 'point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline', 'raycast', 'pathfinding', 'fov', 'tiles']
     const currentMode = gameStore.geometry.drawing.mode
     
     modes.forEach(mode => {
@@ -273,6 +416,259 @@ export class GeometryPanel {
     })
   }
 
+  /**
+   * Setup tile brush buttons, chunk bounds toggle and palette editing
+   */
+  private setupTileControls(): void {
+    const brushes = ['paint', 'erase', 'fill'] as const
+    brushes.forEach(brush => {
+      const button = document.getElementById(`tile-brush-${brush}`)
+      if (button) {
+        button.addEventListener('click', () => {
+          updateGameStore.setTileBrush(brush)
+          // Picking a brush switches to tile painting
+          updateGameStore.setDrawingMode('tiles')
+        })
+      }
+    })
+
+    const showChunksElement = this.elements.get('tile-show-chunks') as HTMLInputElement
+    if (showChunksElement) {
+      showChunksElement.addEventListener('change', () => {
+        updateGameStore.setTileMapSettings({ showChunkBounds: showChunksElement.checked })
+      })
+    }
+
+    const addColorButton = document.getElementById('tile-add-color')
+    if (addColorButton) {
+      addColorButton.addEventListener('click', () => {
+        this.openTileColorPicker()
+      })
+    }
+
+    const addTextureButton = document.getElementById('tile-add-texture')
+    if (addTextureButton) {
+      addTextureButton.addEventListener('click', () => {
+        this.openTileTextureFile()
+      })
+    }
+
+    const removeTypeButton = document.getElementById('tile-remove-type')
+    if (removeTypeButton) {
+      removeTypeButton.addEventListener('click', () => {
+        const activeTileTypeId = gameStore.tileMap.activeTileTypeId
+        if (activeTileTypeId) {
+          updateGameStore.removeTileType(activeTileTypeId)
+        }
+      })
+    }
+  }
+
+  /**
+   * Setup pathfinding connectivity, corner-cutting and search display controls
+   */
+  private setupPathfindingControls(): void {
+    const connectivitySelect = this.elements.get('pathfinding-connectivity') as HTMLSelectElement
+    if (connectivitySelect) {
+      connectivitySelect.addEventListener('change', () => {
+        updateGameStore.setPathfindingSettings({ connectivity: connectivitySelect.value === '4' ? 4 : 8 })
+      })
+    }
+
+    const cornerCuttingSelect = this.elements.get('pathfinding-corner-cutting') as HTMLSelectElement
+    if (cornerCuttingSelect) {
+      cornerCuttingSelect.addEventListener('change', () => {
+        updateGameStore.setPathfindingSettings({ cornerCutting: cornerCuttingSelect.value as CornerCuttingRule })
+      })
+    }
+
+    const showSearchInput = this.elements.get('pathfinding-show-search') as HTMLInputElement
+    if (showSearchInput) {
+      showSearchInput.addEventListener('change', () => {
+        updateGameStore.setPathfindingSettings({ showSearch: showSearchInput.checked })
+      })
+    }
+
+    const clearButton = document.getElementById('pathfinding-clear')
+    if (clearButton) {
+      clearButton.addEventListener('click', () => {
+        updateGameStore.clearPathfinding()
+      })
+    }
+  }
+
+  /**
+   * Update pathfinding controls and last search stats from store
+   */
+  private updatePathfindingValues(): void {
+    const { result, settings } = gameStore.geometry.pathfinding
+
+    const connectivitySelect = this.elements.get('pathfinding-connectivity') as HTMLSelectElement
+    if (connectivitySelect) {
+      connectivitySelect.value = settings.connectivity.toString()
+    }
+    const cornerCuttingSelect = this.elements.get('pathfinding-corner-cutting') as HTMLSelectElement
+    if (cornerCuttingSelect) {
+      cornerCuttingSelect.value = settings.cornerCutting
+      // Corner cutting only applies to diagonal steps
+      cornerCuttingSelect.disabled = settings.connectivity === 4
+    }
+    const showSearchInput = this.elements.get('pathfinding-show-search') as HTMLInputElement
+    if (showSearchInput) {
+      showSearchInput.checked = settings.showSearch
+    }
+
+    updateElement(this.elements, 'pathfinding-status', result?.status ?? 'none', result?.status === 'found' ? 'text-success' : 'text-info')
+    updateElement(this.elements, 'pathfinding-length',
+      result?.status === 'found' ? `${result.path.length} cells (${result.cost.toFixed(2)})` : '-',
+      'text-info')
+    updateElement(this.elements, 'pathfinding-expanded', (result?.expandedNodes ?? 0).toString(), 'text-info')
+  }
+
+  /**
+   * Setup the field-of-view radius input
+   */
+  private setupFieldOfViewControls(): void {
+    const radiusInput = this.elements.get('fov-radius') as HTMLInputElement
+    if (radiusInput) {
+      radiusInput.addEventListener('change', () => {
+        const radius = parseInt(radiusInput.value, 10)
+        if (Number.isFinite(radius)) {
+          updateGameStore.setFieldOfViewSettings({ radius: Math.min(64, Math.max(1, radius)) })
+        }
+      })
+    }
+  }
+
+  /**
+   * Update the field-of-view radius and visible cell count from store
+   */
+  private updateFieldOfViewValues(): void {
+    const fieldOfView = gameStore.geometry.fieldOfView
+    const radiusInput = this.elements.get('fov-radius') as HTMLInputElement
+    if (radiusInput && document.activeElement !== radiusInput) {
+      radiusInput.value = fieldOfView.settings.radius.toString()
+    }
+    updateElement(this.elements, 'fov-visible-count', fieldOfView.visibleCount.toString(), 'text-warning')
+  }
+
+  /**
+   * Update tile brush buttons, stats and palette swatches from store
+   */
+  private updateTileValues(): void {
+    const tileMap = gameStore.tileMap
+
+    const brushes = ['paint', 'erase', 'fill'] as const
+    brushes.forEach(brush => {
+      const button = document.getElementById(`tile-brush-${brush}`)
+      if (button) {
+        button.classList.toggle('btn-secondary', brush === tileMap.brush)
+        button.classList.toggle('btn-outline', brush !== tileMap.brush)
+      }
+    })
+
+    updateElement(this.elements, 'tile-active-type', tileMap.activeTileTypeId ?? 'none', 'text-secondary')
+    updateElement(this.elements, 'tile-count', tileMap.tileCount.toString(), 'text-secondary')
+
+    const showChunksInput = this.elements.get('tile-show-chunks') as HTMLInputElement
+    if (showChunksInput) {
+      showChunksInput.checked = tileMap.settings.showChunkBounds
+    }
+
+    // Only rebuild swatches when the palette or active tile changed
+    const signature = JSON.stringify([tileMap.palette, tileMap.activeTileTypeId])
+    if (signature !== this.lastPaletteSignature) {
+      this.lastPaletteSignature = signature
+      this.renderTilePalette()
+    }
+  }
+
+  /**
+   * Rebuild the palette swatches
+   */
+  private renderTilePalette(): void {
+    const paletteElement = this.elements.get('tile-palette')
+    if (!paletteElement) return
+
+    paletteElement.innerHTML = ''
+    for (const tileType of gameStore.tileMap.palette) {
+      const swatch = document.createElement('button')
+      const isActive = tileType.id === gameStore.tileMap.activeTileTypeId
+      swatch.className = `w-7 h-7 rounded border-2 ${isActive ? 'border-secondary' : 'border-base-300'}`
+      swatch.title = tileType.name
+      swatch.style.backgroundColor = `#${tileType.color.toString(16).padStart(6, '0')}`
+      if (tileType.texture) {
+        swatch.style.backgroundImage = `url("${tileType.texture}")`
+        swatch.style.backgroundSize = 'cover'
+      }
+      swatch.addEventListener('click', () => {
+        updateGameStore.setActiveTileType(tileType.id)
+        if (gameStore.tileMap.brush === 'erase') {
+          updateGameStore.setTileBrush('paint')
+        }
+        updateGameStore.setDrawingMode('tiles')
+      })
+      paletteElement.appendChild(swatch)
+    }
+  }
+
+  /**
+   * Pick a color and add it to the tile palette
+   */
+  private openTileColorPicker(): void {
+    const colorInput = document.createElement('input')
+    colorInput.type = 'color'
+    colorInput.style.position = 'absolute'
+    colorInput.style.left = '-9999px'
+    document.body.appendChild(colorInput)
+    colorInput.click()
+
+    colorInput.addEventListener('change', () => {
+      const hexColor = colorInput.value
+      updateGameStore.addTileType({
+        name: hexColor.replace('#', 'color-'),
+        color: parseInt(hexColor.replace('#', ''), 16),
+        texture: null
+      })
+      document.body.removeChild(colorInput)
+    })
+
+    // Clean up if cancelled
+    colorInput.addEventListener('blur', () => {
+      if (document.body.contains(colorInput)) {
+        document.body.removeChild(colorInput)
+      }
+    })
+  }
+
+  /**
+   * Pick an image file and add it to the tile palette as a texture tile
+   */
+  private openTileTextureFile(): void {
+    const fileInput = document.createElement('input')
+    fileInput.type = 'file'
+    fileInput.accept = 'image/*'
+
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+
+      // Data URLs keep the palette self-contained (no object URLs to revoke)
+      const reader = new FileReader()
+      reader.addEventListener('load', () => {
+        updateGameStore.addTileType({
+          name: file.name.replace(/\.[^.]+$/, ''),
+          color: 0x808080,
+          texture: reader.result as string
+        })
+        console.log(`GeometryPanel: Added texture tile from ${file.name}`)
+      })
+      reader.readAsDataURL(file)
+    })
+
+    fileInput.click()
+  }
+
   /**
    * Open color picker for stroke or fill color
    */
@@ -323,11 +719,193 @@ export class GeometryPanel {
     })
   }
 
+  /**
+   * Download the current scene as a JSON file
+   */
+  private saveScene(): void {
+    const blob = new Blob([SceneSerializer.toJSON()], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `scene_${Date.now()}.json`
+    link.click()
+    
+    URL.revokeObjectURL(url)
+    this.autosave?.markExplicitSave()
+      .catch(error => console.warn('GeometryPanel: Failed to record the explicit save:', error))
+    console.log(`GeometryPanel: Saved scene with ${gameStore.geometry.objects.length} objects`)
+  }
+
+  /**
+   * Replace the current scene with the selected autosave snapshot
+   */
+  private async restoreAutosave(): Promise<void> {
+    const snapshotSelect = document.getElementById('autosave-snapshots') as HTMLSelectElement | null
+    if (!this.autosave || !snapshotSelect?.value) return
+    
+    const label = snapshotSelect.selectedOptions[0]?.textContent ?? 'this autosave'
+    if (!confirm(`Replace the current scene with ${label}?`)) return
+    
+    try {
+      await this.autosave.restore(Number(snapshotSelect.value))
+    } catch (error) {
+      console.error('GeometryPanel: Failed to restore autosave:', error)
+      alert((error as Error).message)
+    }
+  }
+
+  /**
+   * Refill the autosave snapshot list (newest first)
+   */
+  private async refreshAutosaveList(): Promise<void> {
+    const snapshotSelect = document.getElementById('autosave-snapshots') as HTMLSelectElement | null
+    if (!this.autosave || !snapshotSelect) return
+    
+    const snapshots = await this.autosave.getSnapshots()
+    snapshotSelect.innerHTML = snapshots.length === 0
+      ? '<option value="">No autosaves yet</option>'
+      : snapshots.map(snapshot =>
+          `<option value="${snapshot.id}">${new Date(snapshot.savedAt).toLocaleTimeString()} (${snapshot.objectCount} objects)</option>`
+        ).join('')
+  }
+
+  /**
+   * Download the scene (or the selection / viewport) as an SVG file
+   */
+  private exportSvg(): void {
+    const scopeSelect = document.getElementById('svg-export-scope') as HTMLSelectElement | null
+    const scaleInput = document.getElementById('svg-export-scale') as HTMLInputElement | null
+    const gridToggle = document.getElementById('svg-export-grid') as HTMLInputElement | null
+    
+    let svg: string
+    try {
+      svg = SvgExporter.export({
+        scope: (scopeSelect?.value as SvgExportScope | undefined) ?? 'all',
+        scale: scaleInput ? parseFloat(scaleInput.value) : SvgExporter.DEFAULT_OPTIONS.scale,
+        includeGrid: gridToggle?.checked ?? false
+      })
+    } catch (error) {
+      console.error('GeometryPanel: Failed to export SVG:', error)
+      alert((error as Error).message)
+      return
+    }
+    
+    const blob = new Blob([svg], { type: 'image/svg+xml' })
+    const url = URL.createObjectURL(blob)
+    
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `scene_${Date.now()}.svg`
+    link.click()
+    
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * Render the scope offscreen and download it as a PNG file
+   */
+  private async exportPng(): Promise<void> {
+    if (!this.pngExporter) {
+      console.warn('GeometryPanel: PNG exporter not registered')
+      return
+    }
+    
+    const scopeSelect = document.getElementById('svg-export-scope') as HTMLSelectElement | null
+    const scaleInput = document.getElementById('svg-export-scale') as HTMLInputElement | null
+    const gridToggle = document.getElementById('svg-export-grid') as HTMLInputElement | null
+    const bboxToggle = document.getElementById('png-export-bbox') as HTMLInputElement | null
+    const pixelateToggle = document.getElementById('png-export-pixelate') as HTMLInputElement | null
+    
+    let blob: Blob
+    try {
+      blob = await this.pngExporter.export({
+        scope: (scopeSelect?.value as SvgExportScope | undefined) ?? 'all',
+        scale: scaleInput ? parseFloat(scaleInput.value) : SvgExporter.DEFAULT_OPTIONS.scale,
+        includeGrid: gridToggle?.checked ?? false,
+        includeBbox: bboxToggle?.checked ?? false,
+        includePixelate: pixelateToggle?.checked ?? false
+      })
+    } catch (error) {
+      console.error('GeometryPanel: Failed to export PNG:', error)
+      alert((error as Error).message)
+      return
+    }
+    
+    const url = URL.createObjectURL(blob)
+    
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `scene_${Date.now()}.png`
+    link.click()
+    
+    URL.revokeObjectURL(url)
+  }
+
+  /**
+   * Pick an SVG file and add its shapes to the active layer, then report what was skipped
+   */
+  private openSvgFile(): void {
+    const fileInput = document.createElement('input')
+    fileInput.type = 'file'
+    fileInput.accept = '.svg,image/svg+xml'
+    
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+      
+      const scaleInput = document.getElementById('svg-import-scale') as HTMLInputElement | null
+      const originXInput = document.getElementById('svg-import-origin-x') as HTMLInputElement | null
+      const originYInput = document.getElementById('svg-import-origin-y') as HTMLInputElement | null
+      
+      try {
+        const result = SvgImporter.import(await file.text(), {
+          scale: scaleInput ? parseFloat(scaleInput.value) : SvgImporter.DEFAULT_OPTIONS.scale,
+          originX: originXInput ? parseFloat(originXInput.value) : SvgImporter.DEFAULT_OPTIONS.originX,
+          originY: originYInput ? parseFloat(originYInput.value) : SvgImporter.DEFAULT_OPTIONS.originY
+        })
+        updateGameStore.setSelectedObjects(result.createdIds)
+        alert(SvgImporter.summarize(result))
+        console.log(`GeometryPanel: Imported SVG from ${file.name}`)
+      } catch (error) {
+        console.error('GeometryPanel: Failed to import SVG:', error)
+        alert((error as Error).message)
+      }
+    })
+    
+    fileInput.click()
+  }
+
+  /**
+   * Pick a scene JSON file and replace the current scene with it
+   */
+  private openSceneFile(): void {
+    // Create a temporary file input element
+    const fileInput = document.createElement('input')
+    fileInput.type = 'file'
+    fileInput.accept = '.json,application/json'
+    
+    fileInput.addEventListener('change', async () => {
+      const file = fileInput.files?.[0]
+      if (!file) return
+      
+      try {
+        SceneSerializer.load(await file.text())
+        console.log(`GeometryPanel: Loaded scene from ${file.name}`)
+      } catch (error) {
+        console.error('GeometryPanel: Failed to load scene:', error)
+        alert((error as Error).message)
+      }
+    })
+    
+    fileInput.click()
+  }
+
   /**
    * Setup anchor control dropdowns for each geometry type
    */
   private setupAnchorControls(): void {
-    const geometryTypes = ['point', 'line', 'circle', 'rectangle', 'diamond']
+    const geometryTypes = ['point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline']
     const anchorOptions = [
       { value: 'top-left', label: 'Top Left' },
       { value: 'top-mid', label: 'Top Center' },
@@ -372,7 +950,7 @@ export class GeometryPanel {
    * Update anchor dropdown values from store
    */
   private updateAnchorValues(): void {
-    const geometryTypes = ['point', 'line', 'circle', 'rectangle', 'diamond']
+    const geometryTypes = ['point', 'line', 'circle', 'rectangle', 'diamond', 'polygon', 'polyline']
     
     geometryTypes.forEach(type => {
       const selectElement = this.elements.get(`anchor-${type}`) as HTMLSelectElement
@@ -386,6 +964,22 @@ export class GeometryPanel {
   /**
    * Toggle panel visibility
    */
+  /**
+   * Connect the offscreen PNG exporter (needs the game's renderer, so it is created after init)
+   */
+  public registerPngExporter(pngExporter: PngExporter): void {
+    this.pngExporter = pngExporter
+  }
+
+  /**
+   * Connect the autosave manager (records explicit saves and fills the snapshot list)
+   */
+  public registerAutosave(autosave: AutosaveManager): void {
+    this.autosave = autosave
+    autosave.onSnapshotsChanged = () => void this.refreshAutosaveList()
+    void this.refreshAutosaveList()
+  }
+
   public toggle(): void {
     this.isVisible = !this.isVisible
     const panelElement = document.getElementById('geometry-panel')
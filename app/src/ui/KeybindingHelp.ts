@@ -0,0 +1,199 @@
+import { KeybindingRegistry, type KeyAction } from '../game/KeybindingRegistry'
+
+/**
+ * KeybindingHelp is an overlay listing every registered shortcut by category.
+ *
+ * Features:
+ * - Rebind: press the new key combination (Escape cancels); conflicts ask for confirmation
+ * - Reset one action or all actions to the default bindings
+ * - Conflict warnings for chords bound to several actions in the same context
+ * - Toggled with '?' or the Keys button in the control bar
+ */
+export class KeybindingHelp {
+  private panel: HTMLElement
+  private capturingActionId: string | null = null
+  private unsubscribe: () => void
+  public onVisibilityChange: (() => void) | null = null // Keeps the control bar button in sync with '?'
+
+  constructor() {
+    this.panel = this.createPanel()
+    this.setupEventListeners()
+    this.unsubscribe = KeybindingRegistry.subscribe(() => {
+      if (this.isVisible()) {
+        this.render()
+      }
+    })
+
+    KeybindingRegistry.register({
+      id: 'ui.keybindingHelp',
+      label: 'Show / hide keyboard shortcuts',
+      category: 'Interface',
+      context: 'canvas',
+      defaultBindings: ['?'],
+      onPress: () => this.toggle()
+    })
+  }
+
+  /**
+   * Create the overlay HTML structure
+   */
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div')
+    panel.id = 'keybinding-help-panel'
+    panel.className = 'fixed top-20 left-1/2 -translate-x-1/2 w-[32rem] max-h-[calc(100vh-7rem)] bg-base-100/95 backdrop-blur-md border border-base-300 rounded-xl shadow-2xl z-50 flex-col'
+    panel.style.display = 'none' // Start hidden
+
+    panel.innerHTML = `
+      <div class="flex items-center justify-between p-3 border-b border-base-300">
+        <h3 class="text-lg font-semibold">Keyboard Shortcuts</h3>
+        <div class="flex items-center gap-1">
+          <button class="btn btn-xs btn-outline" id="keybinding-reset-all" title="Restore every default binding">Reset All</button>
+          <button class="btn btn-sm btn-ghost btn-circle hover:bg-error hover:text-white transition-colors" id="close-keybinding-help" title="Close">
+            <span class="text-lg">✕</span>
+          </button>
+        </div>
+      </div>
+      <div class="keybinding-conflicts"></div>
+      <div class="keybinding-list flex-1 overflow-y-auto p-3 space-y-3"></div>
+      <div class="p-2 text-xs opacity-70 border-t border-base-300">
+        Canvas shortcuts are ignored while typing in a text field • Escape leaves the field
+      </div>
+    `
+
+    document.body.appendChild(panel)
+    return panel
+  }
+
+  private setupEventListeners(): void {
+    this.panel.querySelector('#close-keybinding-help')?.addEventListener('click', () => this.hide())
+    this.panel.querySelector('#keybinding-reset-all')?.addEventListener('click', () => {
+      KeybindingRegistry.resetBindings()
+    })
+
+    // Row buttons (event delegation)
+    this.panel.querySelector('.keybinding-list')?.addEventListener('click', (event) => {
+      const button = (event.target as HTMLElement).closest('button') as HTMLButtonElement | null
+      const actionId = button?.dataset.actionId
+      if (!button || !actionId) return
+
+      if (button.classList.contains('keybinding-rebind')) {
+        this.startRebind(actionId)
+      } else if (button.classList.contains('keybinding-reset')) {
+        KeybindingRegistry.resetBindings(actionId)
+      } else if (button.classList.contains('keybinding-clear')) {
+        KeybindingRegistry.setBindings(actionId, [])
+      }
+    })
+  }
+
+  /**
+   * Rebuild the conflict warnings and the action list
+   */
+  private render(): void {
+    const actions = KeybindingRegistry.getActions()
+    const labelOf = (actionId: string) => actions.find(action => action.id === actionId)?.label ?? actionId
+
+    const conflicts = KeybindingRegistry.getConflicts()
+    const conflictsEl = this.panel.querySelector('.keybinding-conflicts') as HTMLElement
+    conflictsEl.innerHTML = conflicts.length === 0 ? '' : `
+      <div class="alert alert-warning m-3 mb-0 py-2 text-xs block">
+        ${conflicts.map(conflict => `<div><kbd class="kbd kbd-xs">${KeybindingHelp.escapeHtml(conflict.chord)}</kbd> is bound to ${conflict.actionIds.map(labelOf).join(' and ')}</div>`).join('')}
+      </div>
+    `
+
+    const categories = new Map<string, KeyAction[]>()
+    for (const action of actions) {
+      categories.set(action.category, [...(categories.get(action.category) ?? []), action])
+    }
+
+    const listEl = this.panel.querySelector('.keybinding-list') as HTMLElement
+    listEl.innerHTML = [...categories].map(([category, categoryActions]) => `
+      <div>
+        <h4 class="font-bold text-sm text-primary mb-1">${category}</h4>
+        ${categoryActions.map(action => this.renderAction(action)).join('')}
+      </div>
+    `).join('')
+  }
+
+  private renderAction(action: KeyAction): string {
+    const bindings = KeybindingRegistry.getBindings(action.id)
+    const isCapturing = this.capturingActionId === action.id
+    const chords = bindings.length > 0
+      ? bindings.map(chord => `<kbd class="kbd kbd-sm">${KeybindingHelp.escapeHtml(chord)}</kbd>`).join(' ')
+      : '<span class="text-xs opacity-50">Unbound</span>'
+
+    return `
+      <div class="flex items-center gap-2 py-1 border-b border-base-200">
+        <span class="text-sm flex-1 min-w-0" title="${action.id} (${action.context})">${action.label}</span>
+        <span class="flex flex-wrap gap-1 justify-end">${isCapturing ? '<span class="text-xs text-warning">Press keys… (Escape cancels)</span>' : chords}</span>
+        <button class="keybinding-rebind btn btn-xs ${isCapturing ? 'btn-warning' : 'btn-outline'}" data-action-id="${action.id}">Rebind</button>
+        <button class="keybinding-clear btn btn-xs btn-ghost" data-action-id="${action.id}" title="Remove all bindings">✕</button>
+        <button class="keybinding-reset btn btn-xs btn-ghost" data-action-id="${action.id}" title="Restore the default binding" ${KeybindingRegistry.isCustomized(action.id) ? '' : 'disabled'}>↺</button>
+      </div>
+    `
+  }
+
+  /**
+   * Capture the next key chord as the action's new binding
+   */
+  private startRebind(actionId: string): void {
+    const action = KeybindingRegistry.getActions().find(candidate => candidate.id === actionId)
+    if (!action) return
+
+    this.capturingActionId = actionId
+    this.render()
+
+    KeybindingRegistry.captureNextChord(chord => {
+      this.capturingActionId = null
+      if (chord) {
+        const conflicts = KeybindingRegistry.findConflicts(chord, action.context, actionId)
+        const accepted = conflicts.length === 0 ||
+          confirm(`${chord} is already bound to ${conflicts.map(other => other.label).join(', ')}. Bind it to ${action.label} as well?`)
+        if (accepted) {
+          KeybindingRegistry.setBindings(actionId, [chord])
+          return
+        }
+      }
+      this.render()
+    })
+  }
+
+  // Chords may be symbol keys such as '<' or '&'
+  private static escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;')
+  }
+
+  public show(): void {
+    this.panel.style.display = 'flex'
+    this.render()
+    this.onVisibilityChange?.()
+  }
+
+  public hide(): void {
+    if (this.capturingActionId) {
+      KeybindingRegistry.cancelCapture()
+      this.capturingActionId = null
+    }
+    this.panel.style.display = 'none'
+    this.onVisibilityChange?.()
+  }
+
+  public toggle(): void {
+    if (this.isVisible()) {
+      this.hide()
+    } else {
+      this.show()
+    }
+  }
+
+  public isVisible(): boolean {
+    return this.panel.style.display !== 'none'
+  }
+
+  public destroy(): void {
+    this.hide()
+    this.unsubscribe()
+    KeybindingRegistry.unregister('ui.keybindingHelp')
+    this.panel.remove()
+  }
+}
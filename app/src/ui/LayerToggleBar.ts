@@ -5,13 +5,15 @@ export class LayerToggleBar {
   private _isVisible: boolean = false
   private layerStates = {
     background: true,  // Grid and background elements
+    tiles: true,       // Painted tile map
     geometry: true,    // Geometric shapes and objects
     selection: true,   // Selection highlights
     raycast: true,     // Raycast lines and debug visuals
     bbox: false,       // Bounding box overlay for comparison (off by default)
     mirror: false,     // Mirror layer for cached texture sprites (off by default)
     mouse: true,       // Mouse visualization
-    pixelate: false    // Pixeloid-perfect pixelation filter disabled by default
+    pixelate: false,   // Pixeloid-perfect pixelation filter disabled by default
+    pixelArt: false    // Vector render mode by default
   }
   
   constructor() {
@@ -36,6 +38,14 @@ export class LayerToggleBar {
       })
     }
     
+    // Tile layer toggle
+    const tilesToggle = document.getElementById('toggle-layer-tiles')
+    if (tilesToggle) {
+      tilesToggle.addEventListener('click', () => {
+        this.toggleLayer('tiles')
+      })
+    }
+    
     // Geometry layer toggle
     const geometryToggle = document.getElementById('toggle-layer-geometry')
     if (geometryToggle) {
@@ -91,9 +101,17 @@ export class LayerToggleBar {
         this.togglePixelateFilter()
       })
     }
+    
+    // Pixel-art render mode toggle
+    const pixelArtToggle = document.getElementById('toggle-render-pixel-art')
+    if (pixelArtToggle) {
+      pixelArtToggle.addEventListener('click', () => {
+        this.togglePixelArtMode()
+      })
+    }
   }
   
-  private toggleLayer(layerName: 'background' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): void {
+  private toggleLayer(layerName: 'background' | 'tiles' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): void {
     this.layerStates[layerName] = !this.layerStates[layerName]
     this.updateButtonState(layerName)
     this.notifyLayerChange(layerName, this.layerStates[layerName])
@@ -104,8 +122,14 @@ export class LayerToggleBar {
     this.updatePixelateButtonState()
     this.notifyPixelateFilterChange()
   }
+
+  private togglePixelArtMode(): void {
+    this.layerStates.pixelArt = !this.layerStates.pixelArt
+    this.updatePixelArtButtonState()
+    updateGameStore.setGeometryRenderMode(this.layerStates.pixelArt ? 'pixel' : 'vector')
+  }
   
-  private updateButtonState(layerName: 'background' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): void {
+  private updateButtonState(layerName: 'background' | 'tiles' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): void {
     const buttonId = `toggle-layer-${layerName}`
     const button = document.getElementById(buttonId)
     if (!button) return
@@ -113,6 +137,7 @@ export class LayerToggleBar {
     const isActive = this.layerStates[layerName]
     const baseClasses = ['btn', 'btn-sm', 'rounded-full']
     const activeClass = layerName === 'background' ? 'btn-success' :
+                       layerName === 'tiles' ? 'btn-info' :
                        layerName === 'geometry' ? 'btn-secondary' :
                        layerName === 'selection' ? 'btn-primary' :
                        layerName === 'raycast' ? 'btn-warning' :
@@ -131,6 +156,7 @@ export class LayerToggleBar {
   
   private updateButtonStates(): void {
     this.updateButtonState('background')
+    this.updateButtonState('tiles')
     this.updateButtonState('geometry')
     this.updateButtonState('selection')
     this.updateButtonState('raycast')
@@ -138,6 +164,7 @@ export class LayerToggleBar {
     this.updateButtonState('mirror')
     this.updateButtonState('mouse')
     this.updatePixelateButtonState()
+    this.updatePixelArtButtonState()
   }
 
   private updatePixelateButtonState(): void {
@@ -157,6 +184,15 @@ export class LayerToggleBar {
     }
   }
 
+  private updatePixelArtButtonState(): void {
+    const button = document.getElementById('toggle-render-pixel-art')
+    if (!button) return
+    
+    const baseClasses = ['btn', 'btn-sm', 'rounded-full']
+    button.className = baseClasses.join(' ')
+    button.classList.add(this.layerStates.pixelArt ? 'btn-info' : 'btn-outline')
+  }
+
   private notifyPixelateFilterChange(): void {
     updateGameStore.setPixelateFilterEnabled(this.layerStates.pixelate)
     const event = new CustomEvent('pixelateFilterChanged', {
@@ -167,7 +203,7 @@ export class LayerToggleBar {
   
   private notifyLayerChange(layerName: string, isVisible: boolean): void {
     // Update the store with the layer visibility change
-    if (layerName === 'background' || layerName === 'geometry' || layerName === 'selection' ||
+    if (layerName === 'background' || layerName === 'tiles' || layerName === 'geometry' || layerName === 'selection' ||
         layerName === 'raycast' || layerName === 'bbox' || layerName === 'mirror' || layerName === 'mouse') {
       updateGameStore.setLayerVisibility(layerName as any, isVisible)
     }
@@ -186,11 +222,11 @@ export class LayerToggleBar {
     }
   }
   
-  public getLayerState(layerName: 'background' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): boolean {
+  public getLayerState(layerName: 'background' | 'tiles' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse'): boolean {
     return this.layerStates[layerName]
   }
   
-  public setLayerState(layerName: 'background' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse', isVisible: boolean): void {
+  public setLayerState(layerName: 'background' | 'tiles' | 'geometry' | 'selection' | 'raycast' | 'bbox' | 'mirror' | 'mouse', isVisible: boolean): void {
     this.layerStates[layerName] = isVisible
     this.updateButtonState(layerName)
     this.notifyLayerChange(layerName, isVisible)
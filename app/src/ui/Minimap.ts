@@ -0,0 +1,224 @@
+import { subscribe } from 'valtio'
+import { gameStore, updateGameStore } from '../store/gameStore'
+import { CameraAnimator } from '../game/CameraAnimator'
+import type { SpatialBounds } from '../game/SpatialIndex'
+
+const MAP_WIDTH = 220
+const MAP_HEIGHT = 150
+const MAP_PADDING = 8 // px around the fitted region
+
+/**
+ * Minimap is an overview of the whole scene drawn on a small 2D canvas.
+ *
+ * Features:
+ * - Every visible object as its bounds rectangle in its stroke color
+ * - The main viewport as an outlined rectangle
+ * - Auto-fit: the map always covers all content plus the viewport
+ *   (the fit is frozen while dragging so the map does not move under the pointer)
+ * - Click or drag to pan the main camera to that point
+ * - Redraws at most once per frame, only while visible
+ */
+export class Minimap {
+  private panel: HTMLElement
+  private canvas: HTMLCanvasElement
+  private context: CanvasRenderingContext2D | null
+  private unsubscribers: Array<() => void> = []
+  private redrawFrame: number | null = null
+  private isDragging = false
+
+  // Current pixeloid → minimap transform (map = (pixeloid - origin) * scale)
+  private fit = { originX: 0, originY: 0, scale: 1 }
+
+  constructor() {
+    this.panel = this.createPanel()
+    this.canvas = this.panel.querySelector('canvas') as HTMLCanvasElement
+    this.context = this.canvas.getContext('2d')
+    this.setupCanvasSize()
+    this.setupEventListeners()
+
+    const scheduleRedraw = () => this.scheduleRedraw()
+    this.unsubscribers = [
+      subscribe(gameStore.geometry.objects, scheduleRedraw),
+      subscribe(gameStore.geometry.groups, scheduleRedraw),
+      subscribe(gameStore.camera, scheduleRedraw) // viewport_bounds is replaced on every camera move
+    ]
+    this.scheduleRedraw()
+  }
+
+  /**
+   * Create the panel HTML structure
+   */
+  private createPanel(): HTMLElement {
+    const panel = document.createElement('div')
+    panel.id = 'minimap-panel'
+    panel.className = 'fixed bottom-20 right-4 bg-base-100/95 backdrop-blur-md border border-base-300 rounded-xl shadow-2xl z-40 overflow-hidden'
+    panel.innerHTML = `
+      <div class="flex items-center justify-between px-2 py-1 border-b border-base-300">
+        <span class="text-xs font-bold text-info">Minimap</span>
+        <span class="minimap-extent text-xs font-mono opacity-60"></span>
+      </div>
+      <canvas class="block cursor-crosshair" title="Click or drag to move the camera"></canvas>
+    `
+    document.body.appendChild(panel)
+    return panel
+  }
+
+  private setupCanvasSize(): void {
+    const ratio = window.devicePixelRatio || 1
+    this.canvas.width = MAP_WIDTH * ratio
+    this.canvas.height = MAP_HEIGHT * ratio
+    this.canvas.style.width = `${MAP_WIDTH}px`
+    this.canvas.style.height = `${MAP_HEIGHT}px`
+    this.context?.setTransform(ratio, 0, 0, ratio, 0, 0)
+  }
+
+  private setupEventListeners(): void {
+    this.canvas.addEventListener('pointerdown', (event) => {
+      this.isDragging = true
+      this.canvas.setPointerCapture(event.pointerId)
+      this.panTo(event)
+    })
+    this.canvas.addEventListener('pointermove', (event) => {
+      if (this.isDragging) {
+        this.panTo(event)
+      }
+    })
+    const endDrag = () => {
+      if (!this.isDragging) return
+      this.isDragging = false
+      this.scheduleRedraw() // Refit now that the pointer is released
+    }
+    this.canvas.addEventListener('pointerup', endDrag)
+    this.canvas.addEventListener('pointercancel', endDrag)
+  }
+
+  /**
+   * Center the main camera on the pixeloid under the pointer
+   */
+  private panTo(event: PointerEvent): void {
+    const rect = this.canvas.getBoundingClientRect()
+    const x = (event.clientX - rect.left) / this.fit.scale + this.fit.originX
+    const y = (event.clientY - rect.top) / this.fit.scale + this.fit.originY
+    CameraAnimator.cancel()
+    updateGameStore.centerViewportOnPoint(x, y)
+  }
+
+  private scheduleRedraw(): void {
+    if (this.redrawFrame !== null || !this.isVisible()) return
+    this.redrawFrame = requestAnimationFrame(() => {
+      this.redrawFrame = null
+      this.render()
+    })
+  }
+
+  /**
+   * Draw objects and the viewport rectangle
+   */
+  private render(): void {
+    const ctx = this.context
+    if (!ctx) return
+
+    const viewport = this.getViewportBounds()
+    const objects = gameStore.geometry.objects.filter(obj =>
+      obj.isVisible && obj.metadata && updateGameStore.getObjectGroup(obj).isVisible
+    )
+
+    if (!this.isDragging) {
+      let region: SpatialBounds = { ...viewport }
+      for (const obj of objects) {
+        const bounds = obj.metadata!.bounds
+        region = {
+          minX: Math.min(region.minX, bounds.minX),
+          minY: Math.min(region.minY, bounds.minY),
+          maxX: Math.max(region.maxX, bounds.maxX),
+          maxY: Math.max(region.maxY, bounds.maxY)
+        }
+      }
+      this.fitRegion(region)
+    }
+
+    ctx.clearRect(0, 0, MAP_WIDTH, MAP_HEIGHT)
+
+    for (const obj of objects) {
+      const { minX, minY, maxX, maxY } = obj.metadata!.bounds
+      const [x, y] = this.toMap(minX, minY)
+      const color = `#${obj.style.color.toString(16).padStart(6, '0')}`
+      ctx.fillStyle = color
+      ctx.globalAlpha = 0.6
+      // At least one pixel so points and thin lines stay visible
+      ctx.fillRect(x, y, Math.max(1, (maxX - minX) * this.fit.scale), Math.max(1, (maxY - minY) * this.fit.scale))
+    }
+    ctx.globalAlpha = 1
+
+    const [viewX, viewY] = this.toMap(viewport.minX, viewport.minY)
+    ctx.strokeStyle = '#38bdf8'
+    ctx.lineWidth = 1.5
+    ctx.strokeRect(
+      viewX,
+      viewY,
+      (viewport.maxX - viewport.minX) * this.fit.scale,
+      (viewport.maxY - viewport.minY) * this.fit.scale
+    )
+
+    const extent = this.panel.querySelector('.minimap-extent') as HTMLElement
+    extent.textContent = `${objects.length} objects`
+  }
+
+  /**
+   * Choose the transform that shows the whole region centered with padding
+   */
+  private fitRegion(region: SpatialBounds): void {
+    const width = Math.max(1, region.maxX - region.minX)
+    const height = Math.max(1, region.maxY - region.minY)
+    const scale = Math.min((MAP_WIDTH - MAP_PADDING * 2) / width, (MAP_HEIGHT - MAP_PADDING * 2) / height)
+    this.fit = {
+      scale,
+      originX: region.minX - (MAP_WIDTH / scale - width) / 2,
+      originY: region.minY - (MAP_HEIGHT / scale - height) / 2
+    }
+  }
+
+  private toMap(x: number, y: number): [number, number] {
+    return [(x - this.fit.originX) * this.fit.scale, (y - this.fit.originY) * this.fit.scale]
+  }
+
+  private getViewportBounds(): SpatialBounds {
+    const world = gameStore.camera.viewport_bounds.world
+    return {
+      minX: Math.min(world.top_left.x, world.bottom_right.x),
+      minY: Math.min(world.top_left.y, world.bottom_right.y),
+      maxX: Math.max(world.top_left.x, world.bottom_right.x),
+      maxY: Math.max(world.top_left.y, world.bottom_right.y)
+    }
+  }
+
+  public show(): void {
+    this.panel.style.display = 'block'
+    this.scheduleRedraw()
+  }
+
+  public hide(): void {
+    this.panel.style.display = 'none'
+  }
+
+  public toggle(): void {
+    if (this.isVisible()) {
+      this.hide()
+    } else {
+      this.show()
+    }
+  }
+
+  public isVisible(): boolean {
+    return this.panel.style.display !== 'none'
+  }
+
+  public destroy(): void {
+    this.unsubscribers.forEach(unsubscribe => unsubscribe())
+    this.unsubscribers = []
+    if (this.redrawFrame !== null) {
+      cancelAnimationFrame(this.redrawFrame)
+    }
+    this.panel.remove()
+  }
+}
@@ -1,13 +1,18 @@
 import { subscribe } from 'valtio'
 import { gameStore, updateGameStore } from '../store/gameStore'
 import { GeometryVertexCalculator } from '../game/GeometryVertexCalculator'
-import type { GeometricObject, GeometricDiamond, GeometricRectangle, GeometricCircle, GeometricLine, GeometricPoint, PixeloidAnchorPoint, PixeloidCoordinate } from '../types'
+import { PropertySchemaRegistry, type PropertyDefinition } from '../game/PropertySchemaRegistry'
+import type { GeometricObject, GeometryStyle, PixeloidAnchorPoint, PixeloidCoordinate, PixeloidVertex, PropertyValue } from '../types'
 
 export class ObjectEditPanel {
   private elements: Map<string, HTMLElement> = new Map()
   private isVisible: boolean = false
   private originalObject: GeometricObject | null = null
-  private originalAnchorOverride: any = null // Save original anchor override state
+  private originalObjects: GeometricObject[] = [] // Multi-selection originals for restoration on cancel
+  private touchedInputs: Set<string> = new Set() // Inputs changed in multi-selection mode
+  private sessionOriginals: Map<string, GeometricObject> = new Map() // Objects as they were when the panel opened
+  private editedKeys: Map<string, Set<string>> = new Map() // Object fields the panel changed, per object
+  private historyLabel: string = 'Edit object'
   private panel: HTMLElement | null = null
   
   constructor() {
@@ -31,28 +36,140 @@ export class ObjectEditPanel {
       }
       
       if (this.isVisible) {
+        this.startEditSession()
         this.loadSelectedObject()
+      } else if (this.sessionOriginals.size > 0) {
+        // Panel closed from outside (e.g. selection cleared) - keep the changes
+        this.commitEdits()
       }
     }
   }
   
   private loadSelectedObject(): void {
+    // Multiple objects selected - edit their common properties
+    if (gameStore.geometry.selection.selectedObjectIds.length > 1) {
+      this.loadSelectedObjects()
+      return
+    }
+    
     const selectedObjectId = gameStore.geometry.selection.selectedObjectId
     if (!selectedObjectId) return
     
     const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
     if (!selectedObject) return
     
+    this.originalObjects = []
+    
     // Store original object for restoration on cancel
     this.originalObject = { ...selectedObject }
     
-    // Store original anchor override state for restoration on cancel
-    this.originalAnchorOverride = updateGameStore.getObjectAnchor(selectedObjectId)
-    
     // Generate form based on object type
     this.generateForm(selectedObject)
   }
   
+  private loadSelectedObjects(): void {
+    const selectedObjects = updateGameStore.getSelectedObjects()
+    if (selectedObjects.length === 0) return
+    
+    // Store originals for restoration on cancel
+    this.originalObjects = selectedObjects.map(obj => ({ ...obj }))
+    this.originalObject = this.originalObjects[this.originalObjects.length - 1]
+    this.touchedInputs.clear()
+    
+    this.generateMultiForm(this.originalObjects)
+  }
+  
+  /**
+   * Generate a form for the properties shared by every selected object
+   */
+  private generateMultiForm(objects: GeometricObject[]): void {
+    if (!this.panel) return
+    
+    const primary = objects[objects.length - 1]
+    const allHaveStrokeWidth = objects.every(obj => obj.type !== 'point')
+    const allSupportFill = objects.every(obj => this.objectSupportsFill(obj))
+    const fillSource = objects.find(obj => obj.style.fillColor !== undefined)?.style
+    const fillColor = fillSource?.fillColor ?? gameStore.geometry.drawing.settings.defaultFillColor
+    const fillAlpha = fillSource?.fillAlpha ?? gameStore.geometry.drawing.settings.fillAlpha
+    
+    this.panel.innerHTML = `
+      <!-- Header -->
+      <div class="bg-base-200/50 border-b border-base-300 p-4 flex justify-between items-center">
+        <h2 class="text-lg font-bold text-accent flex items-center gap-2">
+          <span class="text-warning">✏️</span>
+          Edit ${objects.length} Objects
+        </h2>
+        <button id="edit-panel-close" class="btn btn-sm btn-ghost btn-circle">
+          <span class="text-lg">✕</span>
+        </button>
+      </div>
+      
+      <!-- Content -->
+      <div class="p-4 space-y-4">
+        <div class="alert alert-info bg-info/10 border-info/20">
+          <div class="text-sm">
+            <div class="font-bold mb-1">Selected:</div>
+            <div class="font-mono text-xs max-h-16 overflow-y-auto">${objects.map(obj => `${this.getObjectType(obj)} ${obj.id}`).join('<br/>')}</div>
+          </div>
+        </div>
+
+        <!-- Common Properties (changes apply to every selected object) -->
+        <div id="object-properties" class="space-y-3">
+          <div>
+            <label class="label">
+              <span class="label-text">Visible:</span>
+            </label>
+            <input id="edit-visible" type="checkbox" class="toggle toggle-primary" ${primary.isVisible ? 'checked' : ''} />
+          </div>
+          <div>
+            <label class="label">
+              <span class="label-text">Color:</span>
+            </label>
+            <input id="edit-color" type="color" value="${this.numberToHex(primary.style.color)}" class="input input-bordered w-full h-12" />
+          </div>
+          ${allHaveStrokeWidth ? `
+          <div>
+            <label class="label">
+              <span class="label-text">Stroke Width:</span>
+            </label>
+            <input id="edit-stroke-width" type="number" step="0.5" min="0.5" value="${primary.style.strokeWidth}" class="input input-bordered w-full" />
+          </div>
+          ` : ''}
+          <div>
+            <label class="label">
+              <span class="label-text">Stroke Alpha:</span>
+            </label>
+            <input id="edit-stroke-alpha" type="range" min="0" max="1" step="0.1" value="${primary.style.strokeAlpha}" class="range range-primary" />
+            <span class="text-xs text-base-content/70">${primary.style.strokeAlpha}</span>
+          </div>
+          ${allSupportFill ? `
+          <div>
+            <label class="label">
+              <span class="label-text">Fill Color:</span>
+            </label>
+            <input id="edit-fill-color" type="color" value="${this.numberToHex(fillColor)}" class="input input-bordered w-full h-12" />
+          </div>
+          <div>
+            <label class="label">
+              <span class="label-text">Fill Alpha:</span>
+            </label>
+            <input id="edit-fill-alpha" type="range" min="0" max="1" step="0.1" value="${fillAlpha}" class="range range-primary" />
+            <span class="text-xs text-base-content/70">${fillAlpha}</span>
+          </div>
+          ` : ''}
+        </div>
+
+        <!-- Actions -->
+        <div class="flex gap-2 pt-4">
+          <button id="edit-panel-apply" class="btn btn-primary flex-1">Apply Changes</button>
+          <button id="edit-panel-cancel" class="btn btn-outline flex-1">Cancel</button>
+        </div>
+      </div>
+    `
+    
+    this.setupEventHandlers()
+  }
+  
   private generateForm(obj: GeometricObject): void {
     if (!this.panel) return
     
@@ -84,6 +201,9 @@ export class ObjectEditPanel {
           ${this.generateObjectProperties(obj)}
         </div>
 
+        <!-- Custom Properties (typed key/value bag) -->
+        ${this.generatePropertyControls(obj)}
+
         <!-- Actions -->
         <div class="flex gap-2 pt-4">
           <button id="edit-panel-apply" class="btn btn-primary flex-1">Apply Changes</button>
@@ -96,18 +216,12 @@ export class ObjectEditPanel {
   }
   
   private getObjectType(obj: GeometricObject): string {
-    if ('anchorX' in obj) return 'Diamond'
-    if ('width' in obj && 'height' in obj) return 'Rectangle'
-    if ('centerX' in obj && 'radius' in obj) return 'Circle'
-    if ('startX' in obj && 'endX' in obj) return 'Line'
-    if ('x' in obj && 'y' in obj) return 'Point'
-    return 'Object'
+    return obj.type.charAt(0).toUpperCase() + obj.type.slice(1)
   }
 
   private objectSupportsFill(obj: GeometricObject): boolean {
-    // Check if the object type supports fill (circles, rectangles, diamonds)
-    // Points and lines don't support fill
-    return 'anchorX' in obj || ('width' in obj && 'height' in obj) || 'radius' in obj
+    // Circles, rectangles, diamonds and polygons - points, lines and polylines don't support fill
+    return GeometryVertexCalculator.isFillable(obj.type)
   }
   
   private generateObjectProperties(obj: GeometricObject): string {
@@ -132,18 +246,18 @@ export class ObjectEditPanel {
         <label class="label">
           <span class="label-text">Color:</span>
         </label>
-        <input id="edit-color" type="color" value="${this.numberToHex(obj.color)}" class="input input-bordered w-full h-12" />
+        <input id="edit-color" type="color" value="${this.numberToHex(obj.style.color)}" class="input input-bordered w-full h-12" />
       </div>
     `
     
-    // Stroke width for objects that have it
-    if ('strokeWidth' in obj) {
+    // Stroke width for everything but points (drawn with a fixed size)
+    if (obj.type !== 'point') {
       html += `
         <div>
           <label class="label">
             <span class="label-text">Stroke Width:</span>
           </label>
-          <input id="edit-stroke-width" type="number" step="0.5" min="0.5" value="${obj.strokeWidth}" class="input input-bordered w-full" />
+          <input id="edit-stroke-width" type="number" step="0.5" min="0.5" value="${obj.style.strokeWidth}" class="input input-bordered w-full" />
         </div>
       `
     }
@@ -154,14 +268,14 @@ export class ObjectEditPanel {
         <label class="label">
           <span class="label-text">Stroke Alpha:</span>
         </label>
-        <input id="edit-stroke-alpha" type="range" min="0" max="1" step="0.1" value="${obj.strokeAlpha}" class="range range-primary" />
-        <span class="text-xs text-base-content/70">${obj.strokeAlpha}</span>
+        <input id="edit-stroke-alpha" type="range" min="0" max="1" step="0.1" value="${obj.style.strokeAlpha}" class="range range-primary" />
+        <span class="text-xs text-base-content/70">${obj.style.strokeAlpha}</span>
       </div>
     `
 
     // Fill color and alpha for objects that support fill (circles, rectangles, diamonds)
     if (this.objectSupportsFill(obj)) {
-      const fillObj = obj as GeometricCircle | GeometricRectangle | GeometricDiamond
+      const fillObj = obj.style
       if (fillObj.fillColor !== undefined) {
         html += `
           <div>
@@ -193,10 +307,23 @@ export class ObjectEditPanel {
       }
     }
     
-    // Type-specific properties
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond
-      const diamond = obj as GeometricDiamond
+    // Type-specific properties (shape parameters read from the vertices)
+    const vertices = obj.pixeloidVertices
+    if (obj.type === 'polygon' || obj.type === 'polyline') {
+      // Polygon / polyline - one X/Y row per vertex
+      html += vertices.map((vertex, index) => `
+        <div>
+          <label class="label">
+            <span class="label-text">Vertex ${index + 1}:</span>
+          </label>
+          <div class="flex gap-2">
+            <input id="edit-vertex-${index}-x" type="number" step="0.5" value="${vertex.x}" class="input input-bordered flex-1" />
+            <input id="edit-vertex-${index}-y" type="number" step="0.5" value="${vertex.y}" class="input input-bordered flex-1" />
+          </div>
+        </div>
+      `).join('')
+    } else if (obj.type === 'diamond') {
+      const diamond = GeometryVertexCalculator.getDiamondShape(vertices)
       html += `
         <div>
           <label class="label">
@@ -217,9 +344,8 @@ export class ObjectEditPanel {
           <input id="edit-width" type="number" step="1" min="0" value="${diamond.width}" class="input input-bordered w-full" />
         </div>
       `
-    } else if ('width' in obj && 'height' in obj) {
-      // Rectangle
-      const rect = obj as GeometricRectangle
+    } else if (obj.type === 'rectangle') {
+      const rect = GeometryVertexCalculator.getRectangleShape(vertices)
       html += `
         <div>
           <label class="label">
@@ -246,9 +372,8 @@ export class ObjectEditPanel {
           <input id="edit-height" type="number" step="1" min="1" value="${rect.height}" class="input input-bordered w-full" />
         </div>
       `
-    } else if ('centerX' in obj && 'centerY' in obj && 'radius' in obj) {
-      // Circle
-      const circle = obj as GeometricCircle
+    } else if (obj.type === 'circle') {
+      const circle = GeometryVertexCalculator.getCircleShape(vertices)
       html += `
         <div>
           <label class="label">
@@ -269,9 +394,8 @@ export class ObjectEditPanel {
           <input id="edit-radius" type="number" step="1" min="1" value="${circle.radius}" class="input input-bordered w-full" />
         </div>
       `
-    } else if ('startX' in obj && 'startY' in obj && 'endX' in obj && 'endY' in obj) {
-      // Line
-      const line = obj as GeometricLine
+    } else if (obj.type === 'line') {
+      const line = GeometryVertexCalculator.getLineShape(vertices)
       html += `
         <div>
           <label class="label">
@@ -298,9 +422,8 @@ export class ObjectEditPanel {
           <input id="edit-end-y" type="number" step="0.5" value="${line.endY}" class="input input-bordered w-full" />
         </div>
       `
-    } else if ('x' in obj && 'y' in obj && !('width' in obj)) {
-      // Point
-      const point = obj as GeometricPoint
+    } else if (obj.type === 'point') {
+      const point = GeometryVertexCalculator.getPointShape(vertices)
       html += `
         <div>
           <label class="label">
@@ -326,10 +449,9 @@ export class ObjectEditPanel {
   private generateAnchorControls(obj: GeometricObject): string {
     const objectType = this.getObjectType(obj).toLowerCase()
     
-    // Get current anchor override or default
-    const currentOverride = updateGameStore.getObjectAnchor(obj.id)
+    // The object's own anchor, and the default a reset returns to
+    const currentAnchor = obj.anchorConfig.firstPointAnchor
     const defaultAnchor = updateGameStore.getDefaultAnchor(objectType as any)
-    const currentAnchor = currentOverride ? currentOverride.firstPointAnchor : defaultAnchor
     
     const anchorOptions = [
       { value: 'top-left', label: 'Top Left' },
@@ -379,6 +501,138 @@ export class ObjectEditPanel {
     return html
   }
   
+  /**
+   * Generate the property bag editor: schema fields for the object type (showing their defaults)
+   * followed by custom keys, which can be removed, and a row to add a new key
+   */
+  private generatePropertyControls(obj: GeometricObject): string {
+    const type = PropertySchemaRegistry.getObjectType(obj)
+    const definitions = PropertySchemaRegistry.getDefinitions(type)
+    const schemaKeys = new Set(definitions.map(definition => definition.key))
+    const customEntries = Object.entries(obj.properties ?? {}).filter(([key]) => !schemaKeys.has(key))
+
+    const schemaFields = definitions.map(definition => `
+      <div>
+        <label class="label" title="${this.escapeAttribute(definition.description ?? '')}">
+          <span class="label-text">${definition.key}:</span>
+          <span class="label-text-alt opacity-60">default: ${this.escapeAttribute(String(definition.defaultValue)) || '(empty)'}</span>
+        </label>
+        ${this.generatePropertyInput(definition, obj.properties?.[definition.key] ?? definition.defaultValue)}
+      </div>
+    `).join('')
+
+    const customFields = customEntries.map(([key, value]) => `
+      <div class="flex gap-2 items-center">
+        <span class="text-sm font-mono flex-shrink-0">${key}</span>
+        <input type="text" data-property-key="${key}" value="${this.escapeAttribute(String(value))}" class="property-input input input-bordered input-sm flex-1 min-w-0" />
+        <button data-remove-property="${key}" class="btn btn-sm btn-ghost text-error" title="Remove property">✕</button>
+      </div>
+    `).join('')
+
+    return `
+      <div class="bg-info/10 border border-info/20 rounded-lg p-3">
+        <h4 class="font-bold text-sm text-info mb-2">Properties</h4>
+        <div class="space-y-2">
+          ${schemaFields}
+          ${customFields}
+          <div class="flex gap-2 pt-1">
+            <input id="edit-new-property-key" type="text" placeholder="key" class="input input-bordered input-sm w-1/3" />
+            <input id="edit-new-property-value" type="text" placeholder="value" class="input input-bordered input-sm flex-1 min-w-0" />
+            <button id="edit-add-property" class="btn btn-sm btn-outline">Add</button>
+          </div>
+          <div id="edit-property-error" class="text-xs text-error"></div>
+        </div>
+      </div>
+    `
+  }
+
+  private generatePropertyInput(definition: PropertyDefinition, value: PropertyValue): string {
+    const key = definition.key
+    switch (definition.type) {
+      case 'boolean':
+        return `<input type="checkbox" data-property-key="${key}" class="property-input toggle toggle-info" ${value === true ? 'checked' : ''} />`
+      case 'enum':
+        return `
+          <select data-property-key="${key}" class="property-input select select-bordered select-sm w-full">
+            ${(definition.options ?? []).map(option => `<option value="${this.escapeAttribute(option)}" ${option === value ? 'selected' : ''}>${option}</option>`).join('')}
+          </select>
+        `
+      case 'number':
+        return `<input type="number" data-property-key="${key}" value="${value}" ${definition.min !== undefined ? `min="${definition.min}"` : ''} ${definition.max !== undefined ? `max="${definition.max}"` : ''} class="property-input input input-bordered input-sm w-full" />`
+      default:
+        return `<input type="text" data-property-key="${key}" value="${this.escapeAttribute(String(value))}" class="property-input input input-bordered input-sm w-full" />`
+    }
+  }
+
+  /**
+   * Read the property inputs into a new property bag - null when nothing changed.
+   * Invalid values are flagged and keep their previous value; schema defaults are not stored
+   * unless the object already had the key.
+   */
+  private readPropertyInputs(): Record<string, PropertyValue> | null {
+    if (!this.originalObject || !this.panel) return null
+    
+    const type = PropertySchemaRegistry.getObjectType(this.originalObject)
+    const original = this.originalObject.properties ?? {}
+    const properties: Record<string, PropertyValue> = { ...original }
+    const errors: string[] = []
+    
+    this.panel.querySelectorAll<HTMLInputElement | HTMLSelectElement>('.property-input').forEach(input => {
+      const key = input.dataset.propertyKey!
+      const value = input instanceof HTMLInputElement && input.type === 'checkbox'
+        ? input.checked
+        : PropertySchemaRegistry.parseValue(type, key, input.value)
+      const error = PropertySchemaRegistry.validate(type, key, value)
+      input.classList.toggle('input-error', error !== null)
+      if (error) {
+        errors.push(error)
+        return
+      }
+      
+      const definition = PropertySchemaRegistry.getDefinition(type, key)
+      if (definition && !(key in original) && value === definition.defaultValue) return
+      properties[key] = value
+    })
+    
+    const errorDisplay = this.panel.querySelector('#edit-property-error')
+    if (errorDisplay) {
+      errorDisplay.textContent = errors.join(' • ')
+    }
+    
+    const changed = Object.keys(properties).some(key => properties[key] !== original[key])
+    return changed ? properties : null
+  }
+
+  /**
+   * Add (or overwrite) a property from the new key/value row
+   */
+  private addPropertyFromInputs(objectId: string): void {
+    if (!this.panel) return
+    
+    const object = gameStore.geometry.objects.find(obj => obj.id === objectId)
+    const keyInput = this.panel.querySelector('#edit-new-property-key') as HTMLInputElement
+    const valueInput = this.panel.querySelector('#edit-new-property-value') as HTMLInputElement
+    const errorDisplay = this.panel.querySelector('#edit-property-error') as HTMLElement
+    if (!object || !keyInput || !valueInput) return
+    
+    const type = PropertySchemaRegistry.getObjectType(object)
+    const key = keyInput.value.trim()
+    const value = PropertySchemaRegistry.parseValue(type, key, valueInput.value)
+    const error = PropertySchemaRegistry.validate(type, key, value)
+    if (error) {
+      errorDisplay.textContent = error
+      return
+    }
+    
+    this.applyEdit(objectId, ['properties'], () => updateGameStore.setObjectProperty(objectId, key, value))
+    // Regenerate the form to show the new property
+    this.loadSelectedObject()
+  }
+
+  private escapeAttribute(value: string): string {
+    return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;')
+  }
+  
   private numberToHex(num: number): string {
     return `#${num.toString(16).padStart(6, '0')}`
   }
@@ -406,6 +660,7 @@ export class ObjectEditPanel {
     const inputs = this.panel.querySelectorAll('input')
     inputs.forEach(input => {
       input.addEventListener('input', () => {
+        this.touchedInputs.add(input.id)
         this.updatePreview()
         // Update range slider display values
         this.updateRangeDisplays()
@@ -418,10 +673,14 @@ export class ObjectEditPanel {
       enableFillButton.addEventListener('click', () => {
         // Enable fill with default color and alpha
         const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-        if (selectedObjectId) {
-          updateGameStore.updateGeometricObject(selectedObjectId, {
-            fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
-            fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
+        const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
+        if (selectedObject) {
+          this.updateObject(selectedObject.id, {
+            style: {
+              ...selectedObject.style,
+              fillColor: gameStore.geometry.drawing.settings.defaultFillColor,
+              fillAlpha: gameStore.geometry.drawing.settings.fillAlpha
+            }
           })
           // Regenerate the form to show the new fill controls
           this.loadSelectedObject()
@@ -433,17 +692,45 @@ export class ObjectEditPanel {
     const removeFillButton = this.panel.querySelector('#edit-remove-fill') as HTMLButtonElement
     if (removeFillButton) {
       removeFillButton.addEventListener('click', () => {
-        // Remove fill by setting fillColor to undefined
+        // Remove fill by dropping the fill fields from the style
         const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-        if (selectedObjectId) {
-          const updates: any = { fillColor: undefined, fillAlpha: undefined }
-          updateGameStore.updateGeometricObject(selectedObjectId, updates)
+        const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
+        if (selectedObject) {
+          const { fillColor: _fillColor, fillAlpha: _fillAlpha, ...style } = selectedObject.style
+          this.updateObject(selectedObject.id, { style })
           // Regenerate the form to show the enable fill button
           this.loadSelectedObject()
         }
       })
     }
 
+    // Property selects (enum fields) preview on change like the other inputs
+    this.panel.querySelectorAll('select.property-input').forEach(select => {
+      select.addEventListener('change', () => this.updatePreview())
+    })
+
+    // Handle add / remove property buttons
+    const addPropertyButton = this.panel.querySelector('#edit-add-property') as HTMLButtonElement
+    if (addPropertyButton) {
+      addPropertyButton.addEventListener('click', () => {
+        const selectedObjectId = gameStore.geometry.selection.selectedObjectId
+        if (selectedObjectId) {
+          this.addPropertyFromInputs(selectedObjectId)
+        }
+      })
+    }
+
+    this.panel.querySelectorAll<HTMLButtonElement>('[data-remove-property]').forEach(button => {
+      button.addEventListener('click', () => {
+        const selectedObjectId = gameStore.geometry.selection.selectedObjectId
+        if (selectedObjectId) {
+          this.applyEdit(selectedObjectId, ['properties'], () => updateGameStore.removeObjectProperty(selectedObjectId, button.dataset.removeProperty!))
+          // Regenerate the form without the removed property
+          this.loadSelectedObject()
+        }
+      })
+    })
+
     // Handle anchor point changes
     const anchorSelect = this.panel.querySelector('#edit-anchor-point') as HTMLSelectElement
     if (anchorSelect) {
@@ -460,8 +747,10 @@ export class ObjectEditPanel {
     if (resetAnchorButton) {
       resetAnchorButton.addEventListener('click', () => {
         const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-        if (selectedObjectId) {
-          updateGameStore.clearObjectAnchor(selectedObjectId)
+        const selectedObject = gameStore.geometry.objects.find(obj => obj.id === selectedObjectId)
+        if (selectedObjectId && selectedObject) {
+          const defaultAnchor = updateGameStore.getDefaultAnchor(selectedObject.type)
+          this.handleAnchorChange(selectedObjectId, defaultAnchor)
           console.log(`ObjectEditPanel: Reset object anchor for ${selectedObjectId} to default`)
           // Regenerate the form to show the updated anchor
           this.loadSelectedObject()
@@ -473,12 +762,57 @@ export class ObjectEditPanel {
   private updatePreview(): void {
     if (!this.originalObject || !this.panel) return
     
+    if (this.originalObjects.length > 1) {
+      this.updateMultiPreview()
+      return
+    }
+    
     const selectedObjectId = gameStore.geometry.selection.selectedObjectId
     if (!selectedObjectId) return
     
     const updates = this.buildUpdatedProperties()
     if (updates && Object.keys(updates).length > 0) {
-      updateGameStore.updateGeometricObject(selectedObjectId, updates)
+      this.updateObject(selectedObjectId, updates)
+    }
+  }
+
+  /**
+   * Apply every touched common property to all selected objects
+   */
+  private updateMultiPreview(): void {
+    if (!this.panel) return
+    
+    let isVisible: boolean | undefined
+    const styleUpdates: Partial<GeometryStyle> = {}
+    const inputValue = (id: string) => (this.panel!.querySelector(`#${id}`) as HTMLInputElement | null)
+    
+    if (this.touchedInputs.has('edit-visible')) {
+      isVisible = inputValue('edit-visible')?.checked ?? true
+    }
+    if (this.touchedInputs.has('edit-color')) {
+      styleUpdates.color = this.hexToNumber(inputValue('edit-color')?.value ?? '#000000')
+    }
+    if (this.touchedInputs.has('edit-stroke-width')) {
+      styleUpdates.strokeWidth = parseFloat(inputValue('edit-stroke-width')?.value ?? '1') || 1
+    }
+    if (this.touchedInputs.has('edit-stroke-alpha')) {
+      styleUpdates.strokeAlpha = parseFloat(inputValue('edit-stroke-alpha')?.value ?? '1') || 1
+    }
+    if (this.touchedInputs.has('edit-fill-color') || this.touchedInputs.has('edit-fill-alpha')) {
+      // Touching either fill control enables fill on objects that had none
+      styleUpdates.fillColor = this.hexToNumber(inputValue('edit-fill-color')?.value ?? '#000000')
+      styleUpdates.fillAlpha = parseFloat(inputValue('edit-fill-alpha')?.value ?? '0.5') || 0.5
+    }
+    
+    const hasStyleUpdates = Object.keys(styleUpdates).length > 0
+    if (isVisible === undefined && !hasStyleUpdates) return
+    
+    // Style is replaced as a whole, so merge over each object's own original style
+    for (const obj of this.originalObjects) {
+      const updates: Partial<GeometricObject> = {}
+      if (isVisible !== undefined) updates.isVisible = isVisible
+      if (hasStyleUpdates) updates.style = { ...obj.style, ...styleUpdates }
+      this.updateObject(obj.id, updates)
     }
   }
 
@@ -493,163 +827,121 @@ export class ObjectEditPanel {
       updates.isVisible = visibleInput.checked
     }
     
+    const original = this.originalObject
+    const style: GeometryStyle = { ...original.style }
+    
     const colorInput = this.panel.querySelector('#edit-color') as HTMLInputElement
     if (colorInput) {
-      const newColor = this.hexToNumber(colorInput.value)
-      if (newColor !== this.originalObject.color) {
-        updates.color = newColor
-      }
+      style.color = this.hexToNumber(colorInput.value)
     }
     
     const strokeWidthInput = this.panel.querySelector('#edit-stroke-width') as HTMLInputElement
-    if (strokeWidthInput && 'strokeWidth' in this.originalObject) {
-      const newStrokeWidth = parseFloat(strokeWidthInput.value) || 1
-      if (newStrokeWidth !== (this.originalObject as any).strokeWidth) {
-        (updates as any).strokeWidth = newStrokeWidth
-      }
+    if (strokeWidthInput) {
+      style.strokeWidth = parseFloat(strokeWidthInput.value) || 1
     }
 
-    // Stroke alpha (all objects have this)
     const strokeAlphaInput = this.panel.querySelector('#edit-stroke-alpha') as HTMLInputElement
     if (strokeAlphaInput) {
-      const newStrokeAlpha = parseFloat(strokeAlphaInput.value) || 1
-      if (newStrokeAlpha !== this.originalObject.strokeAlpha) {
-        (updates as any).strokeAlpha = newStrokeAlpha
-      }
+      style.strokeAlpha = parseFloat(strokeAlphaInput.value) || 1
     }
 
-    // Fill color and alpha for objects that support fill
-    if (this.objectSupportsFill(this.originalObject)) {
-      const fillObj = this.originalObject as GeometricCircle | GeometricRectangle | GeometricDiamond
-      
+    // Fill color and alpha only while the object has fill enabled
+    if (this.objectSupportsFill(original) && original.style.fillColor !== undefined) {
       const fillColorInput = this.panel.querySelector('#edit-fill-color') as HTMLInputElement
-      if (fillColorInput && fillObj.fillColor !== undefined) {
-        const newFillColor = this.hexToNumber(fillColorInput.value)
-        if (newFillColor !== fillObj.fillColor) {
-          (updates as any).fillColor = newFillColor
-        }
+      if (fillColorInput) {
+        style.fillColor = this.hexToNumber(fillColorInput.value)
       }
 
       const fillAlphaInput = this.panel.querySelector('#edit-fill-alpha') as HTMLInputElement
-      if (fillAlphaInput && fillObj.fillColor !== undefined) {
-        const newFillAlpha = parseFloat(fillAlphaInput.value) || 0.5
-        if (newFillAlpha !== (fillObj.fillAlpha ?? 0.5)) {
-          (updates as any).fillAlpha = newFillAlpha
-        }
+      if (fillAlphaInput) {
+        style.fillAlpha = parseFloat(fillAlphaInput.value) || 0.5
       }
     }
     
-    // Type-specific updates
-    if ('anchorX' in this.originalObject) {
-      // Diamond
-      const diamond = this.originalObject as GeometricDiamond
-      const anchorXInput = this.panel.querySelector('#edit-anchor-x') as HTMLInputElement
-      const anchorYInput = this.panel.querySelector('#edit-anchor-y') as HTMLInputElement
-      const widthInput = this.panel.querySelector('#edit-width') as HTMLInputElement
-      
-      if (anchorXInput) {
-        const newAnchorX = parseFloat(anchorXInput.value) || 0
-        if (newAnchorX !== diamond.anchorX) {
-          (updates as any).anchorX = newAnchorX
-        }
-      }
-      if (anchorYInput) {
-        const newAnchorY = parseFloat(anchorYInput.value) || 0
-        if (newAnchorY !== diamond.anchorY) {
-          (updates as any).anchorY = newAnchorY
-        }
-      }
-      if (widthInput) {
-        const width = parseFloat(widthInput.value) || 0
-        if (width !== diamond.width) {
-          (updates as any).width = width
-          ;(updates as any).height = width / 4 // Calculate height
-        }
-      }
-    } else if ('width' in this.originalObject && 'height' in this.originalObject) {
-      // Rectangle
-      const rect = this.originalObject as GeometricRectangle
-      const xInput = this.panel.querySelector('#edit-x') as HTMLInputElement
-      const yInput = this.panel.querySelector('#edit-y') as HTMLInputElement
-      const widthInput = this.panel.querySelector('#edit-width') as HTMLInputElement
-      const heightInput = this.panel.querySelector('#edit-height') as HTMLInputElement
-      
-      if (xInput) {
-        const newX = parseFloat(xInput.value) || 0
-        if (newX !== rect.x) (updates as any).x = newX
-      }
-      if (yInput) {
-        const newY = parseFloat(yInput.value) || 0
-        if (newY !== rect.y) (updates as any).y = newY
-      }
-      if (widthInput) {
-        const newWidth = Math.max(1, parseInt(widthInput.value) || 1)
-        if (newWidth !== rect.width) (updates as any).width = newWidth
-      }
-      if (heightInput) {
-        const newHeight = Math.max(1, parseInt(heightInput.value) || 1)
-        if (newHeight !== rect.height) (updates as any).height = newHeight
-      }
-    } else if ('centerX' in this.originalObject && 'radius' in this.originalObject) {
-      // Circle
-      const circle = this.originalObject as GeometricCircle
-      const centerXInput = this.panel.querySelector('#edit-center-x') as HTMLInputElement
-      const centerYInput = this.panel.querySelector('#edit-center-y') as HTMLInputElement
-      const radiusInput = this.panel.querySelector('#edit-radius') as HTMLInputElement
-      
-      if (centerXInput) {
-        const newCenterX = parseFloat(centerXInput.value) || 0
-        if (newCenterX !== circle.centerX) (updates as any).centerX = newCenterX
-      }
-      if (centerYInput) {
-        const newCenterY = parseFloat(centerYInput.value) || 0
-        if (newCenterY !== circle.centerY) (updates as any).centerY = newCenterY
-      }
-      if (radiusInput) {
-        const newRadius = Math.max(1, parseInt(radiusInput.value) || 1)
-        if (newRadius !== circle.radius) (updates as any).radius = newRadius
-      }
-    } else if ('startX' in this.originalObject && 'endX' in this.originalObject) {
-      // Line
-      const line = this.originalObject as GeometricLine
-      const startXInput = this.panel.querySelector('#edit-start-x') as HTMLInputElement
-      const startYInput = this.panel.querySelector('#edit-start-y') as HTMLInputElement
-      const endXInput = this.panel.querySelector('#edit-end-x') as HTMLInputElement
-      const endYInput = this.panel.querySelector('#edit-end-y') as HTMLInputElement
-      
-      if (startXInput) {
-        const newStartX = parseFloat(startXInput.value) || 0
-        if (newStartX !== line.startX) (updates as any).startX = newStartX
-      }
-      if (startYInput) {
-        const newStartY = parseFloat(startYInput.value) || 0
-        if (newStartY !== line.startY) (updates as any).startY = newStartY
+    const styleKeys = new Set([...Object.keys(style), ...Object.keys(original.style)]) as Set<keyof GeometryStyle>
+    if ([...styleKeys].some(key => style[key] !== original.style[key])) {
+      updates.style = style
+    }
+    
+    // Property bag (replaced as a whole)
+    const properties = this.readPropertyInputs()
+    if (properties) {
+      updates.properties = properties
+    }
+    
+    // Type-specific updates - the inputs edit shape parameters, which are turned back into vertices
+    const vertices = this.readShapeVertices(original)
+    if (vertices.some((vertex, index) => vertex.x !== original.pixeloidVertices[index]?.x || vertex.y !== original.pixeloidVertices[index]?.y)) {
+      updates.pixeloidVertices = vertices
+    }
+    
+    return updates
+  }
+
+  /**
+   * Vertices for the type-specific inputs (inputs that are missing keep the original value)
+   */
+  private readShapeVertices(original: GeometricObject): PixeloidVertex[] {
+    const panel = this.panel!
+    const readNumber = (id: string, fallback: number, parse: (value: string) => number = parseFloat): number => {
+      const input = panel.querySelector(`#${id}`) as HTMLInputElement | null
+      return input ? parse(input.value) || 0 : fallback
+    }
+    const vertices = original.pixeloidVertices
+
+    switch (original.type) {
+      case 'polygon':
+      case 'polyline':
+        // One X/Y row per vertex
+        return vertices.map((vertex, index) => ({
+          __brand: 'pixeloid',
+          x: readNumber(`edit-vertex-${index}-x`, vertex.x),
+          y: readNumber(`edit-vertex-${index}-y`, vertex.y)
+        }))
+      case 'diamond': {
+        const diamond = GeometryVertexCalculator.getDiamondShape(vertices)
+        const width = readNumber('edit-width', diamond.width)
+        return GeometryVertexCalculator.toDiamondVertices({
+          anchorX: readNumber('edit-anchor-x', diamond.anchorX),
+          anchorY: readNumber('edit-anchor-y', diamond.anchorY),
+          width,
+          height: width === diamond.width ? diamond.height : width / 4 // Isometric proportions
+        })
       }
-      if (endXInput) {
-        const newEndX = parseFloat(endXInput.value) || 0
-        if (newEndX !== line.endX) (updates as any).endX = newEndX
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return GeometryVertexCalculator.toRectangleVertices({
+          x: readNumber('edit-x', rect.x),
+          y: readNumber('edit-y', rect.y),
+          width: Math.max(1, readNumber('edit-width', rect.width, parseInt)),
+          height: Math.max(1, readNumber('edit-height', rect.height, parseInt))
+        })
       }
-      if (endYInput) {
-        const newEndY = parseFloat(endYInput.value) || 0
-        if (newEndY !== line.endY) (updates as any).endY = newEndY
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        return GeometryVertexCalculator.toCircleVertices({
+          centerX: readNumber('edit-center-x', circle.centerX),
+          centerY: readNumber('edit-center-y', circle.centerY),
+          radius: Math.max(1, readNumber('edit-radius', circle.radius, parseInt))
+        })
       }
-    } else if ('x' in this.originalObject && 'y' in this.originalObject && !('width' in this.originalObject)) {
-      // Point
-      const point = this.originalObject as GeometricPoint
-      const xInput = this.panel.querySelector('#edit-x') as HTMLInputElement
-      const yInput = this.panel.querySelector('#edit-y') as HTMLInputElement
-      
-      if (xInput) {
-        const newX = parseFloat(xInput.value) || 0
-        if (newX !== point.x) (updates as any).x = newX
+      case 'line': {
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        return GeometryVertexCalculator.toLineVertices({
+          startX: readNumber('edit-start-x', line.startX),
+          startY: readNumber('edit-start-y', line.startY),
+          endX: readNumber('edit-end-x', line.endX),
+          endY: readNumber('edit-end-y', line.endY)
+        })
       }
-      if (yInput) {
-        const newY = parseFloat(yInput.value) || 0
-        if (newY !== point.y) (updates as any).y = newY
+      case 'point': {
+        const point = GeometryVertexCalculator.getPointShape(vertices)
+        return GeometryVertexCalculator.toPointVertices({
+          x: readNumber('edit-x', point.x),
+          y: readNumber('edit-y', point.y)
+        })
       }
     }
-    
-    return updates
   }
 
   private updateRangeDisplays(): void {
@@ -672,11 +964,81 @@ export class ObjectEditPanel {
   
   
   private applyChanges(): void {
-    // Changes are already applied via live preview
+    // Changes are already applied via live preview - record them as one undo step
+    this.commitEdits()
     this.originalObject = null
-    this.originalAnchorOverride = null // Clear original state since changes are accepted
+    this.originalObjects = []
     updateGameStore.setEditPanelOpen(false)
   }
+
+  /**
+   * Remember the selected objects as they are, so Save can record the session as one undo step
+   * and Cancel can revert it
+   */
+  private startEditSession(): void {
+    const objects = updateGameStore.getSelectedObjects()
+    this.sessionOriginals = new Map(objects.map(obj => [obj.id, { ...obj }]))
+    this.editedKeys.clear()
+    this.historyLabel = objects.length > 1 ? `Edit ${objects.length} objects` : 'Edit object'
+  }
+
+  /**
+   * Apply a panel edit as a live preview without recording it - commitEdits records the session
+   */
+  private applyEdit(objectId: string, keys: string[], edit: () => void): void {
+    updateGameStore.withoutHistory(edit)
+    const editedKeys = this.editedKeys.get(objectId) ?? new Set<string>()
+    keys.forEach(key => editedKeys.add(key))
+    this.editedKeys.set(objectId, editedKeys)
+  }
+
+  private updateObject(objectId: string, updates: Partial<GeometricObject>): void {
+    this.applyEdit(objectId, Object.keys(updates), () => updateGameStore.updateGeometricObject(objectId, updates))
+  }
+
+  /**
+   * Record the fields the panel changed (original -> current values) as one undo step
+   */
+  private commitEdits(): void {
+    const edits: Array<{ objectId: string, before: Record<string, unknown>, after: Record<string, unknown> }> = []
+    this.editedKeys.forEach((keys, objectId) => {
+      const original = this.sessionOriginals.get(objectId)
+      const current = gameStore.geometry.objects.find(obj => obj.id === objectId)
+      if (!original || !current) return
+
+      const before: Record<string, unknown> = {}
+      const after: Record<string, unknown> = {}
+      keys.forEach(key => {
+        before[key] = original[key as keyof GeometricObject]
+        after[key] = current[key as keyof GeometricObject]
+      })
+      edits.push({ objectId, before, after })
+    })
+    if (edits.length > 0) {
+      updateGameStore.recordObjectEdits(this.historyLabel, edits)
+    }
+    this.sessionOriginals.clear()
+    this.editedKeys.clear()
+  }
+
+  /**
+   * Put the fields the panel changed back to their original values (not recorded - the session leaves no undo step)
+   */
+  private revertEdits(): void {
+    this.editedKeys.forEach((keys, objectId) => {
+      const original = this.sessionOriginals.get(objectId)
+      if (!original) return
+
+      const updates: Record<string, unknown> = {}
+      keys.forEach(key => {
+        updates[key] = original[key as keyof GeometricObject]
+      })
+      updateGameStore.withoutHistory(() => updateGameStore.updateGeometricObject(objectId, updates as Partial<GeometricObject>))
+    })
+    console.log(`ObjectEditPanel: Restored ${this.editedKeys.size} objects on cancel`)
+    this.sessionOriginals.clear()
+    this.editedKeys.clear()
+  }
   
   /**
    * Handle anchor point changes using existing vertex calculation system
@@ -691,6 +1053,16 @@ export class ObjectEditPanel {
     const objectType = this.getObjectType(selectedObject).toLowerCase()
     console.log(`ObjectEditPanel: Changing anchor for ${objectId} to ${newAnchor}`)
 
+    // Paths have no defining point pair - re-snap every vertex to the new anchor
+    if (selectedObject.type === 'polygon' || selectedObject.type === 'polyline') {
+      const pixeloidVertices = selectedObject.pixeloidVertices.map(vertex =>
+        GeometryVertexCalculator.snapToPixeloidAnchor(vertex, newAnchor)
+      )
+      this.updateObject(objectId, { pixeloidVertices, anchorConfig: { firstPointAnchor: newAnchor } })
+      console.log(`ObjectEditPanel: Re-snapped ${pixeloidVertices.length} vertices of ${objectId} to ${newAnchor}`)
+      return
+    }
+
     // Step 1: Extract geometry defining points from current coordinates
     const geometryPoints = this.extractGeometryPoints(selectedObject)
 
@@ -701,24 +1073,17 @@ export class ObjectEditPanel {
     }
 
     // Step 3: Recalculate vertices using existing vertex calculation system
-    const newVertices = GeometryVertexCalculator.calculateGeometryVertices(
+    const pixeloidVertices = GeometryVertexCalculator.calculateGeometryVertices(
       geometryPoints.firstPos,
       geometryPoints.secondPos,
       objectType as 'point' | 'line' | 'circle' | 'rectangle' | 'diamond',
       newAnchorConfig
     )
 
-    // Step 4: Extract properties using existing system
-    const newProperties = GeometryVertexCalculator.extractGeometryProperties(
-      newVertices,
-      objectType
-    )
-
-    // Step 5: Update object coordinates AND anchor override
-    updateGameStore.updateGeometricObject(objectId, newProperties)
-    updateGameStore.setObjectAnchor(objectId, newAnchorConfig)
+    // Step 4: Update object vertices AND anchor config together
+    this.updateObject(objectId, { pixeloidVertices, anchorConfig: newAnchorConfig })
     
-    console.log(`ObjectEditPanel: Anchor changed using vertex recalculation:`, newProperties)
+    console.log(`ObjectEditPanel: Anchor changed using vertex recalculation:`, pixeloidVertices)
   }
 
   /**
@@ -728,82 +1093,59 @@ export class ObjectEditPanel {
     firstPos: PixeloidCoordinate,
     secondPos: PixeloidCoordinate
   } {
-    
-    if ('x' in obj && 'width' in obj && 'height' in obj) {
-      // Rectangle: use top-left + bottom-right
-      const rect = obj as GeometricRectangle
-      return {
-        firstPos: { __brand: 'pixeloid', x: rect.x, y: rect.y },
-        secondPos: { __brand: 'pixeloid', x: rect.x + rect.width, y: rect.y + rect.height }
+    const vertices = obj.pixeloidVertices
+    const toCoordinate = (x: number, y: number): PixeloidCoordinate => ({ __brand: 'pixeloid', x, y })
+
+    switch (obj.type) {
+      case 'rectangle': {
+        // Rectangle: use top-left + bottom-right
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return {
+          firstPos: toCoordinate(rect.x, rect.y),
+          secondPos: toCoordinate(rect.x + rect.width, rect.y + rect.height)
+        }
       }
-    }
-    
-    if ('centerX' in obj && 'centerY' in obj && 'radius' in obj) {
-      // Circle: use west + east points
-      const circle = obj as GeometricCircle
-      return {
-        firstPos: { __brand: 'pixeloid', x: circle.centerX - circle.radius, y: circle.centerY },
-        secondPos: { __brand: 'pixeloid', x: circle.centerX + circle.radius, y: circle.centerY }
+      case 'circle': {
+        // Circle: use west + east points
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        return {
+          firstPos: toCoordinate(circle.centerX - circle.radius, circle.centerY),
+          secondPos: toCoordinate(circle.centerX + circle.radius, circle.centerY)
+        }
       }
-    }
-    
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      // Diamond: use west + east vertices
-      const diamond = obj as GeometricDiamond
-      return {
-        firstPos: { __brand: 'pixeloid', x: diamond.anchorX, y: diamond.anchorY },
-        secondPos: { __brand: 'pixeloid', x: diamond.anchorX + diamond.width, y: diamond.anchorY }
+      case 'diamond': {
+        // Diamond: use west + east vertices
+        const diamond = GeometryVertexCalculator.getDiamondShape(vertices)
+        return {
+          firstPos: toCoordinate(diamond.anchorX, diamond.anchorY),
+          secondPos: toCoordinate(diamond.anchorX + diamond.width, diamond.anchorY)
+        }
       }
-    }
-    
-    if ('startX' in obj && 'endX' in obj) {
-      // Line: use start + end
-      const line = obj as GeometricLine
-      return {
-        firstPos: { __brand: 'pixeloid', x: line.startX, y: line.startY },
-        secondPos: { __brand: 'pixeloid', x: line.endX, y: line.endY }
+      case 'line': {
+        // Line: use start + end
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        return {
+          firstPos: toCoordinate(line.startX, line.startY),
+          secondPos: toCoordinate(line.endX, line.endY)
+        }
       }
-    }
-    
-    if ('x' in obj && 'y' in obj && !('width' in obj)) {
-      // Point: same position for both
-      const point = obj as GeometricPoint
-      return {
-        firstPos: { __brand: 'pixeloid', x: point.x, y: point.y },
-        secondPos: { __brand: 'pixeloid', x: point.x, y: point.y }
+      default: {
+        // Point: same position for both
+        const point = GeometryVertexCalculator.getPointShape(vertices)
+        return {
+          firstPos: toCoordinate(point.x, point.y),
+          secondPos: toCoordinate(point.x, point.y)
+        }
       }
     }
-    
-    // Fallback
-    return {
-      firstPos: { __brand: 'pixeloid', x: 0, y: 0 },
-      secondPos: { __brand: 'pixeloid', x: 0, y: 0 }
-    }
   }
 
   private closePanel(): void {
-    // Restore original object if cancelled
-    if (this.originalObject) {
-      const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-      if (selectedObjectId) {
-        const objectIndex = gameStore.geometry.objects.findIndex(obj => obj.id === selectedObjectId)
-        if (objectIndex !== -1) {
-          gameStore.geometry.objects[objectIndex] = this.originalObject
-        }
-        
-        // Restore original anchor override state
-        if (this.originalAnchorOverride) {
-          updateGameStore.setObjectAnchor(selectedObjectId, this.originalAnchorOverride)
-        } else {
-          updateGameStore.clearObjectAnchor(selectedObjectId)
-        }
-        
-        console.log(`ObjectEditPanel: Restored object and anchor override state on cancel`)
-      }
-    }
+    // Revert the panel's own edits through the store (other changes made meanwhile are kept)
+    this.revertEdits()
     
     this.originalObject = null
-    this.originalAnchorOverride = null
+    this.originalObjects = []
     updateGameStore.setEditPanelOpen(false)
   }
   
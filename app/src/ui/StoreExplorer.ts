@@ -1,6 +1,9 @@
 import { gameStore, updateGameStore } from '../store/gameStore'
 import { subscribe } from 'valtio'
-import type { GeometricObject, GeometricPoint, GeometricLine, GeometricCircle, GeometricRectangle, GeometricDiamond } from '../types'
+import { ObjectQuery, type ObjectSortKey } from '../game/ObjectQuery'
+import { CameraAnimator } from '../game/CameraAnimator'
+import { GeometryVertexCalculator } from '../game/GeometryVertexCalculator'
+import type { ObjectGroup, GeometricObject } from '../types'
 
 // Shared panel constants - realistic heights that match Store panel's actual size
 const PANEL_CONSTANTS = {
@@ -15,16 +18,27 @@ const PANEL_CONSTANTS = {
  * with interactive features for navigation and object management.
  * 
  * Features:
+ * - Layer/group tree (top layer first) with visibility, lock, opacity and z-order controls
  * - Object list with small visual previews
- * - Summary statistics for each object
+ * - Summary statistics for each object (including its stored properties)
+ * - Query bar (see ObjectQuery) with sorting by created time, size or distance from the camera,
+ *   and selection of every matching object
  * - Scrollable interface for large object counts
  * - Right-click context menu (opens ObjectEditPanel)
  * - Double-click navigation (teleports viewport to object)
+ * - Drag an object onto a layer header to move it (or the selection) there
  */
 export class StoreExplorer {
   private panel: HTMLElement
   private objectList: HTMLElement
   private objectItems: Map<string, HTMLElement> = new Map()
+  private groupSections: Map<string, HTMLElement> = new Map()
+  private collapsedGroups: Set<string> = new Set()
+  private searchQuery = ''
+  private sortKey: ObjectSortKey = 'layer'
+  private sortDescending = false
+  private matchingObjectIds: string[] = [] // In display order
+  private queryUsesCamera = false // Distance sort or in:viewport - re-run when the camera moves
   private savedStorePanelHeight: number = PANEL_CONSTANTS.DEFAULT_MAX_HEIGHT
   private storeVisibilityObserver: MutationObserver | null = null
   
@@ -72,12 +86,34 @@ export class StoreExplorer {
           <span>Selected: <span class="font-mono" id="selected-info">None</span></span>
         </div>
         <div class="mt-1 text-xs opacity-70">
-          Right-click: Edit • Double-click: Navigate
+          Right-click: Edit • Double-click: Navigate • Drag onto a layer to move
+        </div>
+        <input type="search" class="input input-xs input-bordered w-full mt-2" id="explorer-search" placeholder="type:circle color:#ff0000 visible:true favorite:true in:x1,y1,x2,y2 id:… key=value" title="Filters: type:, color:, visible:, favorite:, in:x1,y1,x2,y2 or in:viewport, id:, key=value, free text" />
+        <div class="query-error text-xs text-error mt-1" style="display: none"></div>
+        <div class="flex items-center gap-1 mt-1">
+          <select class="select select-xs select-bordered" id="explorer-sort" title="Sort order">
+            <option value="layer">Layers</option>
+            <option value="created">Created</option>
+            <option value="size">Size</option>
+            <option value="distance">Distance from camera</option>
+          </select>
+          <button class="btn btn-xs btn-ghost btn-square" id="explorer-sort-direction" title="Toggle ascending / descending">↑</button>
+          <span class="text-xs opacity-70 flex-1 text-right font-mono" id="explorer-match-count"></span>
+          <button class="btn btn-xs btn-outline" id="explorer-select-matching" title="Select every matching object (locked layers are skipped)">Select All</button>
+        </div>
+        <div class="layer-toolbar flex flex-wrap gap-1 mt-2">
+          <button class="btn btn-xs btn-outline" id="explorer-add-layer" title="Add a layer on top">+ Layer</button>
+          <button class="btn btn-xs btn-outline" id="explorer-move-to-layer" title="Move selection to the active layer">To Layer</button>
+          <button class="btn btn-xs btn-outline" id="explorer-bring-to-front" title="Bring selection to front">⤒</button>
+          <button class="btn btn-xs btn-outline" id="explorer-bring-forward" title="Bring selection forward">↑</button>
+          <button class="btn btn-xs btn-outline" id="explorer-send-backward" title="Send selection backward">↓</button>
+          <button class="btn btn-xs btn-outline" id="explorer-send-to-back" title="Send selection to back">⤓</button>
         </div>
       </div>
       
       <div class="object-list flex-1 overflow-y-auto p-2">
         <!-- Dynamic object items will be inserted here -->
+        <div class="sorted-objects" style="display: none"></div>
       </div>
     `
     
@@ -95,9 +131,66 @@ export class StoreExplorer {
       this.hide()
     })
     
-    // Panel-wide event delegation for object interactions
+    // Query bar - filters and sorts the object items in place
+    this.panel.querySelector('#explorer-search')?.addEventListener('input', (event) => {
+      this.searchQuery = (event.target as HTMLInputElement).value
+      this.updateObjectList()
+    })
+    this.panel.querySelector('#explorer-sort')?.addEventListener('change', (event) => {
+      this.sortKey = (event.target as HTMLSelectElement).value as ObjectSortKey
+      this.updateObjectList()
+    })
+    this.panel.querySelector('#explorer-sort-direction')?.addEventListener('click', (event) => {
+      this.sortDescending = !this.sortDescending
+      ;(event.currentTarget as HTMLElement).textContent = this.sortDescending ? '↓' : '↑'
+      this.updateObjectList()
+    })
+    this.panel.querySelector('#explorer-select-matching')?.addEventListener('click', () => {
+      updateGameStore.setSelectedObjects(this.matchingObjectIds.filter(id => !updateGameStore.isObjectLocked(id)))
+    })
+    
+    // Layer toolbar (z-order actions apply to the whole selection)
+    this.panel.querySelector('#explorer-add-layer')?.addEventListener('click', () => {
+      updateGameStore.createGroup()
+    })
+    this.panel.querySelector('#explorer-move-to-layer')?.addEventListener('click', () => {
+      updateGameStore.moveObjectsToGroup(
+        [...gameStore.geometry.selection.selectedObjectIds],
+        gameStore.geometry.groups.activeGroupId
+      )
+    })
+    this.panel.querySelector('#explorer-bring-to-front')?.addEventListener('click', () => {
+      updateGameStore.bringToFront([...gameStore.geometry.selection.selectedObjectIds])
+    })
+    this.panel.querySelector('#explorer-bring-forward')?.addEventListener('click', () => {
+      updateGameStore.bringForward([...gameStore.geometry.selection.selectedObjectIds])
+    })
+    this.panel.querySelector('#explorer-send-backward')?.addEventListener('click', () => {
+      updateGameStore.sendBackward([...gameStore.geometry.selection.selectedObjectIds])
+    })
+    this.panel.querySelector('#explorer-send-to-back')?.addEventListener('click', () => {
+      updateGameStore.sendToBack([...gameStore.geometry.selection.selectedObjectIds])
+    })
+    
+    // Panel-wide event delegation for object and layer interactions
     this.objectList.addEventListener('click', this.handleObjectClick.bind(this))
     this.objectList.addEventListener('contextmenu', this.handleObjectRightClick.bind(this))
+    this.objectList.addEventListener('input', this.handleGroupInput.bind(this))
+    this.objectList.addEventListener('change', this.handleGroupInput.bind(this))
+    
+    // Drag objects onto layer headers
+    this.objectList.addEventListener('dragstart', (event) => {
+      const item = (event.target as HTMLElement).closest('.object-item') as HTMLElement
+      if (item?.dataset.objectId) {
+        event.dataTransfer?.setData('text/plain', item.dataset.objectId)
+      }
+    })
+    this.objectList.addEventListener('dragover', (event) => {
+      if ((event.target as HTMLElement).closest('.group-header')) {
+        event.preventDefault()
+      }
+    })
+    this.objectList.addEventListener('drop', this.handleGroupDrop.bind(this))
   }
 
   /**
@@ -125,6 +218,18 @@ export class StoreExplorer {
     subscribe(gameStore.geometry.favorites, () => {
       this.updateObjectList()
     })
+    
+    // Subscribe to layer/group changes for the tree structure
+    subscribe(gameStore.geometry.groups, () => {
+      this.updateObjectList()
+    })
+    
+    // Camera moves only matter to camera-relative queries
+    subscribe(gameStore.camera, () => {
+      if (this.queryUsesCamera && this.isVisible()) {
+        this.applyQuery()
+      }
+    })
   }
 
   /**
@@ -179,11 +284,13 @@ export class StoreExplorer {
   }
 
   /**
-   * Update the object list display
+   * Update the layer tree and the object items nested in it
    */
   private updateObjectList(): void {
     const objects = gameStore.geometry.objects
+    const groups = gameStore.geometry.groups.list
     const currentObjectIds = new Set(objects.map(obj => obj.id))
+    const currentGroupIds = new Set(groups.map(group => group.id))
     
     // Remove items for deleted objects
     for (const [objectId, element] of this.objectItems) {
@@ -202,6 +309,71 @@ export class StoreExplorer {
       }
     })
     
+    // Remove sections for deleted groups (their objects were moved to another group)
+    for (const [groupId, section] of this.groupSections) {
+      if (!currentGroupIds.has(groupId)) {
+        section.remove()
+        this.groupSections.delete(groupId)
+        this.collapsedGroups.delete(groupId)
+      }
+    }
+    
+    // Top layer first, topmost object first (a sorted query shows the items in a flat list instead)
+    groups.slice().reverse().forEach((group, groupPosition) => {
+      const section = this.groupSections.get(group.id) ?? this.createGroupSection(group)
+      this.updateGroupSection(group, section)
+      this.placeChild(this.objectList, section, groupPosition)
+      
+      if (this.sortKey !== 'layer') return
+      const groupObjects = section.querySelector('.group-objects') as HTMLElement
+      updateGameStore.getGroupObjects(group.id).reverse().forEach((obj, objectPosition) => {
+        this.placeChild(groupObjects, this.objectItems.get(obj.id)!, objectPosition)
+      })
+    })
+    
+    this.applyQuery()
+  }
+
+  /**
+   * Filter the object items by the query bar and, for a sort other than layers,
+   * order the matching items in the flat sorted list
+   */
+  private applyQuery(): void {
+    const { filter, errors } = ObjectQuery.parse(this.searchQuery)
+    const objects = gameStore.geometry.objects
+    const matching = objects.filter(obj => ObjectQuery.matches(obj, filter))
+    const matchingIds = new Set(matching.map(obj => obj.id))
+    const isSorted = this.sortKey !== 'layer'
+    this.queryUsesCamera = this.sortKey === 'distance' || filter.region === 'viewport'
+    
+    for (const [objectId, item] of this.objectItems) {
+      item.style.display = matchingIds.has(objectId) ? '' : 'none'
+    }
+    
+    const sortedList = this.objectList.querySelector('.sorted-objects') as HTMLElement
+    sortedList.style.display = isSorted ? '' : 'none'
+    for (const section of this.groupSections.values()) {
+      section.style.display = isSorted ? 'none' : ''
+    }
+    
+    if (isSorted) {
+      const sorted = ObjectQuery.sort(matching, this.sortKey, this.sortDescending)
+      sorted.forEach((obj, position) => this.placeChild(sortedList, this.objectItems.get(obj.id)!, position))
+      this.matchingObjectIds = sorted.map(obj => obj.id)
+    } else {
+      // Same order as the tree: top layer first, topmost object first
+      this.matchingObjectIds = ObjectQuery.sort(matching, 'layer', true).map(obj => obj.id)
+    }
+    
+    const countEl = this.panel.querySelector('#explorer-match-count')
+    if (countEl) {
+      countEl.textContent = this.searchQuery.trim() ? `${matching.length} / ${objects.length}` : ''
+    }
+    const errorEl = this.panel.querySelector('.query-error') as HTMLElement
+    errorEl.textContent = errors.join(' • ')
+    errorEl.style.display = errors.length > 0 ? '' : 'none'
+    ;(this.panel.querySelector('#explorer-select-matching') as HTMLButtonElement).disabled = matching.length === 0
+    
     // Update panel height after content changes
     setTimeout(() => this.updatePanelHeight(), 0)
   }
@@ -213,6 +385,7 @@ export class StoreExplorer {
     const item = document.createElement('div')
     item.className = 'object-item flex items-center p-2 mb-2 rounded border border-base-300 hover:bg-base-200 cursor-pointer'
     item.dataset.objectId = obj.id
+    item.draggable = true
     
     item.innerHTML = `
       <div class="preview-container w-12 h-12 flex-shrink-0 mr-3 bg-base-100 border border-base-300 rounded flex items-center justify-center">
@@ -239,19 +412,170 @@ export class StoreExplorer {
           ${this.formatObjectPosition(obj)}
         </div>
         
-        <div class="properties text-xs opacity-60 mt-1">
-          ${this.formatObjectProperties(obj)}
-        </div>
+        <div class="properties text-xs opacity-60 mt-1"></div>
       </div>
     `
+    // Set as text - property values are user input
+    ;(item.querySelector('.properties') as HTMLElement).textContent = this.formatObjectProperties(obj)
     
-    this.objectList.appendChild(item)
+    // Placed into its group section by updateObjectList
     this.objectItems.set(obj.id, item)
     
     // Try to load preview immediately if available
     this.updateObjectItemPreview(obj.id)
   }
 
+  /**
+   * Move a node to a child position, leaving nodes that are already in place untouched
+   * (moving a node would blur a focused layer name input)
+   */
+  private placeChild(parent: HTMLElement, child: HTMLElement, position: number): void {
+    const current = parent.children[position] ?? null
+    if (current !== child) {
+      parent.insertBefore(child, current)
+    }
+  }
+
+  /**
+   * Create a layer section (header + nested object container)
+   */
+  private createGroupSection(group: ObjectGroup): HTMLElement {
+    const section = document.createElement('div')
+    section.className = 'group-section mb-2'
+    section.dataset.groupId = group.id
+    
+    section.innerHTML = `
+      <div class="group-header flex items-center gap-1 p-1 mb-1 rounded bg-base-200 border-l-4 cursor-pointer" data-group-id="${group.id}">
+        <button class="group-collapse btn btn-xs btn-ghost btn-square" title="Collapse / expand"></button>
+        <input class="group-name input input-xs input-ghost flex-1 min-w-0 font-semibold" type="text" title="Rename layer" />
+        <span class="group-count text-xs opacity-60 font-mono"></span>
+        <button class="group-visibility btn btn-xs btn-ghost btn-square"></button>
+        <button class="group-lock btn btn-xs btn-ghost btn-square"></button>
+        <input class="group-opacity range range-xs w-14" type="range" min="0" max="100" step="5" title="Layer opacity" />
+        <button class="group-up btn btn-xs btn-ghost btn-square" title="Move layer up">▲</button>
+        <button class="group-down btn btn-xs btn-ghost btn-square" title="Move layer down">▼</button>
+        <button class="group-delete btn btn-xs btn-ghost btn-square text-error" title="Delete layer (objects move to the layer below)">🗑️</button>
+      </div>
+      <div class="group-objects pl-3"></div>
+    `
+    
+    this.groupSections.set(group.id, section)
+    return section
+  }
+
+  /**
+   * Refresh a layer header from the store
+   */
+  private updateGroupSection(group: ObjectGroup, section: HTMLElement): void {
+    const isActive = group.id === gameStore.geometry.groups.activeGroupId
+    const isCollapsed = this.collapsedGroups.has(group.id)
+    const groupCount = gameStore.geometry.groups.list.length
+    
+    const header = section.querySelector('.group-header') as HTMLElement
+    header.classList.toggle('border-primary', isActive)
+    header.classList.toggle('border-transparent', !isActive)
+    header.title = isActive ? 'Active layer (new objects are added here)' : 'Click to make this the active layer'
+    
+    const nameInput = section.querySelector('.group-name') as HTMLInputElement
+    if (document.activeElement !== nameInput) {
+      nameInput.value = group.name
+    }
+    
+    const opacityInput = section.querySelector('.group-opacity') as HTMLInputElement
+    if (document.activeElement !== opacityInput) {
+      opacityInput.value = Math.round(group.opacity * 100).toString()
+    }
+    
+    const collapseBtn = section.querySelector('.group-collapse') as HTMLElement
+    collapseBtn.textContent = isCollapsed ? '▸' : '▾'
+    
+    const visibilityBtn = section.querySelector('.group-visibility') as HTMLElement
+    visibilityBtn.textContent = group.isVisible ? '👁' : '🚫'
+    visibilityBtn.title = group.isVisible ? 'Hide layer' : 'Show layer'
+    
+    const lockBtn = section.querySelector('.group-lock') as HTMLElement
+    lockBtn.textContent = group.isLocked ? '🔒' : '🔓'
+    lockBtn.title = group.isLocked ? 'Unlock layer' : 'Lock layer'
+    
+    const rank = gameStore.geometry.groups.list.indexOf(group)
+    ;(section.querySelector('.group-up') as HTMLButtonElement).disabled = rank === groupCount - 1
+    ;(section.querySelector('.group-down') as HTMLButtonElement).disabled = rank === 0
+    ;(section.querySelector('.group-delete') as HTMLButtonElement).disabled = groupCount <= 1
+    
+    const countEl = section.querySelector('.group-count') as HTMLElement
+    countEl.textContent = updateGameStore.getGroupObjects(group.id).length.toString()
+    
+    const objectsEl = section.querySelector('.group-objects') as HTMLElement
+    objectsEl.style.display = isCollapsed ? 'none' : ''
+    objectsEl.style.opacity = group.isVisible ? '' : '0.5'
+  }
+
+  /**
+   * Handle layer header clicks - returns true when the click was consumed
+   */
+  private handleGroupClick(target: HTMLElement): boolean {
+    const header = target.closest('.group-header') as HTMLElement
+    const groupId = header?.dataset.groupId
+    if (!groupId) return false
+    
+    const group = gameStore.geometry.groups.list.find(g => g.id === groupId)
+    if (!group) return true
+    
+    if (target.closest('.group-collapse')) {
+      if (this.collapsedGroups.has(groupId)) {
+        this.collapsedGroups.delete(groupId)
+      } else {
+        this.collapsedGroups.add(groupId)
+      }
+      this.updateObjectList()
+    } else if (target.closest('.group-visibility')) {
+      updateGameStore.setGroupVisibility(groupId, !group.isVisible)
+    } else if (target.closest('.group-lock')) {
+      updateGameStore.setGroupLocked(groupId, !group.isLocked)
+    } else if (target.closest('.group-up')) {
+      updateGameStore.moveGroup(groupId, 'up')
+    } else if (target.closest('.group-down')) {
+      updateGameStore.moveGroup(groupId, 'down')
+    } else if (target.closest('.group-delete')) {
+      updateGameStore.removeGroup(groupId)
+    } else if (!target.closest('.group-name, .group-opacity')) {
+      updateGameStore.setActiveGroup(groupId)
+    }
+    return true
+  }
+
+  /**
+   * Handle layer rename (change) and opacity slider (input) events
+   */
+  private handleGroupInput(event: Event): void {
+    const target = event.target as HTMLInputElement
+    const groupId = (target.closest('.group-header') as HTMLElement)?.dataset.groupId
+    if (!groupId) return
+    
+    if (target.classList.contains('group-opacity')) {
+      updateGameStore.setGroupOpacity(groupId, Number(target.value) / 100)
+    } else if (target.classList.contains('group-name') && event.type === 'change') {
+      updateGameStore.renameGroup(groupId, target.value)
+      target.blur()
+    }
+  }
+
+  /**
+   * Move a dropped object (or the whole selection it belongs to) into a layer
+   */
+  private handleGroupDrop(event: DragEvent): void {
+    const header = (event.target as HTMLElement).closest('.group-header') as HTMLElement
+    const groupId = header?.dataset.groupId
+    const objectId = event.dataTransfer?.getData('text/plain')
+    if (!groupId || !objectId) return
+    
+    event.preventDefault()
+    const objectIds = updateGameStore.isObjectSelected(objectId)
+      ? [...gameStore.geometry.selection.selectedObjectIds]
+      : [objectId]
+    updateGameStore.moveObjectsToGroup(objectIds, groupId)
+  }
+
   /**
    * Update an existing object item
    */
@@ -365,15 +689,15 @@ export class StoreExplorer {
    * Update selection highlighting
    */
   private updateSelection(): void {
-    const selectedId = gameStore.geometry.selection.selectedObjectId
+    const selectedIds = gameStore.geometry.selection.selectedObjectIds
     
     // Remove previous selection highlighting
     this.objectItems.forEach(item => {
       item.classList.remove('ring-2', 'ring-primary', 'bg-primary/10')
     })
     
-    // Add selection highlighting to current selection
-    if (selectedId) {
+    // Add selection highlighting to every selected object
+    for (const selectedId of selectedIds) {
       const selectedItem = this.objectItems.get(selectedId)
       if (selectedItem) {
         selectedItem.classList.add('ring-2', 'ring-primary', 'bg-primary/10')
@@ -396,7 +720,10 @@ export class StoreExplorer {
     }
     
     if (selectedEl) {
-      if (selectedId) {
+      const selectedCount = gameStore.geometry.selection.selectedObjectIds.length
+      if (selectedCount > 1) {
+        selectedEl.textContent = `${selectedCount} objects`
+      } else if (selectedId) {
         const selectedObj = gameStore.geometry.objects.find(obj => obj.id === selectedId)
         selectedEl.textContent = selectedObj ? this.getObjectTypeName(selectedObj) : 'None'
       } else {
@@ -411,6 +738,11 @@ export class StoreExplorer {
   private handleObjectClick(event: MouseEvent): void {
     const target = event.target as HTMLElement
     
+    // Layer header controls
+    if (this.handleGroupClick(target)) {
+      return
+    }
+    
     // Handle retry preview button clicks
     if (target.classList.contains('retry-preview-btn') || target.closest('.retry-preview-btn')) {
       const retryBtn = target.classList.contains('retry-preview-btn') ? target : target.closest('.retry-preview-btn') as HTMLElement
@@ -443,9 +775,11 @@ export class StoreExplorer {
       if (objectId) {
         // Delete the object
         updateGameStore.removeGeometricObject(objectId)
-        // Clear selection if this was the selected object
-        if (gameStore.geometry.selection.selectedObjectId === objectId) {
-          updateGameStore.clearSelection()
+        // Drop the object from the selection if it was selected
+        if (updateGameStore.isObjectSelected(objectId)) {
+          updateGameStore.setSelectedObjects(
+            gameStore.geometry.selection.selectedObjectIds.filter(id => id !== objectId)
+          )
         }
         event.preventDefault()
         event.stopPropagation()
@@ -470,6 +804,12 @@ export class StoreExplorer {
     this.lastClickTime = currentTime
     this.lastClickedObjectId = objectId
     
+    // Shift-click adds/removes the object from the selection set
+    if (event.shiftKey) {
+      updateGameStore.toggleObjectSelection(objectId)
+      return
+    }
+    
     // Select the object
     updateGameStore.setSelectedObject(objectId)
     
@@ -500,41 +840,44 @@ export class StoreExplorer {
    * Navigate viewport to center on the selected object
    */
   private navigateToObject(objectId: string): void {
-    // Use the offset-based method that works with WASD movement
-    updateGameStore.centerViewportOnObject(objectId)
+    // Eased fly-to of the offset-based camera (same end position as centerViewportOnObject)
+    CameraAnimator.flyToObject(objectId)
   }
 
   /**
    * Get human-readable object type name
    */
   private getObjectTypeName(obj: GeometricObject): string {
-    if ('anchorX' in obj) return 'Diamond'
-    if ('radius' in obj) return 'Circle'
-    if ('width' in obj && 'height' in obj) return 'Rectangle'
-    if ('startX' in obj && 'endX' in obj) return 'Line'
-    if ('x' in obj && 'y' in obj) return 'Point'
-    return 'Unknown'
+    return obj.type.charAt(0).toUpperCase() + obj.type.slice(1)
   }
 
   /**
    * Format object position for display
    */
   private formatObjectPosition(obj: GeometricObject): string {
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      const diamond = obj as GeometricDiamond
-      return `(${diamond.anchorX.toFixed(1)}, ${diamond.anchorY.toFixed(1)})`
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      const circle = obj as GeometricCircle
-      return `Center: (${circle.centerX.toFixed(1)}, ${circle.centerY.toFixed(1)})`
-    } else if ('x' in obj && 'y' in obj && 'width' in obj && 'height' in obj) {
-      const rect = obj as GeometricRectangle
-      return `(${rect.x.toFixed(1)}, ${rect.y.toFixed(1)})`
-    } else if ('startX' in obj && 'endX' in obj) {
-      const line = obj as GeometricLine
-      return `(${line.startX.toFixed(1)}, ${line.startY.toFixed(1)}) → (${line.endX.toFixed(1)}, ${line.endY.toFixed(1)})`
-    } else if ('x' in obj && 'y' in obj) {
-      const point = obj as GeometricPoint
-      return `(${point.x.toFixed(1)}, ${point.y.toFixed(1)})`
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+        return `(${vertices[0].x.toFixed(1)}, ${vertices[0].y.toFixed(1)}) + ${vertices.length - 1} vertices`
+      case 'diamond': {
+        const diamond = GeometryVertexCalculator.getDiamondShape(vertices)
+        return `(${diamond.anchorX.toFixed(1)}, ${diamond.anchorY.toFixed(1)})`
+      }
+      case 'circle': {
+        const circle = GeometryVertexCalculator.getCircleShape(vertices)
+        return `Center: (${circle.centerX.toFixed(1)}, ${circle.centerY.toFixed(1)})`
+      }
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return `(${rect.x.toFixed(1)}, ${rect.y.toFixed(1)})`
+      }
+      case 'line': {
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        return `(${line.startX.toFixed(1)}, ${line.startY.toFixed(1)}) → (${line.endX.toFixed(1)}, ${line.endY.toFixed(1)})`
+      }
+      case 'point':
+        return `(${vertices[0].x.toFixed(1)}, ${vertices[0].y.toFixed(1)})`
     }
     return 'Unknown position'
   }
@@ -543,19 +886,35 @@ export class StoreExplorer {
    * Format object properties for display
    */
   private formatObjectProperties(obj: GeometricObject): string {
-    if ('width' in obj && 'height' in obj) {
-      const sized = obj as GeometricRectangle | GeometricDiamond
-      return `Size: ${sized.width.toFixed(1)} × ${sized.height.toFixed(1)}`
-    } else if ('radius' in obj) {
-      const circle = obj as GeometricCircle
-      return `Radius: ${circle.radius.toFixed(1)}`
-    } else if ('startX' in obj && 'endX' in obj) {
-      const line = obj as GeometricLine
-      const length = Math.sqrt(
-        Math.pow(line.endX - line.startX, 2) +
-        Math.pow(line.endY - line.startY, 2)
-      )
-      return `Length: ${length.toFixed(1)}`
+    const tags = Object.entries(obj.properties ?? {}).map(([key, value]) => `${key}=${value}`)
+    const summary = this.formatObjectSummary(obj)
+    return tags.length > 0 ? `${summary} • ${tags.join(', ')}` : summary
+  }
+
+  private formatObjectSummary(obj: GeometricObject): string {
+    const vertices = obj.pixeloidVertices
+    switch (obj.type) {
+      case 'polygon':
+      case 'polyline':
+        return `Vertices: ${vertices.length}`
+      case 'rectangle': {
+        const rect = GeometryVertexCalculator.getRectangleShape(vertices)
+        return `Size: ${rect.width.toFixed(1)} × ${rect.height.toFixed(1)}`
+      }
+      case 'diamond': {
+        const diamond = GeometryVertexCalculator.getDiamondShape(vertices)
+        return `Size: ${diamond.width.toFixed(1)} × ${diamond.height.toFixed(1)}`
+      }
+      case 'circle':
+        return `Radius: ${GeometryVertexCalculator.getCircleShape(vertices).radius.toFixed(1)}`
+      case 'line': {
+        const line = GeometryVertexCalculator.getLineShape(vertices)
+        const length = Math.sqrt(
+          Math.pow(line.endX - line.startX, 2) +
+          Math.pow(line.endY - line.startY, 2)
+        )
+        return `Length: ${length.toFixed(1)}`
+      }
     }
     return `Created: ${new Date(obj.createdAt).toLocaleTimeString()}`
   }
@@ -637,8 +996,16 @@ export class StoreExplorer {
       actualItemHeight = itemRect.height + marginBottom
     }
     
+    // Layer headers are part of the content
+    let actualHeaderHeight = 36 // Default fallback
+    const firstHeader = scrollableDiv.querySelector('.group-header') as HTMLElement
+    if (firstHeader) {
+      actualHeaderHeight = firstHeader.getBoundingClientRect().height + (parseInt(window.getComputedStyle(firstHeader).marginBottom) || 0)
+    }
+    
     const objectCount = gameStore.geometry.objects.length
-    const contentHeight = objectCount > 0 ? objectCount * actualItemHeight : 100
+    const groupCount = gameStore.geometry.groups.list.length
+    const contentHeight = (objectCount > 0 ? objectCount * actualItemHeight : 100) + groupCount * actualHeaderHeight
     
     // Account for scrollable div padding
     const scrollablePadding = 16 // The p-2 class adds padding to the scrollable div
@@ -720,5 +1087,6 @@ export class StoreExplorer {
     }
     this.panel.remove()
     this.objectItems.clear()
+    this.groupSections.clear()
   }
 }
\ No newline at end of file
@@ -28,6 +28,7 @@ export class StorePanel {
       'game-scene',
       'camera-position',
       'pixeloid-scale',
+      'camera-projection',
       'top-left-corner',
       'bottom-right-corner',
       'window-size',
@@ -53,10 +54,16 @@ export class StorePanel {
       'drawing-mode',
       'objects-count',
       'selected-object',
+      'history-depth',
+      'history-last-action',
       'active-raycasts',
       'layer-grid',
       'layer-geometry',
-      'layer-raycast'
+      'layer-raycast',
+      // Pixeloid occupancy (mesh registry)
+      'occupancy-stats',
+      'occupancy-sampling-mode',
+      'occupancy-overlay'
     ];
     
     elementIds.forEach(id => {
@@ -84,6 +91,27 @@ export class StorePanel {
     closeBtn?.addEventListener('click', () => {
       this.toggle();
     });
+    
+    // Projection toggle button
+    const projectionBtn = document.getElementById('toggle-projection');
+    projectionBtn?.addEventListener('click', () => {
+      const next = gameStore.camera.projection === 'isometric' ? 'orthographic' : 'isometric';
+      updateGameStore.setCameraProjection(next);
+    });
+
+    // Occupancy sampling mode and debug overlay toggles
+    const samplingBtn = document.getElementById('toggle-sampling-mode');
+    samplingBtn?.addEventListener('click', () => {
+      const next = gameStore.meshRegistry.meshSettings.samplingMode === 'precise' ? 'fast' : 'precise';
+      updateGameStore.updateMeshSettings({ samplingMode: next });
+    });
+
+    const overlayBtn = document.getElementById('toggle-occupancy-overlay');
+    overlayBtn?.addEventListener('click', () => {
+      updateGameStore.updateMeshSettings({
+        enableDebugVisualization: !gameStore.meshRegistry.meshSettings.enableDebugVisualization
+      });
+    });
   }
   
   private updateValues(): void {
@@ -113,6 +141,11 @@ export class StorePanel {
       'text-primary'
     );
     
+    updateElement(this.elements, 'camera-projection',
+      gameStore.camera.projection,
+      gameStore.camera.projection === 'isometric' ? 'text-warning' : 'text-primary'
+    );
+    
     updateElement(this.elements, 'top-left-corner',
       'N/A (simple system)',
       'text-gray-400'
@@ -273,12 +306,24 @@ export class StorePanel {
 
     // Selected object
     const selectedObjectId = gameStore.geometry.selection.selectedObjectId
-    const selectedText = selectedObjectId ? selectedObjectId : 'none'
+    const selectedCount = gameStore.geometry.selection.selectedObjectIds.length
+    const selectedText = selectedCount > 1 ? `${selectedObjectId} (+${selectedCount - 1})` : selectedObjectId ? selectedObjectId : 'none'
     updateElement(this.elements, 'selected-object',
       selectedText,
       selectedObjectId ? 'text-info' : 'text-base-content/50'
     );
 
+    // Undo/redo history
+    updateElement(this.elements, 'history-depth',
+      `${gameStore.history.undoDepth} / ${gameStore.history.redoDepth}`,
+      gameStore.history.undoDepth > 0 ? 'text-accent' : 'text-base-content/50'
+    );
+
+    updateElement(this.elements, 'history-last-action',
+      gameStore.history.lastAction ?? 'none',
+      gameStore.history.lastAction ? 'text-info' : 'text-base-content/50'
+    );
+
     updateElement(this.elements, 'active-raycasts',
       gameStore.geometry.raycast.activeRaycasts.length.toString(),
       'text-warning'
@@ -299,6 +344,24 @@ export class StorePanel {
       getBooleanStatusText(gameStore.geometry.layerVisibility.raycast),
       getBooleanStatusClass(gameStore.geometry.layerVisibility.raycast)
     );
+
+    // Pixeloid occupancy
+    const meshStats = gameStore.meshRegistry.stats;
+    const meshSettings = gameStore.meshRegistry.meshSettings;
+    updateElement(this.elements, 'occupancy-stats',
+      `${meshStats.totalMeshes} / ${meshStats.totalPixeloids}`,
+      'text-primary'
+    );
+
+    updateElement(this.elements, 'occupancy-sampling-mode',
+      meshSettings.samplingMode,
+      meshSettings.samplingMode === 'fast' ? 'text-warning' : 'text-primary'
+    );
+
+    updateElement(this.elements, 'occupancy-overlay',
+      getBooleanStatusText(meshSettings.enableDebugVisualization),
+      getBooleanStatusClass(meshSettings.enableDebugVisualization)
+    );
   }
   
   /**
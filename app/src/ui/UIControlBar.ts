@@ -4,6 +4,8 @@ export class UIControlBar {
   private storeExplorer: { toggle: () => void; isVisible: () => boolean } | null = null;
   private workspace: { toggle: () => void; isVisible: () => boolean } | null = null;
   private layers: { toggle: () => void; isVisible: () => boolean } | null = null;
+  private keybindingHelp: { toggle: () => void; isVisible: () => boolean; onVisibilityChange: (() => void) | null } | null = null;
+  private minimap: { toggle: () => void; isVisible: () => boolean } | null = null;
   
   constructor() {
     this.initializeElements();
@@ -68,6 +70,27 @@ export class UIControlBar {
     } else {
       console.warn('Layers toggle button not found');
     }
+    
+    // Minimap toggle button
+    const minimapToggle = document.getElementById('toggle-minimap');
+    if (minimapToggle) {
+      minimapToggle.addEventListener('click', () => {
+        this.minimap?.toggle();
+        this.updateMinimapButton();
+      });
+    } else {
+      console.warn('Minimap toggle button not found');
+    }
+    
+    // Keyboard shortcuts toggle button
+    const keybindingsToggle = document.getElementById('toggle-keybindings');
+    if (keybindingsToggle) {
+      keybindingsToggle.addEventListener('click', () => {
+        this.keybindingHelp?.toggle();
+      });
+    } else {
+      console.warn('Keybindings toggle button not found');
+    }
   }
   
   /**
@@ -110,6 +133,23 @@ export class UIControlBar {
     this.updateLayersButton();
   }
   
+  /**
+   * Register the keyboard shortcut overlay with the control bar (it can also be toggled with '?')
+   */
+  public registerKeybindingHelp(keybindingHelp: { toggle: () => void; isVisible: () => boolean; onVisibilityChange: (() => void) | null }): void {
+    this.keybindingHelp = keybindingHelp;
+    keybindingHelp.onVisibilityChange = () => this.updateKeybindingsButton();
+    this.updateKeybindingsButton();
+  }
+  
+  /**
+   * Register the minimap with the control bar
+   */
+  public registerMinimap(minimap: { toggle: () => void; isVisible: () => boolean }): void {
+    this.minimap = minimap;
+    this.updateMinimapButton();
+  }
+  
   /**
    * Toggle store panel visibility
    */
@@ -301,6 +341,30 @@ export class UIControlBar {
     }
   }
   
+  /**
+   * Update the keyboard shortcuts button state
+   */
+  private updateKeybindingsButton(): void {
+    const button = document.getElementById('toggle-keybindings');
+    if (button && this.keybindingHelp) {
+      const isVisible = this.keybindingHelp.isVisible();
+      button.classList.toggle('btn-outline', !isVisible);
+      button.classList.toggle('btn-accent', isVisible);
+    }
+  }
+  
+  /**
+   * Update the minimap button state
+   */
+  private updateMinimapButton(): void {
+    const button = document.getElementById('toggle-minimap');
+    if (button && this.minimap) {
+      const isVisible = this.minimap.isVisible();
+      button.classList.toggle('btn-outline', !isVisible);
+      button.classList.toggle('btn-info', isVisible);
+    }
+  }
+  
   public destroy(): void {
     // Clean up event listeners if needed
   }
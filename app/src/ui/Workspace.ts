@@ -1,6 +1,8 @@
 import { subscribe } from 'valtio'
 import { gameStore, updateGameStore } from '../store/gameStore'
-import type { GeometricObject } from '../types'
+import { CameraAnimator } from '../game/CameraAnimator'
+import { GeometryHelper } from '../game/GeometryHelper'
+import type { CameraBookmark, GeometricObject } from '../types'
 
 export class Workspace {
   private panel: HTMLElement | null = null
@@ -27,6 +29,9 @@ export class Workspace {
     subscribe(gameStore.geometry, () => {
       this.updateContent()
     })
+    subscribe(gameStore.camera.bookmarks, () => {
+      this.updateContent()
+    })
   }
   
   private setupEventHandlers(): void {
@@ -36,6 +41,17 @@ export class Workspace {
     this.panel.addEventListener('click', (event) => {
       const target = event.target as HTMLElement
       
+      // Camera bookmarks
+      if (target.closest('.add-bookmark')) {
+        this.addBookmark()
+        return
+      }
+      const bookmarkItem = target.closest('[data-bookmark-id]') as HTMLElement | null
+      if (bookmarkItem) {
+        this.handleBookmarkClick(bookmarkItem.dataset.bookmarkId!, target)
+        return
+      }
+      
       // Handle object selection
       const objectItem = target.closest('[data-object-id]')
       if (objectItem) {
@@ -88,15 +104,36 @@ export class Workspace {
     
     // Handle double-click navigation (use proven viewport method)
     if (isDoubleClick) {
-      updateGameStore.centerViewportOnObject(objectId)
+      CameraAnimator.flyToObject(objectId)
+    }
+  }
+  
+  private addBookmark(): void {
+    const name = prompt('Bookmark name:', `View ${gameStore.camera.bookmarks.length + 1}`)
+    if (name === null) return
+    updateGameStore.addCameraBookmark(name)
+  }
+  
+  private handleBookmarkClick(bookmarkId: string, target: HTMLElement): void {
+    if (target.classList.contains('remove-bookmark')) {
+      updateGameStore.removeCameraBookmark(bookmarkId)
+    } else if (target.classList.contains('rename-bookmark')) {
+      const bookmark = gameStore.camera.bookmarks.find(candidate => candidate.id === bookmarkId)
+      const name = prompt('Rename bookmark:', bookmark?.name ?? '')
+      if (name !== null) {
+        updateGameStore.renameCameraBookmark(bookmarkId, name)
+      }
+    } else {
+      CameraAnimator.flyToBookmark(bookmarkId)
     }
   }
   
   private updateContent(): void {
     if (!this.panel) return
     
-    const clipboardObject = gameStore.geometry.clipboard.copiedObject
+    const clipboardObjects = gameStore.geometry.clipboard.copiedObjects
     const favoriteObjects = this.getFavoriteObjects()
+    const bookmarks = gameStore.camera.bookmarks
     
     this.panel.innerHTML = `
       <div class="flex h-full gap-3">
@@ -106,8 +143,11 @@ export class Workspace {
             <span>📋</span>
             <span>Clipboard</span>
           </h3>
-          <div class="flex-1 flex flex-col gap-2">
-            ${clipboardObject ? this.renderCompactObjectItem(clipboardObject, 'clipboard') : '<div class="text-xs opacity-50 text-center py-4">Empty</div>'}
+          <div class="flex-1 flex flex-col gap-2 overflow-y-auto custom-scrollbar">
+            ${clipboardObjects.length > 0
+              ? clipboardObjects.map(obj => this.renderCompactObjectItem(obj, 'clipboard')).join('')
+              : '<div class="text-xs opacity-50 text-center py-4">Empty</div>'
+            }
           </div>
         </div>
         
@@ -124,6 +164,21 @@ export class Workspace {
             }
           </div>
         </div>
+        
+        <!-- Camera Bookmarks Section -->
+        <div class="w-48 border-l border-base-300 p-3 flex flex-col">
+          <h3 class="text-xs font-bold text-info mb-3 flex items-center gap-1">
+            <span>📍</span>
+            <span class="flex-1">Views (${bookmarks.length})</span>
+            <button class="add-bookmark btn btn-xs btn-ghost px-1" title="Bookmark the current view">＋</button>
+          </h3>
+          <div class="flex-1 flex flex-col gap-1 overflow-y-auto custom-scrollbar">
+            ${bookmarks.length > 0
+              ? bookmarks.map(bookmark => this.renderBookmarkItem(bookmark)).join('')
+              : '<div class="text-xs opacity-50 py-4">No saved views</div>'
+            }
+          </div>
+        </div>
       </div>
     `
   }
@@ -135,8 +190,8 @@ export class Workspace {
   }
   
   private renderCompactObjectItem(obj: GeometricObject, context: 'clipboard' | 'favorite'): string {
-    const isSelected = gameStore.geometry.selection.selectedObjectId === obj.id
-    const colorHex = `#${obj.color.toString(16).padStart(6, '0')}`
+    const isSelected = updateGameStore.isObjectSelected(obj.id)
+    const colorHex = `#${obj.style.color.toString(16).padStart(6, '0')}`
     const objectType = this.getObjectType(obj)
     const typeIcon = this.getObjectTypeIcon(objectType)
     const position = this.formatCompactPosition(obj)
@@ -175,29 +230,32 @@ export class Workspace {
     `
   }
   
+  private renderBookmarkItem(bookmark: CameraBookmark): string {
+    const name = this.escapeHtml(bookmark.name)
+    return `
+      <div class="group flex items-center gap-1 bg-base-200/50 hover:bg-base-300/70 border border-base-300 rounded px-2 py-1 cursor-pointer text-xs"
+           data-bookmark-id="${bookmark.id}"
+           title="Fly to ${name}">
+        <span class="flex-1 truncate font-semibold">${name}</span>
+        <span class="font-mono text-base-content/60">${bookmark.pixeloidScale}×</span>
+        <button class="rename-bookmark opacity-0 group-hover:opacity-100 hover:text-primary" title="Rename">✎</button>
+        <button class="remove-bookmark opacity-0 group-hover:opacity-100 hover:text-error" title="Delete bookmark">✕</button>
+      </div>
+    `
+  }
+  
+  private escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+  }
+  
   private formatCompactPosition(obj: GeometricObject): string {
-    if ('anchorX' in obj && 'anchorY' in obj) {
-      return `${obj.anchorX.toFixed(0)},${obj.anchorY.toFixed(0)}`
-    } else if ('centerX' in obj && 'centerY' in obj) {
-      return `${obj.centerX.toFixed(0)},${obj.centerY.toFixed(0)}`
-    } else if ('x' in obj && 'y' in obj && 'width' in obj) {
-      return `${obj.x.toFixed(0)},${obj.y.toFixed(0)}`
-    } else if ('startX' in obj && 'endX' in obj) {
-      return `${obj.startX.toFixed(0)},${obj.startY.toFixed(0)}`
-    } else if ('x' in obj && 'y' in obj) {
-      return `${obj.x.toFixed(0)},${obj.y.toFixed(0)}`
-    }
-    return '0,0'
+    const position = GeometryHelper.getObjectPosition(obj)
+    return `${position.x.toFixed(0)},${position.y.toFixed(0)}`
   }
   
   
   private getObjectType(obj: GeometricObject): string {
-    if ('anchorX' in obj) return 'Diamond'
-    if ('width' in obj && 'height' in obj) return 'Rectangle'
-    if ('centerX' in obj && 'radius' in obj) return 'Circle'
-    if ('startX' in obj && 'endX' in obj) return 'Line'
-    if ('x' in obj && 'y' in obj) return 'Point'
-    return 'Object'
+    return obj.type.charAt(0).toUpperCase() + obj.type.slice(1)
   }
   
   private getObjectTypeIcon(type: string): string {
@@ -207,6 +265,8 @@ export class Workspace {
       case 'Circle': return '○'
       case 'Rectangle': return '▢'
       case 'Diamond': return '◇'
+      case 'Polygon': return '⬠'
+      case 'Polyline': return '⌇'
       default: return '?'
     }
   }
@@ -4,4 +4,6 @@ export { GeometryPanel } from './GeometryPanel';
 export { LayerToggleBar } from './LayerToggleBar';
 export { ObjectEditPanel } from './ObjectEditPanel';
 export { StoreExplorer } from './StoreExplorer';
-export { Workspace } from './Workspace';
\ No newline at end of file
+export { Workspace } from './Workspace';
+export { KeybindingHelp } from './KeybindingHelp';
+export { Minimap } from './Minimap';
\ No newline at end of file